@@ -0,0 +1,113 @@
+import { Command } from "commander";
+import { withConnection } from "../core/connection.js";
+import { approveRequest, rejectRequest } from "../core/approvals.js";
+import { daemonIpcAvailable, daemonRequest } from "../core/ipc.js";
+import { listApprovals, getApproval, type ApprovalRow, type ApprovalStatus } from "../core/store.js";
+import { loadConfig } from "../config/schema.js";
+import { outputResult, outputPage, readOrExit, formatTimestamp } from "./format.js";
+import { EXIT_GENERAL_ERROR, EXIT_NOT_FOUND } from "./exit-codes.js";
+
+const STATUSES: ApprovalStatus[] = ["pending", "sending", "sent", "rejected"];
+
+function describe(row: ApprovalRow): string {
+  switch (row.kind) {
+    case "poll":
+      return `poll: ${row.body}`;
+    case "media":
+      return `media: ${row.media_path}${row.body ? ` "${row.body}"` : ""}`;
+    default:
+      return row.body ?? "";
+  }
+}
+
+function findOrExit(idArg: string): ApprovalRow {
+  const id = parseInt(idArg, 10);
+  const row = Number.isNaN(id) ? undefined : getApproval(id);
+  if (!row) {
+    console.error(`Approval not found: ${idArg}`);
+    process.exit(EXIT_NOT_FOUND);
+  }
+  return row;
+}
+
+export function registerApprovalsCommand(program: Command): void {
+  const approvals = program
+    .command("approvals")
+    .description("Review messages agents drafted into `approve` chats");
+
+  approvals
+    .command("list")
+    .description("List held messages, newest first")
+    .option("--status <status>", `Only show one status (${STATUSES.join(", ")})`, "pending")
+    .option("--all", "Show every status")
+    .option("--limit <n>", "Max rows", "50")
+    .option("--cursor <cursor>", "Continue from a previous page's next_cursor")
+    .option("--paged", "With --json, wrap the rows as {<rows>, next_cursor} (implied by --cursor)")
+    .option("--json", "Output as JSON")
+    .action((opts: { status: string; all?: boolean; limit: string; cursor?: string; paged?: boolean; json?: boolean }) => {
+      if (!STATUSES.includes(opts.status as ApprovalStatus)) {
+        console.error(`Invalid status "${opts.status}": use ${STATUSES.join(", ")}`);
+        process.exit(EXIT_GENERAL_ERROR);
+      }
+      const rows = readOrExit(() =>
+        listApprovals({
+          status: opts.all ? undefined : (opts.status as ApprovalStatus),
+          limit: parseInt(opts.limit, 10),
+          cursor: opts.cursor,
+        })
+      );
+      outputPage("approvals", rows, rows.next_cursor, {
+        json: opts.json,
+        paged: opts.paged || opts.cursor !== undefined,
+        print: () => {
+          if (rows.length === 0) console.log(opts.all ? "No approvals." : `No ${opts.status} approvals.`);
+          for (const row of rows) {
+            let state = `requested by ${row.requested_by} ${formatTimestamp(row.created_at)}`;
+            if (row.status === "sent") state = `sent as ${row.message_id}`;
+            else if (row.status === "rejected") state = `rejected${row.last_error ? `: ${row.last_error}` : ""}`;
+            else if (row.last_error) state += `, last attempt failed: ${row.last_error}`;
+            console.log(`#${row.id} [${row.status}] ${row.chat_jid}: ${describe(row)}  (${state})`);
+          }
+        },
+      });
+    });
+
+  approvals
+    .command("approve <id>")
+    .description("Send a held message")
+    .option("--json", "Output as JSON")
+    .action(async (idArg: string, opts: { json?: boolean }) => {
+      const row = findOrExit(idArg);
+      const config = loadConfig();
+      try {
+        // The daemon holds the session when it runs: let it send.
+        let result: ApprovalRow;
+        if (await daemonIpcAvailable()) {
+          result = await daemonRequest<ApprovalRow>("approvals.approve", { id: row.id });
+        } else {
+          result = await withConnection((sock) => approveRequest(sock, row.id, config), { quiet: true });
+        }
+        if (opts.json) outputResult(result, { json: true });
+        else console.log(`Approved #${result.id}: sent as ${result.message_id}`);
+      } catch (err) {
+        const error = err as Error & { exitCode?: number };
+        console.error(error.message);
+        process.exit(error.exitCode || EXIT_GENERAL_ERROR);
+      }
+    });
+
+  approvals
+    .command("reject <id>")
+    .description("Discard a held message without sending it")
+    .option("--reason <text>", "Why, recorded with the item")
+    .action((idArg: string, opts: { reason?: string }) => {
+      const row = findOrExit(idArg);
+      try {
+        rejectRequest(row.id, opts.reason);
+      } catch (err) {
+        console.error((err as Error).message);
+        process.exit(EXIT_GENERAL_ERROR);
+      }
+      console.log(`Rejected #${row.id}`);
+    });
+}
@@ -0,0 +1,49 @@
+import { Command } from "commander";
+import { listAuditEntries } from "../core/store.js";
+import { parseSince } from "../core/time.js";
+import { outputPage, formatTimestamp } from "./format.js";
+import { EXIT_GENERAL_ERROR } from "./exit-codes.js";
+
+export function registerAuditCommand(program: Command): void {
+  const audit = program
+    .command("audit")
+    .description("Review privileged actions: sends, reactions, deletes, group management, constraint changes");
+
+  audit
+    .command("list")
+    .description("List audit entries, newest first")
+    .option("--since <when>", "Only entries since: 24h, 7d, a unix timestamp, or a date")
+    .option("--chat <jid>", "Only entries targeting this chat")
+    .option("--actor <actor>", "Only this actor: cli, mcp, ipc, rule, daemon")
+    .option("--limit <n>", "Max entries", "100")
+    .option("--cursor <cursor>", "Continue from a previous page's next_cursor")
+    .option("--paged", "With --json, wrap the rows as {<rows>, next_cursor} (implied by --cursor)")
+    .option("--json", "Output as JSON")
+    .action((opts: { since?: string; chat?: string; actor?: string; limit: string; cursor?: string; paged?: boolean; json?: boolean }) => {
+      let rows;
+      try {
+        rows = listAuditEntries({
+          since: opts.since ? parseSince(opts.since) : undefined,
+          chatJid: opts.chat,
+          actor: opts.actor,
+          limit: parseInt(opts.limit, 10),
+          cursor: opts.cursor,
+        });
+      } catch (err) {
+        console.error((err as Error).message);
+        process.exit(EXIT_GENERAL_ERROR);
+      }
+      outputPage("entries", rows, rows.next_cursor, {
+        json: opts.json,
+        paged: opts.paged || opts.cursor !== undefined,
+        print: () => {
+          if (rows.length === 0) console.log("No audit entries.");
+          for (const row of rows) {
+            const actor = row.client ? `${row.actor} (${row.client})` : row.actor;
+            const result = row.result === "ok" ? "ok" : `${row.result.toUpperCase()}: ${row.error ?? ""}`;
+            console.log(`[${formatTimestamp(row.at)}] ${actor} ${row.action} ${row.target_jid ?? "-"} ${result}`);
+          }
+        },
+      });
+    });
+}
@@ -1,7 +1,7 @@
 import { Command } from "commander";
 import { listChatsForConfig, searchChatsForConfig } from "../core/service.js";
 import { loadConfig } from "../config/schema.js";
-import { outputResult, formatTimestamp } from "./format.js";
+import { outputPage, readOrExit, formatTimestamp } from "./format.js";
 
 export function registerChatsCommand(program: Command): void {
   const chats = program.command("chats").description("List and search chats");
@@ -10,52 +10,60 @@ export function registerChatsCommand(program: Command): void {
     .command("list")
     .description("List all chats")
     .option("--limit <n>", "Max chats to show", "100")
+    .option("--cursor <cursor>", "Continue from a previous page's next_cursor")
+    .option("--paged", "With --json, wrap the rows as {<rows>, next_cursor} (implied by --cursor)")
     .option("--json", "Output as JSON")
-    .action((opts: { limit: string; json?: boolean }) => {
+    .action((opts: { limit: string; cursor?: string; paged?: boolean; json?: boolean }) => {
       const config = loadConfig();
       const limit = parseInt(opts.limit, 10);
-      const rows = listChatsForConfig(config, { limit });
+      const rows = readOrExit(() => listChatsForConfig(config, { limit, cursor: opts.cursor }));
 
       if (rows.length === 0) {
         console.log("No chats found. Run `wu daemon` or `wu listen` to collect data.");
         return;
       }
 
-      if (opts.json) {
-        outputResult(rows, { json: true });
-      } else {
-        for (const row of rows) {
-          const lastMsg = row.last_message_at
-            ? formatTimestamp(row.last_message_at)
-            : "never";
-          const name = row.name || row.jid;
-          console.log(`${name}  [${row.type}]  ${row.jid}  last: ${lastMsg}`);
-        }
-      }
+      outputPage("chats", rows, rows.next_cursor, {
+        json: opts.json,
+        paged: opts.paged || opts.cursor !== undefined,
+        print: () => {
+          for (const row of rows) {
+            const lastMsg = row.last_message_at
+              ? formatTimestamp(row.last_message_at)
+              : "never";
+            const name = row.name || row.jid;
+            console.log(`${name}  [${row.type}]  ${row.jid}  last: ${lastMsg}`);
+          }
+        },
+      });
     });
 
   chats
     .command("search <query>")
     .description("Search chats by name")
     .option("--limit <n>", "Max results", "100")
+    .option("--cursor <cursor>", "Continue from a previous page's next_cursor")
+    .option("--paged", "With --json, wrap the rows as {<rows>, next_cursor} (implied by --cursor)")
     .option("--json", "Output as JSON")
-    .action((query: string, opts: { limit: string; json?: boolean }) => {
+    .action((query: string, opts: { limit: string; cursor?: string; paged?: boolean; json?: boolean }) => {
       const config = loadConfig();
       const limit = parseInt(opts.limit, 10);
-      const rows = searchChatsForConfig(config, query, { limit });
+      const rows = readOrExit(() => searchChatsForConfig(config, query, { limit, cursor: opts.cursor }));
 
       if (rows.length === 0) {
         console.log("No chats found matching query.");
         return;
       }
 
-      if (opts.json) {
-        outputResult(rows, { json: true });
-      } else {
-        for (const row of rows) {
-          const name = row.name || row.jid;
-          console.log(`${name}  [${row.type}]  ${row.jid}`);
-        }
-      }
+      outputPage("chats", rows, rows.next_cursor, {
+        json: opts.json,
+        paged: opts.paged || opts.cursor !== undefined,
+        print: () => {
+          for (const row of rows) {
+            const name = row.name || row.jid;
+            console.log(`${name}  [${row.type}]  ${row.jid}`);
+          }
+        },
+      });
     });
 }
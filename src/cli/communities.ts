@@ -1,28 +1,51 @@
 import { Command } from "commander";
+import type { WASocket } from "@whiskeysockets/baileys";
 import { listCommunitiesForConfig } from "../core/service.js";
+import { createCommunity, linkGroup, unlinkGroup, announcementGroup, communityMembers } from "../core/communities.js";
+import { sendText } from "../core/sender.js";
+import { withConnection } from "../core/connection.js";
+import { daemonIpcAvailable, daemonRequest } from "../core/ipc.js";
 import { loadConfig } from "../config/schema.js";
 import { resolveConstraint } from "../core/constraints.js";
-import { outputResult } from "./format.js";
+import { outputResult, outputPage, readOrExit } from "./format.js";
+import { EXIT_GENERAL_ERROR } from "./exit-codes.js";
+
+// Changes go through the daemon's socket when it's running.
+async function viaDaemon<T>(method: string, params: Record<string, unknown>, local: (sock: WASocket) => Promise<T>): Promise<T> {
+  if (await daemonIpcAvailable()) return daemonRequest<T>(method, params);
+  return withConnection(local, { quiet: true });
+}
+
+function exitWithError(err: unknown): never {
+  const error = err as Error & { exitCode?: number };
+  console.error(error.message);
+  process.exit(error.exitCode || EXIT_GENERAL_ERROR);
+}
 
 export function registerCommunitiesCommand(program: Command): void {
   const communities = program
     .command("communities")
-    .description("List WhatsApp Communities (parent groups containing subgroups)");
+    .description("List and manage WhatsApp Communities (parent groups containing subgroups)");
 
   communities
     .command("list")
     .description("List all known communities")
     .option("--limit <n>", "Max communities to show", "100")
     .option("--with-subgroups", "Include subgroups under each community")
+    .option("--cursor <cursor>", "Continue from a previous page's next_cursor")
+    .option("--paged", "With --json, wrap the rows as {<rows>, next_cursor} (implied by --cursor)")
     .option("--json", "Output as JSON")
     .action(
-      (opts: { limit: string; withSubgroups?: boolean; json?: boolean }) => {
+      (opts: { limit: string; withSubgroups?: boolean; cursor?: string; paged?: boolean; json?: boolean }) => {
         const config = loadConfig();
         const limit = parseInt(opts.limit, 10);
-        const { parents, childrenByParent } = listCommunitiesForConfig(config, {
-          limit,
-          withSubgroups: opts.withSubgroups,
-        });
+        const { parents, childrenByParent } = readOrExit(() =>
+          listCommunitiesForConfig(config, {
+            limit,
+            withSubgroups: opts.withSubgroups,
+            cursor: opts.cursor,
+          })
+        );
 
         if (parents.length === 0) {
           console.log(
@@ -32,38 +55,138 @@ export function registerCommunitiesCommand(program: Command): void {
           return;
         }
 
+        const rows = parents.map((p) => ({
+          jid: p.jid,
+          name: p.name,
+          constraint: resolveConstraint(p.jid, config),
+          subgroups: opts.withSubgroups
+            ? (childrenByParent.get(p.jid) || []).map((c) => ({
+                jid: c.jid,
+                name: c.name,
+                is_announce: c.is_community_announce === 1,
+                constraint: resolveConstraint(c.jid, config),
+              }))
+            : undefined,
+        }));
+        outputPage("communities", rows, parents.next_cursor, {
+          json: opts.json,
+          paged: opts.paged || opts.cursor !== undefined,
+          print: () => {
+            for (const p of rows) {
+              console.log(`${p.name || p.jid}  [${p.constraint}]  ${p.jid}`);
+              for (const k of p.subgroups ?? []) {
+                const tag = k.is_announce ? "announce" : "subgroup";
+                console.log(`  └─ ${k.name || k.jid}  [${tag}] [${k.constraint}]  ${k.jid}`);
+              }
+            }
+          },
+        });
+      }
+    );
+
+  communities
+    .command("create <name>")
+    .description("Create a community (WhatsApp adds its announcement group)")
+    .option("--description <text>", "Community description")
+    .option("--json", "Output as JSON")
+    .action(async (name: string, opts: { description?: string; json?: boolean }) => {
+      try {
+        const created = await viaDaemon<{ id: string; name: string }>(
+          "communities.create",
+          { name, description: opts.description },
+          async (sock) => {
+            const meta = await createCommunity(sock, name, opts.description);
+            return { id: meta.id, name: meta.subject };
+          }
+        );
         if (opts.json) {
-          outputResult(
-            parents.map((p) => ({
-              jid: p.jid,
-              name: p.name,
-              constraint: resolveConstraint(p.jid, config),
-              subgroups: opts.withSubgroups
-                ? (childrenByParent.get(p.jid) || []).map((c) => ({
-                    jid: c.jid,
-                    name: c.name,
-                    is_announce: c.is_community_announce === 1,
-                    constraint: resolveConstraint(c.jid, config),
-                  }))
-                : undefined,
-            })),
-            { json: true }
-          );
-          return;
+          outputResult(created, { json: true });
+        } else {
+          console.log(`Community created: ${created.id}`);
+          console.log(`Name: ${created.name}`);
         }
+      } catch (err) {
+        exitWithError(err);
+      }
+    });
 
-        for (const p of parents) {
-          const status = resolveConstraint(p.jid, config);
-          console.log(`${p.name || p.jid}  [${status}]  ${p.jid}`);
-          if (opts.withSubgroups) {
-            const kids = childrenByParent.get(p.jid) || [];
-            for (const k of kids) {
-              const tag = k.is_community_announce === 1 ? "announce" : "subgroup";
-              const kStatus = resolveConstraint(k.jid, config);
-              console.log(`  └─ ${k.name || k.jid}  [${tag}] [${kStatus}]  ${k.jid}`);
-            }
+  communities
+    .command("link <community> <group>")
+    .description("Link an existing group into a community (both need a full constraint)")
+    .option("--json", "Output as JSON")
+    .action(async (community: string, group: string, opts: { json?: boolean }) => {
+      const config = loadConfig();
+      try {
+        await viaDaemon("communities.link", { community, group }, (sock) => linkGroup(sock, community, group, config));
+        if (opts.json) outputResult({ success: true, community, group }, { json: true });
+        else console.log(`Linked ${group} to ${community}`);
+      } catch (err) {
+        exitWithError(err);
+      }
+    });
+
+  communities
+    .command("unlink <community> <group>")
+    .description("Unlink a group from a community (both need a full constraint)")
+    .option("--json", "Output as JSON")
+    .action(async (community: string, group: string, opts: { json?: boolean }) => {
+      const config = loadConfig();
+      try {
+        await viaDaemon("communities.unlink", { community, group }, (sock) => unlinkGroup(sock, community, group, config));
+        if (opts.json) outputResult({ success: true, community, group }, { json: true });
+        else console.log(`Unlinked ${group} from ${community}`);
+      } catch (err) {
+        exitWithError(err);
+      }
+    });
+
+  communities
+    .command("announce <community> <text>")
+    .description("Post to the community's announcement group")
+    .option("--json", "Output as JSON")
+    .action(async (community: string, text: string, opts: { json?: boolean }) => {
+      const config = loadConfig();
+      try {
+        const sent = await viaDaemon<{ jid: string; id: unknown; timestamp: unknown; queued?: boolean; outbox_id?: number }>(
+          "communities.announce",
+          { community, text },
+          async (sock) => {
+            const jid = await announcementGroup(sock, community, config);
+            const msg = await sendText(sock, jid, text, config);
+            return { jid, id: msg?.key?.id, timestamp: msg?.messageTimestamp };
           }
-        }
+        );
+        if (opts.json) outputResult(sent, { json: true });
+        else if (sent.queued) console.log(`Queued #${sent.outbox_id} for ${sent.jid}: the daemon will send it once reconnected`);
+        else console.log(`Sent to ${sent.jid}: ${sent.id}`);
+      } catch (err) {
+        exitWithError(err);
       }
-    );
+    });
+
+  communities
+    .command("members <community>")
+    .description("List everyone in the community or any of its subgroups (from cache)")
+    .option("--json", "Output as JSON")
+    .action((community: string, opts: { json?: boolean }) => {
+      let result;
+      try {
+        result = communityMembers(community, loadConfig());
+      } catch (err) {
+        exitWithError(err);
+      }
+      if (opts.json) {
+        outputResult(result, { json: true });
+        return;
+      }
+      if (result.members.length === 0) {
+        console.log("No participants cached. Run `wu groups list --live` to fetch them.");
+      }
+      for (const m of result.members) {
+        console.log(`${m.jid}${m.is_admin ? "  [admin]" : ""}  (${m.groups.length} group${m.groups.length === 1 ? "" : "s"})`);
+      }
+      if (result.skipped.length > 0) {
+        console.error(`Left out ${result.skipped.length} group(s) blocked by constraints: ${result.skipped.join(", ")}`);
+      }
+    });
 }
@@ -4,13 +4,21 @@ import {
   loadConfig,
   saveConfig,
   setConfigValue,
+  WuConfigSchema,
   type ConstraintMode,
+  type ChatConstraint,
 } from "../config/schema.js";
-import { CONFIG_PATH, DB_PATH } from "../config/paths.js";
+import { CONFIG_PATH } from "../config/paths.js";
+import { resolveDbPath } from "../db/database.js";
 import { getChat } from "../core/service.js";
+import { constraintActive } from "../core/constraints.js";
+import { parseWhen } from "../core/schedule.js";
+import { recordAudit } from "../core/audit.js";
+import { quotaUsage } from "../core/quotas.js";
+import { outputResult } from "./format.js";
 import { existsSync } from "fs";
 
-const VALID_MODES = ["full", "read", "none"] as const;
+const VALID_MODES = ["full", "approve", "read", "none"] as const;
 
 function isValidMode(v: string): v is ConstraintMode {
   return (VALID_MODES as readonly string[]).includes(v);
@@ -23,6 +31,22 @@ function ensureConstraints(config: ReturnType<typeof loadConfig>) {
   return config.constraints;
 }
 
+function splitList(value: string | undefined): string[] | undefined {
+  return value ? value.split(",").map((s) => s.trim()).filter(Boolean) : undefined;
+}
+
+// The optional narrowing on an entry, for `wu config constraints`.
+function describeLimits(entry: ChatConstraint): string {
+  const parts: string[] = [];
+  if (entry.expires_at) parts.push(`expires ${entry.expires_at}`);
+  if (entry.hours) parts.push(`hours ${entry.hours}`);
+  if (entry.senders) parts.push(`senders ${entry.senders.join(",")}`);
+  if (entry.types) parts.push(`types ${entry.types.join(",")}`);
+  if (entry.skip_types) parts.push(`skip ${entry.skip_types.join(",")}`);
+  if (parts.length > 0 && !constraintActive(entry)) parts.push("INACTIVE now");
+  return parts.join("; ");
+}
+
 export function registerConfigCommand(program: Command): void {
   const config = program.command("config").description("Manage wu configuration");
 
@@ -56,20 +80,49 @@ export function registerConfigCommand(program: Command): void {
   config
     .command("allow <jid>")
     .description("Allow a chat (full access: read + write + manage)")
-    .option("--mode <mode>", "Access mode: full or read (default: full)", "full")
-    .action((jid: string, opts: { mode: string }) => {
-      const mode = opts.mode;
-      if (mode !== "full" && mode !== "read") {
-        console.error(`Invalid mode "${mode}". Use "full" or "read".`);
-        process.exit(1);
-      }
+    .option("--mode <mode>", "Access mode: full, approve (agent sends need approval) or read (default: full)", "full")
+    .option("--expires <when>", "Temporary access: +2h, 18:00, tomorrow 9am, or an ISO date")
+    .option("--hours <window>", "Only applies during local hours, e.g. 09:00-18:00")
+    .option("--senders <jids>", "Only collect messages from these participants (comma-separated)")
+    .option("--types <types>", "Only collect these message types (comma-separated)")
+    .option("--skip-types <types>", "Never collect these message types, e.g. sticker")
+    .action(
+      (
+        jid: string,
+        opts: { mode: string; expires?: string; hours?: string; senders?: string; types?: string; skipTypes?: string }
+      ) => {
+        const mode = opts.mode;
+        if (mode !== "full" && mode !== "approve" && mode !== "read") {
+          console.error(`Invalid mode "${mode}". Use "full", "approve" or "read".`);
+          process.exit(1);
+        }
 
-      const cfg = loadConfig();
-      const constraints = ensureConstraints(cfg);
-      constraints.chats[jid] = { mode };
-      saveConfig(cfg);
-      console.log(`${jid} → ${mode}`);
-    });
+        const entry: ChatConstraint = { mode };
+        try {
+          if (opts.expires) entry.expires_at = new Date(parseWhen(opts.expires) * 1000).toISOString();
+        } catch (err) {
+          console.error((err as Error).message);
+          process.exit(1);
+        }
+        if (opts.hours) entry.hours = opts.hours;
+        if (opts.senders) entry.senders = splitList(opts.senders);
+        if (opts.types) entry.types = splitList(opts.types);
+        if (opts.skipTypes) entry.skip_types = splitList(opts.skipTypes);
+
+        const cfg = loadConfig();
+        const constraints = ensureConstraints(cfg);
+        constraints.chats[jid] = entry;
+        const checked = WuConfigSchema.safeParse(cfg);
+        if (!checked.success) {
+          console.error(checked.error.issues.map((i) => i.message).join("\n"));
+          process.exit(1);
+        }
+        saveConfig(cfg);
+        recordAudit("constraints_set", jid, entry);
+        const limits = describeLimits(entry);
+        console.log(`${jid} → ${mode}${limits ? ` (${limits})` : ""}`);
+      }
+    );
 
   config
     .command("block <jid>")
@@ -79,6 +132,7 @@ export function registerConfigCommand(program: Command): void {
       const constraints = ensureConstraints(cfg);
       constraints.chats[jid] = { mode: "none" };
       saveConfig(cfg);
+      recordAudit("constraints_set", jid, { mode: "none" });
       console.log(`${jid} → none`);
     });
 
@@ -91,6 +145,7 @@ export function registerConfigCommand(program: Command): void {
       if (constraints.chats[jid]) {
         delete constraints.chats[jid];
         saveConfig(cfg);
+        recordAudit("constraints_remove", jid, undefined);
         console.log(`Removed ${jid} — falls back to default (${constraints.default})`);
       } else {
         console.log(`No constraint found for ${jid}`);
@@ -99,7 +154,7 @@ export function registerConfigCommand(program: Command): void {
 
   config
     .command("default [mode]")
-    .description("Get or set the default constraint mode (full, read, none)")
+    .description("Get or set the default constraint mode (full, approve, read, none)")
     .action((mode?: string) => {
       if (!mode) {
         const cfg = loadConfig();
@@ -109,7 +164,7 @@ export function registerConfigCommand(program: Command): void {
       }
 
       if (!isValidMode(mode)) {
-        console.error(`Invalid mode "${mode}". Use: full, read, none`);
+        console.error(`Invalid mode "${mode}". Use: ${VALID_MODES.join(", ")}`);
         process.exit(1);
       }
 
@@ -117,6 +172,7 @@ export function registerConfigCommand(program: Command): void {
       const constraints = ensureConstraints(cfg);
       constraints.default = mode;
       saveConfig(cfg);
+      recordAudit("constraints_default", null, { mode });
       console.log(`Default constraint → ${mode}`);
     });
 
@@ -138,10 +194,11 @@ export function registerConfigCommand(program: Command): void {
       const entries = Object.entries(constraints.chats);
       const maxJid = Math.max(...entries.map(([jid]) => jid.length));
 
-      const dbExists = existsSync(cfg.db?.path || DB_PATH);
+      const dbExists = existsSync(resolveDbPath(cfg));
       const maxMode = Math.max(...entries.map(([, { mode }]) => mode.length));
 
-      for (const [jid, { mode }] of entries) {
+      for (const [jid, entry] of entries) {
+        const { mode } = entry;
         let namePart = "";
         if (dbExists && !jid.startsWith("*")) {
           const row = getChat(jid);
@@ -150,8 +207,26 @@ export function registerConfigCommand(program: Command): void {
             namePart = `  ${row.name}${count}`;
           }
         }
-        const modePad = namePart ? mode.padEnd(maxMode) : mode;
-        console.log(`  ${jid.padEnd(maxJid)}  ${modePad}${namePart}`);
+        const limits = describeLimits(entry);
+        const modePad = namePart || limits ? mode.padEnd(maxMode) : mode;
+        console.log(`  ${jid.padEnd(maxJid)}  ${modePad}${namePart}${limits ? `  [${limits}]` : ""}`);
+      }
+    });
+
+  config
+    .command("quotas [jid]")
+    .description("Show send quotas and how much of each is used (per-chat ones with a JID)")
+    .option("--json", "Output as JSON")
+    .action((jid: string | undefined, opts: { json?: boolean }) => {
+      const usage = quotaUsage(loadConfig(), jid);
+      if (opts.json) {
+        outputResult(usage, { json: true });
+        return;
+      }
+      const width = Math.max(...usage.map((u) => u.quota.length));
+      for (const u of usage) {
+        console.log(`  ${u.quota.padEnd(width)}  ${u.used} / ${u.limit ?? "unlimited"}`);
       }
+      console.log("\nSet one with `wu config set quotas.<name> <n>`.");
     });
 }
@@ -1,7 +1,52 @@
 import { Command } from "commander";
-import { listContacts, searchContacts } from "../core/store.js";
-import { outputResult } from "./format.js";
-import { EXIT_NOT_FOUND } from "./exit-codes.js";
+import { readFileSync } from "fs";
+import { listContacts, searchContacts, getContact, listContactsToRefresh, type ContactRow } from "../core/store.js";
+import { withConnection } from "../core/connection.js";
+import { refreshContacts, checkNumbers, readCsvPhones, phoneToJid, type NumberCheck } from "../core/contacts.js";
+import { daemonIpcAvailable, daemonRequest } from "../core/ipc.js";
+import { parseDuration } from "../core/media.js";
+import { loadConfig } from "../config/schema.js";
+import { outputResult, outputPage, readOrExit, formatTimestamp } from "./format.js";
+import { EXIT_GENERAL_ERROR, EXIT_NOT_FOUND } from "./exit-codes.js";
+
+function jidOrExit(arg: string): string {
+  try {
+    return phoneToJid(arg);
+  } catch (err) {
+    console.error((err as Error).message);
+    process.exit(EXIT_GENERAL_ERROR);
+  }
+}
+
+function printCheck(check: NumberCheck): void {
+  if (check.error) console.log(`${check.input}  invalid: ${check.error}`);
+  else if (!check.exists) console.log(`${check.phone}  not on WhatsApp`);
+  else console.log(`${check.phone}  ${check.jid}${check.is_business ? "  (business)" : ""}`);
+}
+
+function printContact(contact: ContactRow): void {
+  const lines: Array<[string, string | null]> = [
+    ["JID", contact.jid],
+    ["Phone", contact.phone],
+    ["Name", contact.push_name],
+    ["Saved name", contact.saved_name],
+    ["About", contact.about && (contact.about_set_at ? `${contact.about}  (set ${formatTimestamp(contact.about_set_at)})` : contact.about)],
+    ["Picture", contact.picture_path || contact.picture_url],
+    ["Business", contact.is_business ? contact.business_category || "yes" : null],
+    ["Description", contact.business_description],
+    ["Website", contact.business_website],
+    ["Email", contact.business_email],
+    ["Address", contact.business_address],
+  ];
+  for (const [label, value] of lines) {
+    if (value) console.log(`${label}: ${value}`);
+  }
+  console.log(
+    contact.profile_fetched_at
+      ? `Profile fetched: ${formatTimestamp(contact.profile_fetched_at)}`
+      : `Profile not fetched yet (run \`wu contacts refresh ${contact.jid}\`)`
+  );
+}
 
 export function registerContactsCommand(program: Command): void {
   const contacts = program
@@ -12,9 +57,11 @@ export function registerContactsCommand(program: Command): void {
     .command("list")
     .description("List all contacts")
     .option("--limit <n>", "Max contacts to show", "100")
+    .option("--cursor <cursor>", "Continue from a previous page's next_cursor")
+    .option("--paged", "With --json, wrap the rows as {<rows>, next_cursor} (implied by --cursor)")
     .option("--json", "Output as JSON")
-    .action((opts: { limit: string; json?: boolean }) => {
-      const rows = listContacts({ limit: parseInt(opts.limit, 10) });
+    .action((opts: { limit: string; cursor?: string; paged?: boolean; json?: boolean }) => {
+      const rows = readOrExit(() => listContacts({ limit: parseInt(opts.limit, 10), cursor: opts.cursor }));
 
       if (rows.length === 0) {
         console.log(
@@ -23,40 +70,49 @@ export function registerContactsCommand(program: Command): void {
         return;
       }
 
-      if (opts.json) {
-        outputResult(rows, { json: true });
-      } else {
-        for (const row of rows) {
-          const name = row.push_name || row.saved_name || "unknown";
-          console.log(`${name}  ${row.phone || row.jid}  ${row.jid}`);
-        }
-      }
+      outputPage("contacts", rows, rows.next_cursor, {
+        json: opts.json,
+        paged: opts.paged || opts.cursor !== undefined,
+        print: () => {
+          for (const row of rows) {
+            const name = row.push_name || row.saved_name || "unknown";
+            console.log(`${name}  ${row.phone || row.jid}  ${row.jid}`);
+          }
+        },
+      });
     });
 
   contacts
     .command("search <query>")
     .description("Search contacts by name or phone")
     .option("--limit <n>", "Max results", "100")
+    .option("--cursor <cursor>", "Continue from a previous page's next_cursor")
+    .option("--paged", "With --json, wrap the rows as {<rows>, next_cursor} (implied by --cursor)")
     .option("--json", "Output as JSON")
     .action(
-      (query: string, opts: { limit: string; json?: boolean }) => {
-        const rows = searchContacts(query, {
-          limit: parseInt(opts.limit, 10),
-        });
+      (query: string, opts: { limit: string; cursor?: string; paged?: boolean; json?: boolean }) => {
+        const rows = readOrExit(() =>
+          searchContacts(query, {
+            limit: parseInt(opts.limit, 10),
+            cursor: opts.cursor,
+          })
+        );
 
         if (rows.length === 0) {
           console.log("No contacts found matching query.");
           return;
         }
 
-        if (opts.json) {
-          outputResult(rows, { json: true });
-        } else {
-          for (const row of rows) {
-            const name = row.push_name || row.saved_name || "unknown";
-            console.log(`${name}  ${row.phone || row.jid}  ${row.jid}`);
-          }
-        }
+        outputPage("contacts", rows, rows.next_cursor, {
+          json: opts.json,
+          paged: opts.paged || opts.cursor !== undefined,
+          print: () => {
+            for (const row of rows) {
+              const name = row.push_name || row.saved_name || "unknown";
+              console.log(`${name}  ${row.phone || row.jid}  ${row.jid}`);
+            }
+          },
+        });
       }
     );
 
@@ -65,16 +121,113 @@ export function registerContactsCommand(program: Command): void {
     .description("Show contact details")
     .option("--json", "Output as JSON")
     .action((jid: string, opts: { json?: boolean }) => {
-      const rows = searchContacts(jid, { limit: 1 });
-      // Also try exact match from listContacts
-      const allContacts = listContacts({ limit: 10000 });
-      const contact = allContacts.find((c) => c.jid === jid);
+      const contact = getContact(jidOrExit(jid));
 
       if (!contact) {
         console.error(`Contact not found: ${jid}`);
         process.exit(EXIT_NOT_FOUND);
       }
 
-      outputResult(contact, { json: opts.json });
+      if (opts.json) outputResult(contact, { json: true });
+      else printContact(contact);
+    });
+
+  contacts
+    .command("check [phones...]")
+    .description("Check which phone numbers are on WhatsApp and under which JID")
+    .option("--csv <file>", "Read the numbers from a CSV file")
+    .option("--column <name>", "CSV column holding the numbers (default: the first)")
+    .option("--country-code <cc>", "Country code for numbers written without one (e.g. 44)")
+    .option("--save", "Add the numbers that are on WhatsApp to contacts")
+    .option("--business", "Also look up which are business accounts (one more query per number found)")
+    .option("--json", "Output as JSON")
+    .action(
+      async (
+        phones: string[],
+        opts: { csv?: string; column?: string; countryCode?: string; save?: boolean; business?: boolean; json?: boolean }
+      ) => {
+        let numbers = [...phones];
+        if (opts.csv) {
+          try {
+            numbers.push(...readCsvPhones(readFileSync(opts.csv, "utf-8"), opts.column));
+          } catch (err) {
+            console.error((err as Error).message);
+            process.exit(EXIT_GENERAL_ERROR);
+          }
+        }
+        numbers = numbers.filter((n) => n.trim());
+        if (numbers.length === 0) {
+          console.error("Give phone numbers as arguments or with --csv");
+          process.exit(EXIT_GENERAL_ERROR);
+        }
+
+        const checkOpts = { countryCode: opts.countryCode, save: !!opts.save, business: !!opts.business };
+        let checks: NumberCheck[];
+        try {
+          if (await daemonIpcAvailable()) {
+            checks = await daemonRequest<NumberCheck[]>("contacts.check", { numbers, ...checkOpts });
+          } else {
+            checks = await withConnection((sock) => checkNumbers(sock, numbers, checkOpts), { quiet: true });
+          }
+        } catch (err) {
+          console.error((err as Error).message);
+          process.exit(EXIT_GENERAL_ERROR);
+        }
+
+        if (opts.json) outputResult(checks, { json: true });
+        else checks.forEach(printCheck);
+      }
+    );
+
+  contacts
+    .command("refresh [jid]")
+    .description("Fetch profile picture, about text and business profile from WhatsApp")
+    .option("--stale <age>", "Without a JID: refresh contacts not fetched within this age (e.g. 7d)", "7d")
+    .option("--limit <n>", "Without a JID: max contacts to refresh", "50")
+    .option("--pictures", "Also save profile pictures to the media dir")
+    .option("--json", "Output as JSON")
+    .action(async (jid: string | undefined, opts: { stale: string; limit: string; pictures?: boolean; json?: boolean }) => {
+      let jids: string[];
+      if (jid) {
+        jids = [jidOrExit(jid)];
+      } else {
+        const age = parseDuration(opts.stale);
+        if (age === null) {
+          console.error(`Invalid --stale "${opts.stale}": use e.g. 12h, 7d, 2w`);
+          process.exit(EXIT_GENERAL_ERROR);
+        }
+        const before = Math.floor(Date.now() / 1000) - age;
+        jids = listContactsToRefresh(before, parseInt(opts.limit, 10)).map((c) => c.jid);
+        if (jids.length === 0) {
+          console.log("All contacts are up to date.");
+          return;
+        }
+      }
+
+      const config = loadConfig();
+      let outcome: Awaited<ReturnType<typeof refreshContacts>>;
+      try {
+        // The daemon holds the session when it runs: let it fetch.
+        if (await daemonIpcAvailable()) {
+          outcome = await daemonRequest("contacts.refresh", { jids, pictures: !!opts.pictures });
+        } else {
+          outcome = await withConnection((sock) => refreshContacts(sock, jids, config, { pictures: opts.pictures }), {
+            quiet: true,
+          });
+        }
+      } catch (err) {
+        console.error((err as Error).message);
+        process.exit(EXIT_GENERAL_ERROR);
+      }
+
+      if (opts.json) {
+        outputResult(outcome, { json: true });
+      } else if (jid && outcome.results[0]) {
+        printContact(outcome.results[0]);
+      } else {
+        console.log(`Refreshed ${outcome.results.length} contact(s)`);
+      }
+      for (const e of outcome.errors) console.error(`${e.jid}: ${e.error}`);
+      if (outcome.errors.length > 0) process.exit(EXIT_GENERAL_ERROR);
     });
 }
@@ -1,5 +1,5 @@
 import { Command } from "commander";
-import { execFileSync, execSync } from "child_process";
+import { execFileSync } from "child_process";
 import { join } from "path";
 import { homedir } from "os";
 import { unlinkSync } from "fs";
@@ -9,11 +9,17 @@ import { DaemonState } from "../core/daemon-state.js";
 import { startDaemonIpc } from "../core/ipc.js";
 import { watchConfig } from "../core/config-watch.js";
 import { computePrimePending, primeGroup, findSilentGaps } from "../core/primer.js";
+import { runDueSchedules } from "../core/schedule.js";
+import { drainOutbox } from "../core/outbox.js";
+import { dispatchWebhooks } from "../core/webhooks.js";
+import { RuleEngine } from "../core/rules.js";
+import { EventBus } from "../core/events.js";
+import { setDefaultActor } from "../core/audit.js";
 import { acquireLock, releaseLock } from "../core/lock.js";
 import { loadConfig } from "../config/schema.js";
 import { closeDb } from "../db/database.js";
 import { getMessageCount, getStoreHealth } from "../core/store.js";
-import { generateDaemonService, resolveWuBin, checkLinger } from "../core/systemd.js";
+import { generateDaemonService, resolveWuBin, checkLinger, unitName } from "../core/systemd.js";
 import { EXIT_CONNECTION_FAILED, EXIT_GENERAL_ERROR } from "./exit-codes.js";
 
 function log(msg: string): void {
@@ -21,6 +27,9 @@ function log(msg: string): void {
 }
 
 async function runDaemon(): Promise<void> {
+  // Scheduled and outbox sends are the daemon's own; IPC requests and rules
+  // are audited under their own actor.
+  setDefaultActor("daemon");
   try {
     acquireLock();
   } catch (err) {
@@ -43,6 +52,10 @@ async function runDaemon(): Promise<void> {
   const primePending = computePrimePending(currentConfig, Math.floor(Date.now() / 1000));
   // Silent-gap warnings already emitted, so the guardrail flags each chat once.
   const warnedGaps = new Set<string>();
+  // Auto-reply rules; one engine across reconnects so cooldowns carry over.
+  const rules = new RuleEngine();
+  // Live events for IPC subscribers (`wu listen` attached to this daemon).
+  const events = new EventBus();
 
   const conn = new ReconnectingConnection({
     isDaemon: true,
@@ -51,11 +64,19 @@ async function runDaemon(): Promise<void> {
       log("● Connected — collecting messages");
       state.setOpen();
       state.attach(sock);
+      events.emit({ event: "connection", state: "open" });
       listener = startListener(sock, {
         config: currentConfig,
         quiet: true,
-        onMessage: () => state.markMessage(),
+        onMessage: (msg) => {
+          state.markMessage();
+          // Fire and forget: retries back off in the background and failures
+          // end up in the dead-letter table, never blocking ingestion.
+          void dispatchWebhooks(msg, currentConfig);
+        },
         primePending,
+        rules,
+        onEvent: (event) => events.emit(event),
         onPrime: (s, jid) => {
           log(`● Priming newly-allowed group ${jid}`);
           void primeGroup(s, jid, currentConfig);
@@ -65,10 +86,12 @@ async function runDaemon(): Promise<void> {
     onDisconnect: (reason) => {
       log("⚠ Disconnected — waiting for reconnection");
       state.setClosed(reason);
+      events.emit({ event: "connection", state: "closed", reason });
     },
     onReconnecting: (delayMs) => {
       log(`● Reconnecting in ${(delayMs / 1000).toFixed(0)}s...`);
       state.setConnecting();
+      events.emit({ event: "connection", state: "connecting" });
     },
     onFatal: (reason) => {
       log(`✗ ${reason}`);
@@ -128,9 +151,11 @@ async function runDaemon(): Promise<void> {
   }, 60 * 1000);
   watchdogInterval.unref?.();
 
-  // IPC server — lets CLI/MCP media downloads reuse this live socket instead
-  // of opening a second WhatsApp login (which would collide and drop both).
-  const stopIpc = startDaemonIpc(() => conn.getSock(), currentConfig);
+  // IPC server — lets CLI/MCP media downloads and MCP sends reuse this live
+  // socket instead of opening a second WhatsApp login (which would collide and
+  // drop both). Handed the live config so sends obey the current constraints,
+  // and the event bus so `wu listen` can attach instead of logging in again.
+  const stopIpc = startDaemonIpc(() => conn.getSock(), () => currentConfig, undefined, events);
 
   // Hot-reload the collection allowlist: a group allowed via `wu config allow`
   // (or any other config write) starts collecting on the next event instead of
@@ -162,12 +187,58 @@ async function runDaemon(): Promise<void> {
   }, 5 * 60 * 1000);
   gapCheckInterval.unref?.();
 
+  // Scheduled messages (`wu schedule add`): deliver due rows while the socket
+  // is up. Sends can take a while (rate limit, media upload), so a tick that
+  // finds the previous one still running skips instead of double-sending.
+  let scheduleRunning = false;
+  const scheduleInterval = setInterval(() => {
+    const sock = conn.getSock();
+    if (scheduleRunning || !state.isOpen() || !sock) return;
+    scheduleRunning = true;
+    runDueSchedules(sock, currentConfig)
+      .then((results) => {
+        for (const r of results) {
+          log(r.ok ? `● Sent scheduled message #${r.id}` : `⚠ Scheduled message #${r.id} failed: ${r.error}`);
+        }
+      })
+      .catch((err) => log(`⚠ Scheduler error: ${(err as Error).message}`))
+      .finally(() => {
+        scheduleRunning = false;
+      });
+  }, 30 * 1000);
+  scheduleInterval.unref?.();
+
+  // Outbox: sends queued by `wu messages send --queue`, or handed over IPC
+  // and not yet delivered (socket down, transient failure awaiting retry).
+  // Only drained while connected, so a reconnect doesn't burn retry attempts.
+  let outboxRunning = false;
+  const outboxInterval = setInterval(() => {
+    const sock = conn.getSock();
+    if (outboxRunning || !state.isOpen() || !sock) return;
+    outboxRunning = true;
+    drainOutbox(sock, currentConfig)
+      .then((results) => {
+        for (const r of results) {
+          if (r.ok) log(`● Sent queued message #${r.id}`);
+          else if (r.retry_at) log(`⚠ Queued message #${r.id} failed, retrying: ${r.error}`);
+          else log(`⚠ Queued message #${r.id} failed: ${r.error}`);
+        }
+      })
+      .catch((err) => log(`⚠ Outbox error: ${(err as Error).message}`))
+      .finally(() => {
+        outboxRunning = false;
+      });
+  }, 5 * 1000);
+  outboxInterval.unref?.();
+
   // Graceful shutdown
   const shutdown = async () => {
     log("● Shutting down...");
     clearInterval(healthInterval);
     clearInterval(watchdogInterval);
     clearInterval(gapCheckInterval);
+    clearInterval(scheduleInterval);
+    clearInterval(outboxInterval);
     state.stop();
     stopConfigWatch();
     stopIpc();
@@ -208,9 +279,9 @@ export function registerDaemonCommand(program: Command): void {
       }
 
       try {
-        await generateDaemonService();
-        console.log("Daemon service installed and started");
-        console.log("Check status: systemctl --user status wu");
+        const unit = await generateDaemonService();
+        console.log(`Daemon service ${unit} installed and started`);
+        console.log(`Check status: systemctl --user status ${unit}`);
 
         if (!checkLinger()) {
           console.log("");
@@ -227,9 +298,10 @@ export function registerDaemonCommand(program: Command): void {
     .command("uninstall")
     .description("Remove systemd daemon service")
     .action(() => {
-      try { execFileSync("systemctl", ["--user", "disable", "--now", "wu"], { stdio: "pipe" }); } catch {}
+      const unit = unitName("wu");
+      try { execFileSync("systemctl", ["--user", "disable", "--now", unit], { stdio: "pipe" }); } catch {}
       const dir = join(homedir(), ".config", "systemd", "user");
-      try { unlinkSync(join(dir, "wu.service")); } catch {}
+      try { unlinkSync(join(dir, `${unit}.service`)); } catch {}
       try { execFileSync("systemctl", ["--user", "daemon-reload"], { stdio: "pipe" }); } catch {}
       console.log("Daemon service removed");
     });
@@ -239,7 +311,7 @@ export function registerDaemonCommand(program: Command): void {
     .description("Show daemon logs (journalctl)")
     .action(() => {
       try {
-        execSync("journalctl --user -u wu -f --no-pager", { stdio: "inherit" });
+        execFileSync("journalctl", ["--user", "-u", unitName("wu"), "-f", "--no-pager"], { stdio: "inherit" });
       } catch {
         // User hit Ctrl+C or journalctl not available
       }
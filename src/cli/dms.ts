@@ -2,7 +2,7 @@ import { Command } from "commander";
 import { listDmsForConfig, searchDmsForConfig } from "../core/service.js";
 import { loadConfig } from "../config/schema.js";
 import { resolveConstraint } from "../core/constraints.js";
-import { outputResult, formatTimestamp } from "./format.js";
+import { outputPage, readOrExit, formatTimestamp } from "./format.js";
 
 export function registerDmsCommand(program: Command): void {
   const dms = program
@@ -14,11 +14,13 @@ export function registerDmsCommand(program: Command): void {
     .description("List 1:1 chats (constraint-gated; DM JIDs contain phone numbers)")
     .option("--limit <n>", "Max chats to show", "100")
     .option("--all", "Include DMs blocked by constraints (jid only)")
+    .option("--cursor <cursor>", "Continue from a previous page's next_cursor")
+    .option("--paged", "With --json, wrap the rows as {<rows>, next_cursor} (implied by --cursor)")
     .option("--json", "Output as JSON")
-    .action((opts: { limit: string; all?: boolean; json?: boolean }) => {
+    .action((opts: { limit: string; all?: boolean; cursor?: string; paged?: boolean; json?: boolean }) => {
       const config = loadConfig();
       const limit = parseInt(opts.limit, 10);
-      const visible = listDmsForConfig(config, { limit, includeBlocked: opts.all });
+      const visible = readOrExit(() => listDmsForConfig(config, { limit, includeBlocked: opts.all, cursor: opts.cursor }));
 
       if (visible.length === 0) {
         // Distinguish "nothing cached" from "cached but filtered out" without
@@ -35,48 +37,49 @@ export function registerDmsCommand(program: Command): void {
         return;
       }
 
-      if (opts.json) {
-        outputResult(
-          visible.map((r) => ({
-            jid: r.jid,
-            name: r.name,
-            constraint: resolveConstraint(r.jid, config),
-            last_message_at: r.last_message_at,
-          })),
-          { json: true }
-        );
-        return;
-      }
-
-      for (const row of visible) {
-        const status = resolveConstraint(row.jid, config);
-        const last = row.last_message_at ? formatTimestamp(row.last_message_at) : "never";
-        const name = row.name || row.jid;
-        console.log(`${name}  [${status}]  ${row.jid}  last: ${last}`);
-      }
+      const rows = visible.map((r) => ({
+        jid: r.jid,
+        name: r.name,
+        constraint: resolveConstraint(r.jid, config),
+        last_message_at: r.last_message_at,
+      }));
+      outputPage("dms", rows, visible.next_cursor, {
+        json: opts.json,
+        paged: opts.paged || opts.cursor !== undefined,
+        print: () => {
+          for (const row of rows) {
+            const last = row.last_message_at ? formatTimestamp(row.last_message_at) : "never";
+            console.log(`${row.name || row.jid}  [${row.constraint}]  ${row.jid}  last: ${last}`);
+          }
+        },
+      });
     });
 
   dms
     .command("search <query>")
     .description("Search 1:1 chats by name")
     .option("--limit <n>", "Max results", "100")
+    .option("--cursor <cursor>", "Continue from a previous page's next_cursor")
+    .option("--paged", "With --json, wrap the rows as {<rows>, next_cursor} (implied by --cursor)")
     .option("--json", "Output as JSON")
-    .action((query: string, opts: { limit: string; json?: boolean }) => {
+    .action((query: string, opts: { limit: string; cursor?: string; paged?: boolean; json?: boolean }) => {
       const config = loadConfig();
       const limit = parseInt(opts.limit, 10);
-      const rows = searchDmsForConfig(config, query, { limit });
+      const rows = readOrExit(() => searchDmsForConfig(config, query, { limit, cursor: opts.cursor }));
 
       if (rows.length === 0) {
         console.log("No 1:1 chats found matching query.");
         return;
       }
 
-      if (opts.json) {
-        outputResult(rows, { json: true });
-      } else {
-        for (const r of rows) {
-          console.log(`${r.name || r.jid}  ${r.jid}`);
-        }
-      }
+      outputPage("dms", rows, rows.next_cursor, {
+        json: opts.json,
+        paged: opts.paged || opts.cursor !== undefined,
+        print: () => {
+          for (const r of rows) {
+            console.log(`${r.name || r.jid}  ${r.jid}`);
+          }
+        },
+      });
     });
 }
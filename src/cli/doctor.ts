@@ -1,11 +1,11 @@
 import { Command } from "commander";
 import { existsSync, readFileSync } from "fs";
 import { join } from "path";
-import { AUTH_DIR, DB_PATH } from "../config/paths.js";
+import { AUTH_DIR } from "../config/paths.js";
 import { isLocked } from "../core/lock.js";
 import { readDaemonState, type DaemonStateData } from "../core/daemon-state.js";
 import { loadConfig, type WuConfig } from "../config/schema.js";
-import { getDb } from "../db/database.js";
+import { getDb, resolveDbPath } from "../db/database.js";
 import { enrichStatus } from "../core/enrich.js";
 import { checkRemoteHealth, getDefaultRemote } from "../core/remote.js";
 import { EXIT_SUCCESS, EXIT_GENERAL_ERROR } from "./exit-codes.js";
@@ -190,10 +190,6 @@ function checkStoreWrite(data: DaemonStateData | null): DoctorCheck {
   return { name: "store_write", status: "ok", detail: `no recent write errors${rebuiltNote}` };
 }
 
-function resolveDbPath(config: WuConfig): string {
-  return config.db.path || DB_PATH;
-}
-
 // FTS5's 'integrity-check' special command scans the index against the
 // content table and raises if they disagree, without modifying either - the
 // read-only counterpart to the 'rebuild' command store.ts uses for recovery.
@@ -219,7 +215,7 @@ function checkFtsIntegrity(config: WuConfig): DoctorCheck {
 }
 
 // Always advisory: an unavailable enrichment backend degrades a single
-// optional feature (transcription/OCR), not ingestion.
+// optional feature (transcription/OCR/semantic search), not ingestion.
 function checkEnrich(config: WuConfig): DoctorCheck[] {
   return enrichStatus(config.enrich).map(
     (s): DoctorCheck => ({
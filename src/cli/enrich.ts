@@ -6,7 +6,7 @@ import { outputResult } from "./format.js";
 export function registerEnrichCommand(program: Command): void {
   const enrich = program
     .command("enrich")
-    .description("Media enrichment backends (transcription, OCR)");
+    .description("Enrichment backends (transcription, OCR, message embeddings)");
 
   enrich
     .command("status")
@@ -4,3 +4,4 @@ export const EXIT_CONSTRAINT_VIOLATION = 2;
 export const EXIT_NOT_AUTHENTICATED = 3;
 export const EXIT_CONNECTION_FAILED = 4;
 export const EXIT_NOT_FOUND = 5;
+export const EXIT_QUOTA_EXCEEDED = 6;
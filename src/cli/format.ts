@@ -1,3 +1,5 @@
+import { EXIT_GENERAL_ERROR } from "./exit-codes.js";
+
 export function formatTimestamp(ts: number): string {
   const d = new Date(ts * 1000);
   return d.toLocaleString();
@@ -28,6 +30,37 @@ export function formatTable(
   return `${header}\n${separator}\n${body}`;
 }
 
+/**
+ * A paged listing: with --json, the bare array of rows scripts have always
+ * read, or `{ <key>: rows, next_cursor }` when the caller is paging (--paged
+ * or --cursor). Otherwise the caller's own text output followed by how to get
+ * the next page.
+ */
+export function outputPage(
+  key: string,
+  rows: unknown[],
+  nextCursor: string | null,
+  opts: { json?: boolean; paged?: boolean; print: () => void }
+): void {
+  if (opts.json) {
+    console.log(formatJson(opts.paged ? { [key]: rows, next_cursor: nextCursor } : rows));
+    return;
+  }
+  opts.print();
+  if (nextCursor) console.log(`\nMore: --cursor ${nextCursor}`);
+}
+
+// Reads that take --cursor: a cursor that doesn't fit the listing is a
+// usage error, reported like one rather than as a stack trace.
+export function readOrExit<T>(read: () => T): T {
+  try {
+    return read();
+  } catch (err) {
+    console.error((err as Error).message);
+    process.exit(EXIT_GENERAL_ERROR);
+  }
+}
+
 export function formatJson(data: unknown): string {
   return JSON.stringify(data, null, 2);
 }
@@ -8,24 +8,41 @@ import {
   leaveGroup,
   renameGroup,
   joinGroupByInvite,
+  updateParticipants,
+  updateGroupSettings,
+  listJoinRequests,
+  decideJoinRequests,
+  revokeInvite,
+  parseEphemeral,
+  type ParticipantChange,
+  type ParticipantResult,
+  type GroupSettingsChange,
+  type JoinRequest,
 } from "../core/groups.js";
+import { phoneToJid } from "../core/contacts.js";
+import { daemonIpcAvailable, daemonRequest } from "../core/ipc.js";
 import {
   getGroupParticipants,
+  listMembershipEvents,
+  membershipByWeek,
   upsertChat,
   upsertGroupParticipants,
   type ChatRow,
 } from "../core/store.js";
 import { listGroupsForConfig, getChat } from "../core/service.js";
+import { parseSince } from "../core/time.js";
 import { loadConfig } from "../config/schema.js";
 import { resolveConstraint, shouldCollect } from "../core/constraints.js";
 import type { WuConfig, ConstraintMode } from "../config/schema.js";
-import { outputResult } from "./format.js";
+import { outputResult, outputPage, readOrExit, formatTimestamp } from "./format.js";
 import { EXIT_GENERAL_ERROR, EXIT_NOT_FOUND } from "./exit-codes.js";
 
 function statusLabel(mode: ConstraintMode): string {
   switch (mode) {
     case "full":
       return "allowed";
+    case "approve":
+      return "approve";
     case "read":
       return "read";
     case "none":
@@ -81,10 +98,59 @@ function withConnection<T>(fn: (sock: import("@whiskeysockets/baileys").WASocket
   return _withConnection(fn, { quiet: true });
 }
 
+/** Admin actions go through the daemon's socket when it's running. */
+async function viaDaemon<T>(
+  method: string,
+  params: Record<string, unknown>,
+  local: (sock: import("@whiskeysockets/baileys").WASocket) => Promise<T>
+): Promise<T> {
+  if (await daemonIpcAvailable()) return daemonRequest<T>(method, params);
+  return withConnection(local);
+}
+
+function exitWithError(err: unknown): never {
+  const error = err as Error & { exitCode?: number };
+  console.error(error.message);
+  process.exit(error.exitCode || EXIT_GENERAL_ERROR);
+}
+
+function parseOnOff(value: string): boolean {
+  if (value === "on") return true;
+  if (value === "off") return false;
+  console.error(`Expected "on" or "off", got "${value}"`);
+  process.exit(EXIT_GENERAL_ERROR);
+}
+
+// Participants may be given as JIDs or phone numbers.
+function toJids(participants: string[]): string[] {
+  try {
+    return participants.map((p) => phoneToJid(p.trim()));
+  } catch (err) {
+    exitWithError(err);
+  }
+}
+
+function printParticipantResults(results: ParticipantResult[], verb: string, json?: boolean): void {
+  if (json) {
+    outputResult(results, { json: true });
+    return;
+  }
+  for (const r of results) {
+    console.log(r.status === "200" ? `${verb}: ${r.jid}` : `Failed (${r.status}): ${r.jid}`);
+  }
+}
+
+const PARTICIPANT_VERBS: Record<ParticipantChange, [string, string]> = {
+  add: ["Add participants to a group", "Added"],
+  remove: ["Remove participants from a group", "Removed"],
+  promote: ["Make participants group admins", "Promoted"],
+  demote: ["Take admin rights from participants", "Demoted"],
+};
+
 export function registerGroupsCommand(program: Command): void {
   const groups = program
     .command("groups")
-    .description("List, info, create, invite, leave groups");
+    .description("List, info, create, invite, leave and administer groups");
 
   groups
     .command("list")
@@ -92,12 +158,16 @@ export function registerGroupsCommand(program: Command): void {
     .option("--limit <n>", "Max groups to show", "200")
     .option("--allowed-only", "Show only groups whose constraint is read or full")
     .option("--live", "Fetch live from WhatsApp (connects to server)")
+    .option("--cursor <cursor>", "Continue from a previous page's next_cursor")
+    .option("--paged", "With --json, wrap the rows as {<rows>, next_cursor} (implied by --cursor)")
     .option("--json", "Output as JSON")
     .action(
       async (opts: {
         limit: string;
         allowedOnly?: boolean;
         live?: boolean;
+        cursor?: string;
+        paged?: boolean;
         json?: boolean;
       }) => {
         const limit = parseInt(opts.limit, 10);
@@ -143,10 +213,13 @@ export function registerGroupsCommand(program: Command): void {
           }
         }
 
-        const groupChats = listGroupsForConfig(config, {
-          limit,
-          allowedOnly: opts.allowedOnly,
-        });
+        const groupChats = readOrExit(() =>
+          listGroupsForConfig(config, {
+            limit,
+            allowedOnly: opts.allowedOnly,
+            cursor: opts.cursor,
+          })
+        );
 
         if (groupChats.length === 0) {
           console.log(
@@ -156,25 +229,29 @@ export function registerGroupsCommand(program: Command): void {
           return;
         }
 
-        if (opts.json) {
-          outputResult(
-            groupChats.map((g) => ({
-              jid: g.jid,
-              name: g.name,
-              participant_count: g.participant_count,
-              is_community: g.is_community === 1,
-              is_community_announce: g.is_community_announce === 1,
-              linked_parent: g.linked_parent,
-              constraint: resolveConstraint(g.jid, config),
-              last_seen_at: g.last_seen_at,
-            })),
-            { json: true }
-          );
-        } else {
-          for (const line of renderGroupTree(groupChats, config)) {
-            console.log(line);
+        outputPage(
+          "groups",
+          groupChats.map((g) => ({
+            jid: g.jid,
+            name: g.name,
+            participant_count: g.participant_count,
+            is_community: g.is_community === 1,
+            is_community_announce: g.is_community_announce === 1,
+            linked_parent: g.linked_parent,
+            constraint: resolveConstraint(g.jid, config),
+            last_seen_at: g.last_seen_at,
+          })),
+          groupChats.next_cursor,
+          {
+            json: opts.json,
+            paged: opts.paged || opts.cursor !== undefined,
+            print: () => {
+              for (const line of renderGroupTree(groupChats, config)) {
+                console.log(line);
+              }
+            },
           }
-        }
+        );
       }
     );
 
@@ -336,6 +413,57 @@ export function registerGroupsCommand(program: Command): void {
       outputResult(participants, { json: opts.json });
     });
 
+  groups
+    .command("history <jid>")
+    .description("Show who joined, left, was removed, promoted or demoted (newest first)")
+    .option("--since <when>", "Only changes since: 30d, a unix timestamp, or a date")
+    .option("--limit <n>", "Max changes to show", "100")
+    .option("--weekly", "Report joins and leaves per week instead")
+    .option("--json", "Output as JSON")
+    .action((jid: string, opts: { since?: string; limit: string; weekly?: boolean; json?: boolean }) => {
+      const config = loadConfig();
+      if (!shouldCollect(jid, config)) {
+        console.error(`Group ${jid} is blocked by constraints. Use \`wu config allow ${jid}\` to allow it.`);
+        process.exit(EXIT_GENERAL_ERROR);
+      }
+      let since: number | undefined;
+      try {
+        since = opts.since ? parseSince(opts.since) : undefined;
+      } catch (err) {
+        exitWithError(err);
+      }
+
+      if (opts.weekly) {
+        const weeks = membershipByWeek(jid, { since });
+        if (opts.json) {
+          outputResult(weeks, { json: true });
+        } else if (weeks.length === 0) {
+          console.log("No membership changes recorded.");
+        } else {
+          console.log("Week of      Joins  Leaves  Net");
+          for (const w of weeks) {
+            const net = w.net > 0 ? `+${w.net}` : String(w.net);
+            console.log(`${w.week}  ${String(w.joins).padStart(5)}  ${String(w.leaves).padStart(6)}  ${net.padStart(3)}`);
+          }
+        }
+        return;
+      }
+
+      const events = listMembershipEvents(jid, { since, limit: parseInt(opts.limit, 10) });
+      if (opts.json) {
+        outputResult(events, { json: true });
+        return;
+      }
+      if (events.length === 0) {
+        console.log("No membership changes recorded.");
+        return;
+      }
+      for (const e of events) {
+        const by = e.actor_jid && e.actor_jid !== e.participant_jid ? ` by ${e.actor_jid}` : "";
+        console.log(`[${formatTimestamp(e.at)}] ${e.action} ${e.participant_jid}${by}`);
+      }
+    });
+
   groups
     .command("rename <jid> <name>")
     .description("Rename a group")
@@ -367,4 +495,150 @@ export function registerGroupsCommand(program: Command): void {
         process.exit(EXIT_GENERAL_ERROR);
       }
     });
+
+  for (const [change, [description, verb]] of Object.entries(PARTICIPANT_VERBS) as Array<
+    [ParticipantChange, [string, string]]
+  >) {
+    groups
+      .command(`${change} <jid> <participants...>`)
+      .description(`${description} (JIDs or phone numbers)`)
+      .option("--json", "Output as JSON")
+      .action(async (jid: string, participants: string[], opts: { json?: boolean }) => {
+        const config = loadConfig();
+        const jids = toJids(participants);
+        try {
+          const results = await viaDaemon<ParticipantResult[]>(
+            "groups.participants",
+            { jid, participants: jids, change },
+            (sock) => updateParticipants(sock, jid, jids, change, config)
+          );
+          printParticipantResults(results, verb, opts.json);
+        } catch (err) {
+          exitWithError(err);
+        }
+      });
+  }
+
+  const applySettings = async (jid: string, change: GroupSettingsChange, done: string, json?: boolean) => {
+    const config = loadConfig();
+    try {
+      await viaDaemon("groups.settings", { jid, change }, (sock) => updateGroupSettings(sock, jid, change, config));
+      if (json) outputResult({ jid, ...change }, { json: true });
+      else console.log(done);
+    } catch (err) {
+      exitWithError(err);
+    }
+  };
+
+  groups
+    .command("description <jid> [text]")
+    .description("Set a group's description (omit the text to clear it)")
+    .option("--json", "Output as JSON")
+    .action(async (jid: string, text: string | undefined, opts: { json?: boolean }) => {
+      await applySettings(jid, { description: text || null }, text ? `Description set for ${jid}` : `Description cleared for ${jid}`, opts.json);
+    });
+
+  groups
+    .command("announce <jid> <on|off>")
+    .description("Only let admins send messages (on) or everyone (off)")
+    .option("--json", "Output as JSON")
+    .action(async (jid: string, value: string, opts: { json?: boolean }) => {
+      const announce = parseOnOff(value);
+      await applySettings(jid, { announce }, `${jid}: ${announce ? "only admins" : "everyone"} can send`, opts.json);
+    });
+
+  groups
+    .command("lock <jid> <on|off>")
+    .description("Only let admins edit group info (on) or everyone (off)")
+    .option("--json", "Output as JSON")
+    .action(async (jid: string, value: string, opts: { json?: boolean }) => {
+      const locked = parseOnOff(value);
+      await applySettings(jid, { locked }, `${jid}: ${locked ? "only admins" : "everyone"} can edit group info`, opts.json);
+    });
+
+  groups
+    .command("ephemeral <jid> <timer>")
+    .description("Set disappearing messages: off, 24h, 7d or 90d")
+    .option("--json", "Output as JSON")
+    .action(async (jid: string, timer: string, opts: { json?: boolean }) => {
+      let ephemeral: number;
+      try {
+        ephemeral = parseEphemeral(timer);
+      } catch (err) {
+        exitWithError(err);
+      }
+      await applySettings(jid, { ephemeral }, `${jid}: disappearing messages ${ephemeral ? timer : "off"}`, opts.json);
+    });
+
+  groups
+    .command("join-approval <jid> <on|off>")
+    .description("Require admin approval for new members")
+    .option("--json", "Output as JSON")
+    .action(async (jid: string, value: string, opts: { json?: boolean }) => {
+      const join_approval = parseOnOff(value);
+      await applySettings(jid, { join_approval }, `${jid}: join approval ${value}`, opts.json);
+    });
+
+  groups
+    .command("requests <jid>")
+    .description("List pending join requests, or approve/reject them")
+    .option("--approve <participants>", "Approve these requests (comma-separated, or \"all\")")
+    .option("--reject <participants>", "Reject these requests (comma-separated, or \"all\")")
+    .option("--json", "Output as JSON")
+    .action(async (jid: string, opts: { approve?: string; reject?: string; json?: boolean }) => {
+      const config = loadConfig();
+      if (opts.approve && opts.reject) {
+        console.error("Use either --approve or --reject, not both");
+        process.exit(EXIT_GENERAL_ERROR);
+      }
+      const decision = opts.approve ? "approve" : opts.reject ? "reject" : undefined;
+      try {
+        if (!decision) {
+          const requests = await viaDaemon<JoinRequest[]>("groups.requests", { jid }, (sock) =>
+            listJoinRequests(sock, jid, config)
+          );
+          if (opts.json) {
+            outputResult(requests, { json: true });
+          } else if (requests.length === 0) {
+            console.log("No pending join requests.");
+          } else {
+            for (const r of requests) {
+              console.log(`${r.jid}  ${r.requested_at ? formatTimestamp(r.requested_at) : ""}`.trimEnd());
+            }
+          }
+          return;
+        }
+        const list = (opts.approve ?? opts.reject)!;
+        const participants = list === "all" ? "all" : toJids(list.split(","));
+        const results = await viaDaemon<ParticipantResult[]>(
+          "groups.decideRequests",
+          { jid, participants, decision },
+          (sock) => decideJoinRequests(sock, jid, participants, decision, config)
+        );
+        if (results.length === 0 && !opts.json) {
+          console.log("No pending join requests.");
+          return;
+        }
+        printParticipantResults(results, decision === "approve" ? "Approved" : "Rejected", opts.json);
+      } catch (err) {
+        exitWithError(err);
+      }
+    });
+
+  groups
+    .command("revoke-invite <jid>")
+    .description("Revoke the group's invite link and print the new one")
+    .option("--json", "Output as JSON")
+    .action(async (jid: string, opts: { json?: boolean }) => {
+      const config = loadConfig();
+      try {
+        const { code } = await viaDaemon("groups.revokeInvite", { jid }, async (sock) => ({
+          code: await revokeInvite(sock, jid, config),
+        }));
+        if (opts.json) outputResult({ jid, code }, { json: true });
+        else console.log(`https://chat.whatsapp.com/${code}`);
+      } catch (err) {
+        exitWithError(err);
+      }
+    });
 }
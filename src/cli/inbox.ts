@@ -0,0 +1,79 @@
+import { Command } from "commander";
+import { inbox, inboxJson, markRead, type Inbox } from "../core/inbox.js";
+import { mediaLabel } from "../core/export.js";
+import { parseSince } from "../core/time.js";
+import { loadConfig } from "../config/schema.js";
+import { outputResult, formatTimestamp } from "./format.js";
+import { EXIT_GENERAL_ERROR } from "./exit-codes.js";
+
+export function registerInboxCommand(program: Command): void {
+  const box = program
+    .command("inbox")
+    .description("New messages across all chats since they were last marked read, grouped by chat")
+    .option("--since <when>", "List everything since: 24h, 7d, a unix timestamp, or a date (ignores read markers)")
+    .option("--limit <n>", "Max chats", "50")
+    .option("--per-chat <n>", "Max messages shown per chat, oldest first", "5")
+    .option("--json", "Output as JSON")
+    .action((opts: { since?: string; limit: string; perChat: string; json?: boolean }) => {
+      let result: Inbox;
+      try {
+        result = inbox(loadConfig(), {
+          since: opts.since ? parseSince(opts.since) : undefined,
+          limit: parseInt(opts.limit, 10),
+          perChat: parseInt(opts.perChat, 10),
+        });
+      } catch (err) {
+        console.error((err as Error).message);
+        process.exit(EXIT_GENERAL_ERROR);
+      }
+      if (opts.json) {
+        outputResult(inboxJson(result), { json: true });
+        return;
+      }
+      if (result.since === null && !result.marked) {
+        console.log("Nothing marked read yet; showing the last 24 hours. `wu inbox mark-read` starts from now.");
+      }
+      if (result.total_unread === 0) {
+        console.log("No new messages.");
+        return;
+      }
+      console.log(`${result.total_unread} new message(s) in ${result.total_chats} chat(s)`);
+      for (const chat of result.chats) {
+        console.log(`\n${chat.name || chat.chat_jid} (${chat.chat_jid}): ${chat.unread} new`);
+        for (const m of chat.messages) {
+          const sender = m.sender_name || m.sender_jid || "unknown";
+          console.log(`  [${formatTimestamp(m.timestamp)}] ${sender}: ${m.body ?? mediaLabel(m)}`);
+        }
+        if (chat.unread > chat.messages.length) {
+          console.log(`  ... ${chat.unread - chat.messages.length} more (wu inbox mark-read ${chat.chat_jid} --up-to ${chat.up_to} to see them)`);
+        }
+      }
+      if (result.total_chats > result.chats.length) {
+        console.log(`\n${result.total_chats - result.chats.length} more chat(s); raise --limit to see them`);
+      }
+    });
+
+  box
+    .command("mark-read [jid]")
+    .description("Mark a chat, or every chat, read up to now")
+    .option("--up-to <ts>", "Mark read up to this unix timestamp instead, e.g. a chat's up_to from `wu inbox --json`")
+    .option("--json", "Output as JSON")
+    .action((jid: string | undefined, _opts: unknown, cmd: Command) => {
+      // `wu inbox` takes --json too, and commander hands it to the parent
+      // wherever it appears; read it from either.
+      const opts = cmd.optsWithGlobals<{ upTo?: string; json?: boolean }>();
+      const upTo = opts.upTo !== undefined ? parseInt(opts.upTo, 10) : undefined;
+      if (upTo !== undefined && Number.isNaN(upTo)) {
+        console.error(`Invalid --up-to: ${opts.upTo}`);
+        process.exit(EXIT_GENERAL_ERROR);
+      }
+      try {
+        const res = markRead(loadConfig(), { chatJid: jid, upTo });
+        if (opts.json) outputResult(res, { json: true });
+        else console.log(`Marked ${res.chat_jid ?? "all chats"} read up to ${formatTimestamp(res.read_at)}`);
+      } catch (err) {
+        console.error((err as Error).message);
+        process.exit(EXIT_GENERAL_ERROR);
+      }
+    });
+}
@@ -1,5 +1,6 @@
 #!/usr/bin/env node
 
+import "./profile-env.js";
 import { createRequire } from "node:module";
 import { Command } from "commander";
 import { ensureWuHome } from "../config/paths.js";
@@ -25,6 +26,13 @@ import { registerHistoryCommand } from "./history.js";
 import { registerRemoteCommand } from "./remote.js";
 import { registerSyncCommand } from "./sync.js";
 import { registerDoctorCommand } from "./doctor.js";
+import { registerScheduleCommand } from "./schedule.js";
+import { registerOutboxCommand } from "./outbox.js";
+import { registerWebhooksCommand } from "./webhooks.js";
+import { registerRulesCommand } from "./rules.js";
+import { registerAuditCommand } from "./audit.js";
+import { registerApprovalsCommand } from "./approvals.js";
+import { registerInboxCommand } from "./inbox.js";
 import { EXIT_GENERAL_ERROR } from "./exit-codes.js";
 
 const program = new Command();
@@ -33,6 +41,7 @@ program
   .name("wu")
   .description("WhatsApp CLI — like gh is to GitHub, wu is to WhatsApp")
   .version(version)
+  .option("--profile <name>", "Account profile to use (env: WU_PROFILE)")
   .exitOverride();
 
 ensureWuHome();
@@ -42,6 +51,7 @@ registerLoginCommand(program);
 registerStatusCommand(program);
 registerChatsCommand(program);
 registerMessagesCommand(program);
+registerInboxCommand(program);
 registerContactsCommand(program);
 registerGroupsCommand(program);
 registerCommunitiesCommand(program);
@@ -56,6 +66,12 @@ registerMcpCommand(program);
 registerRemoteCommand(program);
 registerSyncCommand(program);
 registerDoctorCommand(program);
+registerScheduleCommand(program);
+registerOutboxCommand(program);
+registerWebhooksCommand(program);
+registerRulesCommand(program);
+registerAuditCommand(program);
+registerApprovalsCommand(program);
 
 try {
   await program.parseAsync(process.argv);
@@ -1,23 +1,101 @@
 import { Command } from "commander";
 import { createConnection, waitForConnection } from "../core/connection.js";
-import { startListener, type ParsedMessage } from "../core/listener.js";
+import { startListener } from "../core/listener.js";
 import { acquireLock, releaseLock } from "../core/lock.js";
+import { daemonIpcAvailable, daemonSubscribe, type Subscription } from "../core/ipc.js";
+import { eventMatches, parseEventKinds, type EventFilter, type WuEvent } from "../core/events.js";
 import { loadConfig } from "../config/schema.js";
 import { closeDb } from "../db/database.js";
 import { formatTimestamp } from "./format.js";
-import { EXIT_CONNECTION_FAILED } from "./exit-codes.js";
+import { EXIT_CONNECTION_FAILED, EXIT_GENERAL_ERROR } from "./exit-codes.js";
+
+function splitList(value: string | undefined): string[] | undefined {
+  return value ? value.split(",").map((s) => s.trim()).filter(Boolean) : undefined;
+}
+
+function printEvent(event: WuEvent, useJson: boolean): void {
+  if (useJson) {
+    console.log(JSON.stringify(event));
+    return;
+  }
+  switch (event.event) {
+    case "message": {
+      const sender = event.sender_name || event.sender || "me";
+      console.log(`[${formatTimestamp(event.timestamp)}] ${sender}: ${event.body || `<${event.type}>`}`);
+      break;
+    }
+    case "edit":
+      console.log(`[${formatTimestamp(event.timestamp)}] ${event.id} edited: ${event.body ?? ""}`);
+      break;
+    case "delete":
+      console.log(`${event.id} deleted in ${event.chat}`);
+      break;
+    case "reaction":
+      console.log(
+        `[${formatTimestamp(event.timestamp)}] ${event.from_me ? "me" : event.reactor} ` +
+          (event.emoji ? `reacted ${event.emoji} to ${event.id}` : `removed a reaction from ${event.id}`)
+      );
+      break;
+    case "receipt":
+      console.log(`[${formatTimestamp(event.timestamp)}] ${event.id} ${event.status} by ${event.recipient}`);
+      break;
+    case "connection":
+      console.error(`WhatsApp connection: ${event.state}`);
+      break;
+    case "approval":
+      console.log(`Approval #${event.approval_id} ${event.status} for ${event.chat}: ${event.body ?? `<${event.kind}>`}`);
+      break;
+  }
+}
+
+// With a daemon running it already holds the WhatsApp session; a second login
+// would knock it offline, so attach to its event stream instead.
+async function listenViaDaemon(filter: EventFilter, useJson: boolean): Promise<void> {
+  let sub: Subscription;
+  try {
+    sub = await daemonSubscribe(filter, (event) => printEvent(event, useJson));
+  } catch (err) {
+    console.error(`Could not attach to the daemon: ${(err as Error).message}`);
+    process.exit(EXIT_GENERAL_ERROR);
+  }
+  if (!useJson) console.error(`Attached to daemon (${sub.connection}) — listening for events...`);
+
+  let stopping = false;
+  const shutdown = () => {
+    stopping = true;
+    sub.close();
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+
+  await sub.closed;
+  if (stopping) process.exit(0);
+  console.error("Daemon closed the event stream");
+  process.exit(EXIT_CONNECTION_FAILED);
+}
 
 export function registerListenCommand(program: Command): void {
   program
     .command("listen")
-    .description("Stream incoming messages to stdout")
-    .option("--chats <jids>", "Comma-separated JIDs to filter")
+    .description("Stream incoming messages (and optionally other live events) to stdout")
+    .option("--chats <jids>", "Comma-separated JIDs or patterns (*@g.us) to filter")
+    .option("--events <kinds>", "Comma-separated: message, edit, delete, reaction, receipt, connection, approval", "message")
+    .option("--types <types>", "Comma-separated message types to keep (text, image, ...)")
     .option("--json", "Force JSON output (auto-detected when piped)")
-    .action(async (opts: { chats?: string; json?: boolean }) => {
+    .action(async (opts: { chats?: string; events: string; types?: string; json?: boolean }) => {
       const useJson = opts.json ?? !process.stdout.isTTY;
-      const chatFilter = opts.chats
-        ? new Set(opts.chats.split(",").map((s) => s.trim()))
-        : null;
+      let filter: EventFilter;
+      try {
+        filter = { events: parseEventKinds(opts.events), chats: splitList(opts.chats), types: splitList(opts.types) };
+      } catch (err) {
+        console.error((err as Error).message);
+        process.exit(EXIT_GENERAL_ERROR);
+      }
+
+      if (await daemonIpcAvailable()) {
+        await listenViaDaemon(filter, useJson);
+        return;
+      }
 
       try {
         acquireLock();
@@ -28,28 +106,8 @@ export function registerListenCommand(program: Command): void {
 
       const config = loadConfig();
 
-      const onMessage = (msg: ParsedMessage) => {
-        if (chatFilter && !chatFilter.has(msg.chatJid)) return;
-
-        if (useJson) {
-          console.log(
-            JSON.stringify({
-              id: msg.id,
-              chat: msg.chatJid,
-              sender: msg.senderJid,
-              sender_name: msg.senderName,
-              body: msg.body,
-              type: msg.type,
-              from_me: msg.isFromMe,
-              timestamp: msg.timestamp,
-              quoted_id: msg.quotedId,
-            })
-          );
-        } else {
-          const ts = formatTimestamp(msg.timestamp);
-          const sender = msg.senderName || msg.senderJid || "me";
-          console.log(`[${ts}] ${sender}: ${msg.body || `<${msg.type}>`}`);
-        }
+      const onEvent = (event: WuEvent) => {
+        if (eventMatches(event, filter)) printEvent(event, useJson);
       };
 
       try {
@@ -60,7 +118,7 @@ export function registerListenCommand(program: Command): void {
         });
 
         await waitForConnection(sock);
-        startListener(sock, { config, onMessage });
+        startListener(sock, { config, onEvent });
 
         // Graceful shutdown
         const shutdown = async () => {
@@ -1,12 +1,22 @@
 import { Command } from "commander";
+import { resolve } from "path";
 import { withConnection } from "../core/connection.js";
 import { sendText, sendMedia, sendReaction, sendPoll, deleteForEveryone } from "../core/sender.js";
-import { listMessagesForConfig, searchMessagesForConfig } from "../core/service.js";
+import { listMessagesForConfig, searchMessagesForConfig, semanticSearchForConfig } from "../core/service.js";
+import { embedMessages, type SemanticResult } from "../core/semantic.js";
+import type { Paged } from "../core/cursor.js";
 import { importMessagesJsonl } from "../core/import.js";
-import { exportMessages } from "../core/export.js";
-import { shouldCollect } from "../core/constraints.js";
+import { exportMessages, formatReactions, mediaLabel } from "../core/export.js";
+import { messageThread, threadJson, type Thread, type ThreadNode } from "../core/threads.js";
+import { shouldCollect, constraintSqlPredicate, MESSAGE_COLUMNS } from "../core/constraints.js";
+import { getRevisionsByMessageIds, type SearchResult } from "../core/store.js";
+import { getPollResults } from "../core/polls.js";
+import { getReceiptReport, ReceiptsError } from "../core/receipts.js";
+import { enqueueMessage, type OutgoingRequest } from "../core/outbox.js";
+import { daemonIpcAvailable, daemonRequest } from "../core/ipc.js";
+import { isLocked } from "../core/lock.js";
 import { loadConfig } from "../config/schema.js";
-import { outputResult, formatTimestamp } from "./format.js";
+import { outputResult, outputPage, readOrExit, formatTimestamp } from "./format.js";
 import { EXIT_NOT_FOUND, EXIT_GENERAL_ERROR } from "./exit-codes.js";
 
 const EXPORT_FORMATS = ["jsonl", "json", "markdown", "csv"] as const;
@@ -22,19 +32,25 @@ export function registerMessagesCommand(program: Command): void {
     .option("--limit <n>", "Max messages to show", "50")
     .option("--before <ts>", "Before timestamp (unix)")
     .option("--after <ts>", "After timestamp (unix)")
+    .option("--revisions", "Show every earlier version of edited messages")
+    .option("--cursor <cursor>", "Continue from a previous page's next_cursor")
+    .option("--paged", "With --json, wrap the rows as {<rows>, next_cursor} (implied by --cursor)")
     .option("--json", "Output as JSON")
     .action(
       (
         jid: string,
-        opts: { limit: string; before?: string; after?: string; json?: boolean }
+        opts: { limit: string; before?: string; after?: string; revisions?: boolean; cursor?: string; paged?: boolean; json?: boolean }
       ) => {
         const config = loadConfig();
-        const rows = listMessagesForConfig(config, {
-          chatJid: jid,
-          limit: parseInt(opts.limit, 10),
-          before: opts.before ? parseInt(opts.before, 10) : undefined,
-          after: opts.after ? parseInt(opts.after, 10) : undefined,
-        });
+        const rows = readOrExit(() =>
+          listMessagesForConfig(config, {
+            chatJid: jid,
+            limit: parseInt(opts.limit, 10),
+            before: opts.before ? parseInt(opts.before, 10) : undefined,
+            after: opts.after ? parseInt(opts.after, 10) : undefined,
+            cursor: opts.cursor,
+          })
+        );
 
         if (rows === null) {
           console.log(`Chat ${jid} is blocked by constraints. Use \`wu config allow ${jid}\` to allow it.`);
@@ -46,46 +62,80 @@ export function registerMessagesCommand(program: Command): void {
           return;
         }
 
-        if (opts.json) {
-          outputResult(rows, { json: true });
-        } else {
-          for (const row of rows.reverse()) {
-            const ts = formatTimestamp(row.timestamp);
-            const sender = row.sender_name || row.sender_jid || "me";
-            const body = row.body || `<${row.type}>`;
-            console.log(`[${ts}] ${sender}: ${body}`);
+        const revisions = opts.revisions
+          ? getRevisionsByMessageIds(rows.filter((r) => r.edited_at).map((r) => r.id))
+          : new Map();
+
+        outputPage(
+          "messages",
+          opts.revisions ? rows.map((r) => ({ ...r, revisions: revisions.get(r.id) ?? [] })) : rows,
+          rows.next_cursor,
+          {
+            json: opts.json,
+            paged: opts.paged || opts.cursor !== undefined,
+            print: () => {
+              // Oldest first, as a chat reads; the page itself runs newest first.
+              for (const row of [...rows].reverse()) {
+                const ts = formatTimestamp(row.timestamp);
+                const sender = row.sender_name || row.sender_jid || "me";
+                const body = row.body || `<${row.type}>`;
+                const edited = row.edited_at ? " (edited)" : "";
+                const reacted = row.reactions.length ? `  [${formatReactions(row.reactions)}]` : "";
+                console.log(`[${ts}] ${sender}: ${body}${edited}${reacted}`);
+                // The newest revision is the body already printed above.
+                for (const rev of (revisions.get(row.id) ?? []).slice(0, -1)) {
+                  console.log(`    ${formatTimestamp(rev.edited_at)} was: ${rev.body ?? ""}`);
+                }
+              }
+            },
           }
-        }
+        );
       }
     );
 
   messages
     .command("search <query>")
-    .description("Search messages by text content")
+    .description(
+      'Search messages: words and "phrases" (all must match), a OR b, prefix*, -exclude, ' +
+        "and filters from: in: type: has: is: before: after:"
+    )
     .option("--chat <jid>", "Filter by chat JID")
     .option("--from <jid>", "Filter by sender JID")
     .option("--limit <n>", "Max results", "50")
+    .option("--semantic", "Also match by meaning, ranking FTS and embedding hits together (needs 'wu messages embed')")
+    .option("--cursor <cursor>", "Continue from a previous page's next_cursor")
+    .option("--paged", "With --json, wrap the rows as {<rows>, next_cursor} (implied by --cursor)")
     .option("--json", "Output as JSON")
     .action(
-      (
+      async (
         query: string,
-        opts: { chat?: string; from?: string; limit: string; json?: boolean }
+        opts: { chat?: string; from?: string; limit: string; semantic?: boolean; cursor?: string; paged?: boolean; json?: boolean }
       ) => {
         const config = loadConfig();
-        const limit = parseInt(opts.limit, 10);
-        const rows = searchMessagesForConfig(config, query, {
+        const search = {
           chatJid: opts.chat,
           senderJid: opts.from,
-          limit,
-        });
+          limit: parseInt(opts.limit, 10),
+          cursor: opts.cursor,
+        };
+        let rows: Paged<SearchResult | SemanticResult>;
+        try {
+          rows = opts.semantic
+            ? await semanticSearchForConfig(config, query, search)
+            : searchMessagesForConfig(config, query, search);
+        } catch (err) {
+          console.error((err as Error).message);
+          process.exit(EXIT_GENERAL_ERROR);
+        }
 
         if (rows.length === 0) {
           console.log("No messages found.");
           return;
         }
 
-        if (opts.json) {
-          outputResult(rows.map((r) => ({
+        outputPage(
+          "results",
+          rows.map((r) => ({
             id: r.id,
             chat_jid: r.chat_jid,
             sender_name: r.sender_name,
@@ -94,20 +144,81 @@ export function registerMessagesCommand(program: Command): void {
             snippet: r.snippet,
             type: r.type,
             timestamp: r.timestamp,
-          })), { json: true });
-        } else {
-          for (const row of rows) {
-            const ts = formatTimestamp(row.timestamp);
-            const sender = row.sender_name || row.sender_jid || "me";
-            const text = row.snippet
-              ? row.snippet.replace(/>>>/g, "").replace(/<<</g, "")
-              : row.body;
-            console.log(`[${ts}] [${row.chat_jid}] ${sender}: ${text}`);
+            ...("similarity" in r ? { similarity: r.similarity, score: r.score } : {}),
+          })),
+          rows.next_cursor,
+          {
+            json: opts.json,
+            paged: opts.paged || opts.cursor !== undefined,
+            print: () => {
+              for (const row of rows) {
+                const ts = formatTimestamp(row.timestamp);
+                const sender = row.sender_name || row.sender_jid || "me";
+                const text = row.snippet
+                  ? row.snippet.replace(/>>>/g, "").replace(/<<</g, "")
+                  : row.body;
+                console.log(`[${ts}] [${row.chat_jid}] ${sender}: ${text}`);
+              }
+            },
           }
-        }
+        );
       }
     );
 
+  messages
+    .command("thread <id>")
+    .description("Show the reply thread a message belongs to, from the message that started it")
+    .option("--json", "Output as nested JSON")
+    .action((id: string, opts: { json?: boolean }) => {
+      const config = loadConfig();
+      let thread: Thread;
+      try {
+        thread = messageThread(id, config);
+      } catch (err) {
+        const msg = (err as Error).message;
+        console.error(msg);
+        process.exit(msg.includes("not found") ? EXIT_NOT_FOUND : EXIT_GENERAL_ERROR);
+      }
+      if (opts.json) {
+        outputResult(threadJson(thread), { json: true });
+        return;
+      }
+      if (thread.root.quoted_id) console.log(`(replying to ${thread.root.quoted_id}, which isn't stored or is hidden)`);
+      const print = (node: ThreadNode, depth: number) => {
+        const sender = node.sender_name || node.sender_jid || "me";
+        const text = node.body ?? mediaLabel(node);
+        const reactions = node.reactions.length ? `  ${formatReactions(node.reactions)}` : "";
+        const mark = node.id === thread.message_id ? "> " : "";
+        console.log(`${"  ".repeat(depth)}${mark}[${formatTimestamp(node.timestamp)}] ${sender}: ${text}${reactions}`);
+        for (const reply of node.replies) print(reply, depth + 1);
+      };
+      print(thread.root, 0);
+      if (thread.truncated) console.log(`(showing the first ${thread.size} messages)`);
+    });
+
+  messages
+    .command("embed")
+    .description("Embed messages for 'wu messages search --semantic' (needs enrich.embed; see 'wu enrich status')")
+    .option("--chat <jid>", "Only messages in this chat")
+    .option("--limit <n>", "Max messages to embed this run", "500")
+    .option("--json", "Output as JSON")
+    .action(async (opts: { chat?: string; limit: string; json?: boolean }) => {
+      const config = loadConfig();
+      try {
+        const res = await embedMessages(config, { chatJid: opts.chat, limit: parseInt(opts.limit, 10) });
+        if (opts.json) {
+          outputResult(res, { json: true });
+          return;
+        }
+        console.log(`Embedded ${res.embedded} message(s) with ${res.model}`);
+        if (res.failed > 0) console.log(`${res.failed} failed: ${res.error}`);
+        if (res.remaining > 0) console.log(`${res.remaining} still to embed; run again to continue`);
+      } catch (err) {
+        console.error((err as Error).message);
+        process.exit(EXIT_GENERAL_ERROR);
+      }
+    });
+
   messages
     .command("send <jid> [text]")
     .description("Send a text message, media, or poll")
@@ -116,6 +227,7 @@ export function registerMessagesCommand(program: Command): void {
     .option("--reply-to <id>", "Reply to a specific message ID")
     .option("--poll <question>", "Create a poll")
     .option("--options <list>", "Comma-separated poll options")
+    .option("--queue", "Add to the outbox for the daemon to send instead of sending now")
     .option("--json", "Output as JSON")
     .action(
       async (
@@ -127,49 +239,85 @@ export function registerMessagesCommand(program: Command): void {
           replyTo?: string;
           poll?: string;
           options?: string;
+          queue?: boolean;
           json?: boolean;
         }
       ) => {
         const config = loadConfig();
 
+        let request: OutgoingRequest;
+        if (opts.poll) {
+          const pollOptions = (opts.options || "")
+            .split(",")
+            .map((s) => s.trim())
+            .filter(Boolean);
+          if (pollOptions.length < 2) {
+            console.error("Polls require at least 2 options");
+            process.exit(EXIT_GENERAL_ERROR);
+          }
+          request = { chatJid: jid, poll: { question: opts.poll, options: pollOptions } };
+        } else if (opts.media) {
+          request = { chatJid: jid, mediaPath: opts.media, caption: opts.caption || text, replyTo: opts.replyTo };
+        } else if (text) {
+          request = { chatJid: jid, text, replyTo: opts.replyTo };
+        } else {
+          console.error("Provide text, --media, or --poll");
+          process.exit(EXIT_GENERAL_ERROR);
+        }
+
+        const printSent = (result: { id: unknown; timestamp: unknown; queued?: boolean; outbox_id?: number }) => {
+          if (opts.json) {
+            console.log(JSON.stringify(result));
+          } else if (result.queued) {
+            console.log(`Queued #${result.outbox_id}: the daemon will send it once reconnected`);
+          } else {
+            console.log(`Sent: ${result.id}`);
+          }
+        };
+
         try {
-          await withConnection(async (sock) => {
-            let result;
+          if (opts.queue) {
+            const row = enqueueMessage(request, config);
+            if (opts.json) outputResult(row, { json: true });
+            else console.log(`Queued #${row.id}`);
+            if (!isLocked().locked) {
+              console.error("Note: the daemon is not running; queued messages are sent by `wu daemon`.");
+            }
+            return;
+          }
 
-            if (opts.poll) {
-              const pollOptions = (opts.options || "")
-                .split(",")
-                .map((s) => s.trim())
-                .filter(Boolean);
-              if (pollOptions.length < 2) {
-                console.error("Polls require at least 2 options");
-                process.exit(EXIT_GENERAL_ERROR);
-              }
-              result = await sendPoll(sock, jid, opts.poll, pollOptions, config);
-            } else if (opts.media) {
-              result = await sendMedia(sock, jid, opts.media, config, {
-                caption: opts.caption || text,
-                replyTo: opts.replyTo,
-              });
-            } else if (text) {
-              result = await sendText(sock, jid, text, config, {
-                replyTo: opts.replyTo,
-              });
+          // The daemon holds the session: hand the send to it (and its outbox)
+          // rather than opening a second login that would collide with it.
+          if (await daemonIpcAvailable()) {
+            if (request.poll) {
+              printSent(await daemonRequest("messages.sendPoll", {
+                jid, question: request.poll.question, options: request.poll.options,
+              }));
+            } else if (request.mediaPath) {
+              printSent(await daemonRequest("messages.sendMedia", {
+                jid, filePath: resolve(request.mediaPath), caption: request.caption, replyTo: request.replyTo,
+              }));
             } else {
-              console.error("Provide text, --media, or --poll");
-              process.exit(EXIT_GENERAL_ERROR);
+              printSent(await daemonRequest("messages.sendText", { jid, text: request.text, replyTo: request.replyTo }));
             }
+            return;
+          }
 
-            if (opts.json) {
-              console.log(
-                JSON.stringify({
-                  id: result?.key?.id,
-                  timestamp: result?.messageTimestamp,
-                })
-              );
+          await withConnection(async (sock) => {
+            let result;
+            if (request.poll) {
+              result = await sendPoll(sock, jid, request.poll.question, request.poll.options, config);
+            } else if (request.mediaPath) {
+              result = await sendMedia(sock, jid, request.mediaPath, config, {
+                caption: request.caption,
+                replyTo: request.replyTo,
+              });
             } else {
-              console.log(`Sent: ${result?.key?.id}`);
+              result = await sendText(sock, jid, request.text!, config, {
+                replyTo: request.replyTo,
+              });
             }
+            printSent({ id: result?.key?.id, timestamp: result?.messageTimestamp });
           });
         } catch (err) {
           const error = err as Error & { exitCode?: number };
@@ -213,6 +361,72 @@ export function registerMessagesCommand(program: Command): void {
       }
     });
 
+  messages
+    .command("poll-results <jid> <msg-id>")
+    .description("Show vote counts and voters for a poll")
+    .option("--json", "Output as JSON")
+    .action((jid: string, msgId: string, opts: { json?: boolean }) => {
+      const config = loadConfig();
+      if (!shouldCollect(jid, config)) {
+        console.error(`Chat ${jid} is blocked by constraints. Use \`wu config allow ${jid}\` to allow it.`);
+        process.exit(EXIT_GENERAL_ERROR);
+      }
+
+      const results = getPollResults(msgId);
+      if (!results || results.chat_jid !== jid) {
+        console.error(`Poll not found: ${msgId}`);
+        process.exit(EXIT_NOT_FOUND);
+      }
+
+      if (opts.json) {
+        outputResult(results, { json: true });
+        return;
+      }
+      console.log(`Poll: ${results.question}`);
+      for (const option of results.options) {
+        const voters = option.voters.length ? `  (${option.voters.join(", ")})` : "";
+        console.log(`  ${option.name}: ${option.count}${voters}`);
+      }
+      console.log(`Voters: ${results.total_voters}`);
+    });
+
+  messages
+    .command("receipts <msg-id>")
+    .description("Show who received and read a message you sent")
+    .option("--json", "Output as JSON")
+    .action((msgId: string, opts: { json?: boolean }) => {
+      const config = loadConfig();
+      try {
+        const report = getReceiptReport(msgId);
+        if (!shouldCollect(report.chat_jid, config)) {
+          console.error(`Chat ${report.chat_jid} is blocked by constraints. Use \`wu config allow ${report.chat_jid}\` to allow it.`);
+          process.exit(EXIT_GENERAL_ERROR);
+        }
+
+        if (opts.json) {
+          outputResult(report, { json: true });
+          return;
+        }
+        console.log(`Delivered: ${report.delivered_count}  Read: ${report.read_count}`);
+        for (const r of report.recipients) {
+          const read = r.read_at ? `read ${formatTimestamp(r.read_at)}` : "unread";
+          const delivered = r.delivered_at ? `delivered ${formatTimestamp(r.delivered_at)}` : "not delivered";
+          const played = r.played_at ? `, played ${formatTimestamp(r.played_at)}` : "";
+          console.log(`  ${r.recipient_jid}: ${delivered}, ${read}${played}`);
+        }
+        if (report.not_yet_read_by.length > 0) {
+          console.log(`Not yet read by (${report.not_yet_read_by.length}):`);
+          for (const jid of report.not_yet_read_by) console.log(`  ${jid}`);
+        }
+      } catch (err) {
+        const error = err as Error;
+        console.error(error.message);
+        process.exit(
+          error instanceof ReceiptsError && error.reason === "not_found" ? EXIT_NOT_FOUND : EXIT_GENERAL_ERROR
+        );
+      }
+    });
+
   messages
     .command("export <jid>")
     .description("Export messages from a chat to a file")
@@ -223,6 +437,8 @@ export function registerMessagesCommand(program: Command): void {
     .option("--exclude-reactions", "Skip reaction messages")
     .option("--types <list>", "Only export these message types, comma-separated (e.g. text,image)")
     .option("--exclude-types <list>", "Skip these message types, comma-separated (e.g. sticker,reaction)")
+    .option("--revisions", "Include earlier versions of edited messages")
+    .option("--threads", "Markdown only: nest replies under the message they quote")
     .option("--json", "Output the export summary as JSON")
     .action(
       (
@@ -235,6 +451,8 @@ export function registerMessagesCommand(program: Command): void {
           excludeReactions?: boolean;
           types?: string;
           excludeTypes?: string;
+          revisions?: boolean;
+          threads?: boolean;
           json?: boolean;
         }
       ) => {
@@ -249,6 +467,10 @@ export function registerMessagesCommand(program: Command): void {
           process.exit(EXIT_GENERAL_ERROR);
         }
         const format = opts.format as (typeof EXPORT_FORMATS)[number];
+        if (opts.threads && format !== "markdown") {
+          console.error("--threads only applies to --format markdown");
+          process.exit(EXIT_GENERAL_ERROR);
+        }
 
         const output = opts.output || `${jid.replace(/[^a-zA-Z0-9]/g, "_")}.${format === "markdown" ? "md" : format}`;
 
@@ -264,6 +486,9 @@ export function registerMessagesCommand(program: Command): void {
             excludeTypes: opts.excludeTypes
               ? opts.excludeTypes.split(",").map((s) => s.trim()).filter(Boolean)
               : undefined,
+            revisions: opts.revisions,
+            threads: opts.threads,
+            visiblePredicate: constraintSqlPredicate("chat_jid", config, { message: MESSAGE_COLUMNS }),
           });
 
           if (opts.json) {
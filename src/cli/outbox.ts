@@ -0,0 +1,113 @@
+import { Command } from "commander";
+import {
+  listOutboxMessages,
+  getOutboxMessage,
+  requeueOutboxMessage,
+  requeueFailedOutboxMessages,
+  deleteOutboxMessage,
+  type OutboxRow,
+  type OutboxStatus,
+} from "../core/store.js";
+import { outputResult, formatTimestamp } from "./format.js";
+import { EXIT_GENERAL_ERROR, EXIT_NOT_FOUND } from "./exit-codes.js";
+
+const STATUSES: OutboxStatus[] = ["queued", "sent", "failed"];
+
+function describe(row: OutboxRow): string {
+  switch (row.kind) {
+    case "poll":
+      return `poll: ${row.body}`;
+    case "media":
+      return `media: ${row.media_path}${row.body ? ` "${row.body}"` : ""}`;
+    default:
+      return row.body ?? "";
+  }
+}
+
+function findOrExit(idArg: string): OutboxRow {
+  const id = parseInt(idArg, 10);
+  const row = Number.isNaN(id) ? undefined : getOutboxMessage(id);
+  if (!row) {
+    console.error(`Outbox message not found: ${idArg}`);
+    process.exit(EXIT_NOT_FOUND);
+  }
+  return row;
+}
+
+export function registerOutboxCommand(program: Command): void {
+  const outbox = program
+    .command("outbox")
+    .description("Inspect the queue of messages waiting for the daemon to send");
+
+  outbox
+    .command("list")
+    .description("List outbox messages, newest first")
+    .option("--status <status>", `Only show one status (${STATUSES.join(", ")})`)
+    .option("--limit <n>", "Max rows", "50")
+    .option("--json", "Output as JSON")
+    .action((opts: { status?: string; limit: string; json?: boolean }) => {
+      if (opts.status && !STATUSES.includes(opts.status as OutboxStatus)) {
+        console.error(`Invalid status "${opts.status}": use ${STATUSES.join(", ")}`);
+        process.exit(EXIT_GENERAL_ERROR);
+      }
+      const rows = listOutboxMessages({
+        status: opts.status as OutboxStatus | undefined,
+        limit: parseInt(opts.limit, 10),
+      });
+      if (opts.json) {
+        outputResult(rows, { json: true });
+        return;
+      }
+      if (rows.length === 0) {
+        console.log("Outbox is empty.");
+        return;
+      }
+      for (const row of rows) {
+        let state: string;
+        if (row.status === "sent") {
+          state = `sent ${formatTimestamp(row.sent_at!)} as ${row.message_id}`;
+        } else if (row.status === "queued" && row.attempts > 0) {
+          state = `attempt ${row.attempts} failed, retry ${formatTimestamp(row.next_attempt_at)}: ${row.last_error}`;
+        } else if (row.status === "failed") {
+          state = `failed after ${row.attempts} attempt(s): ${row.last_error}`;
+        } else {
+          state = `queued ${formatTimestamp(row.created_at)}`;
+        }
+        console.log(`#${row.id} [${row.status}] ${row.chat_jid}: ${describe(row)}  (${state})`);
+      }
+    });
+
+  outbox
+    .command("retry [id]")
+    .description("Queue a failed message again (attempts reset, sent on the next pass)")
+    .option("--all", "Retry every failed message")
+    .action((idArg: string | undefined, opts: { all?: boolean }) => {
+      const now = Math.floor(Date.now() / 1000);
+      if (opts.all) {
+        console.log(`Requeued ${requeueFailedOutboxMessages(now)} message(s)`);
+        return;
+      }
+      if (!idArg) {
+        console.error("Provide an outbox id or --all");
+        process.exit(EXIT_GENERAL_ERROR);
+      }
+      const row = findOrExit(idArg);
+      if (!requeueOutboxMessage(row.id, now)) {
+        console.error(`Outbox message #${row.id} was already sent`);
+        process.exit(EXIT_GENERAL_ERROR);
+      }
+      console.log(`Requeued #${row.id}`);
+    });
+
+  outbox
+    .command("drop <id>")
+    .description("Remove a queued or failed message without sending it")
+    .action((idArg: string) => {
+      const row = findOrExit(idArg);
+      if (!deleteOutboxMessage(row.id)) {
+        console.error(`Outbox message #${row.id} was already sent`);
+        process.exit(EXIT_GENERAL_ERROR);
+      }
+      console.log(`Dropped #${row.id}`);
+    });
+}
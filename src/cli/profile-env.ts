@@ -0,0 +1,24 @@
+// Imported first by the CLI entry point. Every data path is fixed when
+// config/paths.ts loads, so `--profile` has to reach WU_PROFILE before any
+// other module does; commander only parses it (for --help) afterwards.
+
+function profileFromArgv(argv: string[]): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (arg === "--") break;
+    if (arg === "--profile") return argv[i + 1];
+    if (arg.startsWith("--profile=")) return arg.slice("--profile=".length);
+  }
+  return undefined;
+}
+
+const profile = profileFromArgv(process.argv.slice(2));
+if (profile !== undefined) {
+  if (!/^[A-Za-z0-9][A-Za-z0-9_-]*$/.test(profile)) {
+    console.error(`Invalid profile name "${profile}": use letters, digits, - and _`);
+    process.exit(1);
+  }
+  process.env.WU_PROFILE = profile;
+}
+
+export {};
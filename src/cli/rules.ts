@@ -0,0 +1,76 @@
+import { Command } from "commander";
+import { loadConfig } from "../config/schema.js";
+import { planActions, ruleInputFromRow, ruleName } from "../core/rules.js";
+import { getMessage } from "../core/store.js";
+import { outputResult, formatTimestamp } from "./format.js";
+import { EXIT_NOT_FOUND } from "./exit-codes.js";
+
+export function registerRulesCommand(program: Command): void {
+  const rules = program
+    .command("rules")
+    .description("Auto-reply rules the daemon runs on incoming messages (`rules` in config.yaml)");
+
+  rules
+    .command("list")
+    .description("List configured rules in evaluation order")
+    .option("--json", "Output as JSON")
+    .action((opts: { json?: boolean }) => {
+      const config = loadConfig();
+      const list = config.rules.map((rule, i) => ({ name: ruleName(rule, i), ...rule }));
+      if (opts.json) {
+        outputResult(list, { json: true });
+        return;
+      }
+      if (list.length === 0) {
+        console.log("No rules configured.");
+        return;
+      }
+      for (const rule of list) {
+        const match = Object.entries(rule.match)
+          .filter(([k, v]) => v !== undefined && k !== "ignore_case")
+          .map(([k, v]) => `${k}=${Array.isArray(v) ? v.join(",") : v}`)
+          .join(" ");
+        const actions = rule.actions.map((a) => Object.keys(a)[0]).join(", ");
+        const extras = [
+          rule.cooldown_seconds ? `cooldown ${rule.cooldown_seconds}s` : "",
+          rule.stop ? "stop" : "",
+        ].filter(Boolean);
+        console.log(`${rule.name}: ${match || "(any message)"} -> ${actions}${extras.length ? ` [${extras.join(", ")}]` : ""}`);
+      }
+    });
+
+  rules
+    .command("test <msg-id>")
+    .description("Dry run: show which rules a stored message matches and what they would do")
+    .option("--json", "Output as JSON")
+    .action((msgId: string, opts: { json?: boolean }) => {
+      const config = loadConfig();
+      const row = getMessage(msgId);
+      if (!row) {
+        console.error(`Message not found: ${msgId}`);
+        process.exit(EXIT_NOT_FOUND);
+      }
+      const input = ruleInputFromRow(row);
+      const planned = planActions(input, config);
+
+      if (opts.json) {
+        outputResult({ message_id: msgId, from_me: input.isFromMe, actions: planned }, { json: true });
+        return;
+      }
+      console.log(`Message ${msgId} in ${row.chat_jid} at ${formatTimestamp(row.timestamp)}`);
+      if (input.isFromMe) {
+        console.log("Sent by you: rules never run on your own messages.");
+        return;
+      }
+      if (planned.length === 0) {
+        console.log("No rules match.");
+        return;
+      }
+      for (const p of planned) {
+        const target = p.target ? ` -> ${p.target}` : "";
+        const blocked = p.blocked ? `  [BLOCKED: ${p.blocked}]` : "";
+        console.log(`${p.rule}: ${p.action}${target}: ${p.detail}${blocked}`);
+      }
+      console.log("(cooldowns are not applied in a dry run)");
+    });
+}
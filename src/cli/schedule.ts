@@ -0,0 +1,131 @@
+import { Command } from "commander";
+import { loadConfig } from "../config/schema.js";
+import { scheduleMessage, parseWhen } from "../core/schedule.js";
+import {
+  listScheduledMessages,
+  cancelScheduledMessage,
+  getScheduledMessage,
+  type ScheduledMessageRow,
+} from "../core/store.js";
+import { isLocked } from "../core/lock.js";
+import { outputResult, formatTimestamp } from "./format.js";
+import { EXIT_GENERAL_ERROR, EXIT_NOT_FOUND } from "./exit-codes.js";
+
+function describe(row: ScheduledMessageRow): string {
+  switch (row.kind) {
+    case "poll":
+      return `poll: ${row.body}`;
+    case "media":
+      return `media: ${row.media_path}${row.body ? ` "${row.body}"` : ""}`;
+    default:
+      return row.body ?? "";
+  }
+}
+
+export function registerScheduleCommand(program: Command): void {
+  const schedule = program
+    .command("schedule")
+    .description("Schedule messages for the daemon to send later");
+
+  schedule
+    .command("add <jid> [text]")
+    .description("Schedule a text message, media, or poll")
+    .option("--at <when>", "When to send: unix ts, 30m/2h/1d, HH:MM, \"tomorrow HH:MM\", or a date")
+    .option("--cron <expr>", "Repeat on a 5-field cron schedule (minute hour day month weekday)")
+    .option("--media <path>", "Send media file")
+    .option("--caption <text>", "Caption for media")
+    .option("--poll <question>", "Create a poll")
+    .option("--options <list>", "Comma-separated poll options")
+    .option("--json", "Output as JSON")
+    .action(
+      (
+        jid: string,
+        text: string | undefined,
+        opts: {
+          at?: string;
+          cron?: string;
+          media?: string;
+          caption?: string;
+          poll?: string;
+          options?: string;
+          json?: boolean;
+        }
+      ) => {
+        const config = loadConfig();
+        try {
+          const row = scheduleMessage(
+            {
+              chatJid: jid,
+              text,
+              mediaPath: opts.media,
+              caption: opts.caption || (opts.media ? text : undefined),
+              poll: opts.poll
+                ? {
+                    question: opts.poll,
+                    options: (opts.options || "").split(",").map((s) => s.trim()).filter(Boolean),
+                  }
+                : undefined,
+              sendAt: opts.at ? parseWhen(opts.at) : undefined,
+              cron: opts.cron,
+            },
+            config
+          );
+
+          if (opts.json) {
+            outputResult(row, { json: true });
+          } else {
+            const repeat = row.recurrence ? `, then on "${row.recurrence}"` : "";
+            console.log(`Scheduled #${row.id} for ${formatTimestamp(row.send_at)}${repeat}`);
+          }
+          if (!isLocked().locked) {
+            console.error("Note: the daemon is not running; scheduled messages are sent by `wu daemon`.");
+          }
+        } catch (err) {
+          const error = err as Error & { exitCode?: number };
+          console.error(error.message);
+          process.exit(error.exitCode || EXIT_GENERAL_ERROR);
+        }
+      }
+    );
+
+  schedule
+    .command("list")
+    .description("List pending scheduled messages")
+    .option("--all", "Include sent, failed, and cancelled ones")
+    .option("--json", "Output as JSON")
+    .action((opts: { all?: boolean; json?: boolean }) => {
+      const rows = listScheduledMessages({ all: opts.all });
+      if (opts.json) {
+        outputResult(rows, { json: true });
+        return;
+      }
+      if (rows.length === 0) {
+        console.log("No scheduled messages.");
+        return;
+      }
+      for (const row of rows) {
+        const repeat = row.recurrence ? ` (cron "${row.recurrence}")` : "";
+        const error = row.last_error ? `  last error: ${row.last_error}` : "";
+        console.log(
+          `#${row.id} [${row.status}] ${formatTimestamp(row.send_at)}${repeat} -> ${row.chat_jid}: ${describe(row)}${error}`
+        );
+      }
+    });
+
+  schedule
+    .command("cancel <id>")
+    .description("Cancel a pending scheduled message")
+    .action((idArg: string) => {
+      const id = parseInt(idArg, 10);
+      const row = Number.isNaN(id) ? undefined : getScheduledMessage(id);
+      if (!row) {
+        console.error(`Scheduled message not found: ${idArg}`);
+        process.exit(EXIT_NOT_FOUND);
+      }
+      if (!cancelScheduledMessage(id)) {
+        console.error(`Scheduled message #${id} is already ${row.status}`);
+        process.exit(EXIT_GENERAL_ERROR);
+      }
+      console.log(`Cancelled #${id}`);
+    });
+}
@@ -1,7 +1,7 @@
 import { Command } from "commander";
 import { existsSync, readFileSync } from "fs";
 import { join } from "path";
-import { AUTH_DIR } from "../config/paths.js";
+import { AUTH_DIR, DEFAULT_PROFILE, PROFILE } from "../config/paths.js";
 import { isLocked } from "../core/lock.js";
 import { readDaemonState, type DaemonStateData } from "../core/daemon-state.js";
 import { loadConfig } from "../config/schema.js";
@@ -70,6 +70,10 @@ function fmtAge(seconds: number | null): string {
   return `${(seconds / 3600).toFixed(1)}h ago`;
 }
 
+function loginCommand(): string {
+  return PROFILE === DEFAULT_PROFILE ? "wu login" : `wu --profile ${PROFILE} login`;
+}
+
 export function registerStatusCommand(program: Command): void {
   program
     .command("status")
@@ -79,9 +83,9 @@ export function registerStatusCommand(program: Command): void {
       const credsPath = join(AUTH_DIR, "creds.json");
       if (!existsSync(credsPath)) {
         if (opts.json) {
-          console.log(JSON.stringify({ authenticated: false }));
+          console.log(JSON.stringify({ profile: PROFILE, authenticated: false }));
         } else {
-          console.log("Not authenticated. Run `wu login` to connect.");
+          console.log(`Not authenticated. Run \`${loginCommand()}\` to connect.`);
         }
         process.exit(EXIT_NOT_AUTHENTICATED);
       }
@@ -94,6 +98,7 @@ export function registerStatusCommand(program: Command): void {
         // leftover file from a dead daemon would otherwise read as live.
         const stream = locked ? buildStreamInfo(staleSeconds) : null;
         const info = {
+          profile: PROFILE,
           authenticated: true,
           daemon_running: locked,
           phone: creds.me?.id?.split(":")[0] || creds.me?.id || "unknown",
@@ -106,6 +111,7 @@ export function registerStatusCommand(program: Command): void {
         if (opts.json) {
           console.log(JSON.stringify(info, null, 2));
         } else {
+          console.log(`Profile: ${PROFILE}`);
           console.log(`Authenticated: yes`);
           console.log(`Phone: ${info.phone}`);
           console.log(`Name: ${info.name}`);
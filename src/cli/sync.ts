@@ -3,7 +3,7 @@ import { statSync } from "fs";
 import { loadConfig } from "../config/schema.js";
 import { DB_PATH } from "../config/paths.js";
 import { getDefaultRemote, syncDb } from "../core/remote.js";
-import { generateSyncService, generateSyncTimer } from "../core/systemd.js";
+import { generateSyncService, generateSyncTimer, unitName } from "../core/systemd.js";
 import { EXIT_GENERAL_ERROR } from "./exit-codes.js";
 
 export function registerSyncCommand(program: Command): void {
@@ -85,7 +85,7 @@ export function registerSyncCommand(program: Command): void {
     .description("Remove systemd sync timer")
     .action(async () => {
       const { execFileSync } = await import("child_process");
-      const units = ["wu-sync.timer", "wu-sync.service"];
+      const units = [`${unitName("wu-sync")}.timer`, `${unitName("wu-sync")}.service`];
       for (const unit of units) {
         try { execFileSync("systemctl", ["--user", "disable", "--now", unit], { stdio: "pipe" }); } catch {}
       }
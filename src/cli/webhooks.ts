@@ -0,0 +1,95 @@
+import { Command } from "commander";
+import { loadConfig } from "../config/schema.js";
+import { redeliverDeadLetter, WebhookError } from "../core/webhooks.js";
+import { listWebhookDeadLetters, deleteWebhookDeadLetter } from "../core/store.js";
+import { outputResult, formatTimestamp } from "./format.js";
+import { EXIT_GENERAL_ERROR, EXIT_NOT_FOUND } from "./exit-codes.js";
+
+export function registerWebhooksCommand(program: Command): void {
+  const webhooks = program
+    .command("webhooks")
+    .description("Inspect webhook delivery (configured under `webhooks` in config.yaml)");
+
+  webhooks
+    .command("list")
+    .description("List configured webhooks and their filters")
+    .option("--json", "Output as JSON")
+    .action((opts: { json?: boolean }) => {
+      const config = loadConfig();
+      const hooks = Object.entries(config.webhooks).map(([name, hook]) => ({
+        name,
+        url: hook.url,
+        chats: hook.chats ?? ["*"],
+        types: hook.types ?? ["*"],
+        include_from_me: hook.include_from_me,
+        signed: hook.secret_env ? !!process.env[hook.secret_env] : false,
+        secret_env: hook.secret_env ?? null,
+      }));
+      if (opts.json) {
+        outputResult(hooks, { json: true });
+        return;
+      }
+      if (hooks.length === 0) {
+        console.log("No webhooks configured.");
+        return;
+      }
+      for (const h of hooks) {
+        const signing = h.secret_env ? (h.signed ? `signed (${h.secret_env})` : `${h.secret_env} not set!`) : "unsigned";
+        console.log(`${h.name}: ${h.url}`);
+        console.log(`  chats: ${h.chats.join(", ")}  types: ${h.types.join(", ")}  ${signing}`);
+      }
+    });
+
+  webhooks
+    .command("dead-letters")
+    .description("List deliveries that failed every retry")
+    .option("--hook <name>", "Only one webhook")
+    .option("--limit <n>", "Max rows", "50")
+    .option("--json", "Output as JSON")
+    .action((opts: { hook?: string; limit: string; json?: boolean }) => {
+      const rows = listWebhookDeadLetters({ hook: opts.hook, limit: parseInt(opts.limit, 10) });
+      if (opts.json) {
+        outputResult(rows, { json: true });
+        return;
+      }
+      if (rows.length === 0) {
+        console.log("No dead letters.");
+        return;
+      }
+      for (const row of rows) {
+        console.log(
+          `#${row.id} [${formatTimestamp(row.failed_at)}] ${row.hook} message ${row.message_id ?? "?"}: ` +
+            `${row.last_error} after ${row.attempts} attempt(s)`
+        );
+      }
+    });
+
+  webhooks
+    .command("redeliver <id>")
+    .description("Retry a dead letter against the webhook's current config; removed on success")
+    .action(async (idArg: string) => {
+      const config = loadConfig();
+      try {
+        const ok = await redeliverDeadLetter(parseInt(idArg, 10), config);
+        if (!ok) {
+          console.error(`Redelivery of #${idArg} failed; it stays in the dead-letter table`);
+          process.exit(EXIT_GENERAL_ERROR);
+        }
+        console.log(`Redelivered #${idArg}`);
+      } catch (err) {
+        console.error((err as Error).message);
+        process.exit(err instanceof WebhookError && err.reason === "not_found" ? EXIT_NOT_FOUND : EXIT_GENERAL_ERROR);
+      }
+    });
+
+  webhooks
+    .command("drop <id>")
+    .description("Delete a dead letter")
+    .action((idArg: string) => {
+      if (!deleteWebhookDeadLetter(parseInt(idArg, 10))) {
+        console.error(`Dead letter not found: ${idArg}`);
+        process.exit(EXIT_NOT_FOUND);
+      }
+      console.log(`Dropped #${idArg}`);
+    });
+}
@@ -1,23 +1,117 @@
-import { mkdirSync, chmodSync } from "fs";
+import { AsyncLocalStorage } from "async_hooks";
+import { mkdirSync, chmodSync, existsSync, readdirSync } from "fs";
 import { homedir } from "os";
 import { join } from "path";
 
 export const WU_HOME = process.env.WU_HOME || join(homedir(), ".wu");
-export const AUTH_DIR = join(WU_HOME, "auth");
-export const DB_PATH = join(WU_HOME, "wu.db");
 export const CONFIG_PATH = join(WU_HOME, "config.yaml");
-export const MEDIA_DIR = join(WU_HOME, "media");
-export const EXPORTS_DIR = join(WU_HOME, "exports");
-export const LOCK_PATH = join(WU_HOME, "wu.lock");
-export const DAEMON_SOCK_PATH = join(WU_HOME, "daemon.sock");
-export const DAEMON_STATE_PATH = join(WU_HOME, "daemon-state.json");
+
+// Profiles keep several WhatsApp accounts apart. Each has its own auth, DB,
+// media, lock, daemon socket and state; config.yaml is shared. The default
+// profile lives directly in WU_HOME (where everything lived before profiles),
+// the rest under WU_HOME/profiles/<name>.
+export const DEFAULT_PROFILE = "default";
+const PROFILE_NAME = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+export function validateProfileName(name: string): string {
+  if (!PROFILE_NAME.test(name)) {
+    throw new Error(`Invalid profile name "${name}": use letters, digits, - and _`);
+  }
+  return name;
+}
+
+/** The profile this process was started for (--profile / WU_PROFILE). */
+export const PROFILE = validateProfileName(process.env.WU_PROFILE || DEFAULT_PROFILE);
+
+export interface ProfilePaths {
+  profile: string;
+  home: string;
+  authDir: string;
+  dbPath: string;
+  mediaDir: string;
+  exportsDir: string;
+  lockPath: string;
+  daemonSockPath: string;
+  daemonStatePath: string;
+}
+
+export function profileHome(profile: string): string {
+  return profile === DEFAULT_PROFILE ? WU_HOME : join(WU_HOME, "profiles", profile);
+}
+
+export function profilePaths(profile: string): ProfilePaths {
+  const home = profileHome(profile);
+  return {
+    profile,
+    home,
+    authDir: join(home, "auth"),
+    dbPath: join(home, "wu.db"),
+    mediaDir: join(home, "media"),
+    exportsDir: join(home, "exports"),
+    lockPath: join(home, "wu.lock"),
+    daemonSockPath: join(home, "daemon.sock"),
+    daemonStatePath: join(home, "daemon-state.json"),
+  };
+}
+
+const processPaths = profilePaths(PROFILE);
+export const PROFILE_HOME = processPaths.home;
+export const AUTH_DIR = processPaths.authDir;
+export const DB_PATH = processPaths.dbPath;
+export const MEDIA_DIR = processPaths.mediaDir;
+export const EXPORTS_DIR = processPaths.exportsDir;
+export const LOCK_PATH = processPaths.lockPath;
+export const DAEMON_SOCK_PATH = processPaths.daemonSockPath;
+export const DAEMON_STATE_PATH = processPaths.daemonStatePath;
+
+// A long-lived process serving several profiles (the MCP server) switches
+// per request with withProfile(); everything else just sees PROFILE.
+const profileContext = new AsyncLocalStorage<string>();
+
+export function activeProfile(): string {
+  return profileContext.getStore() ?? PROFILE;
+}
+
+export function activePaths(): ProfilePaths {
+  const profile = activeProfile();
+  return profile === PROFILE ? processPaths : profilePaths(profile);
+}
+
+/** Throw unless `profile` is a valid name with data on disk. */
+export function assertProfileExists(profile: string): void {
+  validateProfileName(profile);
+  if (!existsSync(profileHome(profile))) {
+    throw new Error(`Unknown profile "${profile}": run \`wu --profile ${profile} login\` first`);
+  }
+}
+
+/** Run `fn` against another profile's data. It must already exist. */
+export function withProfile<T>(profile: string | undefined, fn: () => T): T {
+  if (profile === undefined || profile === activeProfile()) return fn();
+  assertProfileExists(profile);
+  return profileContext.run(profile, fn);
+}
+
+/** Profiles with a directory on disk; the default one always counts. */
+export function listProfiles(): string[] {
+  let named: string[] = [];
+  try {
+    named = readdirSync(join(WU_HOME, "profiles"), { withFileTypes: true })
+      .filter((d) => d.isDirectory() && PROFILE_NAME.test(d.name) && d.name !== DEFAULT_PROFILE)
+      .map((d) => d.name)
+      .sort();
+  } catch { /* no named profiles yet */ }
+  return [DEFAULT_PROFILE, ...named];
+}
 
 export function ensureWuHome(): void {
   mkdirSync(WU_HOME, { recursive: true, mode: 0o700 });
+  mkdirSync(PROFILE_HOME, { recursive: true, mode: 0o700 });
   mkdirSync(AUTH_DIR, { recursive: true, mode: 0o700 });
   mkdirSync(MEDIA_DIR, { recursive: true, mode: 0o700 });
   try {
     chmodSync(WU_HOME, 0o700);
+    chmodSync(PROFILE_HOME, 0o700);
     chmodSync(AUTH_DIR, 0o700);
   } catch { /* best effort - dir may be on a filesystem without POSIX modes */ }
 }
@@ -4,12 +4,35 @@ import { z } from "zod";
 import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
 import { CONFIG_PATH } from "./paths.js";
 
-const ConstraintMode = z.enum(["full", "read", "none"]);
+// `approve` sits between full and read: humans (CLI, rules, the daemon's own
+// sends) act as in full, while agent (MCP) sends wait in the approvals store
+// for `wu approvals approve`.
+const ConstraintMode = z.enum(["full", "approve", "read", "none"]);
 export type ConstraintMode = z.infer<typeof ConstraintMode>;
 
+// A local "HH:MM-HH:MM" window (hours 0-23, minutes 00-59); may wrap
+// midnight ("18:00-09:00").
+const HOURS_WINDOW = /^([01]?\d|2[0-3]):[0-5]\d-([01]?\d|2[0-3]):[0-5]\d$/;
+
+// Beyond `mode`, an entry can be bounded in time and narrowed to some
+// messages. `expires_at` (ISO date) and `hours` decide whether the entry
+// applies at all: an expired entry, or one outside its window, is skipped and
+// the lookup falls through to the wildcard and then the default. `senders`
+// (constraint syntax, for groups), `types` and `skip_types` decide which of the
+// chat's messages are collected and visible; your own messages always pass
+// the sender filter.
 const ChatConstraint = z.object({
   mode: ConstraintMode,
+  expires_at: z
+    .string()
+    .refine((s) => !Number.isNaN(Date.parse(s)), "constraints.chats[].expires_at must be a date (ISO 8601)")
+    .optional(),
+  hours: z.string().regex(HOURS_WINDOW, "constraints.chats[].hours must look like 09:00-18:00").optional(),
+  senders: z.array(z.string()).optional(),
+  types: z.array(z.string()).optional(),
+  skip_types: z.array(z.string()).optional(),
 });
+export type ChatConstraint = z.infer<typeof ChatConstraint>;
 
 const ConstraintsConfig = z.object({
   default: ConstraintMode.default("none"),
@@ -36,6 +59,18 @@ const WhatsAppConfig = z.object({
   watchdog_stale_seconds: z.number().default(1800),
 });
 
+// Send quotas, counted in SQLite so the CLI, MCP server and daemon share
+// them. Windows roll: the last hour, the last 24 hours. Unset is unlimited.
+// `new_chats_per_day` caps messages to DMs you have never written to before.
+const QuotaLimit = z.number().int().positive().optional();
+const QuotasConfig = z.object({
+  chat_per_hour: QuotaLimit,
+  chat_per_day: QuotaLimit,
+  global_per_day: QuotaLimit,
+  new_chats_per_day: QuotaLimit,
+});
+export type QuotasConfig = z.infer<typeof QuotasConfig>;
+
 const DbConfig = z.object({
   path: z.string().optional(),
 });
@@ -88,18 +123,94 @@ const EnrichConfig = z.object({
     local: { cmd: "tesseract {input} stdout -l ara+eng" },
     api: { provider: "anthropic", base_url: "https://api.anthropic.com/v1", key_env: "ANTHROPIC_API_KEY", model: "claude-haiku-4-5-20251001" },
   }),
+  // Message embeddings for `wu messages search --semantic`. The local command
+  // gets {text} instead of {input} and prints the vector as a JSON array; the
+  // API must be OpenAI-compatible (/embeddings). Off until set up, since it
+  // indexes the whole archive.
+  embed: EnrichCapability.default({
+    backend: "off",
+    local: { cmd: "llm embed -m sentence-transformers/all-MiniLM-L6-v2 -c {text}" },
+    api: { provider: "openai", base_url: "https://api.openai.com/v1", key_env: "OPENAI_API_KEY", model: "text-embedding-3-small" },
+  }),
 });
 export type EnrichConfig = z.infer<typeof EnrichConfig>;
 export type EnrichCapabilityConfig = z.infer<typeof EnrichCapability>;
 
+// Webhooks: the daemon POSTs each live message (shaped like an export jsonl
+// row) to every hook whose filters match. `chats` uses the constraint syntax
+// (exact JID or `*@domain`); omit it, or `types`, to match everything.
+const WebhookConfig = z.object({
+  url: z.string().url(),
+  // Env var holding the HMAC-SHA256 signing secret; unsigned when unset.
+  secret_env: z.string().optional(),
+  chats: z.array(z.string()).optional(),
+  types: z.array(z.string()).optional(),
+  include_from_me: z.boolean().default(false),
+  timeout_ms: z.number().default(10000),
+  // Attempts before the delivery is parked in the dead-letter table.
+  max_attempts: z.number().int().min(1).default(5),
+});
+export type WebhookConfig = z.infer<typeof WebhookConfig>;
+
+// Auto-reply rules, evaluated in order by the daemon on each live incoming
+// message. A rule fires when every `match` field given matches; `chats` and
+// `senders` use the constraint syntax (exact JID or `*@domain`), `body` is a
+// JS regex, `hours` a local "HH:MM-HH:MM" window (may wrap midnight).
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const;
+const RuleMatch = z.object({
+  chats: z.array(z.string()).optional(),
+  senders: z.array(z.string()).optional(),
+  body: z
+    .string()
+    .refine((re) => {
+      try {
+        new RegExp(re);
+        return true;
+      } catch {
+        return false;
+      }
+    }, "rules[].match.body must be a valid regular expression")
+    .optional(),
+  ignore_case: z.boolean().default(true),
+  types: z.array(z.string()).optional(),
+  hours: z
+    .string()
+    .regex(HOURS_WINDOW, "rules[].match.hours must look like 18:00-09:00")
+    .optional(),
+  days: z.array(z.enum(WEEKDAYS)).optional(),
+});
+// Reply text may use {sender}, {sender_name}, {chat} and {body}. `forward`
+// takes the target JID. `run` is never templated: it gets the message as WU_*
+// env vars and JSON on stdin, and with reply_output its stdout is sent back.
+const RuleAction = z.union([
+  z.object({ reply: z.string() }).strict(),
+  z.object({ react: z.string() }).strict(),
+  z.object({ forward: z.string() }).strict(),
+  z.object({ run: z.string(), reply_output: z.boolean().default(false), timeout_ms: z.number().default(30000) }).strict(),
+]);
+const Rule = z.object({
+  name: z.string().optional(),
+  match: RuleMatch.default({}),
+  actions: z.array(RuleAction).min(1),
+  // Fire at most once per chat in this many seconds (0 = every match).
+  cooldown_seconds: z.number().default(0),
+  // Don't evaluate later rules once this one matches.
+  stop: z.boolean().default(false),
+});
+export type RuleConfig = z.infer<typeof Rule>;
+export type RuleAction = z.infer<typeof RuleAction>;
+
 export const WuConfigSchema = z.object({
   whatsapp: WhatsAppConfig.default({}),
   constraints: ConstraintsConfig.optional(),
+  quotas: QuotasConfig.default({}),
   db: DbConfig.default({}),
   log: LogConfig.default({}),
   remotes: z.record(z.string(), RemoteConfig).optional(),
   default_remote: z.string().optional(),
   enrich: EnrichConfig.default({}),
+  webhooks: z.record(z.string(), WebhookConfig).default({}),
+  rules: z.array(Rule).default([]),
 });
 
 export type WuConfig = z.infer<typeof WuConfigSchema>;
@@ -0,0 +1,75 @@
+import type { WASocket } from "@whiskeysockets/baileys";
+import type { WuConfig } from "../config/schema.js";
+import { requiresApproval } from "./constraints.js";
+import { actingForAgent, currentActor, recordAudit } from "./audit.js";
+import { prepareOutgoing, deliverOutgoing, type OutgoingRequest } from "./outbox.js";
+import {
+  insertApproval,
+  getApproval,
+  claimApproval,
+  markApprovalSent,
+  releaseApproval,
+  rejectApproval,
+  type ApprovalRow,
+} from "./store.js";
+
+// Sends an agent drafts into an `approve` chat wait here instead of going
+// out. A human releases each one with `wu approvals approve`, which sends it
+// through sender.ts like any other message (constraints re-checked, now as
+// that human), or discards it with `reject`.
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+export function requestApproval(req: OutgoingRequest, config: WuConfig): ApprovalRow {
+  if (!requiresApproval(req.chatJid, config)) {
+    throw new Error(`Chat ${req.chatJid} is not in approve mode`);
+  }
+  const content = prepareOutgoing(req);
+  const id = insertApproval({
+    chat_jid: req.chatJid,
+    ...content,
+    reply_to: req.replyTo ?? null,
+    requested_by: currentActor(),
+  });
+  recordAudit("approval_request", req.chatJid, req);
+  return getApproval(id)!;
+}
+
+function findPending(id: number): ApprovalRow {
+  const row = getApproval(id);
+  if (!row) throw new Error(`Approval not found: #${id}`);
+  if (row.status !== "pending") throw new Error(`Approval #${id} is ${row.status}, not pending`);
+  return row;
+}
+
+/**
+ * Send a pending item. A failed send (socket down, chat no longer writable)
+ * puts it back to pending with the error, to be approved again or rejected.
+ */
+export async function approveRequest(
+  sock: WASocket,
+  id: number,
+  config: WuConfig,
+  now: number = nowSeconds()
+): Promise<ApprovalRow> {
+  if (actingForAgent()) throw new Error("Approvals are decided by a human, not over MCP");
+  const row = findPending(id);
+  if (!claimApproval(id, now)) throw new Error(`Approval #${id} was decided by someone else`);
+  try {
+    const sent = await deliverOutgoing(sock, row, config);
+    markApprovalSent(id, sent?.key?.id ?? null);
+  } catch (err) {
+    releaseApproval(id, (err as Error).message);
+    throw err;
+  }
+  return getApproval(id)!;
+}
+
+export function rejectRequest(id: number, reason?: string, now: number = nowSeconds()): ApprovalRow {
+  const row = findPending(id);
+  if (!rejectApproval(id, now, reason)) throw new Error(`Approval #${id} was decided by someone else`);
+  recordAudit("approval_reject", row.chat_jid, { id, reason });
+  return getApproval(id)!;
+}
@@ -0,0 +1,111 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { createHash } from "crypto";
+import { insertAuditEntry, type AuditResult } from "./store.js";
+import { QuotaExceededError } from "./quotas.js";
+import { createChildLogger } from "../config/logger.js";
+
+const logger = createChildLogger("audit");
+
+// Who is behind a privileged action. A process has a default (the CLI is
+// "cli", `wu mcp` switches to "mcp", the daemon to "daemon" for its own
+// scheduled and outbox sends); work done on someone's behalf inside a process
+// - an IPC request, a rule firing - runs under runAs() so concurrent callers
+// each keep their own actor.
+export const AUDIT_ACTORS = ["cli", "mcp", "ipc", "rule", "daemon"] as const;
+export type AuditActor = (typeof AUDIT_ACTORS)[number];
+
+export function isAuditActor(value: unknown): value is AuditActor {
+  return (AUDIT_ACTORS as readonly unknown[]).includes(value);
+}
+
+interface ActorContext {
+  actor: AuditActor;
+  client?: string;
+}
+
+const context = new AsyncLocalStorage<ActorContext>();
+let defaultActor: AuditActor = "cli";
+
+export function setDefaultActor(actor: AuditActor): void {
+  defaultActor = actor;
+}
+
+export function currentActor(): AuditActor {
+  return context.getStore()?.actor ?? defaultActor;
+}
+
+/**
+ * Whether the current work is an agent's: the MCP server itself, or a daemon
+ * IPC request an MCP client sent. `approve` chats hold these for a human.
+ *
+ * This is advisory, not a security boundary: the daemon takes an IPC
+ * client's word for its actor, and any process running as the same user can
+ * claim to be the CLI. It keeps a well-behaved agent's writes in front of a
+ * person; it doesn't stop a hostile local process.
+ */
+export function actingForAgent(): boolean {
+  const ctx = context.getStore();
+  return (ctx?.actor ?? defaultActor) === "mcp" || ctx?.client === "mcp";
+}
+
+/** Run `fn` as `actor`; `client` names who an "ipc" request came from. */
+export function runAs<T>(actor: AuditActor, fn: () => T, client?: string): T {
+  return context.run({ actor, client }, fn);
+}
+
+export function hashPayload(payload: unknown): string {
+  return createHash("sha256").update(JSON.stringify(payload ?? null)).digest("hex");
+}
+
+// Constraint violations (exit code 2) and exceeded quotas are refusals.
+function resultOf(err: unknown): AuditResult {
+  return (err as { exitCode?: number }).exitCode === 2 || err instanceof QuotaExceededError ? "denied" : "error";
+}
+
+/**
+ * Append one audit entry. Never throws: a failed write is logged, and the
+ * action it describes has already happened (or been refused) regardless.
+ */
+export function recordAudit(
+  action: string,
+  targetJid: string | null,
+  payload: unknown,
+  outcome: { err?: unknown } = {}
+): void {
+  const ctx = context.getStore();
+  try {
+    insertAuditEntry({
+      at: Math.floor(Date.now() / 1000),
+      actor: ctx?.actor ?? defaultActor,
+      client: ctx?.client ?? null,
+      action,
+      target_jid: targetJid,
+      payload_hash: payload === undefined ? null : hashPayload(payload),
+      result: outcome.err === undefined ? "ok" : resultOf(outcome.err),
+      error: outcome.err === undefined ? null : (outcome.err as Error).message,
+    });
+  } catch (err) {
+    logger.warn({ err, action, targetJid }, "Failed to write audit entry");
+  }
+}
+
+/**
+ * Run a privileged action and record how it ended: "ok", "denied" (a
+ * constraint violation or quota) or "error". The constraint check belongs inside `fn`
+ * so refusals are logged too.
+ */
+export async function audited<T>(
+  action: string,
+  targetJid: string | null,
+  payload: unknown,
+  fn: () => Promise<T>
+): Promise<T> {
+  try {
+    const result = await fn();
+    recordAudit(action, targetJid, payload);
+    return result;
+  } catch (err) {
+    recordAudit(action, targetJid, payload, { err });
+    throw err;
+  }
+}
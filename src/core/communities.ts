@@ -0,0 +1,137 @@
+import type { WASocket } from "@whiskeysockets/baileys";
+import type { WuConfig } from "../config/schema.js";
+import { assertCanManage, shouldCollect } from "./constraints.js";
+import { audited, recordAudit } from "./audit.js";
+import {
+  getChatByJid,
+  listCommunityMembers,
+  listGroupsByLinkedParent,
+  setLinkedParent,
+  upsertChat,
+  type CommunityMemberRow,
+} from "./store.js";
+import { createChildLogger } from "../config/logger.js";
+
+const logger = createChildLogger("communities");
+
+// A community is a parent group whose subgroups point at it through
+// `linked_parent`; one of them, the announcement group, has every member in
+// it and only admins can post there. Managing the link between a community
+// and a subgroup touches both, so both must allow it.
+
+export async function createCommunity(sock: WASocket, name: string, description: string | undefined) {
+  // No JID to check yet, same as createGroup: the new community's JID is
+  // only known afterwards.
+  logger.debug({ name }, "Creating community");
+  try {
+    const created = await sock.communityCreate(name, description ?? "");
+    if (!created) throw new Error("WhatsApp did not return the new community");
+    recordAudit("community_create", created.id, { name });
+    upsertChat({
+      jid: created.id,
+      name: created.subject || name,
+      type: "group",
+      participant_count: created.participants?.length ?? null,
+      description: description || null,
+      last_message_at: null,
+      is_community: 1,
+    });
+    return created;
+  } catch (err) {
+    recordAudit("community_create", null, { name }, { err });
+    throw err;
+  }
+}
+
+export async function linkGroup(sock: WASocket, communityJid: string, groupJid: string, config: WuConfig) {
+  await audited("community_link", communityJid, { group: groupJid }, async () => {
+    assertCanManage(communityJid, config);
+    assertCanManage(groupJid, config);
+    logger.debug({ communityJid, groupJid }, "Linking group to community");
+    await sock.communityLinkGroup(groupJid, communityJid);
+  });
+  upsertChat({
+    jid: groupJid,
+    name: null,
+    type: "group",
+    participant_count: null,
+    description: null,
+    last_message_at: null,
+    linked_parent: communityJid,
+  });
+}
+
+export async function unlinkGroup(sock: WASocket, communityJid: string, groupJid: string, config: WuConfig) {
+  await audited("community_unlink", communityJid, { group: groupJid }, async () => {
+    assertCanManage(communityJid, config);
+    assertCanManage(groupJid, config);
+    logger.debug({ communityJid, groupJid }, "Unlinking group from community");
+    await sock.communityUnlinkGroup(groupJid, communityJid);
+  });
+  setLinkedParent(groupJid, communityJid, null);
+}
+
+/**
+ * The community's announcement group, where posts reach every member. Looked
+ * up in the cache first, then among the groups we're in. Posting there is
+ * managing the community, so the community has to allow it too; the send
+ * itself is checked against the announcement group as usual.
+ */
+export async function announcementGroup(sock: WASocket | undefined, communityJid: string, config: WuConfig): Promise<string> {
+  assertCanManage(communityJid, config);
+  const cached = listGroupsByLinkedParent([communityJid]).find((g) => g.is_community_announce === 1);
+  if (cached) return cached.jid;
+  if (!sock) throw new Error(`No announcement group cached for ${communityJid}; run \`wu groups list --live\` first`);
+
+  const groups = Object.values(await sock.groupFetchAllParticipating());
+  // isCommunityAnnounce / linkedParent aren't in Baileys' GroupMetadata type.
+  const found = groups.find((g) => {
+    const meta = g as unknown as { isCommunityAnnounce?: boolean; linkedParent?: string };
+    return meta.isCommunityAnnounce && meta.linkedParent === communityJid;
+  });
+  if (!found) throw new Error(`${communityJid} has no announcement group (is it a community you're in?)`);
+  upsertChat({
+    jid: found.id,
+    name: found.subject || null,
+    type: "group",
+    participant_count: found.participants?.length ?? null,
+    description: null,
+    last_message_at: null,
+    is_community_announce: 1,
+    linked_parent: communityJid,
+  });
+  return found.id;
+}
+
+export interface CommunityMembers {
+  community: string;
+  /** The groups the union is taken over: the community and its subgroups */
+  groups: string[];
+  /** Subgroups left out because their constraint is `none` */
+  skipped: string[];
+  members: CommunityMemberRow[];
+}
+
+/**
+ * Everyone in the community or any of its subgroups, from the cached
+ * participant lists. The community itself must be readable; subgroups the
+ * constraints don't let us read are left out.
+ */
+export function communityMembers(communityJid: string, config: WuConfig): CommunityMembers {
+  const community = getChatByJid(communityJid);
+  if (!community || community.is_community !== 1) {
+    throw new Error(`Not a known community: ${communityJid}. Run \`wu groups list --live\` to refresh.`);
+  }
+  if (!shouldCollect(communityJid, config)) {
+    throw new Error(`Community ${communityJid} is blocked by constraints`);
+  }
+  const subgroups = listGroupsByLinkedParent([communityJid]).map((g) => g.jid);
+  const allowed = subgroups.filter((jid) => shouldCollect(jid, config));
+  const groups = [communityJid, ...allowed];
+  return {
+    community: communityJid,
+    groups,
+    skipped: subgroups.filter((jid) => !allowed.includes(jid)),
+    members: listCommunityMembers(groups),
+  };
+}
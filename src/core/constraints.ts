@@ -1,43 +1,147 @@
-import type { WuConfig, ConstraintMode } from "../config/schema.js";
+import type { WuConfig, ConstraintMode, ChatConstraint } from "../config/schema.js";
+import { actingForAgent } from "./audit.js";
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function minutesOf(clock: string): number {
+  const [h, m] = clock.split(":").map((n) => parseInt(n, 10));
+  return h * 60 + m;
+}
+
+/**
+ * Whether local time `at` falls in an "HH:MM-HH:MM" window. A window whose end
+ * is before its start wraps midnight; the start minute is inside, the end is
+ * not.
+ */
+export function inHours(window: string, at: Date): boolean {
+  const [start, end] = window.split("-").map(minutesOf);
+  const now = at.getHours() * 60 + at.getMinutes();
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+}
+
+/** Whether an entry applies at `now`: not expired, and inside its hours. */
+export function constraintActive(entry: ChatConstraint, now: number = nowSeconds()): boolean {
+  if (entry.expires_at && Date.parse(entry.expires_at) / 1000 <= now) return false;
+  if (entry.hours && !inHours(entry.hours, new Date(now * 1000))) return false;
+  return true;
+}
+
+function wildcardKey(jid: string): string {
+  return `*${jid.includes("@") ? jid.substring(jid.indexOf("@")) : ""}`;
+}
+
+/**
+ * The chats entry governing `jid` at `now`: the exact JID, then the `*@domain`
+ * wildcard, skipping an entry that is expired or outside its hours. Undefined
+ * means the default mode applies.
+ */
+export function resolveConstraintEntry(
+  jid: string,
+  config: WuConfig,
+  now: number = nowSeconds()
+): ChatConstraint | undefined {
+  const chats = config.constraints?.chats ?? {};
+  for (const key of [jid, wildcardKey(jid)]) {
+    const entry = chats[key];
+    if (entry && constraintActive(entry, now)) return entry;
+  }
+  return undefined;
+}
 
 export function resolveConstraint(
   jid: string,
-  config: WuConfig
+  config: WuConfig,
+  now: number = nowSeconds()
 ): ConstraintMode {
   if (!config.constraints) return "none";
+  return resolveConstraintEntry(jid, config, now)?.mode ?? config.constraints.default;
+}
 
-  const chats = config.constraints.chats;
-
-  // 1. Exact JID match
-  if (chats[jid]) return chats[jid].mode;
+/**
+ * Whether `jid` matches any of `patterns`, in the same syntax as the
+ * constraint `chats` keys: an exact JID or a `*@domain` wildcard. A bare "*"
+ * matches everything.
+ */
+export function jidMatchesAny(jid: string, patterns: string[]): boolean {
+  return patterns.some((p) => p === "*" || p === jid || p === wildcardKey(jid));
+}
 
-  // 2. Wildcard match
-  const domain = jid.includes("@") ? jid.substring(jid.indexOf("@")) : "";
-  const wildcard = `*${domain}`;
-  if (chats[wildcard]) return chats[wildcard].mode;
+/** Whether an agent's send to `jid` must wait for a human (`approve` mode). */
+export function requiresApproval(jid: string, config: WuConfig, now: number = nowSeconds()): boolean {
+  return resolveConstraint(jid, config, now) === "approve";
+}
 
-  // 3. Default
-  return config.constraints.default;
+// Why an entry that would allow sending doesn't apply right now, for the
+// violation message.
+function inactiveReason(jid: string, config: WuConfig, now: number): string {
+  const chats = config.constraints?.chats ?? {};
+  for (const key of [jid, wildcardKey(jid)]) {
+    const entry = chats[key];
+    if (!entry || (entry.mode !== "full" && entry.mode !== "approve") || constraintActive(entry, now)) continue;
+    if (entry.expires_at && Date.parse(entry.expires_at) / 1000 <= now) {
+      return ` (${entry.mode} access expired ${entry.expires_at})`;
+    }
+    if (entry.hours) return ` (${entry.mode} access only ${entry.hours})`;
+  }
+  return "";
 }
 
-export function assertCanSend(jid: string, config: WuConfig): void {
-  const mode = resolveConstraint(jid, config);
-  if (mode !== "full") {
-    const err = new Error(
-      `Constraint violation: chat ${jid} is ${mode === "read" ? "read-only" : "blocked (none)"}`
-    );
-    (err as Error & { exitCode: number }).exitCode = 2;
-    throw err;
+function describeMode(mode: ConstraintMode): string {
+  switch (mode) {
+    case "approve":
+      return "approval-only (agent sends wait for `wu approvals approve`)";
+    case "read":
+      return "read-only";
+    default:
+      return "blocked (none)";
   }
 }
 
+export function assertCanSend(jid: string, config: WuConfig, now: number = nowSeconds()): void {
+  const mode = resolveConstraint(jid, config, now);
+  if (mode === "full" || (mode === "approve" && !actingForAgent())) return;
+  const err = new Error(`Constraint violation: chat ${jid} is ${describeMode(mode)}` + inactiveReason(jid, config, now));
+  (err as Error & { exitCode: number }).exitCode = 2;
+  throw err;
+}
+
 export function assertCanManage(jid: string, config: WuConfig): void {
   assertCanSend(jid, config);
 }
 
-export function shouldCollect(jid: string, config: WuConfig): boolean {
-  const mode = resolveConstraint(jid, config);
-  return mode !== "none";
+/** The message fields the per-message filters (`senders`, `types`) read. */
+export interface ConstraintMessage {
+  senderJid: string | null;
+  type: string;
+  isFromMe: boolean;
+}
+
+export function messagePassesConstraint(entry: ChatConstraint, msg: ConstraintMessage): boolean {
+  if (entry.senders && !msg.isFromMe && !(msg.senderJid && jidMatchesAny(msg.senderJid, entry.senders))) {
+    return false;
+  }
+  if (entry.types && !entry.types.includes(msg.type)) return false;
+  if (entry.skip_types && entry.skip_types.includes(msg.type)) return false;
+  return true;
+}
+
+/**
+ * Whether the chat is collected at all or, given `msg`, whether that message
+ * is: the chat-level check plus the entry's sender and type filters.
+ */
+export function shouldCollect(
+  jid: string,
+  config: WuConfig,
+  msg?: ConstraintMessage,
+  now: number = nowSeconds()
+): boolean {
+  if (!config.constraints) return false;
+  const entry = resolveConstraintEntry(jid, config, now);
+  const mode = entry?.mode ?? config.constraints.default;
+  if (mode === "none") return false;
+  return !msg || !entry || messagePassesConstraint(entry, msg);
 }
 
 // --- SQL predicate translation ---
@@ -47,7 +151,10 @@ export function shouldCollect(jid: string, config: WuConfig): boolean {
 // time it can be unrolled into a parameterized SQL CASE expression instead
 // of pulling every row into JS to run shouldCollect() on each one. Priority
 // mirrors resolveConstraint exactly: exact JID match, then wildcard domain,
-// then the default mode.
+// then the default mode. Time bounds (`expires_at`, `hours`) are settled here
+// in JS at build time, exactly as resolveConstraint does for `now`; inactive
+// entries are simply left out. Per-message filters need message columns, so
+// they only apply when the caller queries messages and passes them.
 
 export interface SqlPredicate {
   /** A boolean SQL expression, safe to splice directly after WHERE / AND. */
@@ -56,45 +163,112 @@ export interface SqlPredicate {
   params: unknown[];
 }
 
+/** Columns holding what messagePassesConstraint reads, for message queries. */
+export interface MessageColumns {
+  sender: string;
+  type: string;
+  fromMe: string;
+}
+
+export const MESSAGE_COLUMNS: MessageColumns = { sender: "sender_jid", type: "type", fromMe: "is_from_me" };
+
+function domainSql(column: string): string {
+  return `CASE WHEN instr(${column}, '@') > 0 THEN substr(${column}, instr(${column}, '@')) ELSE '' END`;
+}
+
+function placeholders(values: unknown[]): string {
+  return values.map(() => "?").join(",");
+}
+
+// jidMatchesAny in SQL. A NULL column never matches, as in JS.
+function patternSql(column: string, patterns: string[]): SqlPredicate {
+  if (patterns.includes("*")) return { sql: "1", params: [] };
+  const exact = patterns.filter((p) => !p.startsWith("*"));
+  const domains = patterns.filter((p) => p.startsWith("*")).map((p) => p.slice(1));
+  return {
+    sql: `(${column} IN (${placeholders(exact)}) OR ${domainSql(column)} IN (${placeholders(domains)}))`,
+    params: [...exact, ...domains],
+  };
+}
+
+// messagePassesConstraint in SQL.
+function messageFilterSql(entry: ChatConstraint, cols: MessageColumns): SqlPredicate {
+  const parts: string[] = [];
+  const params: unknown[] = [];
+  if (entry.senders) {
+    const senders = patternSql(cols.sender, entry.senders);
+    parts.push(`(${cols.fromMe} = 1 OR ${senders.sql})`);
+    params.push(...senders.params);
+  }
+  if (entry.types) {
+    parts.push(`${cols.type} IN (${placeholders(entry.types)})`);
+    params.push(...entry.types);
+  }
+  if (entry.skip_types) {
+    parts.push(`${cols.type} NOT IN (${placeholders(entry.skip_types)})`);
+    params.push(...entry.skip_types);
+  }
+  return { sql: parts.join(" AND "), params };
+}
+
+function hasMessageFilter(entry: ChatConstraint): boolean {
+  return !!(entry.senders || entry.types || entry.skip_types);
+}
+
 export function constraintSqlPredicate(
   jidColumn: string,
-  config: WuConfig
+  config: WuConfig,
+  opts: { message?: MessageColumns; now?: number } = {}
 ): SqlPredicate {
   // No constraints block at all means every jid resolves to "none" (see
   // resolveConstraint above) - nothing is visible.
   if (!config.constraints) return { sql: "0", params: [] };
+  const now = opts.now ?? nowSeconds();
 
-  const exactAllow: string[] = [];
-  const exactDeny: string[] = [];
-  const wildcardAllow: string[] = [];
-  const wildcardDeny: string[] = [];
+  // One CASE branch list per tier: exact keys first, then wildcard domains.
+  const tiers = { exact: [] as string[], wildcard: [] as string[] };
+  const tierParams = { exact: [] as unknown[], wildcard: [] as unknown[] };
+  const grouped = {
+    exact: { allow: [] as string[], deny: [] as string[] },
+    wildcard: { allow: [] as string[], deny: [] as string[] },
+  };
 
   for (const [key, entry] of Object.entries(config.constraints.chats)) {
+    if (!constraintActive(entry, now)) continue;
+    const tier = key.startsWith("*") ? "wildcard" : "exact";
+    const value = tier === "wildcard" ? key.slice(1) : key;
     const visible = entry.mode !== "none";
-    if (key.startsWith("*")) {
-      (visible ? wildcardAllow : wildcardDeny).push(key.slice(1));
+    if (visible && opts.message && hasMessageFilter(entry)) {
+      // Keys are unique within a tier, so this branch can't shadow another.
+      const filter = messageFilterSql(entry, opts.message);
+      const expr = tier === "wildcard" ? domainSql(jidColumn) : jidColumn;
+      tiers[tier].push(`WHEN ${expr} = ? THEN (${filter.sql})`);
+      tierParams[tier].push(value, ...filter.params);
     } else {
-      (visible ? exactAllow : exactDeny).push(key);
+      grouped[tier][visible ? "allow" : "deny"].push(value);
     }
   }
 
   const defaultVisible = config.constraints.default !== "none" ? 1 : 0;
-  const domainExpr = `CASE WHEN instr(${jidColumn}, '@') > 0 THEN substr(${jidColumn}, instr(${jidColumn}, '@')) ELSE '' END`;
 
   const whens: string[] = [];
   const params: unknown[] = [];
   const addTier = (values: string[], expr: string, result: 0 | 1) => {
     if (values.length === 0) return;
-    whens.push(`WHEN ${expr} IN (${values.map(() => "?").join(",")}) THEN ${result}`);
+    whens.push(`WHEN ${expr} IN (${placeholders(values)}) THEN ${result}`);
     params.push(...values);
   };
 
   // Exact JID beats wildcard, which beats the default - same order as
   // resolveConstraint's three lookup steps.
-  addTier(exactDeny, jidColumn, 0);
-  addTier(exactAllow, jidColumn, 1);
-  addTier(wildcardDeny, domainExpr, 0);
-  addTier(wildcardAllow, domainExpr, 1);
+  addTier(grouped.exact.deny, jidColumn, 0);
+  addTier(grouped.exact.allow, jidColumn, 1);
+  whens.push(...tiers.exact);
+  params.push(...tierParams.exact);
+  addTier(grouped.wildcard.deny, domainSql(jidColumn), 0);
+  addTier(grouped.wildcard.allow, domainSql(jidColumn), 1);
+  whens.push(...tiers.wildcard);
+  params.push(...tierParams.wildcard);
 
   if (whens.length === 0) return { sql: `${defaultVisible} = 1`, params: [] };
   return {
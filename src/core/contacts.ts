@@ -0,0 +1,251 @@
+import { mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { WASocket } from "@whiskeysockets/baileys";
+import type { WuConfig } from "../config/schema.js";
+import { resolveMediaDir } from "./media.js";
+import { asyncPool } from "./pool.js";
+import { recordAudit } from "./audit.js";
+import { getContact, updateContactProfile, upsertContact, type ContactProfile, type ContactRow } from "./store.js";
+import { createChildLogger } from "../config/logger.js";
+
+const logger = createChildLogger("contacts");
+
+// Profile details (picture, about text, business profile) aren't pushed to
+// us like names are; they are fetched on demand by `wu contacts refresh` and
+// stored on the contact row with the time they were fetched.
+
+export interface RefreshOptions {
+  /** Also save the profile picture itself, not just its (expiring) URL */
+  pictures?: boolean;
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+// WhatsApp answers 401/404 when a contact hides a field from us or never set
+// it; both just mean "nothing to show". Anything else is a real failure.
+async function unlessHidden<T>(fetch: () => Promise<T>): Promise<T | undefined> {
+  try {
+    return await fetch();
+  } catch (err) {
+    const status = (err as { output?: { statusCode?: number } }).output?.statusCode;
+    if (status === 401 || status === 404) return undefined;
+    throw err;
+  }
+}
+
+async function savePicture(jid: string, url: string, config: WuConfig): Promise<string> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`picture download failed: HTTP ${res.status}`);
+  const dir = join(resolveMediaDir(config), "contacts");
+  mkdirSync(dir, { recursive: true });
+  const path = join(dir, `${jid.split("@")[0]}.jpg`);
+  writeFileSync(path, Buffer.from(await res.arrayBuffer()));
+  return path;
+}
+
+export async function fetchContactProfile(
+  sock: WASocket,
+  jid: string,
+  config: WuConfig,
+  opts: RefreshOptions = {}
+): Promise<ContactProfile> {
+  const [pictureUrl, statuses, business] = await Promise.all([
+    unlessHidden(() => sock.profilePictureUrl(jid, "image")),
+    unlessHidden(() => sock.fetchStatus(jid)),
+    unlessHidden(() => sock.getBusinessProfile(jid)),
+  ]);
+  const status = statuses?.[0]?.status as { status?: string | null; setAt?: Date } | undefined;
+
+  let picturePath: string | null = null;
+  if (pictureUrl && opts.pictures) {
+    try {
+      picturePath = await savePicture(jid, pictureUrl, config);
+    } catch (err) {
+      logger.warn({ err, jid }, "Could not save profile picture");
+    }
+  }
+
+  return {
+    is_business: business ? 1 : 0,
+    about: status?.status || null,
+    about_set_at: status?.setAt ? Math.floor(new Date(status.setAt).getTime() / 1000) : null,
+    picture_url: pictureUrl ?? null,
+    picture_path: picturePath,
+    business_category: business?.category || null,
+    business_description: business?.description || null,
+    business_website: business?.website?.filter(Boolean).join(" ") || null,
+    business_email: business?.email || null,
+    business_address: business?.address || null,
+  };
+}
+
+/** Fetch and store one contact's profile; creates the contact if it's new. */
+export async function refreshContact(
+  sock: WASocket,
+  jid: string,
+  config: WuConfig,
+  opts: RefreshOptions = {}
+): Promise<ContactRow> {
+  const profile = await fetchContactProfile(sock, jid, config, opts);
+  updateContactProfile(jid, profile, nowSeconds());
+  return getContact(jid)!;
+}
+
+export async function refreshContacts(
+  sock: WASocket,
+  jids: string[],
+  config: WuConfig,
+  opts: RefreshOptions = {}
+): Promise<{ results: ContactRow[]; errors: Array<{ jid: string; error: string }> }> {
+  // Two at a time: these are three queries per contact, and a burst of
+  // profile lookups is the kind of traffic WhatsApp rate-limits.
+  const pool = await asyncPool(jids, 2, (jid) => refreshContact(sock, jid, config, opts));
+  const results: ContactRow[] = [];
+  const errors: Array<{ jid: string; error: string }> = [];
+  for (const pr of pool) {
+    if (pr.status === "fulfilled") results.push(pr.value);
+    else errors.push({ jid: pr.item, error: pr.reason });
+  }
+  return { results, errors };
+}
+
+// --- Number lookup ---
+
+/**
+ * Normalize a phone number to E.164 ("+15551234567"). Numbers written with
+ * "+" or "00" are international; anything else is taken to already include
+ * its country code, unless `countryCode` is given, which replaces a national
+ * number's leading trunk 0. Returns null when no valid number is left.
+ */
+export function normalizePhone(input: string, countryCode?: string): string | null {
+  let digits = input.trim().replace(/[\s().-]/g, "");
+  if (digits.startsWith("+")) digits = digits.slice(1);
+  else if (digits.startsWith("00")) digits = digits.slice(2);
+  else if (countryCode) digits = countryCode.replace(/^\+/, "") + digits.replace(/^0/, "");
+  return /^[1-9]\d{7,14}$/.test(digits) ? `+${digits}` : null;
+}
+
+// Split one CSV line, honouring double-quoted fields.
+function csvFields(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ",") { fields.push(field); field = ""; }
+    else field += ch;
+  }
+  fields.push(field);
+  return fields.map((f) => f.trim());
+}
+
+/**
+ * The phone numbers in one column of a CSV file: the named one (matched
+ * against the header row) or else the first. Without a name, a first row
+ * that holds no digits is taken to be a header.
+ */
+export function readCsvPhones(text: string, column?: string): string[] {
+  const rows = text.split(/\r?\n/).filter((l) => l.trim()).map(csvFields);
+  if (rows.length === 0) return [];
+  let index = 0;
+  if (column) {
+    index = rows[0]!.findIndex((h) => h.toLowerCase() === column.toLowerCase());
+    if (index === -1) throw new Error(`No "${column}" column in the CSV header`);
+    rows.shift();
+  } else if (!/\d/.test(rows[0]![0] ?? "")) {
+    rows.shift();
+  }
+  return rows.map((r) => r[index] ?? "").filter(Boolean);
+}
+
+/** A JID as given, or the user JID for a phone number. */
+export function phoneToJid(input: string, countryCode?: string): string {
+  if (input.includes("@")) return input;
+  const phone = normalizePhone(input, countryCode);
+  if (!phone) throw new Error(`Not a JID or phone number: ${input}`);
+  return `${phone.slice(1)}@s.whatsapp.net`;
+}
+
+export interface NumberCheck {
+  input: string;
+  /** E.164, or null when the input isn't a phone number */
+  phone: string | null;
+  exists: boolean;
+  jid: string | null;
+  /** null when unknown: not on WhatsApp, or the lookup failed */
+  is_business: boolean | null;
+  error?: string;
+}
+
+export interface CheckOptions {
+  countryCode?: string;
+  /** Record the numbers that are on WhatsApp in `contacts` */
+  save?: boolean;
+  /**
+   * Also look up whether each number found is a business account. That's one
+   * more query per number; without it is_business is null.
+   */
+  business?: boolean;
+}
+
+const CHECK_BATCH = 50;
+
+/** Which of these numbers are on WhatsApp, under which JID. */
+export async function checkNumbers(sock: WASocket, inputs: string[], opts: CheckOptions = {}): Promise<NumberCheck[]> {
+  const checks: NumberCheck[] = inputs.map((input) => {
+    const phone = normalizePhone(input, opts.countryCode);
+    return phone
+      ? { input, phone, exists: false, jid: null, is_business: null }
+      : { input, phone, exists: false, jid: null, is_business: null, error: "not a valid phone number" };
+  });
+  const phones = [...new Set(checks.flatMap((c) => (c.phone ? [c.phone] : [])))];
+
+  // WhatsApp answers with the JIDs it knows; a JID's user part is the number.
+  const found = new Map<string, string>();
+  for (let i = 0; i < phones.length; i += CHECK_BATCH) {
+    const batch = phones.slice(i, i + CHECK_BATCH);
+    const answers = (await sock.onWhatsApp(...batch)) ?? [];
+    for (const { jid, exists } of answers) {
+      if (exists) found.set(`+${jid.split("@")[0]!.split(":")[0]}`, jid);
+    }
+  }
+
+  // Two at a time, as in refreshContacts: a long CSV would otherwise be a
+  // burst of profile lookups.
+  const business = new Map<string, boolean | null>();
+  if (opts.business) {
+    const lookups = await asyncPool([...new Set(found.values())], 2, async (jid) =>
+      !!(await unlessHidden(() => sock.getBusinessProfile(jid)))
+    );
+    for (const r of lookups) {
+      if (r.status === "rejected") logger.warn({ err: r.reason, jid: r.item }, "Could not look up business profile");
+      business.set(r.item, r.status === "fulfilled" ? r.value : null);
+    }
+  }
+
+  for (const check of checks) {
+    const jid = check.phone ? found.get(check.phone) : undefined;
+    if (!jid) continue;
+    check.exists = true;
+    check.jid = jid;
+    check.is_business = business.get(jid) ?? null;
+    if (opts.save) {
+      upsertContact({
+        jid,
+        phone: check.phone!.slice(1),
+        push_name: null,
+        saved_name: null,
+        is_business: check.is_business === null ? null : Number(check.is_business),
+      });
+    }
+  }
+  recordAudit("contacts_check", null, { numbers: phones, save: !!opts.save, business: !!opts.business });
+  return checks;
+}
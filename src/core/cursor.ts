@@ -0,0 +1,80 @@
+import type { SqlPredicate } from "./constraints.js";
+
+// Keyset pagination. A cursor is the sort key of the last row on a page,
+// ending in a unique column (rowid, a JID or an id) so rows that share a
+// timestamp or a rank are neither skipped nor repeated across pages. It's
+// handed out base64url-encoded and tagged with the ordering it belongs to,
+// so callers treat it as opaque and a cursor from one listing can't be
+// replayed against another.
+
+export class CursorError extends Error {
+  constructor(message: string) {
+    super(`Invalid cursor: ${message}`);
+    this.name = "CursorError";
+  }
+}
+
+export interface SortKey {
+  /** SQL expression the rows are ordered by; never NULL */
+  sql: string;
+  desc: boolean;
+}
+
+export interface Ordering {
+  /** Tag written into the cursor */
+  name: string;
+  keys: SortKey[];
+}
+
+export function orderBySql(ordering: Ordering): string {
+  return ordering.keys.map((k) => `${k.sql} ${k.desc ? "DESC" : "ASC"}`).join(", ");
+}
+
+export function encodeCursor(ordering: Ordering, values: unknown[]): string {
+  return Buffer.from(JSON.stringify([ordering.name, ...values])).toString("base64url");
+}
+
+export function decodeCursor(ordering: Ordering, cursor: string): unknown[] {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new CursorError("not a cursor this command returned");
+  }
+  if (!Array.isArray(decoded) || decoded.length !== ordering.keys.length + 1) {
+    throw new CursorError("not a cursor this command returned");
+  }
+  const [name, ...values] = decoded;
+  if (name !== ordering.name) {
+    throw new CursorError(`it belongs to a different listing (${String(name)}), not ${ordering.name}`);
+  }
+  return values;
+}
+
+/**
+ * Rows strictly after the one whose sort key is `values`:
+ * (k1 > v1) OR (k1 = v1 AND k2 > v2) OR ..., flipped for descending keys.
+ */
+export function afterCursor(ordering: Ordering, values: unknown[]): SqlPredicate {
+  const branches: string[] = [];
+  const params: unknown[] = [];
+  ordering.keys.forEach((key, i) => {
+    const equal = ordering.keys.slice(0, i).map((k) => `${k.sql} = ?`);
+    branches.push([...equal, `${key.sql} ${key.desc ? "<" : ">"} ?`].join(" AND "));
+    params.push(...values.slice(0, i + 1));
+  });
+  return { sql: `(${branches.map((b) => `(${b})`).join(" OR ")})`, params };
+}
+
+/** A page of rows; `next_cursor` is null on the last page. */
+export type Paged<T> = T[] & { next_cursor: string | null };
+
+/**
+ * Trim rows fetched with LIMIT limit + 1 to a page. The extra row only
+ * shows there is a next page; the cursor points at the last row kept.
+ */
+export function toPage<T>(rows: T[], limit: number, ordering: Ordering, keyOf: (row: T) => unknown[]): Paged<T> {
+  const page = rows.slice(0, limit);
+  const next_cursor = rows.length > limit ? encodeCursor(ordering, keyOf(page[page.length - 1]!)) : null;
+  return Object.assign(page, { next_cursor });
+}
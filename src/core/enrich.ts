@@ -6,9 +6,11 @@ import type { EnrichConfig, EnrichCapabilityConfig } from "../config/schema.js";
 import { shellEscape } from "./remote.js";
 
 export type Capability = "transcribe" | "ocr";
+/** Every configured backend: the media capabilities plus message embeddings (see core/semantic.ts) */
+export type BackendCapability = Capability | "embed";
 
 export interface BackendStatus {
-  capability: Capability;
+  capability: BackendCapability;
   backend: "off" | "local" | "api";
   available: boolean;
   detail: string;
@@ -26,16 +28,17 @@ function localBin(cap: EnrichCapabilityConfig): string {
   return cap.local.cmd.trim().split(/\s+/)[0] || "";
 }
 
-function installHint(cap: Capability, bin: string): string {
+function installHint(cap: BackendCapability, bin: string): string {
   const common: Record<string, string> = {
     whisper: "pip install -U openai-whisper (or build whisper.cpp and point enrich.transcribe.local.cmd at it)",
     "whisper-cli": "build whisper.cpp; ensure whisper-cli is on PATH",
     tesseract: "install tesseract with the ara+eng language data (brew install tesseract tesseract-lang)",
+    llm: "pip install llm llm-sentence-transformers",
   };
   return common[bin] || `install '${bin}' and put it on PATH, or set enrich.${cap}.backend to api`;
 }
 
-export function resolveBackend(cap: Capability, config: EnrichConfig): BackendStatus {
+export function resolveBackend(cap: BackendCapability, config: EnrichConfig): BackendStatus {
   const c = config[cap];
   if (c.backend === "off") {
     return {
@@ -71,7 +74,7 @@ export function resolveBackend(cap: Capability, config: EnrichConfig): BackendSt
 }
 
 export function enrichStatus(config: EnrichConfig): BackendStatus[] {
-  return (["transcribe", "ocr"] as Capability[]).map((cap) => resolveBackend(cap, config));
+  return (["transcribe", "ocr", "embed"] as BackendCapability[]).map((cap) => resolveBackend(cap, config));
 }
 
 export class EnrichUnavailableError extends Error {
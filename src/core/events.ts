@@ -0,0 +1,153 @@
+import { jidMatchesAny } from "./constraints.js";
+import type { ParsedMessage } from "./listener.js";
+import type { ApprovalRow } from "./store.js";
+
+// Live events the listener reports as it stores them, fanned out by the daemon
+// to `subscribe` clients over IPC (`wu listen` while a daemon runs). One flat
+// JSON object per event, tagged by `event`, so a consumer can filter NDJSON
+// with a single field.
+
+export type ReceiptStatus = "delivered" | "read" | "played";
+export type ConnectionState = "open" | "connecting" | "closed";
+
+export type WuEvent =
+  | {
+      event: "message";
+      chat: string;
+      id: string;
+      sender: string | null;
+      sender_name: string | null;
+      body: string | null;
+      type: string;
+      from_me: boolean;
+      timestamp: number;
+      quoted_id: string | null;
+    }
+  | { event: "edit"; chat: string; id: string; body: string | null; timestamp: number }
+  | { event: "delete"; chat: string; id: string }
+  | {
+      event: "reaction";
+      chat: string;
+      id: string;
+      reactor: string;
+      emoji: string | null;
+      from_me: boolean;
+      timestamp: number;
+    }
+  | { event: "receipt"; chat: string; id: string; recipient: string; status: ReceiptStatus; timestamp: number }
+  | { event: "connection"; state: ConnectionState; reason?: number }
+  | {
+      event: "approval";
+      chat: string;
+      approval_id: number;
+      kind: string;
+      body: string | null;
+      requested_by: string;
+      status: string;
+    };
+
+export type WuEventKind = WuEvent["event"];
+
+export const EVENT_KINDS: readonly WuEventKind[] = [
+  "message",
+  "edit",
+  "delete",
+  "reaction",
+  "receipt",
+  "connection",
+  "approval",
+];
+
+export function messageEvent(msg: ParsedMessage): WuEvent {
+  return {
+    event: "message",
+    chat: msg.chatJid,
+    id: msg.id,
+    sender: msg.senderJid,
+    sender_name: msg.senderName,
+    body: msg.body,
+    type: msg.type,
+    from_me: msg.isFromMe,
+    timestamp: msg.timestamp,
+    quoted_id: msg.quotedId,
+  };
+}
+
+export function approvalEvent(row: ApprovalRow): WuEvent {
+  return {
+    event: "approval",
+    chat: row.chat_jid,
+    approval_id: row.id,
+    kind: row.kind,
+    body: row.body,
+    requested_by: row.requested_by,
+    status: row.status,
+  };
+}
+
+export interface EventFilter {
+  /** Event kinds to pass; all when omitted. */
+  events?: string[];
+  /** Chat patterns in constraint syntax (exact JID, `*@g.us`, `*`). */
+  chats?: string[];
+  /** Message types (`text`, `image`, ...); only narrows `message` events. */
+  types?: string[];
+}
+
+// Connection events belong to no chat and always pass a chat filter: a
+// subscriber watching one group still needs to know the stream went away.
+export function eventMatches(event: WuEvent, filter: EventFilter): boolean {
+  if (filter.events && filter.events.length > 0 && !filter.events.includes(event.event)) return false;
+  if (event.event === "connection") return true;
+  if (filter.chats && filter.chats.length > 0 && !jidMatchesAny(event.chat, filter.chats)) return false;
+  if (event.event === "message" && filter.types && filter.types.length > 0 && !filter.types.includes(event.type)) {
+    return false;
+  }
+  return true;
+}
+
+export function parseEventKinds(list: string): WuEventKind[] {
+  const kinds = list.split(",").map((s) => s.trim()).filter(Boolean);
+  for (const kind of kinds) {
+    if (!EVENT_KINDS.includes(kind as WuEventKind)) {
+      throw new Error(`Unknown event "${kind}" (expected ${EVENT_KINDS.join(", ")})`);
+    }
+  }
+  return kinds as WuEventKind[];
+}
+
+/**
+ * In-process fan-out from the listener to subscribers. Remembers the last
+ * connection state so a late subscriber learns it on attach instead of
+ * waiting for the next transition.
+ */
+export class EventBus {
+  private subscribers = new Set<(event: WuEvent) => void>();
+  private connection: ConnectionState = "connecting";
+
+  get connectionState(): ConnectionState {
+    return this.connection;
+  }
+
+  emit(event: WuEvent): void {
+    if (event.event === "connection") this.connection = event.state;
+    for (const fn of this.subscribers) {
+      try {
+        fn(event);
+      } catch {
+        // A broken subscriber must never take down ingestion.
+      }
+    }
+  }
+
+  subscribe(fn: (event: WuEvent) => void): () => void {
+    this.subscribers.add(fn);
+    return () => {
+      this.subscribers.delete(fn);
+    };
+  }
+
+  get size(): number {
+    return this.subscribers.size;
+  }
+}
@@ -1,12 +1,13 @@
 import { getDb } from "../db/database.js";
-import type { MessageRow } from "./store.js";
-import { deserializeWAMessage } from "./store.js";
+import type { MessageRow, MessageRevisionRow, ReactionSummary } from "./store.js";
+import { deserializeWAMessage, getRevisionsByMessageIds, getReactionSummaries, listReplies } from "./store.js";
 import {
   getMessageContent,
   extractDocumentFileName,
   extractAudioMeta,
   extractAlbumLabel,
 } from "./extract.js";
+import type { SqlPredicate } from "./constraints.js";
 import type { WAMessage } from "@whiskeysockets/baileys";
 import { writeFileSync, mkdirSync, statSync, existsSync, openSync, writeSync, closeSync } from "fs";
 import { dirname, join, basename } from "path";
@@ -20,6 +21,15 @@ export interface ExportOptions {
   excludeReactions?: boolean;
   types?: string[];
   excludeTypes?: string[];
+  /** Attach every prior version of edited messages, not just the "(edited)" marker. */
+  revisions?: boolean;
+  /** Markdown only: write replies nested under the message they quote, as blockquotes. */
+  threads?: boolean;
+  /**
+   * Constraint predicate over unqualified `messages` columns: rows the chat's
+   * sender and type filters hide are left out, and so are quotes of them.
+   */
+  visiblePredicate?: SqlPredicate;
   batchSize?: number;
 }
 
@@ -89,6 +99,38 @@ export function quotedSnippet(
   return `${sender}: ${clipped}`;
 }
 
+// "👍 2 · ❤️ 1" - compact enough to sit on one line under a message.
+export function formatReactions(reactions: ReactionSummary[]): string {
+  return reactions.map((r) => `${r.emoji} ${r.count}`).join(" · ");
+}
+
+// Shape of one message in jsonl/json exports.
+export function exportRow(
+  row: MessageRow,
+  extras: { reactions?: ReactionSummary[]; revisions?: MessageRevisionRow[] } = {}
+): Record<string, unknown> {
+  const { reactions, revisions } = extras;
+  const out: Record<string, unknown> = {
+    id: row.id,
+    chat_jid: row.chat_jid,
+    sender_jid: row.sender_jid,
+    sender_name: row.sender_name,
+    body: row.body,
+    type: row.type,
+    timestamp: row.timestamp,
+    media_mime: row.media_mime,
+    media_path: row.media_path,
+    quoted_id: row.quoted_id,
+    is_from_me: row.is_from_me,
+    edited_at: row.edited_at ?? null,
+    reactions: reactions ?? [],
+  };
+  if (revisions) {
+    out.revisions = revisions.map((r) => ({ body: r.body, edited_at: r.edited_at }));
+  }
+  return out;
+}
+
 export interface ExportResult {
   messages_exported: number;
   file: string;
@@ -263,6 +305,9 @@ export function exportMessages(opts: ExportOptions): ExportResult {
     conditions.push(`type NOT IN (${opts.excludeTypes.map(() => "?").join(", ")})`);
     params.push(...opts.excludeTypes);
   }
+  const visible = opts.visiblePredicate ?? { sql: "1", params: [] };
+  conditions.push(`(${visible.sql})`);
+  params.push(...visible.params);
 
   const where = conditions.join(" AND ");
 
@@ -308,76 +353,106 @@ export function exportMessages(opts: ExportOptions): ExportResult {
 
     let currentDay = "";
     const quotedStmt = db.prepare(
-      "SELECT sender_name, sender_jid, type, media_mime, raw, body FROM messages WHERE id = ?"
+      `SELECT sender_name, sender_jid, type, media_mime, raw, body FROM messages WHERE id = ? AND (${visible.sql})`
     );
     let batch: (MessageRow & { rowid: number })[];
+    // Reactions and revision chains for the current batch, looked up once per batch.
+    let batchReactions = new Map<string, ReactionSummary[]>();
+    let batchRevisions = new Map<string, MessageRevisionRow[]>();
+    const extrasFor = (row: MessageRow) => ({
+      reactions: batchReactions.get(row.id),
+      revisions: opts.revisions ? (batchRevisions.get(row.id) ?? []) : undefined,
+    });
+
+    const threaded = format === "markdown" && !!opts.threads;
+    const inExport = db.prepare(`SELECT 1 FROM messages WHERE id = ? AND ${where}`);
+
+    // "HH:MM - sender", with the date in front when it isn't `day`'s.
+    const markdownHeading = (row: MessageRow, day: string) => {
+      const date = new Date(row.timestamp * 1000);
+      const dayStr = date.toISOString().split("T")[0];
+      const sender = row.sender_name || row.sender_jid || (row.is_from_me ? "Me" : "Unknown");
+      return `${dayStr !== day ? `${dayStr} ` : ""}${date.toTimeString().slice(0, 5)} - ${sender}`;
+    };
+    const markdownBody = (
+      row: MessageRow,
+      revisions: MessageRevisionRow[] | undefined,
+      reacted: ReactionSummary[] | undefined
+    ) => {
+      const edited = row.edited_at ? " _(edited)_" : "";
+      // Earlier versions, oldest first; the last revision is the body itself.
+      const earlier = (revisions ?? [])
+        .slice(0, -1)
+        .map((r) => `> earlier: ${r.body ?? ""}\n`)
+        .join("");
+      const reactionLine = reacted?.length ? `\n${formatReactions(reacted)}` : "";
+      // Media/other: distinct label, with caption appended when present
+      const content = row.type === "text" ? row.body || "" : `${mediaLabel(row)}${row.body ? ` ${row.body}` : ""}`;
+      return `${earlier}${content}${edited}${reactionLine}`;
+    };
+    // Replies in the export, each a blockquote one level deeper than what it
+    // answers. Returns whether any were written.
+    const writeReplies = (parentId: string, depth: number, seen: Set<string>): boolean => {
+      const replies = listReplies([parentId], { sql: where, params }).filter((r) => !seen.has(r.id));
+      if (replies.length === 0) return false;
+      const reactions = getReactionSummaries(replies.map((r) => r.id));
+      const revisions = opts.revisions
+        ? getRevisionsByMessageIds(replies.filter((r) => r.edited_at).map((r) => r.id))
+        : undefined;
+      const quote = "> ".repeat(depth);
+      for (const reply of replies) {
+        seen.add(reply.id);
+        const body = markdownBody(reply, revisions ? (revisions.get(reply.id) ?? []) : undefined, reactions.get(reply.id));
+        const lines = [`**${markdownHeading(reply, currentDay)}**`, ...body.split("\n"), ""];
+        w(lines.map((l) => `${quote}${l}`.trimEnd()).join("\n") + "\n");
+        writeReplies(reply.id, depth + 1, seen);
+      }
+      return true;
+    };
 
     // First batch
     batch = firstBatchStmt.all(...params, batchSize) as (MessageRow & { rowid: number })[];
 
     while (batch.length > 0) {
+      batchReactions = getReactionSummaries(batch.map((r) => r.id));
+      if (opts.revisions) {
+        batchRevisions = getRevisionsByMessageIds(
+          batch.filter((r) => r.edited_at).map((r) => r.id)
+        );
+      }
       for (const row of batch) {
         if (oldest === null || row.timestamp < oldest) oldest = row.timestamp;
         if (newest === null || row.timestamp > newest) newest = row.timestamp;
 
         switch (format) {
           case "jsonl":
-            w(JSON.stringify({
-              id: row.id,
-              chat_jid: row.chat_jid,
-              sender_jid: row.sender_jid,
-              sender_name: row.sender_name,
-              body: row.body,
-              type: row.type,
-              timestamp: row.timestamp,
-              media_mime: row.media_mime,
-              media_path: row.media_path,
-              quoted_id: row.quoted_id,
-              is_from_me: row.is_from_me,
-            }) + "\n");
+            w(JSON.stringify(exportRow(row, extrasFor(row))) + "\n");
             break;
 
           case "json":
             if (!isFirst) w(",\n");
-            w(JSON.stringify({
-              id: row.id,
-              chat_jid: row.chat_jid,
-              sender_jid: row.sender_jid,
-              sender_name: row.sender_name,
-              body: row.body,
-              type: row.type,
-              timestamp: row.timestamp,
-              media_mime: row.media_mime,
-              media_path: row.media_path,
-              quoted_id: row.quoted_id,
-              is_from_me: row.is_from_me,
-            }, null, 2));
+            w(JSON.stringify(exportRow(row, extrasFor(row)), null, 2));
             break;
 
           case "markdown": {
-            const date = new Date(row.timestamp * 1000);
-            const dayStr = date.toISOString().split("T")[0];
+            // Threaded: a reply to a message in the export is written under it
+            // instead of at its own place in the timeline.
+            if (threaded && row.quoted_id && inExport.get(row.quoted_id, ...params)) break;
+            const dayStr = new Date(row.timestamp * 1000).toISOString().split("T")[0];
             if (dayStr !== currentDay) {
               currentDay = dayStr;
               w(`\n## ${dayStr}\n\n`);
             }
-            const time = date.toTimeString().slice(0, 5);
-            const sender = row.sender_name || row.sender_jid || (row.is_from_me ? "Me" : "Unknown");
             // Replies reference what they answer; one indexed lookup per reply row.
             let reply = "";
             if (row.quoted_id) {
-              const q = quotedStmt.get(row.quoted_id) as
+              const q = quotedStmt.get(row.quoted_id, ...visible.params) as
                 | Pick<MessageRow, "sender_name" | "sender_jid" | "type" | "media_mime" | "raw" | "body">
                 | undefined;
               if (q) reply = `↩ to ${quotedSnippet(q)}\n`;
             }
-            if (row.type === "text") {
-              w(`### ${time} - ${sender}\n${reply}${row.body || ""}\n\n`);
-            } else {
-              // Media/other: distinct label, with caption appended when present
-              const caption = row.body ? ` ${row.body}` : "";
-              w(`### ${time} - ${sender}\n${reply}${mediaLabel(row)}${caption}\n\n`);
-            }
+            w(`### ${markdownHeading(row, currentDay)}\n${reply}${markdownBody(row, extrasFor(row).revisions, batchReactions.get(row.id))}\n\n`);
+            if (threaded && writeReplies(row.id, 1, new Set([row.id]))) w("\n");
             break;
           }
 
@@ -123,6 +123,58 @@ export function extractQuotedId(
   return contextInfo?.stanzaId || null;
 }
 
+export interface PollDefinition {
+  question: string;
+  options: string[];
+  selectableCount: number;
+}
+
+export function extractPoll(content: WAMessageContent | undefined): PollDefinition | null {
+  const poll =
+    content?.pollCreationMessage ||
+    content?.pollCreationMessageV2 ||
+    content?.pollCreationMessageV3;
+  if (!poll) return null;
+  return {
+    question: poll.name || "",
+    options: (poll.options || []).map((o) => o.optionName || ""),
+    selectableCount: poll.selectableOptionsCount || 0,
+  };
+}
+
+// The per-message secret votes are encrypted against. It sits next to the
+// content on the outer message, or on the inner one when the poll was wrapped
+// (ephemeral, view-once).
+export function extractMessageSecret(msg: WAMessage): Uint8Array | null {
+  const secret =
+    msg.message?.messageContextInfo?.messageSecret ||
+    normalizeMessageContent(msg.message)?.messageContextInfo?.messageSecret;
+  return secret && secret.length > 0 ? secret : null;
+}
+
+export interface EditInfo {
+  /** id of the message being edited, not of the edit itself */
+  targetId: string;
+  text: string | null;
+  /** unix seconds, when the protocol message carries one */
+  editedAt: number | null;
+}
+
+// A MESSAGE_EDIT protocol message: the edit arrives as its own message whose
+// protocolMessage points at the original by key and carries the new content.
+export function extractEdit(
+  content: WAMessageContent | undefined
+): EditInfo | null {
+  const protocol = content?.protocolMessage;
+  if (!protocol?.editedMessage || !protocol.key?.id) return null;
+  const ms = protocol.timestampMs != null ? Number(protocol.timestampMs) : 0;
+  return {
+    targetId: protocol.key.id,
+    text: extractText(protocol.editedMessage),
+    editedAt: ms > 0 ? Math.floor(ms / 1000) : null,
+  };
+}
+
 export function extractDocumentFileName(
   content: WAMessageContent | undefined
 ): string | null {
@@ -191,24 +243,71 @@ function humanizeStub(name: string): string {
   return name.toLowerCase().replace(/_/g, " ");
 }
 
-// Resolve the messageStubType (stored as either the enum name or its number)
-// into a human-readable event label. Returns null when there is no stub event.
-export function extractSystemEvent(msg: WAMessage): string | null {
+// The messageStubType's enum name (it is stored as either the name or its
+// number). undefined when there is no stub; null for a number we can't name.
+function stubName(msg: WAMessage): string | null | undefined {
   const raw = msg.messageStubType;
-  if (raw === null || raw === undefined) return null;
-
-  let name: string | null = null;
-  if (typeof raw === "string") {
-    name = raw;
-  } else if (typeof raw === "number") {
-    name = STUB_NAME_BY_VALUE[raw] ?? null;
-    if (name === null) return `event ${raw}`;
-  }
+  if (raw === null || raw === undefined) return undefined;
+  if (typeof raw === "string") return raw;
+  if (typeof raw === "number") return STUB_NAME_BY_VALUE[raw] ?? null;
+  return undefined;
+}
+
+// Resolve the messageStubType into a human-readable event label. Returns null
+// when there is no stub event.
+export function extractSystemEvent(msg: WAMessage): string | null {
+  const name = stubName(msg);
+  if (name === null) return `event ${msg.messageStubType}`;
   if (!name || name === "UNKNOWN") return null;
 
   return STUB_PHRASES[name] || humanizeStub(name);
 }
 
+export type MembershipAction = "join" | "leave" | "remove" | "promote" | "demote";
+
+export interface MembershipChange {
+  action: MembershipAction;
+  participants: string[];
+  /** Who made the change: the admin who added/removed, or the member themselves */
+  actor: string | null;
+}
+
+// Every way into a group counts as a join; the actor says whether someone
+// was added by an admin or came in by link, request or community.
+const MEMBERSHIP_STUBS: Record<string, MembershipAction> = {
+  GROUP_PARTICIPANT_ADD: "join",
+  GROUP_PARTICIPANT_INVITE: "join",
+  GROUP_PARTICIPANT_ADD_REQUEST_JOIN: "join",
+  GROUP_PARTICIPANT_ACCEPT: "join",
+  GROUP_PARTICIPANT_LINKED_GROUP_JOIN: "join",
+  GROUP_PARTICIPANT_LEAVE: "leave",
+  GROUP_PARTICIPANT_REMOVE: "remove",
+  GROUP_PARTICIPANT_PROMOTE: "promote",
+  GROUP_PARTICIPANT_DEMOTE: "demote",
+};
+
+// Stub parameters are participant JIDs; newer WhatsApp versions send each as
+// a JSON object ({"id": ..., "phoneNumber": ...}) instead.
+export function stubParticipantJid(param: string): string {
+  if (!param.startsWith("{")) return param;
+  try {
+    const parsed = JSON.parse(param) as { id?: string; phoneNumber?: string };
+    return parsed.id || parsed.phoneNumber || param;
+  } catch {
+    return param;
+  }
+}
+
+/** The join/leave/remove/promote/demote a group system message records, if any. */
+export function extractMembershipChange(msg: WAMessage): MembershipChange | null {
+  const name = stubName(msg);
+  const action = name ? MEMBERSHIP_STUBS[name] : undefined;
+  if (!action) return null;
+  const participants = (msg.messageStubParameters ?? []).filter(Boolean).map(stubParticipantJid);
+  if (participants.length === 0) return null;
+  return { action, participants, actor: msg.key.participant || msg.participant || null };
+}
+
 export interface LocationData {
   lat: number;
   lon: number;
@@ -1,7 +1,8 @@
 import type { WASocket } from "@whiskeysockets/baileys";
 import type { WuConfig } from "../config/schema.js";
 import { assertCanManage } from "./constraints.js";
-import { upsertChat } from "./store.js";
+import { audited, recordAudit } from "./audit.js";
+import { setChatDescription, upsertChat, upsertGroupParticipants } from "./store.js";
 import { createChildLogger } from "../config/logger.js";
 
 const logger = createChildLogger("groups");
@@ -22,9 +23,17 @@ export async function createGroup(
   participants: string[],
   config: WuConfig
 ) {
-  // No specific JID to check — use default constraint
+  // No specific JID to check — use default constraint. The new group's JID is
+  // only known afterwards, so it is recorded as the target once created.
   logger.debug({ name, participants }, "Creating group");
-  return sock.groupCreate(name, participants);
+  try {
+    const created = await sock.groupCreate(name, participants);
+    recordAudit("group_create", created.id, { name, participants });
+    return created;
+  } catch (err) {
+    recordAudit("group_create", null, { name, participants }, { err });
+    throw err;
+  }
 }
 
 export async function getInviteCode(
@@ -32,9 +41,11 @@ export async function getInviteCode(
   jid: string,
   config: WuConfig
 ): Promise<string> {
-  assertCanManage(jid, config);
-  logger.debug({ jid }, "Getting invite code");
-  return sock.groupInviteCode(jid) as Promise<string>;
+  return audited("group_invite", jid, undefined, async () => {
+    assertCanManage(jid, config);
+    logger.debug({ jid }, "Getting invite code");
+    return sock.groupInviteCode(jid) as Promise<string>;
+  });
 }
 
 export async function leaveGroup(
@@ -42,9 +53,11 @@ export async function leaveGroup(
   jid: string,
   config: WuConfig
 ): Promise<void> {
-  assertCanManage(jid, config);
-  logger.debug({ jid }, "Leaving group");
-  await sock.groupLeave(jid);
+  await audited("group_leave", jid, undefined, async () => {
+    assertCanManage(jid, config);
+    logger.debug({ jid }, "Leaving group");
+    await sock.groupLeave(jid);
+  });
 }
 
 export async function renameGroup(
@@ -53,9 +66,11 @@ export async function renameGroup(
   newName: string,
   config: WuConfig
 ): Promise<void> {
-  assertCanManage(jid, config);
-  logger.debug({ jid, newName }, "Renaming group");
-  await sock.groupUpdateSubject(jid, newName);
+  await audited("group_rename", jid, { name: newName }, async () => {
+    assertCanManage(jid, config);
+    logger.debug({ jid, newName }, "Renaming group");
+    await sock.groupUpdateSubject(jid, newName);
+  });
   upsertChat({
     jid,
     name: newName,
@@ -74,5 +89,161 @@ export async function joinGroupByInvite(
     ? codeOrUrl.split("chat.whatsapp.com/").pop()!
     : codeOrUrl;
   logger.debug({ code }, "Joining group by invite");
-  return sock.groupAcceptInvite(code);
+  try {
+    const jid = await sock.groupAcceptInvite(code);
+    recordAudit("group_join", jid ?? null, { code });
+    return jid;
+  } catch (err) {
+    recordAudit("group_join", null, { code }, { err });
+    throw err;
+  }
+}
+
+// --- Administration ---
+// Everything below needs us to be a group admin; WhatsApp refuses otherwise.
+// Constraint-wise it's gated like any other management action.
+
+export type ParticipantChange = "add" | "remove" | "promote" | "demote";
+
+export interface ParticipantResult {
+  jid: string;
+  /** WhatsApp's per-participant status: "200" is success */
+  status: string;
+}
+
+// Re-read the member list after a change so group_participants matches what
+// WhatsApp now has, admins included. Best effort: the change itself is done.
+async function syncParticipants(sock: WASocket, jid: string): Promise<void> {
+  try {
+    const meta = await sock.groupMetadata(jid);
+    upsertChat({
+      jid,
+      name: meta.subject || null,
+      type: "group",
+      participant_count: meta.participants.length,
+      description: meta.desc || null,
+      last_message_at: null,
+    });
+    upsertGroupParticipants(
+      jid,
+      meta.participants.map((p) => ({
+        jid: p.id,
+        isAdmin: p.admin === "admin" || p.admin === "superadmin",
+        isSuperAdmin: p.admin === "superadmin",
+      }))
+    );
+  } catch (err) {
+    logger.warn({ err, jid }, "Could not refresh group participants");
+  }
+}
+
+export async function updateParticipants(
+  sock: WASocket,
+  jid: string,
+  participants: string[],
+  change: ParticipantChange,
+  config: WuConfig
+): Promise<ParticipantResult[]> {
+  const results = await audited("group_participants", jid, { change, participants }, async () => {
+    assertCanManage(jid, config);
+    logger.debug({ jid, participants, change }, "Updating group participants");
+    const res = await sock.groupParticipantsUpdate(jid, participants, change);
+    return res.map((r, i) => ({ jid: r.jid ?? participants[i]!, status: r.status }));
+  });
+  await syncParticipants(sock, jid);
+  return results;
+}
+
+export interface GroupSettingsChange {
+  /** null clears the description */
+  description?: string | null;
+  /** Only admins can send */
+  announce?: boolean;
+  /** Only admins can edit the group info */
+  locked?: boolean;
+  /** Disappearing-message timer in seconds; 0 turns it off */
+  ephemeral?: number;
+  /** New members need an admin's approval */
+  join_approval?: boolean;
+}
+
+// The only timers WhatsApp offers: off, 24 hours, 7 days, 90 days.
+const EPHEMERAL_NAMES: Record<string, number> = { off: 0, "24h": 86400, "7d": 604800, "90d": 7776000 };
+
+/** "off", "24h", "7d" or "90d" as a timer in seconds. */
+export function parseEphemeral(value: string): number {
+  const seconds = EPHEMERAL_NAMES[value.toLowerCase()];
+  if (seconds === undefined) throw new Error(`Invalid disappearing-message timer "${value}": use off, 24h, 7d or 90d`);
+  return seconds;
+}
+
+export async function updateGroupSettings(
+  sock: WASocket,
+  jid: string,
+  change: GroupSettingsChange,
+  config: WuConfig
+): Promise<GroupSettingsChange> {
+  if (change.ephemeral !== undefined && !Object.values(EPHEMERAL_NAMES).includes(change.ephemeral)) {
+    throw new Error(`Disappearing messages can only be off, 24h, 7d or 90d (got ${change.ephemeral}s)`);
+  }
+  await audited("group_settings", jid, change, async () => {
+    assertCanManage(jid, config);
+    logger.debug({ jid, change }, "Updating group settings");
+    if (change.description !== undefined) await sock.groupUpdateDescription(jid, change.description ?? undefined);
+    if (change.announce !== undefined) await sock.groupSettingUpdate(jid, change.announce ? "announcement" : "not_announcement");
+    if (change.locked !== undefined) await sock.groupSettingUpdate(jid, change.locked ? "locked" : "unlocked");
+    if (change.ephemeral !== undefined) await sock.groupToggleEphemeral(jid, change.ephemeral);
+    if (change.join_approval !== undefined) await sock.groupJoinApprovalMode(jid, change.join_approval ? "on" : "off");
+  });
+  if (change.description !== undefined) {
+    setChatDescription(jid, change.description);
+  }
+  return change;
+}
+
+export interface JoinRequest {
+  jid: string;
+  requested_at: number | null;
+}
+
+export async function listJoinRequests(sock: WASocket, jid: string, config: WuConfig): Promise<JoinRequest[]> {
+  assertCanManage(jid, config);
+  const rows = await sock.groupRequestParticipantsList(jid);
+  return rows.map((r) => ({
+    jid: r.jid!,
+    requested_at: r.request_time ? Number(r.request_time) : null,
+  }));
+}
+
+export async function decideJoinRequests(
+  sock: WASocket,
+  jid: string,
+  participants: string[] | "all",
+  decision: "approve" | "reject",
+  config: WuConfig
+): Promise<ParticipantResult[]> {
+  if (participants === "all") {
+    participants = (await listJoinRequests(sock, jid, config)).map((r) => r.jid);
+    if (participants.length === 0) return [];
+  }
+  const asked = participants;
+  const results = await audited(`group_request_${decision}`, jid, { participants: asked }, async () => {
+    assertCanManage(jid, config);
+    logger.debug({ jid, participants: asked, decision }, "Deciding group join requests");
+    const res = await sock.groupRequestParticipantsUpdate(jid, asked, decision);
+    return res.map((r, i) => ({ jid: r.jid ?? asked[i]!, status: r.status }));
+  });
+  if (decision === "approve") await syncParticipants(sock, jid);
+  return results;
+}
+
+/** Invalidate the current invite link; returns the new code. */
+export async function revokeInvite(sock: WASocket, jid: string, config: WuConfig): Promise<string> {
+  return audited("group_invite_revoke", jid, undefined, async () => {
+    assertCanManage(jid, config);
+    logger.debug({ jid }, "Revoking invite link");
+    const code = await sock.groupRevokeInvite(jid);
+    if (!code) throw new Error(`WhatsApp did not return a new invite code for ${jid}`);
+    return code;
+  });
 }
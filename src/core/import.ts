@@ -4,7 +4,7 @@ import {
   bulkUpsertChats,
   getMessage,
   rebuildFtsIndex,
-  type MessageRow,
+  type MessageUpsert,
   type ChatUpsert,
 } from "./store.js";
 
@@ -44,7 +44,7 @@ function isValidRow(value: unknown): value is JsonlRow {
 
 // Fill every column the jsonl export doesn't carry with null - the importer
 // never invents raw/media-crypto/location data it doesn't have.
-function toMessageRow(row: JsonlRow): Omit<MessageRow, "created_at"> {
+function toMessageRow(row: JsonlRow): MessageUpsert {
   return {
     id: row.id,
     chat_jid: row.chat_jid,
@@ -87,7 +87,7 @@ export function importMessagesJsonl(
 
   const result: ImportResult = { imported: 0, skipped: 0, invalid: 0 };
   const chatLastMessageAt = new Map<string, number>();
-  let batch: Omit<MessageRow, "created_at">[] = [];
+  let batch: MessageUpsert[] = [];
 
   const flush = () => {
     if (batch.length === 0) return;
@@ -0,0 +1,177 @@
+import type { WuConfig } from "../config/schema.js";
+import { actingForAgent } from "./audit.js";
+import { constraintSqlPredicate, MESSAGE_COLUMNS, shouldCollect } from "./constraints.js";
+import {
+  advanceReadMarker,
+  ALL_CHATS_MARKER,
+  getReadMarker,
+  listInboxChats,
+  listUnreadMessages,
+  type MessageRow,
+} from "./store.js";
+
+// The unified inbox: messages from others across every chat the constraints
+// let us read, since they were last marked read. Each reader - the person at
+// the CLI, or an agent over MCP - has its own markers, so one triaging doesn't
+// empty the other's inbox. read_markers holds one marker per chat plus
+// ALL_CHATS_MARKER for all of them, and a chat is read up to whichever is
+// later; `wu inbox mark-read` only ever moves them forward.
+// Each chat shows its oldest unread messages first, so marking a chat read up
+// to its `up_to` skips exactly what was shown and the next look continues
+// from there.
+
+/** With nothing marked read yet, the inbox starts this far back */
+const FIRST_RUN_WINDOW = 24 * 3600;
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+export type InboxReader = "cli" | "mcp";
+
+/** Whose markers to use: an agent's (MCP, or a daemon request from it) or the person's. */
+export function currentReader(): InboxReader {
+  return actingForAgent() ? "mcp" : "cli";
+}
+
+export interface InboxChat {
+  chat_jid: string;
+  name: string | null;
+  unread: number;
+  /** Messages after this are unread */
+  read_at: number;
+  last_at: number;
+  /** The oldest unread messages, up to the per-chat limit */
+  messages: MessageRow[];
+  /**
+   * Marking the chat read up to this skips the messages shown and no more.
+   * It's read_at when none are shown.
+   */
+  up_to: number;
+}
+
+export interface Inbox {
+  reader: InboxReader;
+  /** The --since given, overriding the markers; null when reading by markers */
+  since: number | null;
+  /** Whether anything was ever marked read across all chats; without it the inbox starts FIRST_RUN_WINDOW back */
+  marked: boolean;
+  /** Unread messages across all chats, listed or not */
+  total_unread: number;
+  /** Chats with unread messages, listed or not */
+  total_chats: number;
+  chats: InboxChat[];
+}
+
+export interface InboxOptions {
+  /** List everything since this instead of since the read markers */
+  since?: number;
+  /** Max chats */
+  limit: number;
+  /** Max messages shown per chat, oldest first; the unread count covers them all */
+  perChat: number;
+  /** Default: currentReader() */
+  reader?: InboxReader;
+  now?: number;
+}
+
+export function inbox(config: WuConfig, opts: InboxOptions): Inbox {
+  const visible = constraintSqlPredicate("chat_jid", config, { message: MESSAGE_COLUMNS, now: opts.now });
+  const reader = opts.reader ?? currentReader();
+  const allChats = getReadMarker(reader, ALL_CHATS_MARKER);
+  const now = opts.now ?? nowSeconds();
+  const rows =
+    opts.since !== undefined
+      ? listInboxChats(visible, { after: opts.since })
+      : listInboxChats(visible, { after: allChats ?? now - FIRST_RUN_WINDOW, reader });
+
+  return {
+    reader,
+    since: opts.since ?? null,
+    marked: allChats !== null,
+    total_unread: rows.reduce((n, r) => n + r.unread, 0),
+    total_chats: rows.length,
+    chats: rows.slice(0, opts.limit).map((r) => {
+      const unread = listUnreadMessages(r.chat_jid, r.read_at, visible, opts.perChat + 1);
+      const messages = unread.slice(0, opts.perChat);
+      let upTo = messages.at(-1)?.timestamp ?? r.read_at;
+      // Timestamps are whole seconds: when the first message left out shares
+      // the last shown one's second, stop short of it so it stays unread.
+      if (unread.length > messages.length && unread.at(-1)!.timestamp === upTo) upTo -= 1;
+      return { ...r, messages, up_to: Math.max(upTo, r.read_at) };
+    }),
+  };
+}
+
+export interface MarkReadResult {
+  reader: InboxReader;
+  /** The chat marked read; null for all of them */
+  chat_jid: string | null;
+  read_at: number;
+}
+
+/**
+ * Mark one chat, or every chat, read up to `upTo` (default now). Marking a
+ * chat the constraints hide is refused like reading it would be. Marking
+ * every chat covers chats the inbox didn't list too; to skip only what was
+ * shown, mark each listed chat up to its `up_to` (see markChatsRead).
+ */
+export function markRead(
+  config: WuConfig,
+  opts: { chatJid?: string; upTo?: number; reader?: InboxReader; now?: number } = {}
+): MarkReadResult {
+  if (opts.chatJid && !shouldCollect(opts.chatJid, config)) {
+    throw new Error(`Chat ${opts.chatJid} is blocked by constraints`);
+  }
+  const reader = opts.reader ?? currentReader();
+  const readAt = opts.upTo ?? opts.now ?? nowSeconds();
+  return {
+    reader,
+    chat_jid: opts.chatJid ?? null,
+    read_at: advanceReadMarker(reader, opts.chatJid ?? ALL_CHATS_MARKER, readAt),
+  };
+}
+
+/**
+ * Mark several chats read at once, each up to its own time, as after
+ * triaging an inbox. Every chat is checked before any marker moves.
+ */
+export function markChatsRead(
+  config: WuConfig,
+  chats: Array<{ chatJid: string; upTo: number }>,
+  reader: InboxReader = currentReader()
+): MarkReadResult[] {
+  for (const c of chats) {
+    if (!shouldCollect(c.chatJid, config)) throw new Error(`Chat ${c.chatJid} is blocked by constraints`);
+  }
+  return chats.map((c) => markRead(config, { ...c, reader }));
+}
+
+/** The inbox as JSON, shared by `wu inbox --json` and wu_inbox. */
+export function inboxJson(box: Inbox): Record<string, unknown> {
+  return {
+    reader: box.reader,
+    since: box.since,
+    marked: box.marked,
+    total_unread: box.total_unread,
+    total_chats: box.total_chats,
+    chats: box.chats.map((c) => ({
+      chat_jid: c.chat_jid,
+      name: c.name,
+      unread: c.unread,
+      read_at: c.read_at,
+      last_at: c.last_at,
+      up_to: c.up_to,
+      messages: c.messages.map((m) => ({
+        id: m.id,
+        sender_jid: m.sender_jid,
+        sender_name: m.sender_name,
+        body: m.body,
+        type: m.type,
+        timestamp: m.timestamp,
+        quoted_id: m.quoted_id,
+        edited_at: m.edited_at,
+      })),
+    })),
+  };
+}
@@ -2,22 +2,55 @@ import { createServer, connect, type Socket } from "net";
 import { existsSync, unlinkSync, chmodSync } from "fs";
 import type { WASocket } from "@whiskeysockets/baileys";
 import type { WuConfig } from "../config/schema.js";
-import { DAEMON_SOCK_PATH } from "../config/paths.js";
+import { DAEMON_SOCK_PATH, activePaths } from "../config/paths.js";
 import { downloadMedia, downloadMediaBatch } from "./media.js";
 import { backfillHistory } from "./backfill.js";
 import { collectUndownloadedMedia } from "./export.js";
+import { sendReaction, deleteForEveryone } from "./sender.js";
+import { enqueueMessage, drainOutbox, type OutgoingRequest } from "./outbox.js";
+import { getOutboxMessage, getApproval } from "./store.js";
+import {
+  createGroup,
+  getInviteCode,
+  leaveGroup,
+  renameGroup,
+  joinGroupByInvite,
+  updateParticipants,
+  updateGroupSettings,
+  listJoinRequests,
+  decideJoinRequests,
+  revokeInvite,
+  type ParticipantChange,
+  type GroupSettingsChange,
+} from "./groups.js";
+import { createCommunity, linkGroup, unlinkGroup, announcementGroup } from "./communities.js";
+import { approveRequest } from "./approvals.js";
+import { refreshContacts, checkNumbers } from "./contacts.js";
+import { runAs, currentActor, recordAudit, isAuditActor } from "./audit.js";
+import { checkQuota } from "./quotas.js";
+import { approvalEvent, eventMatches, type EventBus, type EventFilter, type WuEvent } from "./events.js";
 import { createChildLogger } from "../config/logger.js";
 
 const logger = createChildLogger("ipc");
 
 // Newline-delimited JSON request/response over a unix domain socket. The
 // daemon owns the only live WhatsApp socket, so anything that needs the socket
-// (media download) routes here instead of opening a competing login.
+// (media download, sends, group management) routes here instead of opening a
+// competing login.
+//
+// `subscribe` is the one long-lived call: after its response the connection
+// stays open and carries one `{ "id", "event": {...} }` line per matching live
+// event until either side closes it.
 
 interface IpcRequest {
   id: number;
   method: string;
   params?: Record<string, unknown>;
+  /**
+   * The client's own audit actor (cli, mcp), recorded next to "ipc". Only
+   * known actors are kept, and it is the client's claim - see actingForAgent.
+   */
+  actor?: string;
 }
 
 interface IpcResponse {
@@ -25,31 +58,63 @@ interface IpcResponse {
   ok: boolean;
   result?: unknown;
   error?: string;
+  /** The error's exit code (constraint violation, quota), so the CLI can exit with it */
+  code?: number;
 }
 
+interface IpcEventLine {
+  id: number;
+  event: WuEvent;
+}
+
+// A subscriber that stops reading would otherwise buffer events in the
+// daemon without bound; past this it is disconnected.
+const MAX_SUBSCRIBER_BACKLOG = 8 * 1024 * 1024;
+
 // --- Server (runs inside the daemon) ---
 
+// `config` may be a getter so the daemon can hand over its hot-reloaded config:
+// constraint checks on sends run here, against whatever the daemon currently
+// enforces, never against a snapshot the client sent along. `events` is the
+// daemon's live event bus; without one `subscribe` is refused.
 export function startDaemonIpc(
   getSock: () => WASocket | undefined,
-  config: WuConfig,
-  sockPath: string = DAEMON_SOCK_PATH
+  config: WuConfig | (() => WuConfig),
+  sockPath: string = DAEMON_SOCK_PATH,
+  events?: EventBus
 ): () => void {
+  const getConfig = typeof config === "function" ? config : () => config;
+
   // Clear a stale socket left by a crash so bind() succeeds.
   if (existsSync(sockPath)) {
     try { unlinkSync(sockPath); } catch { /* best effort */ }
   }
 
+  const connections = new Set<Socket>();
   const server = createServer((conn) => {
+    connections.add(conn);
     let buffer = "";
+    let unsubscribe: (() => void) | undefined;
     conn.on("data", (chunk) => {
       buffer += chunk.toString("utf-8");
       let nl: number;
       while ((nl = buffer.indexOf("\n")) !== -1) {
         const line = buffer.slice(0, nl);
         buffer = buffer.slice(nl + 1);
-        if (line.trim()) void handleLine(conn, line, getSock, config);
+        if (!line.trim()) continue;
+        const sub = parseSubscribe(line);
+        if (sub) {
+          unsubscribe?.();
+          unsubscribe = subscribe(conn, sub, events);
+        } else {
+          void handleLine(conn, line, getSock, getConfig(), events);
+        }
       }
     });
+    conn.on("close", () => {
+      unsubscribe?.();
+      connections.delete(conn);
+    });
     conn.on("error", () => { /* client went away mid-request */ });
   });
 
@@ -64,15 +129,53 @@ export function startDaemonIpc(
 
   return () => {
     server.close();
+    // Subscribers hold their connection open indefinitely; end them so they
+    // see the daemon go away and close() can complete.
+    for (const conn of connections) conn.end();
     try { if (existsSync(sockPath)) unlinkSync(sockPath); } catch { /* best effort */ }
   };
 }
 
+function parseSubscribe(line: string): IpcRequest | null {
+  try {
+    const req = JSON.parse(line) as IpcRequest;
+    return req.method === "subscribe" ? req : null;
+  } catch {
+    return null;
+  }
+}
+
+function subscribe(conn: Socket, req: IpcRequest, events: EventBus | undefined): (() => void) | undefined {
+  const write = (payload: IpcResponse | IpcEventLine) => {
+    try { conn.write(JSON.stringify(payload) + "\n"); } catch { /* ignore */ }
+  };
+  if (!events) {
+    write({ id: req.id, ok: false, error: "This daemon does not publish events" });
+    return undefined;
+  }
+
+  const params = req.params || {};
+  const list = (v: unknown) => (Array.isArray(v) ? v.map(String) : undefined);
+  const filter: EventFilter = { events: list(params.events), chats: list(params.chats), types: list(params.types) };
+
+  write({ id: req.id, ok: true, result: { subscribed: true, connection: events.connectionState } });
+  return events.subscribe((event) => {
+    if (!eventMatches(event, filter)) return;
+    if (conn.writableLength > MAX_SUBSCRIBER_BACKLOG) {
+      logger.warn({ backlog: conn.writableLength }, "Dropping IPC subscriber that stopped reading");
+      conn.destroy();
+      return;
+    }
+    write({ id: req.id, event });
+  });
+}
+
 async function handleLine(
   conn: Socket,
   line: string,
   getSock: () => WASocket | undefined,
-  config: WuConfig
+  config: WuConfig,
+  events: EventBus | undefined
 ): Promise<void> {
   let req: IpcRequest;
   try {
@@ -87,17 +190,44 @@ async function handleLine(
   };
 
   try {
-    const result = await dispatch(req, getSock, config);
+    const client = isAuditActor(req.actor) ? req.actor : undefined;
+    const result = await runAs("ipc", () => dispatch(req, getSock, config, events), client);
     respond({ ok: true, result });
   } catch (err) {
-    respond({ ok: false, error: (err as Error).message });
+    respond({ ok: false, error: (err as Error).message, code: (err as { exitCode?: number }).exitCode });
+  }
+}
+
+// Sends go into the outbox first, so one that lands mid-reconnect isn't lost:
+// the daemon's outbox loop retries it. With a socket up the row is drained
+// right away and the caller gets the id/timestamp pair the CLI and MCP already
+// report; otherwise it learns the send is queued. A full quota is refused up
+// front rather than queued behind it.
+async function queueAndSend(
+  req: OutgoingRequest,
+  getSock: () => WASocket | undefined,
+  config: WuConfig
+): Promise<Record<string, unknown>> {
+  try {
+    checkQuota(req.chatJid, config);
+  } catch (err) {
+    recordAudit("queue", req.chatJid, req, { err });
+    throw err;
   }
+  const queued = enqueueMessage(req, config);
+  const sock = getSock();
+  if (sock) await drainOutbox(sock, config);
+  const row = getOutboxMessage(queued.id)!;
+  if (row.status === "sent") return { id: row.message_id, timestamp: row.sent_at };
+  if (row.status === "failed") throw new Error(row.last_error || "Send failed");
+  return { id: null, timestamp: null, queued: true, outbox_id: row.id, last_error: row.last_error };
 }
 
 async function dispatch(
   req: IpcRequest,
   getSock: () => WASocket | undefined,
-  config: WuConfig
+  config: WuConfig,
+  events: EventBus | undefined
 ): Promise<unknown> {
   const params = req.params || {};
 
@@ -141,6 +271,154 @@ async function dispatch(
       const timeoutMs = Number.isFinite(timeoutRaw) && timeoutRaw > 0 ? Math.floor(timeoutRaw) : 30_000;
       return backfillHistory(sock, jid, count, config, { timeoutMs });
     }
+    case "messages.sendText":
+      return queueAndSend(
+        {
+          chatJid: String(params.jid),
+          text: String(params.text),
+          replyTo: params.replyTo ? String(params.replyTo) : undefined,
+        },
+        getSock,
+        config
+      );
+    case "messages.sendMedia":
+      return queueAndSend(
+        {
+          chatJid: String(params.jid),
+          mediaPath: String(params.filePath),
+          caption: params.caption ? String(params.caption) : undefined,
+          replyTo: params.replyTo ? String(params.replyTo) : undefined,
+        },
+        getSock,
+        config
+      );
+    case "messages.sendPoll": {
+      const options = Array.isArray(params.options) ? params.options.map(String) : [];
+      return queueAndSend(
+        { chatJid: String(params.jid), poll: { question: String(params.question), options } },
+        getSock,
+        config
+      );
+    }
+    case "messages.react": {
+      const sock = requireSock();
+      await sendReaction(sock, String(params.jid), String(params.msgId), String(params.emoji ?? ""), config);
+      return { success: true };
+    }
+    case "messages.delete": {
+      const sock = requireSock();
+      await deleteForEveryone(sock, String(params.jid), String(params.msgId), config);
+      return { success: true };
+    }
+    case "approvals.approve": {
+      const sock = requireSock();
+      const row = await approveRequest(sock, Number(params.id), config);
+      events?.emit(approvalEvent(row));
+      return row;
+    }
+    case "approvals.notify": {
+      // Sent by whoever stored a new pending item, so `wu listen --events
+      // approval` can alert a human.
+      const row = getApproval(Number(params.id));
+      if (!row) throw new Error(`Approval not found: #${params.id}`);
+      events?.emit(approvalEvent(row));
+      return { notified: events?.size ?? 0 };
+    }
+    case "groups.create": {
+      const sock = requireSock();
+      const participants = Array.isArray(params.participants) ? params.participants.map(String) : [];
+      const result = await createGroup(sock, String(params.name), participants, config);
+      return {
+        id: result.id,
+        name: result.subject,
+        participant_count: result.participants?.length ?? participants.length,
+      };
+    }
+    case "groups.invite": {
+      const sock = requireSock();
+      const code = await getInviteCode(sock, String(params.jid), config);
+      return { code };
+    }
+    case "groups.leave": {
+      const sock = requireSock();
+      await leaveGroup(sock, String(params.jid), config);
+      return { success: true };
+    }
+    case "groups.rename": {
+      const sock = requireSock();
+      await renameGroup(sock, String(params.jid), String(params.name), config);
+      return { success: true };
+    }
+    case "groups.join": {
+      const sock = requireSock();
+      const jid = await joinGroupByInvite(sock, String(params.code));
+      return { jid: jid ?? null };
+    }
+    case "groups.participants": {
+      const sock = requireSock();
+      const participants = Array.isArray(params.participants) ? params.participants.map(String) : [];
+      return updateParticipants(sock, String(params.jid), participants, params.change as ParticipantChange, config);
+    }
+    case "groups.settings": {
+      const sock = requireSock();
+      return updateGroupSettings(sock, String(params.jid), (params.change ?? {}) as GroupSettingsChange, config);
+    }
+    case "groups.requests": {
+      const sock = requireSock();
+      return listJoinRequests(sock, String(params.jid), config);
+    }
+    case "groups.decideRequests": {
+      const sock = requireSock();
+      const participants =
+        params.participants === "all" ? "all" : Array.isArray(params.participants) ? params.participants.map(String) : [];
+      const decision = params.decision === "reject" ? "reject" : "approve";
+      return decideJoinRequests(sock, String(params.jid), participants, decision, config);
+    }
+    case "groups.revokeInvite": {
+      const sock = requireSock();
+      const code = await revokeInvite(sock, String(params.jid), config);
+      return { code };
+    }
+    case "communities.create": {
+      const sock = requireSock();
+      const created = await createCommunity(
+        sock,
+        String(params.name),
+        params.description ? String(params.description) : undefined
+      );
+      return { id: created.id, name: created.subject };
+    }
+    case "communities.link": {
+      const sock = requireSock();
+      await linkGroup(sock, String(params.community), String(params.group), config);
+      return { success: true };
+    }
+    case "communities.unlink": {
+      const sock = requireSock();
+      await unlinkGroup(sock, String(params.community), String(params.group), config);
+      return { success: true };
+    }
+    case "communities.announce": {
+      // Like messages.sendText, through the outbox; only finding the
+      // announcement group may need the live socket.
+      const jid = await announcementGroup(getSock(), String(params.community), config);
+      const sent = await queueAndSend({ chatJid: jid, text: String(params.text) }, getSock, config);
+      return { jid, ...sent };
+    }
+    case "contacts.refresh": {
+      const sock = requireSock();
+      const jids = Array.isArray(params.jids) ? params.jids.map(String) : [];
+      return refreshContacts(sock, jids, config, { pictures: !!params.pictures });
+    }
+    case "contacts.check": {
+      const sock = requireSock();
+      const numbers = Array.isArray(params.numbers) ? params.numbers.map(String) : [];
+      return checkNumbers(sock, numbers, {
+        countryCode: params.countryCode ? String(params.countryCode) : undefined,
+        save: !!params.save,
+        business: !!params.business,
+      });
+    }
     default:
       throw new Error(`Unknown IPC method: ${req.method}`);
   }
@@ -148,10 +426,13 @@ async function dispatch(
 
 // --- Client (CLI / MCP side) ---
 
+// Clients default to the active profile's daemon, so an MCP tool call for
+// another profile reaches that profile's daemon.
+
 // True when a daemon IPC socket is present and accepting connections.
 export function daemonIpcAvailable(
   timeoutMs = 1000,
-  sockPath: string = DAEMON_SOCK_PATH
+  sockPath: string = activePaths().daemonSockPath
 ): Promise<boolean> {
   return new Promise((resolve) => {
     if (!existsSync(sockPath)) {
@@ -174,7 +455,7 @@ export function daemonRequest<T = unknown>(
   method: string,
   params: Record<string, unknown> = {},
   timeoutMs = 300_000,
-  sockPath: string = DAEMON_SOCK_PATH
+  sockPath: string = activePaths().daemonSockPath
 ): Promise<T> {
   return new Promise((resolve, reject) => {
     const conn = connect(sockPath);
@@ -193,7 +474,7 @@ export function daemonRequest<T = unknown>(
     timer.unref?.();
 
     conn.once("connect", () => {
-      conn.write(JSON.stringify({ id: 1, method, params }) + "\n");
+      conn.write(JSON.stringify({ id: 1, method, params, actor: currentActor() }) + "\n");
     });
     conn.on("data", (chunk) => {
       buffer += chunk.toString("utf-8");
@@ -202,8 +483,13 @@ export function daemonRequest<T = unknown>(
       clearTimeout(timer);
       try {
         const res = JSON.parse(buffer.slice(0, nl)) as IpcResponse;
-        if (res.ok) finish(null, res.result as T);
-        else finish(new Error(res.error || "Daemon request failed"));
+        if (res.ok) {
+          finish(null, res.result as T);
+        } else {
+          const err = new Error(res.error || "Daemon request failed");
+          if (res.code !== undefined) (err as Error & { exitCode: number }).exitCode = res.code;
+          finish(err);
+        }
       } catch (err) {
         finish(err as Error);
       }
@@ -215,3 +501,67 @@ export function daemonRequest<T = unknown>(
     });
   });
 }
+
+export interface Subscription {
+  /** The daemon's connection state when the subscription was accepted. */
+  connection: string;
+  /** Resolves when the stream ends: `close()`, or the daemon went away. */
+  closed: Promise<void>;
+  close: () => void;
+}
+
+/**
+ * Attach to the daemon's live event stream. Resolves once the daemon accepts
+ * the subscription; `onEvent` then fires for every matching event until the
+ * subscription is closed from either side.
+ */
+export function daemonSubscribe(
+  filter: EventFilter,
+  onEvent: (event: WuEvent) => void,
+  sockPath: string = activePaths().daemonSockPath
+): Promise<Subscription> {
+  return new Promise((resolve, reject) => {
+    const conn = connect(sockPath);
+    let buffer = "";
+    let accepted = false;
+    let markClosed: () => void;
+    const closed = new Promise<void>((r) => (markClosed = r));
+
+    conn.once("connect", () => {
+      conn.write(JSON.stringify({ id: 1, method: "subscribe", params: filter }) + "\n");
+    });
+    conn.on("data", (chunk) => {
+      buffer += chunk.toString("utf-8");
+      let nl: number;
+      while ((nl = buffer.indexOf("\n")) !== -1) {
+        const line = buffer.slice(0, nl);
+        buffer = buffer.slice(nl + 1);
+        let msg: IpcResponse & Partial<IpcEventLine>;
+        try {
+          msg = JSON.parse(line);
+        } catch {
+          continue;
+        }
+        if (msg.event) {
+          if (accepted) onEvent(msg.event);
+        } else if (!accepted) {
+          if (!msg.ok) {
+            conn.destroy();
+            reject(new Error(msg.error || "Daemon refused the subscription"));
+            return;
+          }
+          accepted = true;
+          const result = msg.result as { connection: string };
+          resolve({ connection: result.connection, closed, close: () => conn.end() });
+        }
+      }
+    });
+    conn.once("error", (err) => {
+      if (!accepted) reject(err);
+    });
+    conn.once("close", () => {
+      if (!accepted) reject(new Error("Daemon closed the connection before responding"));
+      markClosed();
+    });
+  });
+}
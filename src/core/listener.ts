@@ -11,6 +11,10 @@ import {
   extractLocationData,
   extractMediaInfo,
   extractMediaResumeMetadata,
+  extractEdit,
+  extractMembershipChange,
+  type EditInfo,
+  type MembershipAction,
 } from "./extract.js";
 import {
   upsertMessage,
@@ -21,9 +25,17 @@ import {
   bulkUpsertContacts,
   upsertGroupParticipants,
   markMessageDeleted,
+  applyMessageEdit,
+  applyReaction,
+  upsertReceipt,
+  recordMembershipEvent,
+  SELF_KEY,
   serializeWAMessage,
-  type MessageRow,
+  type MessageUpsert,
 } from "./store.js";
+import { recordPollVote, ownJids } from "./polls.js";
+import type { RuleEngine } from "./rules.js";
+import { messageEvent, type WuEvent } from "./events.js";
 import { createChildLogger } from "../config/logger.js";
 
 const logger = createChildLogger("listener");
@@ -58,6 +70,13 @@ export interface ListenerOptions {
   primePending?: Map<string, number>;
   /** Fire a best-effort history prime for `jid` on the daemon's live socket. */
   onPrime?: (sock: WASocket, jid: string) => void;
+  /** Auto-reply rules to run against each live incoming message. */
+  rules?: RuleEngine;
+  /**
+   * Live changes as they are stored: new messages, edits, deletes, reactions
+   * and receipts in collected chats. History sync never emits.
+   */
+  onEvent?: (event: WuEvent) => void;
 }
 
 function isStatusOrBroadcast(jid: string): boolean {
@@ -123,7 +142,7 @@ function parseMessage(msg: WAMessage): ParsedMessage | null {
 function parsedToRow(
   parsed: ParsedMessage,
   content: ReturnType<typeof getMessageContent>
-): Omit<MessageRow, "created_at"> {
+): MessageUpsert {
   const loc = extractLocationData(content);
   const mediaMeta = extractMediaResumeMetadata(content);
   return {
@@ -151,6 +170,56 @@ function parsedToRow(
   };
 }
 
+function reactorJid(key: proto.IMessageKey | null | undefined): string | null {
+  if (key?.fromMe) return SELF_KEY;
+  return key?.participant || key?.remoteJid || null;
+}
+
+// A reaction message seen through messages.upsert / history sync. Baileys
+// also emits messages.reaction for live ones; both land on the same row.
+function storeReactionMessage(msg: WAMessage, parsed: ParsedMessage): boolean {
+  const reaction = getMessageContent(msg)?.reactionMessage;
+  const target = reaction?.key?.id;
+  const reactor = reactorJid(msg.key);
+  if (!reaction || !target || !reactor) return false;
+  const ms = Number(reaction.senderTimestampMs ?? 0);
+  applyReaction({
+    message_id: target,
+    chat_jid: parsed.chatJid,
+    reactor_jid: reactor,
+    emoji: reaction.text || null,
+    is_from_me: msg.key.fromMe ? 1 : 0,
+    timestamp: ms > 0 ? Math.floor(ms / 1000) : parsed.timestamp,
+  });
+  return true;
+}
+
+// Receipt levels, from proto.WebMessageInfo.Status.
+const STATUS_DELIVERY_ACK = 3;
+const STATUS_READ = 4;
+const STATUS_PLAYED = 5;
+
+type ReceiptLevel = "delivered" | "read" | "played";
+
+// Each level implies the ones below it: a read receipt can arrive without a
+// separate delivery one, and the message was still delivered.
+function storeReceipt(
+  messageId: string,
+  chatJid: string,
+  recipient: string,
+  level: ReceiptLevel,
+  ts: number
+): void {
+  upsertReceipt({
+    message_id: messageId,
+    chat_jid: chatJid,
+    recipient_jid: recipient,
+    delivered_at: ts,
+    read_at: level === "delivered" ? null : ts,
+    played_at: level === "played" ? ts : null,
+  });
+}
+
 export interface ListenerHandle {
   /**
    * Swap the config the collection gate reads. The event handlers below close
@@ -162,6 +231,43 @@ export interface ListenerHandle {
   setConfig: (config: WuConfig) => void;
 }
 
+// Join/leave/remove/promote/demote system messages feed the group's
+// membership history.
+function recordMembershipMessage(msg: WAMessage, parsed: ParsedMessage): void {
+  if (!parsed.chatJid.endsWith("@g.us")) return;
+  const change = extractMembershipChange(msg);
+  if (!change) return;
+  for (const participant of change.participants) {
+    recordMembershipEvent({
+      group_jid: parsed.chatJid,
+      participant_jid: participant,
+      action: change.action,
+      actor_jid: change.actor,
+      at: parsed.timestamp,
+      message_id: parsed.id,
+    });
+  }
+}
+
+type UpdatedParticipant = string | { id: string; phoneNumber?: string; lid?: string };
+
+// A participant update's "remove" is a leave when members removed themselves.
+function membershipAction(action: string, participant: UpdatedParticipant, author: string | undefined): MembershipAction | null {
+  switch (action) {
+    case "add":
+      return "join";
+    case "remove": {
+      const ids = typeof participant === "string" ? [participant] : [participant.id, participant.phoneNumber, participant.lid];
+      return author && ids.includes(author) ? "leave" : "remove";
+    }
+    case "promote":
+    case "demote":
+      return action;
+    default:
+      return null;
+  }
+}
+
 export function startListener(
   sock: WASocket,
   opts: ListenerOptions
@@ -185,7 +291,24 @@ export function startListener(
         const parsed = parseMessage(msg);
         if (!parsed) continue;
 
+        if (parsed.type === "reaction" && storeReactionMessage(msg, parsed)) continue;
+        if (parsed.type === "system") recordMembershipMessage(msg, parsed);
+
         const content = getMessageContent(msg);
+        // Poll votes become tallies on the poll, never rows of their own.
+        if (content?.pollUpdateMessage) {
+          recordPollVote(msg, jid, parsed.timestamp, ownJids(sock));
+          continue;
+        }
+        // An edit rewrites the message it points at. Only an edit of a message
+        // we never stored falls through and is kept as its own 'edited' row.
+        const edit = extractEdit(content);
+        if (edit && applyMessageEdit(edit.targetId, edit.text, edit.editedAt ?? parsed.timestamp)) {
+          continue;
+        }
+        // The chat is collected; the entry's sender/type filters may still
+        // drop this particular message.
+        if (!shouldCollect(jid, config, parsed)) continue;
         const row = parsedToRow(parsed, content);
         upsertMessage(row);
 
@@ -223,6 +346,13 @@ export function startListener(
         if (type === "notify" && opts.onMessage) {
           opts.onMessage(parsed);
         }
+        if (type === "notify") opts.onEvent?.(messageEvent(parsed));
+
+        // Rules likewise only answer live messages; replies are sent in the
+        // background so a slow send or command never holds up ingestion.
+        if (type === "notify" && opts.rules && config.rules.length > 0) {
+          void opts.rules.handle(sock, parsed, config);
+        }
       }
     })
   );
@@ -240,7 +370,36 @@ export function startListener(
         if (update.update?.messageStubType === 1 || update.update?.message === null) {
           if (update.key?.id) {
             markMessageDeleted(update.key.id);
+            opts.onEvent?.({ event: "delete", chat: jid, id: update.key.id });
+          }
+          continue;
+        }
+
+        // 1:1 receipts for our own messages arrive as status updates; the
+        // recipient is the chat itself. (Group receipts come through
+        // message-receipt.update below.)
+        const status = update.update?.status;
+        if (update.key?.fromMe && update.key.id && typeof status === "number" && status >= STATUS_DELIVERY_ACK) {
+          const level: ReceiptLevel =
+            status >= STATUS_PLAYED ? "played" : status === STATUS_READ ? "read" : "delivered";
+          const ts = Number(update.update.messageTimestamp) || Math.floor(Date.now() / 1000);
+          if (!jid.endsWith("@g.us")) {
+            storeReceipt(update.key.id, jid, jid, level, ts);
+            opts.onEvent?.({ event: "receipt", chat: jid, id: update.key.id, recipient: jid, status: level, timestamp: ts });
           }
+          continue;
+        }
+
+        // Baileys re-emits an incoming edit as an update keyed by the
+        // original message, carrying the new content. This, not the upsert of
+        // the edit itself, is where subscribers hear about it, so each edit
+        // is reported once.
+        const edited = update.update?.message?.editedMessage?.message;
+        if (edited && update.key?.id) {
+          const ts = Number(update.update.messageTimestamp) || Math.floor(Date.now() / 1000);
+          const body = extractText(getMessageContent({ key: update.key, message: edited } as WAMessage));
+          applyMessageEdit(update.key.id, body, ts);
+          opts.onEvent?.({ event: "edit", chat: jid, id: update.key.id, body, timestamp: ts });
         }
       }
     })
@@ -255,39 +414,60 @@ export function startListener(
         if (!jid || isStatusOrBroadcast(jid)) continue;
         if (!shouldCollect(jid, config)) continue;
 
-        const reactionKey = reaction.key;
-        const ts =
-          typeof reaction.senderTimestampMs === "number"
-            ? Math.floor(reaction.senderTimestampMs / 1000)
-            : Math.floor(Date.now() / 1000);
-
-        upsertMessage({
-          id: `reaction:${reactionKey?.id || key.id}:${reaction.text || ""}`,
+        // `key` is the reacted-to message; `reaction.key` is the reactor's.
+        const reactor = reactorJid(reaction.key);
+        if (!key.id || !reactor) continue;
+        const ms = Number(reaction.senderTimestampMs ?? 0);
+        const ts = ms > 0 ? Math.floor(ms / 1000) : Math.floor(Date.now() / 1000);
+        applyReaction({
+          message_id: key.id,
           chat_jid: jid,
-          sender_jid: reactionKey?.participant || reactionKey?.remoteJid || null,
-          sender_name: null,
-          body: reaction.text || null,
-          type: "reaction",
-          media_mime: null,
-          media_path: null,
-          media_size: null,
-          media_direct_path: null,
-          media_key: null,
-          media_file_sha256: null,
-          media_file_enc_sha256: null,
-          media_file_length: null,
-          quoted_id: key.id,
-          location_lat: null,
-          location_lon: null,
-          location_name: null,
-          is_from_me: reactionKey?.fromMe ? 1 : 0,
+          reactor_jid: reactor,
+          emoji: reaction.text || null,
+          is_from_me: reaction.key?.fromMe ? 1 : 0,
+          timestamp: ts,
+        });
+        // Live reactions also arrive through messages.upsert; only this path
+        // emits, so subscribers see each one once.
+        opts.onEvent?.({
+          event: "reaction",
+          chat: jid,
+          id: key.id,
+          reactor,
+          emoji: reaction.text || null,
+          from_me: !!reaction.key?.fromMe,
           timestamp: ts,
-          raw: serializeWAMessage({ key, reaction }),
         });
       }
     })
   );
 
+  // --- message-receipt.update ---
+  // Per-participant receipts in groups. Only our own messages are tracked.
+  sock.ev.on(
+    "message-receipt.update",
+    safeHandler("message-receipt.update", (updates: any[]) => {
+      for (const { key, receipt } of updates) {
+        const jid = key?.remoteJid;
+        if (!jid || isStatusOrBroadcast(jid)) continue;
+        if (!key.fromMe || !key.id || !receipt?.userJid) continue;
+        if (!shouldCollect(jid, config)) continue;
+
+        const levels: Array<[ReceiptLevel, unknown]> = [
+          ["delivered", receipt.receiptTimestamp],
+          ["read", receipt.readTimestamp],
+          ["played", receipt.playedTimestamp],
+        ];
+        for (const [level, raw] of levels) {
+          const ts = Number(raw ?? 0);
+          if (ts <= 0) continue;
+          storeReceipt(key.id, jid, receipt.userJid, level, ts);
+          opts.onEvent?.({ event: "receipt", chat: jid, id: key.id, recipient: receipt.userJid, status: level, timestamp: ts });
+        }
+      }
+    })
+  );
+
   // --- chats.upsert ---
   // Groups bypass the constraint gate when group_discovery is on. DMs are
   // always gated because their JID contains a phone number.
@@ -461,11 +641,35 @@ export function startListener(
     "group-participants.update",
     safeHandler(
       "group-participants.update",
-      ({ id, participants, action }: { id: string; participants: string[]; action: string }) => {
+      ({
+        id,
+        author,
+        participants,
+        action,
+      }: {
+        id: string;
+        author?: string;
+        participants: UpdatedParticipant[];
+        action: string;
+      }) => {
         if (!shouldCollect(id, config)) return;
         logger.debug({ groupJid: id, participants, action }, "Group participants updated");
-        // Full participant list refresh is expensive — just log for now.
-        // A full refresh happens on groups.upsert or explicit wu groups info.
+        // Full participant list refresh is expensive — only the change is
+        // kept, as history. A full refresh happens on groups.upsert or
+        // explicit wu groups info.
+        const at = Math.floor(Date.now() / 1000);
+        for (const participant of participants) {
+          const change = membershipAction(action, participant, author);
+          if (!change) continue;
+          recordMembershipEvent({
+            group_jid: id,
+            participant_jid: typeof participant === "string" ? participant : participant.id,
+            action: change,
+            actor_jid: author || null,
+            at,
+            message_id: null,
+          });
+        }
       }
     )
   );
@@ -536,8 +740,11 @@ export function startListener(
           }));
         bulkUpsertContacts(contactRows);
 
-        // Bulk upsert messages
-        const msgRows: Omit<MessageRow, "created_at">[] = [];
+        // Bulk upsert messages. Edits and poll votes are held back until
+        // their targets - likely in this same batch - have been written.
+        const msgRows: MessageUpsert[] = [];
+        const edits: Array<{ edit: EditInfo; parsed: ParsedMessage; content: ReturnType<typeof getMessageContent> }> = [];
+        const votes: Array<{ msg: WAMessage; parsed: ParsedMessage }> = [];
         for (const msg of messages) {
           const jid = msg.key.remoteJid;
           if (!jid || isStatusOrBroadcast(jid)) continue;
@@ -545,12 +752,39 @@ export function startListener(
 
           const parsed = parseMessage(msg);
           if (!parsed) continue;
+          if (parsed.type === "reaction" && storeReactionMessage(msg, parsed)) continue;
+          if (parsed.type === "system") recordMembershipMessage(msg, parsed);
 
           const content = getMessageContent(msg);
+          if (content?.pollUpdateMessage) {
+            votes.push({ msg, parsed });
+            continue;
+          }
+          const edit = extractEdit(content);
+          if (edit) {
+            edits.push({ edit, parsed, content });
+            continue;
+          }
+          if (!shouldCollect(jid, config, parsed)) continue;
           msgRows.push(parsedToRow(parsed, content));
         }
         bulkUpsertMessages(msgRows);
 
+        const orphanEdits: MessageUpsert[] = [];
+        for (const { edit, parsed, content } of edits) {
+          if (!applyMessageEdit(edit.targetId, edit.text, edit.editedAt ?? parsed.timestamp)) {
+            orphanEdits.push(parsedToRow(parsed, content));
+          }
+        }
+        bulkUpsertMessages(orphanEdits);
+
+        if (votes.length > 0) {
+          const me = ownJids(sock);
+          for (const { msg, parsed } of votes) {
+            recordPollVote(msg, parsed.chatJid, parsed.timestamp, me);
+          }
+        }
+
         // History sync already delivered these groups' messages, so drop any
         // pending prime for them - no on-demand fetch needed.
         if (opts.primePending) {
@@ -10,7 +10,7 @@ import { join, extname, basename, resolve, sep } from "path";
 import type { WuConfig } from "../config/schema.js";
 import { getMessage, upsertMessage, deserializeWAMessage, withFtsRecovery, type MessageRow } from "./store.js";
 import { enrichFile, type Capability } from "./enrich.js";
-import { MEDIA_DIR } from "../config/paths.js";
+import { DEFAULT_PROFILE, activeProfile, activePaths } from "../config/paths.js";
 import { createChildLogger } from "../config/logger.js";
 import { asyncPool } from "./pool.js";
 import { getDb, prepareCached } from "../db/database.js";
@@ -134,7 +134,7 @@ export async function downloadMedia(
 
   const mime = row.media_mime || "application/octet-stream";
   const ext = MIME_TO_EXT[mime] || extname(row.media_path || "") || ".bin";
-  const dir = outDir || config.whatsapp.media_dir || MEDIA_DIR;
+  const dir = outDir || resolveMediaDir(config);
   assertSafeMsgId(msgId);
   mkdirSync(dir, { recursive: true });
   const filePath = join(dir, `${msgId}${ext}`);
@@ -202,6 +202,11 @@ export function parseDuration(input: string): number | null {
   return n * (mult[unit] ?? 86400);
 }
 
+/** Where downloads go. `whatsapp.media_dir` only moves the default profile's. */
+export function resolveMediaDir(config: WuConfig): string {
+  return (activeProfile() === DEFAULT_PROFILE && config.whatsapp.media_dir) || activePaths().mediaDir;
+}
+
 // Resolve a message's downloaded media to a path that exists on this machine.
 // Handles media_path written by a remote daemon (only the basename matches the
 // local media dir after rsync) and the case where the local row has no
@@ -209,13 +214,14 @@ export function parseDuration(input: string): number | null {
 export function resolveLocalMediaPath(row: Pick<MessageRow, "id" | "media_path">): string | null {
   if (row.media_path) {
     if (existsSync(row.media_path)) return row.media_path;
-    const byBasename = join(MEDIA_DIR, basename(row.media_path));
+    const byBasename = join(activePaths().mediaDir, basename(row.media_path));
     if (existsSync(byBasename)) return byBasename;
   }
   // Downloads are written as <msgId><ext>; find it in the media dir by id.
+  const mediaDir = activePaths().mediaDir;
   try {
-    const match = readdirSync(MEDIA_DIR).find((f) => f.startsWith(`${row.id}.`));
-    if (match) return join(MEDIA_DIR, match);
+    const match = readdirSync(mediaDir).find((f) => f.startsWith(`${row.id}.`));
+    if (match) return join(mediaDir, match);
   } catch { /* media dir may not exist */ }
   return null;
 }
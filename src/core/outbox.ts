@@ -0,0 +1,200 @@
+import type { WASocket, WAMessage } from "@whiskeysockets/baileys";
+import { existsSync } from "fs";
+import { resolve } from "path";
+import type { WuConfig } from "../config/schema.js";
+import { assertCanSend } from "./constraints.js";
+import { recordAudit } from "./audit.js";
+import { QuotaExceededError } from "./quotas.js";
+import { sendText, sendMedia, sendPoll } from "./sender.js";
+import {
+  insertOutboxMessage,
+  getOutboxMessage,
+  listQueuedOutboxMessages,
+  markOutboxSent,
+  markOutboxFailed,
+  deferOutboxMessage,
+  type OutboxRow,
+  type ScheduledKind,
+} from "./store.js";
+import { createChildLogger } from "../config/logger.js";
+
+const logger = createChildLogger("outbox");
+
+// --- Outgoing content ---
+//
+// Shared by the outbox and scheduled messages: both store a send as
+// kind/body/media_path/poll_options and replay it through sender.ts later.
+
+export interface OutgoingRequest {
+  chatJid: string;
+  text?: string;
+  mediaPath?: string;
+  caption?: string;
+  poll?: { question: string; options: string[] };
+  replyTo?: string;
+}
+
+export interface OutgoingContent {
+  kind: ScheduledKind;
+  /** Text, media caption, or poll question */
+  body: string | null;
+  media_path: string | null;
+  poll_options: string | null;
+}
+
+// Validates what can be checked before the send is stored. The media path is
+// made absolute: whoever sends it (the daemon) may run from another cwd.
+export function prepareOutgoing(req: OutgoingRequest): OutgoingContent {
+  if (req.poll) {
+    if (req.poll.options.length < 2) throw new Error("Polls need at least 2 options");
+    return {
+      kind: "poll",
+      body: req.poll.question,
+      media_path: null,
+      poll_options: JSON.stringify(req.poll.options),
+    };
+  }
+  if (req.mediaPath) {
+    const mediaPath = resolve(req.mediaPath);
+    if (!existsSync(mediaPath)) throw new Error(`File not found: ${mediaPath}`);
+    return { kind: "media", body: req.caption ?? null, media_path: mediaPath, poll_options: null };
+  }
+  if (req.text) {
+    return { kind: "text", body: req.text, media_path: null, poll_options: null };
+  }
+  throw new Error("Provide text, a media file, or a poll");
+}
+
+export async function deliverOutgoing(
+  sock: WASocket,
+  row: OutgoingContent & { chat_jid: string; reply_to?: string | null },
+  config: WuConfig
+): Promise<WAMessage | undefined> {
+  const replyTo = row.reply_to ?? undefined;
+  switch (row.kind) {
+    case "text":
+      return sendText(sock, row.chat_jid, row.body ?? "", config, { replyTo });
+    case "media":
+      return sendMedia(sock, row.chat_jid, row.media_path!, config, {
+        caption: row.body ?? undefined,
+        replyTo,
+      });
+    case "poll":
+      return sendPoll(sock, row.chat_jid, row.body ?? "", JSON.parse(row.poll_options ?? "[]"), config);
+  }
+}
+
+// --- Queue ---
+
+// Retry schedule for transient failures (socket mid-reconnect, timeouts):
+// 5s, 10s, 20s ... capped at 10 minutes, giving up after MAX_ATTEMPTS.
+export const MAX_ATTEMPTS = 8;
+const RETRY_BASE_SECONDS = 5;
+const RETRY_MAX_SECONDS = 600;
+
+export function retryDelaySeconds(attempts: number): number {
+  return Math.min(RETRY_BASE_SECONDS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_SECONDS);
+}
+
+// Failures that retrying can't fix: constraint violations (they carry an
+// exitCode) and a media file that has since disappeared.
+export function isPermanent(err: unknown): boolean {
+  const e = err as { exitCode?: number; code?: string };
+  return e.exitCode !== undefined || e.code === "ENOENT";
+}
+
+export function enqueueMessage(
+  req: OutgoingRequest,
+  config: WuConfig,
+  now: number = Math.floor(Date.now() / 1000)
+): OutboxRow {
+  // A refused send never reaches sender.ts, so it is audited here; an
+  // accepted one is audited when it actually goes out.
+  try {
+    assertCanSend(req.chatJid, config);
+  } catch (err) {
+    recordAudit("queue", req.chatJid, req, { err });
+    throw err;
+  }
+  const content = prepareOutgoing(req);
+  const id = insertOutboxMessage({
+    chat_jid: req.chatJid,
+    ...content,
+    reply_to: req.replyTo ?? null,
+    next_attempt_at: now,
+  });
+  return getOutboxMessage(id)!;
+}
+
+export interface OutboxResult {
+  id: number;
+  ok: boolean;
+  error?: string;
+  /** Set when a failed attempt will be retried */
+  retry_at?: number;
+}
+
+// Passes run one at a time per process; a caller arriving mid-pass waits for it
+// and then runs its own, so a row it just queued is always looked at.
+let drainChain: Promise<unknown> = Promise.resolve();
+
+/**
+ * Send every queued row that is due, oldest first. Sends go through sender.ts,
+ * so constraints are re-checked and the shared send_delay_ms applies. A row
+ * waiting out its backoff holds back the later rows for the same chat, so a
+ * chat never sees its messages out of order. A transient failure ends the
+ * pass: the socket is most likely down, and the rows behind it would only
+ * burn their attempts too. A full quota holds a row back until it has room
+ * again, without counting an attempt. Delivery is at-least-once: a crash
+ * between the send and its bookkeeping resends.
+ */
+export function drainOutbox(
+  sock: WASocket,
+  config: WuConfig,
+  now: () => number = () => Math.floor(Date.now() / 1000)
+): Promise<OutboxResult[]> {
+  const pass = drainChain.then(() => drainPass(sock, config, now));
+  drainChain = pass.catch(() => undefined);
+  return pass;
+}
+
+async function drainPass(sock: WASocket, config: WuConfig, now: () => number): Promise<OutboxResult[]> {
+  const results: OutboxResult[] = [];
+  const held = new Set<string>();
+  for (const row of listQueuedOutboxMessages()) {
+    if (held.has(row.chat_jid)) continue;
+    if (row.next_attempt_at > now()) {
+      held.add(row.chat_jid);
+      continue;
+    }
+    try {
+      const sent = await deliverOutgoing(sock, row, config);
+      const ts = Number(sent?.messageTimestamp ?? 0) || now();
+      markOutboxSent(row.id, sent?.key?.id ?? null, ts);
+      results.push({ id: row.id, ok: true });
+    } catch (err) {
+      const error = (err as Error).message;
+      if (err instanceof QuotaExceededError) {
+        // Not a failed attempt: the row waits until the quota has room. A
+        // full global quota holds every chat, so the pass ends.
+        deferOutboxMessage(row.id, error, err.retryAt);
+        results.push({ id: row.id, ok: false, error, retry_at: err.retryAt });
+        if (err.quota === "global_per_day") break;
+        held.add(row.chat_jid);
+        continue;
+      }
+      const attempts = row.attempts + 1;
+      if (isPermanent(err) || attempts >= MAX_ATTEMPTS) {
+        markOutboxFailed(row.id, error);
+        results.push({ id: row.id, ok: false, error });
+        continue;
+      }
+      const retryAt = now() + retryDelaySeconds(attempts);
+      markOutboxFailed(row.id, error, retryAt);
+      logger.warn({ id: row.id, jid: row.chat_jid, attempts, err: error }, "Outbox send failed, will retry");
+      results.push({ id: row.id, ok: false, error, retry_at: retryAt });
+      break;
+    }
+  }
+  return results;
+}
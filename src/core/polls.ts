@@ -0,0 +1,164 @@
+import { createHash } from "crypto";
+import {
+  decryptPollVote,
+  jidNormalizedUser,
+  type proto,
+  type WAMessage,
+  type WASocket,
+} from "@whiskeysockets/baileys";
+import {
+  getMessageContent,
+  extractPoll,
+  extractMessageSecret,
+} from "./extract.js";
+import {
+  getMessage,
+  getPollVotes,
+  applyPollVote,
+  deserializeWAMessage,
+  SELF_KEY,
+} from "./store.js";
+import { createChildLogger } from "../config/logger.js";
+
+const logger = createChildLogger("polls");
+
+// Votes arrive as pollUpdateMessage, encrypted with a key derived from the
+// poll's messageSecret plus the creator and voter jids. Baileys leaves that to
+// the app (its own handler is commented out), so we decrypt against the
+// stored creation message. A vote carries SHA-256 hashes of the chosen option
+// names, not the names themselves.
+
+/** Our own jids (phone and LID form) - the author of any fromMe key. */
+export function ownJids(sock: WASocket): string[] {
+  const user = sock.user as { id?: string; lid?: string } | undefined;
+  return [user?.id, user?.lid]
+    .filter((j): j is string => !!j)
+    .map((j) => jidNormalizedUser(j));
+}
+
+// Every jid the author of `key` may have signed with. With LID addressing a
+// key can name the author either way, and the wrong one only shows up as a
+// failed decrypt, so callers try each.
+function keyAuthors(key: proto.IMessageKey | null | undefined, me: string[]): string[] {
+  if (key?.fromMe) return me;
+  const k = key as (proto.IMessageKey & { participantAlt?: string; remoteJidAlt?: string }) | undefined;
+  const candidates = k?.participant
+    ? [k.participant, k.participantAlt]
+    : [k?.remoteJid, k?.remoteJidAlt];
+  return [...new Set(candidates.filter((j): j is string => !!j).map((j) => jidNormalizedUser(j)))];
+}
+
+const optionHash = (name: string): string =>
+  createHash("sha256").update(Buffer.from(name)).digest("hex");
+
+/** Selected option names, or null when the vote can't be decrypted against this poll. */
+export function decryptVote(
+  poll: WAMessage,
+  vote: WAMessage,
+  me: string[]
+): string[] | null {
+  const definition = extractPoll(getMessageContent(poll));
+  const secret = extractMessageSecret(poll);
+  const update = getMessageContent(vote)?.pollUpdateMessage;
+  if (!definition || !secret || !update?.vote || !poll.key.id) return null;
+
+  const byHash = new Map(definition.options.map((name) => [optionHash(name), name]));
+  for (const creator of keyAuthors(poll.key, me)) {
+    for (const voter of keyAuthors(vote.key, me)) {
+      try {
+        const decrypted = decryptPollVote(update.vote, {
+          pollCreatorJid: creator,
+          pollMsgId: poll.key.id,
+          pollEncKey: secret,
+          voterJid: voter,
+        });
+        return (decrypted.selectedOptions || [])
+          .map((hash) => byHash.get(Buffer.from(hash).toString("hex")))
+          .filter((name): name is string => name !== undefined);
+      } catch {
+        // Wrong jid pairing (or a corrupt vote) - GCM auth fails; try the next.
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Decrypt and store a pollUpdateMessage. Returns false when the poll isn't
+ * stored (or carries no secret) or the vote doesn't decrypt.
+ */
+export function recordPollVote(
+  vote: WAMessage,
+  chatJid: string,
+  timestamp: number,
+  me: string[]
+): boolean {
+  const update = getMessageContent(vote)?.pollUpdateMessage;
+  const pollId = update?.pollCreationMessageKey?.id;
+  if (!update || !pollId) return false;
+
+  const row = getMessage(pollId);
+  if (!row?.raw) {
+    logger.debug({ pollId }, "Poll not stored, cannot decrypt vote");
+    return false;
+  }
+  const selected = decryptVote(deserializeWAMessage(row.raw) as WAMessage, vote, me);
+  if (selected === null) {
+    logger.warn({ pollId, voteId: vote.key.id }, "Failed to decrypt poll vote");
+    return false;
+  }
+
+  const voter = vote.key.fromMe ? SELF_KEY : keyAuthors(vote.key, me)[0];
+  if (!voter) return false;
+  const ms = Number(update.senderTimestampMs ?? 0);
+  applyPollVote({
+    poll_id: pollId,
+    chat_jid: chatJid,
+    voter_jid: voter,
+    options: selected,
+    timestamp: ms > 0 ? Math.floor(ms / 1000) : timestamp,
+  });
+  return true;
+}
+
+export interface PollOptionResult {
+  name: string;
+  count: number;
+  voters: string[];
+}
+
+export interface PollResults {
+  poll_id: string;
+  chat_jid: string;
+  question: string;
+  selectable_count: number;
+  options: PollOptionResult[];
+  total_voters: number;
+}
+
+/** Live tally for a stored poll; null when `pollId` isn't a stored poll. */
+export function getPollResults(pollId: string): PollResults | null {
+  const row = getMessage(pollId);
+  if (!row?.raw) return null;
+  const definition = extractPoll(getMessageContent(deserializeWAMessage(row.raw) as WAMessage));
+  if (!definition) return null;
+
+  const options = definition.options.map((name) => ({ name, count: 0, voters: [] as string[] }));
+  const votes = getPollVotes(pollId);
+  for (const vote of votes) {
+    for (const name of JSON.parse(vote.options) as string[]) {
+      const option = options.find((o) => o.name === name);
+      if (!option) continue;
+      option.count++;
+      option.voters.push(vote.voter_jid);
+    }
+  }
+  return {
+    poll_id: pollId,
+    chat_jid: row.chat_jid,
+    question: definition.question,
+    selectable_count: definition.selectableCount,
+    options,
+    total_voters: votes.length,
+  };
+}
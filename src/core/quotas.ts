@@ -0,0 +1,115 @@
+import type { WuConfig, QuotasConfig } from "../config/schema.js";
+import { getDb } from "../db/database.js";
+import { insertSendLog, deleteSendLog, listSendTimes, hasSentTo } from "./store.js";
+import { EXIT_QUOTA_EXCEEDED } from "../cli/exit-codes.js";
+
+// Send quotas. Every outgoing message is logged in send_log before it goes
+// out, and the quotas count that log over rolling windows, so they hold
+// across the CLI, the MCP server and the daemon alike and survive restarts.
+
+export type QuotaName = keyof QuotasConfig;
+
+const HOUR = 3600;
+const DAY = 86400;
+
+export class QuotaExceededError extends Error {
+  /** Distinct from a constraint violation (2) */
+  static readonly EXIT_CODE = EXIT_QUOTA_EXCEEDED;
+  readonly exitCode = QuotaExceededError.EXIT_CODE;
+
+  constructor(
+    message: string,
+    public quota: QuotaName,
+    /** When the oldest counted send leaves the window and a slot frees up */
+    public retryAt: number
+  ) {
+    super(message);
+    this.name = "QuotaExceededError";
+  }
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function isNewChat(jid: string): boolean {
+  return !jid.endsWith("@g.us") && !hasSentTo(jid);
+}
+
+interface QuotaCheck {
+  quota: QuotaName;
+  limit: number;
+  window: number;
+  times: number[];
+  describe: string;
+}
+
+function checksFor(jid: string, quotas: QuotasConfig, newChat: boolean, now: number): QuotaCheck[] {
+  const checks: QuotaCheck[] = [];
+  const add = (quota: QuotaName, window: number, describe: string, scope: { chatJid?: string; newChats?: boolean }) => {
+    const limit = quotas[quota];
+    if (limit === undefined) return;
+    checks.push({ quota, limit, window, describe, times: listSendTimes({ since: now - window, ...scope }) });
+  };
+  add("chat_per_hour", HOUR, `messages per hour to ${jid}`, { chatJid: jid });
+  add("chat_per_day", DAY, `messages per day to ${jid}`, { chatJid: jid });
+  add("global_per_day", DAY, "messages per day in total", {});
+  if (newChat) add("new_chats_per_day", DAY, "messages per day to new chats", { newChats: true });
+  return checks;
+}
+
+function assertChecks(checks: QuotaCheck[]): void {
+  for (const check of checks) {
+    if (check.times.length < check.limit) continue;
+    // Sends older than this one must age out before there is room again.
+    const retryAt = check.times[check.times.length - check.limit]! + check.window;
+    throw new QuotaExceededError(
+      `Quota exceeded: ${check.limit} ${check.describe} (quotas.${check.quota}); ` +
+        `next send allowed after ${new Date(retryAt * 1000).toISOString()}`,
+      check.quota,
+      retryAt
+    );
+  }
+}
+
+/** Throw if a message to `jid` would exceed a quota, without using one up. */
+export function checkQuota(jid: string, config: WuConfig, now: number = nowSeconds()): void {
+  assertChecks(checksFor(jid, config.quotas ?? {}, isNewChat(jid), now));
+}
+
+/**
+ * Count a message to `jid` against the quotas, or throw QuotaExceededError.
+ * Check and log happen in one write transaction, so concurrent processes
+ * can't both take the last slot. Returns the log row for releaseQuota().
+ */
+export function reserveQuota(jid: string, config: WuConfig, now: number = nowSeconds()): number {
+  const reserve = getDb().transaction(() => {
+    const newChat = isNewChat(jid);
+    assertChecks(checksFor(jid, config.quotas ?? {}, newChat, now));
+    return insertSendLog(jid, now, newChat);
+  });
+  return reserve.immediate();
+}
+
+/** Give back a reservation whose send failed. */
+export function releaseQuota(id: number): void {
+  deleteSendLog(id);
+}
+
+export interface QuotaUsage {
+  quota: QuotaName;
+  limit: number | null;
+  used: number;
+}
+
+/** Current usage of each quota; the per-chat ones need `jid`. */
+export function quotaUsage(config: WuConfig, jid?: string, now: number = nowSeconds()): QuotaUsage[] {
+  const usage = (quota: QuotaName, window: number, scope: { chatJid?: string; newChats?: boolean }): QuotaUsage => ({
+    quota,
+    limit: config.quotas?.[quota] ?? null,
+    used: listSendTimes({ since: now - window, ...scope }).length,
+  });
+  const list = [usage("global_per_day", DAY, {}), usage("new_chats_per_day", DAY, { newChats: true })];
+  if (jid) list.unshift(usage("chat_per_hour", HOUR, { chatJid: jid }), usage("chat_per_day", DAY, { chatJid: jid }));
+  return list;
+}
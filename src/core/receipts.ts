@@ -0,0 +1,82 @@
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { jidNormalizedUser } from "@whiskeysockets/baileys";
+import { AUTH_DIR } from "../config/paths.js";
+import { getMessage, getReceipts, getGroupParticipants, type ReceiptRow } from "./store.js";
+
+export interface ReceiptReport {
+  message_id: string;
+  chat_jid: string;
+  sent_at: number;
+  recipients: Array<Omit<ReceiptRow, "message_id" | "chat_jid">>;
+  delivered_count: number;
+  read_count: number;
+  /**
+   * Who should have read it but hasn't: group participants (from the last
+   * group sync) without a read receipt, or the other side of a 1:1 chat.
+   */
+  not_yet_read_by: string[];
+}
+
+// Our own account, so we don't list ourselves as a pending reader. Read from
+// the stored credentials: receipts are reported offline, without a socket.
+function ownAccountJids(): Set<string> {
+  const credsPath = join(AUTH_DIR, "creds.json");
+  if (!existsSync(credsPath)) return new Set();
+  try {
+    const creds = JSON.parse(readFileSync(credsPath, "utf-8"));
+    return new Set(
+      [creds.me?.id, creds.me?.lid]
+        .filter((j): j is string => typeof j === "string")
+        .map((j) => jidNormalizedUser(j))
+    );
+  } catch {
+    return new Set();
+  }
+}
+
+export class ReceiptsError extends Error {
+  constructor(message: string, public reason: "not_found" | "not_from_me") {
+    super(message);
+    this.name = "ReceiptsError";
+  }
+}
+
+export function getReceiptReport(messageId: string): ReceiptReport {
+  const message = getMessage(messageId);
+  if (!message) throw new ReceiptsError(`Message not found: ${messageId}`, "not_found");
+  if (!message.is_from_me) {
+    throw new ReceiptsError(
+      `Receipts are only tracked for messages you sent; ${messageId} is from someone else`,
+      "not_from_me"
+    );
+  }
+
+  const receipts = getReceipts(messageId);
+  const read = new Set(receipts.filter((r) => r.read_at || r.played_at).map((r) => r.recipient_jid));
+
+  let expected: string[];
+  if (message.chat_jid.endsWith("@g.us")) {
+    const me = ownAccountJids();
+    expected = getGroupParticipants(message.chat_jid)
+      .map((p) => p.participant_jid)
+      .filter((jid) => !me.has(jid));
+  } else {
+    expected = [message.chat_jid];
+  }
+
+  return {
+    message_id: messageId,
+    chat_jid: message.chat_jid,
+    sent_at: message.timestamp,
+    recipients: receipts.map(({ recipient_jid, delivered_at, read_at, played_at }) => ({
+      recipient_jid,
+      delivered_at,
+      read_at,
+      played_at,
+    })),
+    delivered_count: receipts.filter((r) => r.delivered_at).length,
+    read_count: read.size,
+    not_yet_read_by: expected.filter((jid) => !read.has(jid)),
+  };
+}
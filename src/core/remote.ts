@@ -2,7 +2,7 @@ import { execFile, execFileSync } from "child_process";
 import { existsSync, renameSync, unlinkSync, statSync, mkdirSync } from "fs";
 import { join } from "path";
 import type { WuConfig, RemoteConfig } from "../config/schema.js";
-import { WU_HOME } from "../config/paths.js";
+import { WU_HOME, DEFAULT_PROFILE, activeProfile } from "../config/paths.js";
 import { closeDb, reloadDb } from "../db/database.js";
 
 // --- Shell escaping (POSIX-safe) ---
@@ -20,6 +20,13 @@ export function remotePath(path: string): string {
   return shellEscape(path);
 }
 
+// A profile maps to the profile of the same name on the remote, laid out
+// the same way under its wu_home.
+export function remoteProfileHome(remote: RemoteConfig, profile: string = activeProfile()): string {
+  const home = remote.wu_home.replace(/\/+$/, "");
+  return profile === DEFAULT_PROFILE ? home : `${home}/profiles/${profile}`;
+}
+
 // --- SSH connection multiplexing ---
 
 const CONTROL_DIR = join(WU_HOME, "ssh");
@@ -86,7 +93,9 @@ export async function sshWuExec(
   opts?: SshExecOptions,
 ): Promise<{ stdout: string; stderr: string; exitCode: number }> {
   const escaped = wuArgs.map(shellEscape).join(" ");
-  const command = `env WU_HOME=${remotePath(remote.wu_home)} wu ${escaped}`;
+  const profile = activeProfile();
+  const profileEnv = profile === DEFAULT_PROFILE ? "" : ` WU_PROFILE=${shellEscape(profile)}`;
+  const command = `env WU_HOME=${remotePath(remote.wu_home)}${profileEnv} wu ${escaped}`;
   return sshRawExec(remote, command, opts);
 }
 
@@ -96,7 +105,7 @@ export async function syncMedia(
   remote: RemoteConfig,
   localMediaDir: string,
 ): Promise<{ method: string }> {
-  const remoteMediaDir = `${remote.host}:${remote.wu_home.replace(/\/+$/, "")}/media/`;
+  const remoteMediaDir = `${remote.host}:${remoteProfileHome(remote)}/media/`;
   return new Promise((resolve, reject) => {
     execFile(
       "rsync",
@@ -124,7 +133,7 @@ export async function syncDb(
   if (localHas) {
     const remoteHas = await sshRawExec(remote, "which sqlite3-rsync");
     if (remoteHas.exitCode === 0) {
-      const remoteDbPath = `${remote.wu_home}/wu.db`;
+      const remoteDbPath = `${remoteProfileHome(remote)}/wu.db`;
       // Close any open local handle before the in-place write so an in-process
       // reader (daemon / long-lived MCP server) can't see a half-written DB.
       closeDb();
@@ -152,7 +161,7 @@ export async function syncDb(
   // Remote backup (use remotePath for tilde expansion)
   const backup = await sshRawExec(
     remote,
-    `sqlite3 ${remotePath(remote.wu_home + "/wu.db")} '.backup ${shellEscape(tmpRemote)}'`,
+    `sqlite3 ${remotePath(remoteProfileHome(remote) + "/wu.db")} '.backup ${shellEscape(tmpRemote)}'`,
   );
   if (backup.exitCode !== 0) {
     throw new Error(`Remote backup failed: ${backup.stderr}`);
@@ -0,0 +1,238 @@
+import { execFile } from "child_process";
+import type { WASocket } from "@whiskeysockets/baileys";
+import type { WuConfig, RuleConfig, RuleAction } from "../config/schema.js";
+import { assertCanSend, jidMatchesAny, inHours } from "./constraints.js";
+import { sendText, sendReaction, forwardMessage } from "./sender.js";
+import type { ParsedMessage } from "./listener.js";
+import type { MessageRow } from "./store.js";
+import { runAs } from "./audit.js";
+import { createChildLogger } from "../config/logger.js";
+
+const logger = createChildLogger("rules");
+
+/** The message fields rules look at; a live ParsedMessage or a stored row. */
+export interface RuleInput {
+  id: string;
+  chatJid: string;
+  senderJid: string | null;
+  senderName: string | null;
+  body: string | null;
+  type: string;
+  isFromMe: boolean;
+  timestamp: number;
+}
+
+export function ruleInputFromRow(row: MessageRow): RuleInput {
+  return {
+    id: row.id,
+    chatJid: row.chat_jid,
+    senderJid: row.sender_jid,
+    senderName: row.sender_name,
+    body: row.body,
+    type: row.type,
+    isFromMe: row.is_from_me === 1,
+    timestamp: row.timestamp,
+  };
+}
+
+export function ruleName(rule: RuleConfig, index: number): string {
+  return rule.name ?? `rule-${index + 1}`;
+}
+
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+export function ruleMatches(rule: RuleConfig, msg: RuleInput): boolean {
+  const m = rule.match;
+  if (m.chats && !jidMatchesAny(msg.chatJid, m.chats)) return false;
+  if (m.senders && !(msg.senderJid && jidMatchesAny(msg.senderJid, m.senders))) return false;
+  if (m.types && !m.types.includes(msg.type)) return false;
+  if (m.body && !new RegExp(m.body, m.ignore_case ? "i" : "").test(msg.body ?? "")) return false;
+  const at = new Date(msg.timestamp * 1000);
+  if (m.hours && !inHours(m.hours, at)) return false;
+  if (m.days && !m.days.includes(WEEKDAYS[at.getDay()] as (typeof m.days)[number])) return false;
+  return true;
+}
+
+export interface MatchedRule {
+  name: string;
+  rule: RuleConfig;
+}
+
+/**
+ * Rules matching `msg`, in config order, cut off after the first one with
+ * `stop`. Our own messages never match: a reply would otherwise trigger
+ * itself.
+ */
+export function matchRules(msg: RuleInput, config: WuConfig): MatchedRule[] {
+  if (msg.isFromMe) return [];
+  const matched: MatchedRule[] = [];
+  for (const [i, rule] of config.rules.entries()) {
+    if (!ruleMatches(rule, msg)) continue;
+    matched.push({ name: ruleName(rule, i), rule });
+    if (rule.stop) break;
+  }
+  return matched;
+}
+
+export function renderTemplate(text: string, msg: RuleInput): string {
+  const values: Record<string, string> = {
+    sender: msg.senderJid ?? "",
+    sender_name: msg.senderName ?? "",
+    chat: msg.chatJid,
+    body: msg.body ?? "",
+  };
+  return text.replace(/\{(sender|sender_name|chat|body)\}/g, (_m, key: string) => values[key]);
+}
+
+function actionKind(action: RuleAction): "reply" | "react" | "forward" | "run" {
+  if ("reply" in action) return "reply";
+  if ("react" in action) return "react";
+  if ("forward" in action) return "forward";
+  return "run";
+}
+
+// The chat an action sends to, if it sends at all.
+function actionTarget(action: RuleAction, msg: RuleInput): string | null {
+  if ("forward" in action) return action.forward;
+  if ("run" in action) return action.reply_output ? msg.chatJid : null;
+  return msg.chatJid;
+}
+
+export interface PlannedAction {
+  rule: string;
+  action: "reply" | "react" | "forward" | "run";
+  target: string | null;
+  detail: string;
+  /** Why the action would be refused (constraint), if it would. */
+  blocked?: string;
+}
+
+/** What the rules would do for `msg`, without doing it (`wu rules test`). */
+export function planActions(msg: RuleInput, config: WuConfig): PlannedAction[] {
+  const planned: PlannedAction[] = [];
+  for (const { name, rule } of matchRules(msg, config)) {
+    for (const action of rule.actions) {
+      const kind = actionKind(action);
+      const target = actionTarget(action, msg);
+      let detail: string;
+      if ("reply" in action) detail = renderTemplate(action.reply, msg);
+      else if ("react" in action) detail = action.react;
+      else if ("forward" in action) detail = `message ${msg.id}`;
+      else detail = action.run + (action.reply_output ? " (output sent as reply)" : "");
+
+      let blocked: string | undefined;
+      if (target) {
+        try {
+          assertCanSend(target, config);
+        } catch (err) {
+          blocked = (err as Error).message;
+        }
+      }
+      planned.push({ rule: name, action: kind, target, detail, ...(blocked ? { blocked } : {}) });
+    }
+  }
+  return planned;
+}
+
+function runCommand(
+  cmd: string,
+  msg: RuleInput,
+  timeoutMs: number
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = execFile(
+      "/bin/sh",
+      ["-c", cmd],
+      {
+        timeout: timeoutMs,
+        maxBuffer: 1024 * 1024,
+        env: {
+          ...process.env,
+          WU_MSG_ID: msg.id,
+          WU_CHAT_JID: msg.chatJid,
+          WU_SENDER_JID: msg.senderJid ?? "",
+          WU_SENDER_NAME: msg.senderName ?? "",
+          WU_BODY: msg.body ?? "",
+          WU_TYPE: msg.type,
+          WU_TIMESTAMP: String(msg.timestamp),
+        },
+      },
+      (err, stdout, stderr) => {
+        if (err) reject(new Error(`command failed: ${(stderr || err.message).trim().slice(0, 500)}`));
+        else resolve(stdout);
+      }
+    );
+    child.stdin?.on("error", () => { /* command didn't read stdin */ });
+    child.stdin?.end(
+      JSON.stringify({
+        id: msg.id,
+        chat_jid: msg.chatJid,
+        sender_jid: msg.senderJid,
+        sender_name: msg.senderName,
+        body: msg.body,
+        type: msg.type,
+        timestamp: msg.timestamp,
+      })
+    );
+  });
+}
+
+export interface RuleActionResult {
+  rule: string;
+  action: "reply" | "react" | "forward" | "run";
+  ok: boolean;
+  error?: string;
+}
+
+/**
+ * Runs matching rules against live messages. Holds the per-rule, per-chat
+ * cooldown clock, so one engine should live as long as the daemon does.
+ * Sends go through sender.ts: assertCanSend applies to every reply, reaction
+ * and forward.
+ */
+export class RuleEngine {
+  private lastFired = new Map<string, number>();
+
+  async handle(
+    sock: WASocket,
+    msg: ParsedMessage,
+    config: WuConfig,
+    now: number = Math.floor(Date.now() / 1000)
+  ): Promise<RuleActionResult[]> {
+    const results: RuleActionResult[] = [];
+    for (const { name, rule } of matchRules(msg, config)) {
+      const key = `${name}:${msg.chatJid}`;
+      const last = this.lastFired.get(key);
+      if (rule.cooldown_seconds > 0 && last !== undefined && now - last < rule.cooldown_seconds) continue;
+      this.lastFired.set(key, now);
+
+      for (const action of rule.actions) {
+        const kind = actionKind(action);
+        try {
+          await runAs("rule", () => this.execute(sock, action, msg, config));
+          results.push({ rule: name, action: kind, ok: true });
+        } catch (err) {
+          const error = (err as Error).message;
+          logger.warn({ rule: name, action: kind, jid: msg.chatJid, err: error }, "Rule action failed");
+          results.push({ rule: name, action: kind, ok: false, error });
+        }
+      }
+    }
+    return results;
+  }
+
+  private async execute(sock: WASocket, action: RuleAction, msg: ParsedMessage, config: WuConfig): Promise<void> {
+    if ("reply" in action) {
+      await sendText(sock, msg.chatJid, renderTemplate(action.reply, msg), config, { replyTo: msg.id });
+    } else if ("react" in action) {
+      await sendReaction(sock, msg.chatJid, msg.id, action.react, config);
+    } else if ("forward" in action) {
+      await forwardMessage(sock, action.forward, msg.raw, config);
+    } else {
+      const output = (await runCommand(action.run, msg, action.timeout_ms)).trim();
+      if (action.reply_output && output) {
+        await sendText(sock, msg.chatJid, output, config, { replyTo: msg.id });
+      }
+    }
+  }
+}
@@ -0,0 +1,280 @@
+import type { WASocket } from "@whiskeysockets/baileys";
+import type { WuConfig } from "../config/schema.js";
+import { assertCanSend } from "./constraints.js";
+import { recordAudit } from "./audit.js";
+import {
+  prepareOutgoing,
+  deliverOutgoing,
+  isPermanent,
+  retryDelaySeconds,
+  MAX_ATTEMPTS,
+  type OutgoingRequest,
+} from "./outbox.js";
+import { QuotaExceededError } from "./quotas.js";
+import {
+  insertScheduledMessage,
+  getScheduledMessage,
+  listDueScheduledMessages,
+  recordScheduledRun,
+  retryScheduledMessage,
+  type ScheduledMessageRow,
+} from "./store.js";
+import { UNIT_SECONDS } from "./time.js";
+import { createChildLogger } from "../config/logger.js";
+
+const logger = createChildLogger("schedule");
+
+// --- Time parsing ---
+
+function atClock(base: Date, clock: string): Date | null {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(clock);
+  if (!m) return null;
+  const hour = parseInt(m[1], 10);
+  const minute = parseInt(m[2], 10);
+  if (hour > 23 || minute > 59) return null;
+  const d = new Date(base);
+  d.setHours(hour, minute, 0, 0);
+  return d;
+}
+
+/**
+ * Parse a send time into unix seconds. Accepts a unix timestamp, a relative
+ * offset ("30m", "+2h", "in 1d"), a local clock time ("09:00", the next one
+ * to come), "tomorrow 09:00", or anything Date.parse understands
+ * ("2026-03-01 09:00", ISO 8601). Throws on anything else.
+ */
+export function parseWhen(input: string, now: Date = new Date()): number {
+  const text = input.trim().toLowerCase();
+
+  if (/^\d{10}$/.test(text)) return parseInt(text, 10);
+
+  const rel = /^(?:\+|in\s+)?(\d+)\s*([smhdw])$/.exec(text);
+  if (rel) return Math.floor(now.getTime() / 1000) + parseInt(rel[1], 10) * UNIT_SECONDS[rel[2]];
+
+  const clock = atClock(now, text);
+  if (clock) {
+    if (clock.getTime() <= now.getTime()) clock.setDate(clock.getDate() + 1);
+    return Math.floor(clock.getTime() / 1000);
+  }
+
+  const tomorrow = /^tomorrow\s+(.+)$/.exec(text);
+  if (tomorrow) {
+    const base = new Date(now);
+    base.setDate(base.getDate() + 1);
+    const at = atClock(base, tomorrow[1]);
+    if (at) return Math.floor(at.getTime() / 1000);
+  }
+
+  const parsed = Date.parse(input.trim());
+  if (!Number.isNaN(parsed)) return Math.floor(parsed / 1000);
+
+  throw new Error(
+    `Invalid time "${input}": use a unix timestamp, an offset like 30m/2h/1d, HH:MM, "tomorrow HH:MM", or a date like 2026-03-01T09:00`
+  );
+}
+
+// --- Cron recurrence ---
+//
+// Standard 5-field cron (minute hour day-of-month month day-of-week) in local
+// time, with *, lists, ranges and steps. As in Vixie cron, a day field that
+// starts with * (including */n) isn't restricted: when only one day field is
+// restricted it alone picks the days, and when both are a day matching either
+// one fires.
+
+export interface CronSpec {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  daysRestricted: boolean;
+  weekdaysRestricted: boolean;
+}
+
+function parseCronField(field: string, min: number, max: number, name: string): Set<number> {
+  const out = new Set<number>();
+  for (const part of field.split(",")) {
+    const m = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!m) throw new Error(`Invalid cron ${name} field "${field}"`);
+    let lo = min;
+    let hi = max;
+    if (m[1] !== "*") {
+      lo = parseInt(m[2], 10);
+      hi = m[3] !== undefined ? parseInt(m[3], 10) : m[4] !== undefined ? max : lo;
+    }
+    const step = m[4] !== undefined ? parseInt(m[4], 10) : 1;
+    if (lo < min || hi > max || lo > hi || step < 1) {
+      throw new Error(`Invalid cron ${name} field "${field}" (allowed ${min}-${max})`);
+    }
+    for (let v = lo; v <= hi; v += step) out.add(v);
+  }
+  return out;
+}
+
+export function parseCron(expr: string): CronSpec {
+  const fields = expr.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expr}": expected 5 fields (minute hour day month weekday)`);
+  }
+  const [minute, hour, day, month, weekday] = fields;
+  const weekdays = parseCronField(weekday, 0, 7, "weekday");
+  if (weekdays.delete(7)) weekdays.add(0); // 7 is Sunday too
+  return {
+    minutes: parseCronField(minute, 0, 59, "minute"),
+    hours: parseCronField(hour, 0, 23, "hour"),
+    days: parseCronField(day, 1, 31, "day"),
+    months: parseCronField(month, 1, 12, "month"),
+    weekdays,
+    daysRestricted: !day.startsWith("*"),
+    weekdaysRestricted: !weekday.startsWith("*"),
+  };
+}
+
+function dayMatches(spec: CronSpec, d: Date): boolean {
+  const dom = spec.days.has(d.getDate());
+  const dow = spec.weekdays.has(d.getDay());
+  if (spec.daysRestricted && spec.weekdaysRestricted) return dom || dow;
+  if (spec.weekdaysRestricted) return dow;
+  if (spec.daysRestricted) return dom;
+  return dom && dow;
+}
+
+/** First matching minute strictly after `after` (unix seconds). */
+export function nextCronTime(spec: CronSpec, after: number): number {
+  const d = new Date(after * 1000);
+  d.setSeconds(0, 0);
+  d.setMinutes(d.getMinutes() + 1);
+  // Skip whole months/days/hours that can't match; bounded so an impossible
+  // spec (Feb 30) fails instead of spinning.
+  const limit = after * 1000 + 5 * 366 * 86400 * 1000;
+  while (d.getTime() <= limit) {
+    if (!spec.months.has(d.getMonth() + 1)) {
+      d.setMonth(d.getMonth() + 1, 1);
+      d.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!dayMatches(spec, d)) {
+      d.setDate(d.getDate() + 1);
+      d.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!spec.hours.has(d.getHours())) {
+      d.setHours(d.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!spec.minutes.has(d.getMinutes())) {
+      d.setMinutes(d.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return Math.floor(d.getTime() / 1000);
+  }
+  throw new Error("Cron expression never matches");
+}
+
+// --- Scheduling ---
+
+export interface ScheduleRequest extends Omit<OutgoingRequest, "replyTo"> {
+  /** unix seconds; defaults to the first cron occurrence when recurring */
+  sendAt?: number;
+  cron?: string;
+}
+
+// Validates up front what can be checked now (constraints, media exists,
+// cron parses); the daemon checks the constraint again when it fires.
+export function scheduleMessage(
+  req: ScheduleRequest,
+  config: WuConfig,
+  now: number = Math.floor(Date.now() / 1000)
+): ScheduledMessageRow {
+  // Audited like a refused enqueue: accepted ones are logged when they fire.
+  try {
+    assertCanSend(req.chatJid, config);
+  } catch (err) {
+    recordAudit("schedule", req.chatJid, req, { err });
+    throw err;
+  }
+  const content = prepareOutgoing(req);
+
+  const spec = req.cron ? parseCron(req.cron) : null;
+  const sendAt = req.sendAt ?? (spec ? nextCronTime(spec, now) : undefined);
+  if (sendAt === undefined) throw new Error("Provide a send time (--at) or a recurrence (--cron)");
+  if (sendAt <= now) throw new Error("Send time is in the past");
+
+  const id = insertScheduledMessage({
+    chat_jid: req.chatJid,
+    ...content,
+    send_at: sendAt,
+    recurrence: req.cron ?? null,
+  });
+  return getScheduledMessage(id)!;
+}
+
+export interface ScheduleRunResult {
+  id: number;
+  ok: boolean;
+  error?: string;
+  next_send_at?: number;
+  /** Set when a failed delivery will be retried */
+  retry_at?: number;
+}
+
+/**
+ * Deliver every pending row that is due. Failures are recorded on the row
+ * rather than thrown. As in the outbox, a transient failure (socket
+ * mid-reconnect) is retried with backoff and ends the pass, and a full quota
+ * holds the row until it has room without counting an attempt. A permanent
+ * failure (constraint violations included - sendText/sendMedia re-check at
+ * fire time) or running out of attempts ends the run: a one-shot row fails,
+ * and a recurring row moves to its next occurrence after now, so downtime
+ * never replays a backlog of missed runs.
+ */
+export async function runDueSchedules(
+  sock: WASocket,
+  config: WuConfig,
+  now: number = Math.floor(Date.now() / 1000)
+): Promise<ScheduleRunResult[]> {
+  const results: ScheduleRunResult[] = [];
+  for (const row of listDueScheduledMessages(now)) {
+    let messageId: string | null = null;
+    let error: string | null = null;
+    try {
+      const sent = await deliverOutgoing(sock, row, config);
+      messageId = sent?.key?.id ?? null;
+    } catch (err) {
+      error = (err as Error).message;
+      if (err instanceof QuotaExceededError) {
+        retryScheduledMessage(row.id, { at: now, error, retryAt: err.retryAt, countAttempt: false });
+        results.push({ id: row.id, ok: false, error, retry_at: err.retryAt });
+        if (err.quota === "global_per_day") break;
+        continue;
+      }
+      const attempts = row.attempts + 1;
+      if (!isPermanent(err) && attempts < MAX_ATTEMPTS) {
+        const retryAt = now + retryDelaySeconds(attempts);
+        retryScheduledMessage(row.id, { at: now, error, retryAt, countAttempt: true });
+        logger.warn({ id: row.id, jid: row.chat_jid, attempts, err: error }, "Scheduled message failed, will retry");
+        results.push({ id: row.id, ok: false, error, retry_at: retryAt });
+        break;
+      }
+      logger.warn({ id: row.id, jid: row.chat_jid, err: error }, "Scheduled message failed");
+    }
+
+    let nextSendAt: number | null = null;
+    if (row.recurrence) {
+      try {
+        nextSendAt = nextCronTime(parseCron(row.recurrence), now);
+      } catch (err) {
+        error = error ?? (err as Error).message;
+      }
+    }
+
+    recordScheduledRun(row.id, { at: now, messageId, error, nextSendAt });
+    results.push({
+      id: row.id,
+      ok: error === null,
+      ...(error !== null ? { error } : {}),
+      ...(nextSendAt !== null ? { next_send_at: nextSendAt } : {}),
+    });
+  }
+  return results;
+}
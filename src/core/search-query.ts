@@ -0,0 +1,227 @@
+import type { SqlPredicate } from "./constraints.js";
+import type { MessageType } from "./extract.js";
+import { parseSince } from "./time.js";
+
+// The query language of `wu messages search` / wu_messages_search:
+//
+//   budget OR invoice from:alice in:"Team Chat" type:image has:media
+//   before:2026-01-01 is:from-me -draft "exact phrase" meet*
+//
+// Bare words and "quoted phrases" must all match; OR between two of them
+// matches either; a trailing * matches a prefix; a leading - excludes. The
+// field:value filters narrow by message columns and become plain SQL, so the
+// same parse serves the FTS5 path and the LIKE fallback of searchMessages.
+
+export class SearchQueryError extends Error {
+  constructor(message: string) {
+    super(`Invalid search query: ${message}`);
+    this.name = "SearchQueryError";
+  }
+}
+
+export interface SearchTerm {
+  text: string;
+  /** `meet*`: match words starting with the text */
+  prefix: boolean;
+}
+
+export interface SearchQuery {
+  /** Every group must match; a group matches when any of its terms does */
+  terms: SearchTerm[][];
+  /** Messages matching any of these are left out */
+  excluded: SearchTerm[];
+  /** Conditions over `messages` columns, ANDed; never reference `body` */
+  filters: SqlPredicate[];
+}
+
+const MESSAGE_TYPES: readonly MessageType[] = [
+  "text", "image", "video", "audio", "document", "sticker", "contact", "location",
+  "poll", "reaction", "deleted", "edited", "album", "system", "unknown",
+];
+
+const HAS: Record<string, string> = {
+  media: "type IN ('image', 'video', 'audio', 'document', 'sticker')",
+  location: "location_lat IS NOT NULL",
+  quote: "quoted_id IS NOT NULL",
+};
+
+const IS: Record<string, string> = {
+  "from-me": "is_from_me = 1",
+  edited: "edited_at IS NOT NULL",
+};
+
+const FIELDS = ["from", "in", "type", "has", "is", "before", "after"];
+
+function fromFilter(value: string): SqlPredicate {
+  if (value.toLowerCase() === "me") return { sql: "is_from_me = 1", params: [] };
+  if (value.includes("@")) return { sql: "sender_jid = ?", params: [value] };
+  const digits = value.replace(/^\+/, "");
+  if (/^\d+$/.test(digits)) return { sql: "sender_jid LIKE ?", params: [`${digits}@%`] };
+  // A name: as the message carried it, or as we know the sender.
+  const like = `%${value}%`;
+  return {
+    sql: "(sender_name LIKE ? OR sender_jid IN (SELECT jid FROM contacts WHERE push_name LIKE ? OR saved_name LIKE ?))",
+    params: [like, like, like],
+  };
+}
+
+function timeFilter(field: string, value: string): SqlPredicate {
+  let at: number;
+  try {
+    at = parseSince(value);
+  } catch {
+    throw new SearchQueryError(`${field}:${value} is not a time; use a date like 2026-01-01, a unix timestamp or a duration like 7d`);
+  }
+  return { sql: field === "before" ? "timestamp < ?" : "timestamp > ?", params: [at] };
+}
+
+function filterFor(field: string, value: string): SqlPredicate {
+  const key = value.toLowerCase();
+  switch (field) {
+    case "from":
+      return fromFilter(value);
+    case "in":
+      return value.includes("@")
+        ? { sql: "chat_jid = ?", params: [value] }
+        : { sql: "chat_jid IN (SELECT jid FROM chats WHERE name LIKE ?)", params: [`%${value}%`] };
+    case "type":
+      if (!MESSAGE_TYPES.includes(key as MessageType)) {
+        throw new SearchQueryError(`unknown type "${value}"; use one of ${MESSAGE_TYPES.join(", ")}`);
+      }
+      return { sql: "type = ?", params: [key] };
+    case "has":
+      if (!HAS[key]) throw new SearchQueryError(`unknown has:${value}; use has:${Object.keys(HAS).join(", has:")}`);
+      return { sql: HAS[key], params: [] };
+    case "is":
+      if (!IS[key]) throw new SearchQueryError(`unknown is:${value}; use is:${Object.keys(IS).join(", is:")}`);
+      return { sql: IS[key], params: [] };
+    default:
+      return timeFilter(field, value);
+  }
+}
+
+type Token =
+  | { kind: "or" }
+  | { kind: "term"; term: SearchTerm; negated: boolean }
+  | { kind: "filter"; filter: SqlPredicate; negated: boolean };
+
+// Read a "quoted" run starting at query[start] (the opening quote). A doubled
+// quote inside stands for one quote character.
+function readQuoted(query: string, start: number): { text: string; end: number } {
+  let text = "";
+  for (let i = start + 1; i < query.length; i++) {
+    if (query[i] !== '"') text += query[i];
+    else if (query[i + 1] === '"') { text += '"'; i++; }
+    else return { text, end: i + 1 };
+  }
+  throw new SearchQueryError(`unterminated quote at position ${start + 1}`);
+}
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < query.length) {
+    if (/\s/.test(query[i]!)) { i++; continue; }
+
+    const negated = query[i] === "-";
+    if (negated) {
+      i++;
+      if (i >= query.length || /\s/.test(query[i]!)) throw new SearchQueryError(`nothing to exclude after "-" at position ${i}`);
+    }
+
+    if (query[i] === '"') {
+      const { text, end } = readQuoted(query, i);
+      i = end;
+      const prefix = query[i] === "*";
+      if (prefix) i++;
+      if (!text.trim()) throw new SearchQueryError("empty phrase");
+      tokens.push({ kind: "term", term: { text, prefix }, negated });
+      continue;
+    }
+
+    const start = i;
+    while (i < query.length && !/[\s"]/.test(query[i]!)) i++;
+    const word = query.slice(start, i);
+
+    const field = /^([a-z]+):(.*)$/i.exec(word);
+    if (field && !field[2]!.startsWith("//")) {
+      const name = field[1]!.toLowerCase();
+      if (!FIELDS.includes(name)) {
+        throw new SearchQueryError(
+          `unknown filter "${field[1]}:"; use ${FIELDS.map((f) => `${f}:`).join(" ")} (or quote "${word}" to search for it as text)`
+        );
+      }
+      let value = field[2]!;
+      if (!value && query[i] === '"') {
+        const quoted = readQuoted(query, i);
+        value = quoted.text;
+        i = quoted.end;
+      }
+      if (!value.trim()) throw new SearchQueryError(`${name}: needs a value`);
+      tokens.push({ kind: "filter", filter: filterFor(name, value), negated });
+      continue;
+    }
+
+    if (word === "OR" && !negated) {
+      tokens.push({ kind: "or" });
+      continue;
+    }
+    const prefix = word.endsWith("*");
+    const text = prefix ? word.slice(0, -1) : word;
+    if (!text) throw new SearchQueryError(`"*" needs a word before it`);
+    tokens.push({ kind: "term", term: { text, prefix }, negated });
+  }
+  return tokens;
+}
+
+export function parseSearchQuery(query: string): SearchQuery {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) throw new SearchQueryError("the query is empty");
+
+  const parsed: SearchQuery = { terms: [], excluded: [], filters: [] };
+  const joinable = (t: Token | undefined): t is Extract<Token, { kind: "term" }> => t?.kind === "term" && !t.negated;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]!;
+    if (token.kind === "or") {
+      const next = tokens[i + 1];
+      if (!joinable(tokens[i - 1]) || !joinable(next)) {
+        throw new SearchQueryError("OR must sit between two search terms (not filters or -exclusions)");
+      }
+      parsed.terms.at(-1)!.push(next.term);
+      i++;
+    } else if (token.kind === "filter") {
+      // NULL columns don't match a filter, so they do match its negation.
+      parsed.filters.push(
+        token.negated ? { sql: `NOT COALESCE((${token.filter.sql}), 0)`, params: token.filter.params } : token.filter
+      );
+    } else if (token.negated) {
+      parsed.excluded.push(token.term);
+    } else {
+      parsed.terms.push([token.term]);
+    }
+  }
+  return parsed;
+}
+
+function ftsTerm(term: SearchTerm): string {
+  return `"${term.text.replace(/"/g, '""')}"${term.prefix ? "*" : ""}`;
+}
+
+/** An FTS5 MATCH expression for the terms, each one quoted so punctuation stays literal. */
+export function toFtsMatch(groups: SearchTerm[][]): string {
+  return groups
+    .map((group) => (group.length > 1 ? `(${group.map(ftsTerm).join(" OR ")})` : ftsTerm(group[0]!)))
+    .join(" AND ");
+}
+
+/** The terms as `body LIKE` conditions, for DBs without a usable FTS index. */
+export function toLikeConditions(query: SearchQuery): SqlPredicate[] {
+  const conditions: SqlPredicate[] = query.terms.map((group) => ({
+    sql: group.length > 1 ? `(${group.map(() => "body LIKE ?").join(" OR ")})` : "body LIKE ?",
+    params: group.map((t) => `%${t.text}%`),
+  }));
+  for (const term of query.excluded) {
+    conditions.push({ sql: "(body IS NULL OR body NOT LIKE ?)", params: [`%${term.text}%`] });
+  }
+  return conditions;
+}
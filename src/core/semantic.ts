@@ -0,0 +1,245 @@
+import { spawnSync } from "child_process";
+import type { EnrichCapabilityConfig, EnrichConfig, WuConfig } from "../config/schema.js";
+import { constraintSqlPredicate, MESSAGE_COLUMNS, type SqlPredicate } from "./constraints.js";
+import { decodeCursor, toPage, type Ordering, type Paged } from "./cursor.js";
+import { EnrichUnavailableError, resolveBackend } from "./enrich.js";
+import { shellEscape } from "./remote.js";
+import { parseSearchQuery, SearchQueryError, toLikeConditions } from "./search-query.js";
+import {
+  countEmbeddings,
+  countMessagesToEmbed,
+  getMessagesByIds,
+  listEmbeddings,
+  listMessagesToEmbed,
+  saveEmbedding,
+  searchFilters,
+  searchMessages,
+  type EmbedTarget,
+  type SearchMessagesOpts,
+  type SearchResult,
+} from "./store.js";
+import { createChildLogger } from "../config/logger.js";
+
+const logger = createChildLogger("semantic");
+
+// Semantic search: messages are embedded by the enrich.embed backend into
+// message_embeddings (`wu messages embed`), and a query is embedded the same
+// way and compared by cosine similarity. That finds paraphrases FTS misses;
+// FTS finds exact words the vectors blur. `--semantic` runs both and merges
+// them by reciprocal rank fusion, so a message high on either list ranks well
+// and one high on both ranks best.
+
+/** Candidates taken from each side before fusing */
+const POOL = 200;
+/** RRF damping: how much the top few places outweigh the rest */
+const RRF_K = 60;
+/** Longer texts are cut; embedding models only read the first few hundred tokens anyway */
+const MAX_CHARS = 8000;
+const API_BATCH = 64;
+
+// Fused results page by score, ties broken by id. The keys are computed in
+// JS rather than SQL; only the cursor encoding is shared with the SQL reads.
+const FUSED_RESULTS: Ordering = {
+  name: "semantic",
+  keys: [{ sql: "score", desc: true }, { sql: "id", desc: false }],
+};
+
+/**
+ * Names the backend and model behind a vector. Stored with each embedding so
+ * vectors from different models are never compared.
+ */
+export function embeddingModel(config: EnrichConfig): string {
+  const c = config.embed;
+  return c.backend === "api" ? `api:${c.api?.model}` : `local:${c.local.cmd}`;
+}
+
+function parseVector(out: string): number[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(out.trim());
+  } catch {
+    parsed = undefined;
+  }
+  if (!Array.isArray(parsed) || parsed.length === 0 || !parsed.every((n) => typeof n === "number" && Number.isFinite(n))) {
+    throw new Error(`embed command must print a JSON array of numbers, got: ${out.trim().slice(0, 100)}`);
+  }
+  return parsed as number[];
+}
+
+// Run the local command with {text} replaced by the text; the text is also on
+// stdin for commands that read it there.
+function embedLocal(cmdTemplate: string, text: string): number[] {
+  const cmd = cmdTemplate.replace(/\{text\}/g, shellEscape(text));
+  const res = spawnSync("/bin/sh", ["-c", cmd], { input: text, encoding: "utf-8", maxBuffer: 32 * 1024 * 1024 });
+  if (res.status !== 0) {
+    throw new Error(`local embed command failed (${res.status}): ${(res.stderr || "").trim().slice(0, 500)}`);
+  }
+  return parseVector(res.stdout || "");
+}
+
+// OpenAI-compatible /embeddings (OpenAI, Ollama, LM Studio, ...).
+async function embedViaApi(texts: string[], api: NonNullable<EnrichCapabilityConfig["api"]>): Promise<number[][]> {
+  if (api.provider !== "openai") {
+    throw new Error("enrich.embed.api needs an OpenAI-compatible embeddings API; set provider: openai");
+  }
+  const key = process.env[api.key_env]!;
+  const res = await fetch(`${api.base_url.replace(/\/$/, "")}/embeddings`, {
+    method: "POST",
+    headers: { authorization: `Bearer ${key}`, "content-type": "application/json" },
+    body: JSON.stringify({ model: api.model, input: texts }),
+  });
+  if (!res.ok) throw new Error(`embeddings API ${res.status}: ${(await res.text()).slice(0, 300)}`);
+  const json = (await res.json()) as { data?: Array<{ index: number; embedding: number[] }> };
+  const data = [...(json.data ?? [])].sort((a, b) => a.index - b.index);
+  if (data.length !== texts.length) throw new Error(`embeddings API returned ${data.length} vectors for ${texts.length} texts`);
+  return data.map((d) => d.embedding);
+}
+
+/** Embed texts with the configured backend, one vector per text. */
+export async function embedTexts(texts: string[], config: EnrichConfig): Promise<number[][]> {
+  const status = resolveBackend("embed", config);
+  if (!status.available) throw new EnrichUnavailableError(status);
+  return embedWithBackend(texts, config);
+}
+
+async function embedWithBackend(texts: string[], config: EnrichConfig): Promise<number[][]> {
+  const c = config.embed;
+  const clipped = texts.map((t) => t.slice(0, MAX_CHARS));
+  if (c.backend === "local") return clipped.map((t) => embedLocal(c.local.cmd, t));
+  const vectors: number[][] = [];
+  for (let i = 0; i < clipped.length; i += API_BATCH) {
+    vectors.push(...(await embedViaApi(clipped.slice(i, i + API_BATCH), c.api!)));
+  }
+  return vectors;
+}
+
+// The text FTS indexes for a message; a voice note's transcript is often
+// folded into its body too, so repeats are dropped.
+function embedText(target: EmbedTarget): string {
+  const parts = [target.body, target.transcript, target.ocr_text].map((p) => p?.trim()).filter((p): p is string => !!p);
+  return [...new Set(parts)].join("\n");
+}
+
+export interface EmbedResult {
+  model: string;
+  embedded: number;
+  failed: number;
+  /** Messages still without an embedding from this model */
+  remaining: number;
+  /** The first failure, when any */
+  error?: string;
+}
+
+/**
+ * Embed up to `limit` messages that have text and no vector from the current
+ * model yet, newest first. Only chats the constraints let us read are
+ * indexed. A message that fails is counted and skipped; it's retried on the
+ * next run.
+ */
+export async function embedMessages(config: WuConfig, opts: { chatJid?: string; limit: number }): Promise<EmbedResult> {
+  const status = resolveBackend("embed", config.enrich);
+  if (!status.available) throw new EnrichUnavailableError(status);
+
+  const model = embeddingModel(config.enrich);
+  const visible = constraintSqlPredicate("chat_jid", config, { message: MESSAGE_COLUMNS });
+  const predicate: SqlPredicate = opts.chatJid
+    ? { sql: `(${visible.sql}) AND chat_jid = ?`, params: [...visible.params, opts.chatJid] }
+    : visible;
+
+  const targets = listMessagesToEmbed(model, predicate, opts.limit);
+  const result: EmbedResult = { model, embedded: 0, failed: 0, remaining: 0 };
+  for (let i = 0; i < targets.length; i += API_BATCH) {
+    const batch = targets.slice(i, i + API_BATCH);
+    // A local command runs once per message, so one bad message only fails
+    // itself; an API batch fails as a whole.
+    const groups = config.enrich.embed.backend === "local" ? batch.map((t) => [t]) : [batch];
+    for (const group of groups) {
+      try {
+        const vectors = await embedWithBackend(group.map(embedText), config.enrich);
+        group.forEach((t, j) => saveEmbedding(t.id, model, vectors[j]!));
+        result.embedded += group.length;
+      } catch (err) {
+        logger.debug({ err, ids: group.map((t) => t.id) }, "Embedding failed");
+        result.failed += group.length;
+        result.error ??= (err as Error).message;
+      }
+    }
+  }
+  result.remaining = countMessagesToEmbed(model, predicate);
+  return result;
+}
+
+function cosine(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * b[i]!;
+    na += a[i]! * a[i]!;
+    nb += b[i]! * b[i]!;
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
+
+export interface SemanticResult extends SearchResult {
+  /** Cosine similarity to the query; null when only the text search found it */
+  similarity: number | null;
+  /** Fused score, higher first */
+  score: number;
+}
+
+/**
+ * Hybrid search: the FTS ranking and the nearest embeddings, fused. The query
+ * language applies as usual; its words are what gets embedded, and its
+ * filters and exclusions narrow both sides.
+ */
+export async function semanticSearch(
+  query: string,
+  config: EnrichConfig,
+  opts?: SearchMessagesOpts
+): Promise<Paged<SemanticResult>> {
+  const limit = opts?.limit || 50;
+  const parsed = parseSearchQuery(query);
+  if (parsed.terms.length === 0) {
+    throw new SearchQueryError("semantic search needs words to compare, not only filters and exclusions");
+  }
+  const after = opts?.cursor ? decodeCursor(FUSED_RESULTS, opts.cursor) : undefined;
+
+  const model = embeddingModel(config);
+  const [queryVector] = await embedTexts([parsed.terms.flat().map((t) => t.text).join(" ")], config);
+
+  const textHits = searchMessages(query, { ...opts, limit: POOL, cursor: undefined });
+  const candidates = listEmbeddings(model, [...searchFilters(parsed, opts), ...toLikeConditions({ ...parsed, terms: [] })]);
+  if (candidates.length === 0 && countEmbeddings(model) === 0) {
+    throw new Error("No messages are embedded yet; run `wu messages embed` first");
+  }
+  const nearest = candidates
+    .filter((c) => c.vector.length === queryVector!.length)
+    .map((c) => ({ id: c.id, similarity: cosine(queryVector!, c.vector) }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, POOL);
+
+  const fused = new Map<string, { id: string; score: number; similarity: number | null; hit?: SearchResult }>();
+  textHits.forEach((hit, i) => fused.set(hit.id, { id: hit.id, score: 1 / (RRF_K + i + 1), similarity: null, hit }));
+  nearest.forEach((n, i) => {
+    const entry = fused.get(n.id) ?? { id: n.id, score: 0, similarity: null };
+    entry.score += 1 / (RRF_K + i + 1);
+    entry.similarity = n.similarity;
+    fused.set(n.id, entry);
+  });
+
+  let ranked = [...fused.values()].sort((a, b) => b.score - a.score || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  if (after) {
+    const [score, id] = after as [number, string];
+    ranked = ranked.filter((r) => r.score < score || (r.score === score && r.id > id));
+  }
+  ranked = ranked.slice(0, limit + 1);
+
+  const rows = getMessagesByIds(ranked.map((r) => r.id));
+  const results = ranked.flatMap((r): SemanticResult[] => {
+    const row = rows.get(r.id);
+    if (!row) return [];
+    return [{ ...row, snippet: r.hit?.snippet ?? null, rank: r.hit?.rank ?? 0, similarity: r.similarity, score: r.score }];
+  });
+  return toPage(results, limit, FUSED_RESULTS, (r) => [r.score, r.id]);
+}
@@ -3,21 +3,33 @@ import { readFileSync } from "fs";
 import { extname } from "path";
 import type { WuConfig } from "../config/schema.js";
 import { assertCanSend } from "./constraints.js";
-import { getMessage, deserializeWAMessage } from "./store.js";
+import { audited } from "./audit.js";
+import { reserveQuota, releaseQuota } from "./quotas.js";
+import { getMessage, deserializeWAMessage, reserveSendSlot } from "./store.js";
 import { createChildLogger } from "../config/logger.js";
 
 const logger = createChildLogger("sender");
 
-let lastSendTime = 0;
-
+// The pace is kept in SQLite rather than in memory, so the CLI, the MCP server
+// and the daemon share one send_delay_ms between them.
 async function rateLimit(config: WuConfig): Promise<void> {
-  const delay = config.whatsapp.send_delay_ms;
   const now = Date.now();
-  const elapsed = now - lastSendTime;
-  if (elapsed < delay) {
-    await new Promise((resolve) => setTimeout(resolve, delay - elapsed));
+  const slot = reserveSendSlot(config.whatsapp.send_delay_ms, now);
+  if (slot > now) {
+    await new Promise((resolve) => setTimeout(resolve, slot - now));
+  }
+}
+
+// Messages (not reactions or deletes) count against the send quotas. The slot
+// is taken before waiting for the throttle and given back if the send fails.
+async function withQuota<T>(jid: string, config: WuConfig, send: () => Promise<T>): Promise<T> {
+  const reservation = reserveQuota(jid, config);
+  try {
+    return await send();
+  } catch (err) {
+    releaseQuota(reservation);
+    throw err;
   }
-  lastSendTime = Date.now();
 }
 
 function getQuotedMessage(
@@ -61,17 +73,21 @@ export async function sendText(
   config: WuConfig,
   opts?: { replyTo?: string }
 ): Promise<WAMessage | undefined> {
-  assertCanSend(jid, config);
-  await rateLimit(config);
-
-  const sendOpts: Record<string, unknown> = {};
-  if (opts?.replyTo) {
-    const quoted = getQuotedMessage(opts.replyTo);
-    if (quoted) sendOpts.quoted = quoted;
-  }
-
-  logger.debug({ jid, textLen: text.length }, "Sending text");
-  return sock.sendMessage(jid, { text }, sendOpts);
+  return audited("send_text", jid, { text, replyTo: opts?.replyTo }, async () => {
+    assertCanSend(jid, config);
+    return withQuota(jid, config, async () => {
+      await rateLimit(config);
+
+      const sendOpts: Record<string, unknown> = {};
+      if (opts?.replyTo) {
+        const quoted = getQuotedMessage(opts.replyTo);
+        if (quoted) sendOpts.quoted = quoted;
+      }
+
+      logger.debug({ jid, textLen: text.length }, "Sending text");
+      return sock.sendMessage(jid, { text }, sendOpts);
+    });
+  });
 }
 
 export async function sendMedia(
@@ -81,34 +97,38 @@ export async function sendMedia(
   config: WuConfig,
   opts?: { caption?: string; replyTo?: string }
 ): Promise<WAMessage | undefined> {
-  assertCanSend(jid, config);
-  await rateLimit(config);
-
-  const mime = getMimeType(filePath);
-  const buffer = readFileSync(filePath);
-  const sendOpts: Record<string, unknown> = {};
-
-  if (opts?.replyTo) {
-    const quoted = getQuotedMessage(opts.replyTo);
-    if (quoted) sendOpts.quoted = quoted;
-  }
-
-  let content: Record<string, unknown>;
-
-  if (mime.startsWith("image/")) {
-    content = { image: buffer, caption: opts?.caption, mimetype: mime };
-  } else if (mime.startsWith("video/")) {
-    content = { video: buffer, caption: opts?.caption, mimetype: mime };
-  } else if (mime.startsWith("audio/")) {
-    const isPtt = mime.includes("ogg");
-    content = { audio: buffer, ptt: isPtt, mimetype: mime };
-  } else {
-    const fileName = filePath.split("/").pop() || "file";
-    content = { document: buffer, fileName, mimetype: mime, caption: opts?.caption };
-  }
-
-  logger.debug({ jid, mime, size: buffer.length }, "Sending media");
-  return sock.sendMessage(jid, content as any, sendOpts);
+  return audited("send_media", jid, { filePath, caption: opts?.caption, replyTo: opts?.replyTo }, async () => {
+    assertCanSend(jid, config);
+    return withQuota(jid, config, async () => {
+      await rateLimit(config);
+
+      const mime = getMimeType(filePath);
+      const buffer = readFileSync(filePath);
+      const sendOpts: Record<string, unknown> = {};
+
+      if (opts?.replyTo) {
+        const quoted = getQuotedMessage(opts.replyTo);
+        if (quoted) sendOpts.quoted = quoted;
+      }
+
+      let content: Record<string, unknown>;
+
+      if (mime.startsWith("image/")) {
+        content = { image: buffer, caption: opts?.caption, mimetype: mime };
+      } else if (mime.startsWith("video/")) {
+        content = { video: buffer, caption: opts?.caption, mimetype: mime };
+      } else if (mime.startsWith("audio/")) {
+        const isPtt = mime.includes("ogg");
+        content = { audio: buffer, ptt: isPtt, mimetype: mime };
+      } else {
+        const fileName = filePath.split("/").pop() || "file";
+        content = { document: buffer, fileName, mimetype: mime, caption: opts?.caption };
+      }
+
+      logger.debug({ jid, mime, size: buffer.length }, "Sending media");
+      return sock.sendMessage(jid, content as any, sendOpts);
+    });
+  });
 }
 
 export async function sendReaction(
@@ -118,21 +138,23 @@ export async function sendReaction(
   emoji: string,
   config: WuConfig
 ): Promise<WAMessage | undefined> {
-  assertCanSend(jid, config);
-  await rateLimit(config);
-
-  // Read stored message to get correct fromMe value
-  const stored = getMessage(msgId);
-  const fromMe = stored ? stored.is_from_me === 1 : false;
-
-  const key = {
-    remoteJid: jid,
-    id: msgId,
-    fromMe,
-  };
-
-  logger.debug({ jid, msgId, emoji }, "Sending reaction");
-  return sock.sendMessage(jid, { react: { text: emoji, key } });
+  return audited("react", jid, { msgId, emoji }, async () => {
+    assertCanSend(jid, config);
+    await rateLimit(config);
+
+    // Read stored message to get correct fromMe value
+    const stored = getMessage(msgId);
+    const fromMe = stored ? stored.is_from_me === 1 : false;
+
+    const key = {
+      remoteJid: jid,
+      id: msgId,
+      fromMe,
+    };
+
+    logger.debug({ jid, msgId, emoji }, "Sending reaction");
+    return sock.sendMessage(jid, { react: { text: emoji, key } });
+  });
 }
 
 export async function sendPoll(
@@ -142,13 +164,34 @@ export async function sendPoll(
   options: string[],
   config: WuConfig
 ): Promise<WAMessage | undefined> {
-  assertCanSend(jid, config);
-  await rateLimit(config);
+  return audited("send_poll", jid, { question, options }, async () => {
+    assertCanSend(jid, config);
+    return withQuota(jid, config, async () => {
+      await rateLimit(config);
+
+      logger.debug({ jid, question, options }, "Sending poll");
+      return sock.sendMessage(jid, {
+        poll: { name: question, values: options, selectableCount: 1 },
+      } as any);
+    });
+  });
+}
 
-  logger.debug({ jid, question, options }, "Sending poll");
-  return sock.sendMessage(jid, {
-    poll: { name: question, values: options, selectableCount: 1 },
-  } as any);
+export async function forwardMessage(
+  sock: WASocket,
+  jid: string,
+  msg: WAMessage,
+  config: WuConfig
+): Promise<WAMessage | undefined> {
+  return audited("forward", jid, { msgId: msg.key.id }, async () => {
+    assertCanSend(jid, config);
+    return withQuota(jid, config, async () => {
+      await rateLimit(config);
+
+      logger.debug({ jid, msgId: msg.key.id }, "Forwarding message");
+      return sock.sendMessage(jid, { forward: msg });
+    });
+  });
 }
 
 export async function deleteForEveryone(
@@ -157,21 +200,23 @@ export async function deleteForEveryone(
   msgId: string,
   config: WuConfig
 ): Promise<WAMessage | undefined> {
-  assertCanSend(jid, config);
-  await rateLimit(config);
-
-  // Read stored message to get correct fromMe value
-  const stored = getMessage(msgId);
-  const fromMe = stored ? stored.is_from_me === 1 : false;
-
-  const key = {
-    remoteJid: jid,
-    id: msgId,
-    fromMe,
-  };
-
-  logger.debug({ jid, msgId, fromMe }, "Deleting message");
-  return sock.sendMessage(jid, { delete: key });
+  return audited("delete", jid, { msgId }, async () => {
+    assertCanSend(jid, config);
+    await rateLimit(config);
+
+    // Read stored message to get correct fromMe value
+    const stored = getMessage(msgId);
+    const fromMe = stored ? stored.is_from_me === 1 : false;
+
+    const key = {
+      remoteJid: jid,
+      id: msgId,
+      fromMe,
+    };
+
+    logger.debug({ jid, msgId, fromMe }, "Deleting message");
+    return sock.sendMessage(jid, { delete: key });
+  });
 }
 
 export async function sendTypingIndicator(sock: WASocket, jid: string, composing: boolean): Promise<void> {
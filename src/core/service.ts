@@ -29,7 +29,7 @@
 // explicit `order` so each adapter keeps its historic ordering.
 
 import type { WuConfig } from "../config/schema.js";
-import { shouldCollect, constraintSqlPredicate } from "./constraints.js";
+import { shouldCollect, constraintSqlPredicate, MESSAGE_COLUMNS } from "./constraints.js";
 import {
   listChatsWhere,
   searchChatsWhere,
@@ -37,40 +37,44 @@ import {
   listGroupsWhere,
   listGroupsByLinkedParent,
   listMessages,
+  getMessageContext,
   searchMessages,
   getChatByJid,
   type ChatRow,
-  type MessageRow,
+  type MessageWithReactions,
   type SearchResult,
 } from "./store.js";
+import type { Paged } from "./cursor.js";
+import { semanticSearch, type SemanticResult } from "./semantic.js";
 
 const UNFILTERED = { sql: "1", params: [] as unknown[] };
 
 export function listChatsForConfig(
   config: WuConfig,
-  opts: { limit: number }
-): ChatRow[] {
-  return listChatsWhere(constraintSqlPredicate("jid", config), { limit: opts.limit });
+  opts: { limit: number; cursor?: string }
+): Paged<ChatRow> {
+  return listChatsWhere(constraintSqlPredicate("jid", config), { limit: opts.limit, cursor: opts.cursor });
 }
 
 export function searchChatsForConfig(
   config: WuConfig,
   query: string,
-  opts: { limit: number }
-): ChatRow[] {
+  opts: { limit: number; cursor?: string }
+): Paged<ChatRow> {
   return searchChatsWhere(query, constraintSqlPredicate("jid", config), {
     limit: opts.limit,
+    cursor: opts.cursor,
   });
 }
 
 export function listDmsForConfig(
   config: WuConfig,
-  opts: { limit: number; includeBlocked?: boolean }
-): ChatRow[] {
+  opts: { limit: number; includeBlocked?: boolean; cursor?: string }
+): Paged<ChatRow> {
   const predicate = opts.includeBlocked
     ? UNFILTERED
     : constraintSqlPredicate("jid", config);
-  return listDmsWhere(predicate, { limit: opts.limit });
+  return listDmsWhere(predicate, { limit: opts.limit, cursor: opts.cursor });
 }
 
 // `wu dms search` - like searchChatsForConfig but restricted to type='dm'.
@@ -80,24 +84,24 @@ export function listDmsForConfig(
 export function searchDmsForConfig(
   config: WuConfig,
   query: string,
-  opts: { limit: number }
-): ChatRow[] {
+  opts: { limit: number; cursor?: string }
+): Paged<ChatRow> {
   const constraint = constraintSqlPredicate("jid", config);
   const predicate = {
     sql: `type = 'dm' AND (${constraint.sql})`,
     params: constraint.params,
   };
-  return searchChatsWhere(query, predicate, { limit: opts.limit });
+  return searchChatsWhere(query, predicate, { limit: opts.limit, cursor: opts.cursor });
 }
 
 export function listGroupsForConfig(
   config: WuConfig,
-  opts: { limit: number; allowedOnly?: boolean; order?: "recency" | "name" }
-): ChatRow[] {
+  opts: { limit: number; allowedOnly?: boolean; order?: "recency" | "name"; cursor?: string }
+): Paged<ChatRow> {
   const predicate = opts.allowedOnly
     ? constraintSqlPredicate("jid", config)
     : UNFILTERED;
-  return listGroupsWhere(predicate, { limit: opts.limit, order: opts.order });
+  return listGroupsWhere(predicate, { limit: opts.limit, order: opts.order, cursor: opts.cursor });
 }
 
 // Single-group lookup by jid - replaces the old `listChats({limit:10000}).find(...)`
@@ -109,7 +113,7 @@ export function getChat(jid: string): ChatRow | undefined {
 }
 
 export interface CommunitiesForConfig {
-  parents: ChatRow[];
+  parents: Paged<ChatRow>;
   childrenByParent: Map<string, ChatRow[]>;
 }
 
@@ -118,12 +122,12 @@ export interface CommunitiesForConfig {
 // that matches existing wu_communities_list / `wu communities list` behavior.
 export function listCommunitiesForConfig(
   config: WuConfig,
-  opts: { limit: number; withSubgroups?: boolean; order?: "recency" | "name" }
+  opts: { limit: number; withSubgroups?: boolean; order?: "recency" | "name"; cursor?: string }
 ): CommunitiesForConfig {
   void config; // kept for signature symmetry with the other *ForConfig functions
   const parents = listGroupsWhere(
     { sql: "is_community = 1", params: [] },
-    { limit: opts.limit, order: opts.order }
+    { limit: opts.limit, order: opts.order, cursor: opts.cursor }
   );
   const childrenByParent = new Map<string, ChatRow[]>();
   if (opts.withSubgroups && parents.length > 0) {
@@ -143,13 +147,30 @@ export function listCommunitiesForConfig(
 
 // Returns null when the chat is blocked by constraints - callers render
 // their own "blocked" message (MCP returns a JSON error, the CLI prints a
-// `wu config allow` hint).
+// `wu config allow` hint). The chat's sender and type filters hide rows
+// stored before they were set, as search does.
 export function listMessagesForConfig(
   config: WuConfig,
-  opts: { chatJid: string; limit?: number; before?: number; after?: number }
-): MessageRow[] | null {
+  opts: { chatJid: string; limit?: number; before?: number; after?: number; cursor?: string }
+): Paged<MessageWithReactions> | null {
   if (!shouldCollect(opts.chatJid, config)) return null;
-  return listMessages(opts);
+  return listMessages({
+    ...opts,
+    visiblePredicate: constraintSqlPredicate("chat_jid", config, { message: MESSAGE_COLUMNS }),
+  });
+}
+
+// Null when the message isn't stored or the constraints hide it - either way
+// the caller reports it as not found.
+export function getMessageContextForConfig(
+  config: WuConfig,
+  id: string,
+  opts: { beforeCount?: number; afterCount?: number }
+): ReturnType<typeof getMessageContext> {
+  return getMessageContext(id, {
+    ...opts,
+    visiblePredicate: constraintSqlPredicate("chat_jid", config, { message: MESSAGE_COLUMNS }),
+  });
 }
 
 export function searchMessagesForConfig(
@@ -161,10 +182,31 @@ export function searchMessagesForConfig(
     limit: number;
     after?: number;
     before?: number;
+    cursor?: string;
   }
-): SearchResult[] {
+): Paged<SearchResult> {
   return searchMessages(query, {
     ...opts,
-    visiblePredicate: constraintSqlPredicate("chat_jid", config),
+    visiblePredicate: constraintSqlPredicate("chat_jid", config, { message: MESSAGE_COLUMNS }),
+  });
+}
+
+// `--semantic`: the same filters and constraints, ranked by the fusion of FTS
+// and embedding similarity (see core/semantic.ts).
+export function semanticSearchForConfig(
+  config: WuConfig,
+  query: string,
+  opts: {
+    chatJid?: string;
+    senderJid?: string;
+    limit: number;
+    after?: number;
+    before?: number;
+    cursor?: string;
+  }
+): Promise<Paged<SemanticResult>> {
+  return semanticSearch(query, config.enrich, {
+    ...opts,
+    visiblePredicate: constraintSqlPredicate("chat_jid", config, { message: MESSAGE_COLUMNS }),
   });
 }
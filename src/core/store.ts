@@ -1,5 +1,7 @@
 import type Database from "better-sqlite3";
 import { getDb, prepareCached } from "../db/database.js";
+import { parseSearchQuery, toFtsMatch, toLikeConditions, type SearchQuery } from "./search-query.js";
+import { afterCursor, decodeCursor, orderBySql, toPage, type Ordering, type Paged } from "./cursor.js";
 
 // --- Type definitions ---
 
@@ -25,9 +27,37 @@ export interface MessageRow {
   is_from_me: number;
   timestamp: number;
   raw: string | null;
+  edited_at: number | null;
   created_at: number;
 }
 
+// Upsert callers never set edited_at - only applyMessageEdit does.
+export type MessageUpsert = Omit<MessageRow, "created_at" | "edited_at">;
+
+export interface MessageRevisionRow {
+  message_id: string;
+  body: string | null;
+  edited_at: number;
+}
+
+export interface ReactionRow {
+  message_id: string;
+  chat_jid: string;
+  reactor_jid: string;
+  emoji: string;
+  is_from_me: number;
+  timestamp: number;
+}
+
+/** One entry per distinct emoji on a message, in order of first use. */
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  reactors: string[];
+}
+
+export type MessageWithReactions = MessageRow & { reactions: ReactionSummary[] };
+
 export interface SearchResult extends MessageRow {
   snippet: string | null;
   rank: number;
@@ -47,15 +77,32 @@ export interface ChatRow {
   updated_at: number;
 }
 
-export interface ContactRow {
+/** What `wu contacts refresh` fetches; NULL where hidden or not a business. */
+export interface ContactProfile {
+  is_business: number;
+  about: string | null;
+  about_set_at: number | null;
+  picture_url: string | null;
+  picture_path: string | null;
+  business_category: string | null;
+  business_description: string | null;
+  business_website: string | null;
+  business_email: string | null;
+  business_address: string | null;
+}
+
+export interface ContactRow extends ContactProfile {
   jid: string;
   phone: string | null;
   push_name: string | null;
   saved_name: string | null;
-  is_business: number;
   updated_at: number;
+  profile_fetched_at: number | null;
 }
 
+// A null leaves the stored value as it is.
+export type ContactUpsert = Pick<ContactRow, "jid" | "phone" | "push_name" | "saved_name"> & { is_business: number | null };
+
 export interface GroupParticipantRow {
   group_jid: string;
   participant_jid: string;
@@ -162,7 +209,7 @@ const MESSAGE_UPSERT_SQL = `
   INSERT INTO messages (id, chat_jid, sender_jid, sender_name, body, type, media_mime, media_path, media_size, media_direct_path, media_key, media_file_sha256, media_file_enc_sha256, media_file_length, quoted_id, location_lat, location_lon, location_name, is_from_me, timestamp, raw)
   VALUES (@id, @chat_jid, @sender_jid, @sender_name, @body, @type, @media_mime, @media_path, @media_size, @media_direct_path, @media_key, @media_file_sha256, @media_file_enc_sha256, @media_file_length, @quoted_id, @location_lat, @location_lon, @location_name, @is_from_me, @timestamp, @raw)
   ON CONFLICT(id) DO UPDATE SET
-    body = COALESCE(excluded.body, messages.body),
+    body = CASE WHEN messages.edited_at IS NOT NULL THEN messages.body ELSE COALESCE(excluded.body, messages.body) END,
     sender_name = COALESCE(excluded.sender_name, messages.sender_name),
     media_path = COALESCE(excluded.media_path, messages.media_path),
     media_direct_path = COALESCE(excluded.media_direct_path, messages.media_direct_path),
@@ -173,7 +220,7 @@ const MESSAGE_UPSERT_SQL = `
     raw = COALESCE(excluded.raw, messages.raw)
 `;
 
-export function upsertMessage(row: Omit<MessageRow, "created_at">): void {
+export function upsertMessage(row: MessageUpsert): void {
   const stmt = prepareCached(MESSAGE_UPSERT_SQL);
   withFtsRecovery(() => stmt.run(row));
 }
@@ -214,21 +261,70 @@ export function upsertChat(row: ChatUpsert): void {
   prepareCached(CHAT_UPSERT_SQL).run(params);
 }
 
+/** upsertChat keeps a stored description when given null; this can clear it. */
+export function setChatDescription(jid: string, description: string | null): void {
+  prepareCached("UPDATE chats SET description = ?, updated_at = unixepoch() WHERE jid = ?").run(description, jid);
+}
+
+/** Point a group at a new community, or none; only if it's still linked to `from`. */
+export function setLinkedParent(jid: string, from: string, to: string | null): void {
+  prepareCached("UPDATE chats SET linked_parent = ?, updated_at = unixepoch() WHERE jid = ? AND linked_parent = ?").run(
+    to,
+    jid,
+    from
+  );
+}
+
 const CONTACT_UPSERT_SQL = `
   INSERT INTO contacts (jid, phone, push_name, saved_name, is_business)
-  VALUES (@jid, @phone, @push_name, @saved_name, @is_business)
+  VALUES (@jid, @phone, @push_name, @saved_name, COALESCE(@is_business, 0))
   ON CONFLICT(jid) DO UPDATE SET
     phone = COALESCE(excluded.phone, contacts.phone),
     push_name = COALESCE(excluded.push_name, contacts.push_name),
     saved_name = COALESCE(excluded.saved_name, contacts.saved_name),
-    is_business = COALESCE(excluded.is_business, contacts.is_business),
+    is_business = COALESCE(@is_business, contacts.is_business),
     updated_at = unixepoch()
 `;
 
-export function upsertContact(row: Omit<ContactRow, "updated_at">): void {
+export function upsertContact(row: ContactUpsert): void {
   prepareCached(CONTACT_UPSERT_SQL).run(row);
 }
 
+// A fetched profile replaces the previous one outright: a cleared about or a
+// hidden picture must not leave the old value behind. Only a saved picture
+// file survives a refresh that didn't download one, as long as there still
+// is a picture.
+const CONTACT_PROFILE_SQL = `
+  INSERT INTO contacts (jid, phone, is_business, about, about_set_at, picture_url, picture_path,
+    business_category, business_description, business_website, business_email, business_address, profile_fetched_at)
+  VALUES (@jid, @phone, @is_business, @about, @about_set_at, @picture_url, @picture_path,
+    @business_category, @business_description, @business_website, @business_email, @business_address, @profile_fetched_at)
+  ON CONFLICT(jid) DO UPDATE SET
+    phone = COALESCE(contacts.phone, excluded.phone),
+    is_business = excluded.is_business,
+    about = excluded.about,
+    about_set_at = excluded.about_set_at,
+    picture_url = excluded.picture_url,
+    picture_path = CASE WHEN excluded.picture_url IS NULL THEN NULL
+      ELSE COALESCE(excluded.picture_path, contacts.picture_path) END,
+    business_category = excluded.business_category,
+    business_description = excluded.business_description,
+    business_website = excluded.business_website,
+    business_email = excluded.business_email,
+    business_address = excluded.business_address,
+    profile_fetched_at = excluded.profile_fetched_at,
+    updated_at = unixepoch()
+`;
+
+export function updateContactProfile(jid: string, profile: ContactProfile, fetchedAt: number): void {
+  prepareCached(CONTACT_PROFILE_SQL).run({
+    jid,
+    phone: jid.endsWith("@s.whatsapp.net") ? jid.split("@")[0] : null,
+    ...profile,
+    profile_fetched_at: fetchedAt,
+  });
+}
+
 export function upsertGroupParticipants(
   groupJid: string,
   participants: Array<{ jid: string; isAdmin: boolean; isSuperAdmin: boolean }>
@@ -247,9 +343,792 @@ export function upsertGroupParticipants(
   tx();
 }
 
+export interface CommunityMemberRow {
+  jid: string;
+  /** The groups (among those asked about) this member is in */
+  groups: string[];
+  /** Admin in at least one of them */
+  is_admin: boolean;
+}
+
+/** The union of several groups' cached participants, each listed once. */
+export function listCommunityMembers(groupJids: string[]): CommunityMemberRow[] {
+  if (groupJids.length === 0) return [];
+  const placeholders = groupJids.map(() => "?").join(",");
+  const rows = getDb()
+    .prepare(
+      `SELECT participant_jid AS jid, json_group_array(group_jid) AS groups, MAX(is_admin) AS is_admin
+       FROM group_participants WHERE group_jid IN (${placeholders})
+       GROUP BY participant_jid ORDER BY participant_jid`
+    )
+    .all(...groupJids) as Array<{ jid: string; groups: string; is_admin: number }>;
+  return rows.map((r) => ({ jid: r.jid, groups: (JSON.parse(r.groups) as string[]).sort(), is_admin: r.is_admin === 1 }));
+}
+
+// --- Group membership history ---
+//
+// A live change reaches us twice: as a participant update (no timestamp of
+// its own, so it's stamped on arrival) and as the system message recording
+// it. Whichever lands second within a minute is merged into the first, the
+// message's timestamp and id winning.
+
+export interface MembershipEventRow {
+  id: number;
+  group_jid: string;
+  participant_jid: string;
+  /** join, leave, remove, promote or demote */
+  action: string;
+  actor_jid: string | null;
+  at: number;
+  message_id: string | null;
+  recorded_at: number;
+}
+
+export type MembershipEventInsert = Pick<
+  MembershipEventRow,
+  "group_jid" | "participant_jid" | "action" | "actor_jid" | "at" | "message_id"
+>;
+
+const MEMBERSHIP_MERGE_SECONDS = 60;
+
+export function recordMembershipEvent(ev: MembershipEventInsert): void {
+  getDb().transaction(() => {
+    const recent = prepareCached(`
+      SELECT id, message_id FROM group_membership_events
+      WHERE group_jid = ? AND participant_jid = ? AND action = ? AND recorded_at >= unixepoch() - ?
+      ORDER BY id DESC LIMIT 1
+    `).get(ev.group_jid, ev.participant_jid, ev.action, MEMBERSHIP_MERGE_SECONDS) as
+      | { id: number; message_id: string | null }
+      | undefined;
+
+    if (ev.message_id === null) {
+      if (recent) return;
+    } else if (recent && recent.message_id === null) {
+      prepareCached(`
+        UPDATE group_membership_events
+        SET at = ?, message_id = ?, actor_jid = COALESCE(actor_jid, ?)
+        WHERE id = ?
+      `).run(ev.at, ev.message_id, ev.actor_jid, recent.id);
+      return;
+    }
+    prepareCached(`
+      INSERT OR IGNORE INTO group_membership_events (group_jid, participant_jid, action, actor_jid, at, message_id)
+      VALUES (@group_jid, @participant_jid, @action, @actor_jid, @at, @message_id)
+    `).run(ev);
+  })();
+}
+
+/** A group's membership changes, newest first. */
+export function listMembershipEvents(
+  groupJid: string,
+  opts?: { since?: number; limit?: number }
+): MembershipEventRow[] {
+  return prepareCached(`
+    SELECT * FROM group_membership_events
+    WHERE group_jid = ? AND at >= ?
+    ORDER BY at DESC, id DESC LIMIT ?
+  `).all(groupJid, opts?.since ?? 0, opts?.limit ?? 100) as MembershipEventRow[];
+}
+
+export interface MembershipWeek {
+  /** Monday the week starts on (UTC), YYYY-MM-DD */
+  week: string;
+  joins: number;
+  leaves: number;
+  net: number;
+}
+
+/** Joins and leaves (removals included) per week, oldest first. */
+export function membershipByWeek(groupJid: string, opts?: { since?: number }): MembershipWeek[] {
+  return prepareCached(`
+    SELECT date(at, 'unixepoch', 'weekday 0', '-6 days') AS week,
+           SUM(action = 'join') AS joins,
+           SUM(action IN ('leave', 'remove')) AS leaves,
+           SUM(action = 'join') - SUM(action IN ('leave', 'remove')) AS net
+    FROM group_membership_events
+    WHERE group_jid = ? AND at >= ? AND action IN ('join', 'leave', 'remove')
+    GROUP BY week ORDER BY week
+  `).all(groupJid, opts?.since ?? 0) as MembershipWeek[];
+}
+
+// --- Edit history ---
+//
+// The first edit of a message snapshots its original body as the oldest
+// revision, so the chain is complete without storing every message twice.
+// messages.body then mirrors the newest revision (the FTS update trigger
+// reindexes it) and edited_at marks the row as edited. Edits can replay out
+// of order on history sync, hence "newest by edited_at" rather than "last
+// applied". A re-delivered upsert of the original must not clobber the
+// edited body - see the CASE in MESSAGE_UPSERT_SQL.
+
+/** Returns false when the edited message isn't stored, so there is nothing to attach to. */
+export function applyMessageEdit(
+  messageId: string,
+  body: string | null,
+  editedAt: number
+): boolean {
+  const db = getDb();
+  const tx = db.transaction((): boolean => {
+    const target = prepareCached("SELECT body, timestamp, edited_at FROM messages WHERE id = ?").get(
+      messageId
+    ) as { body: string | null; timestamp: number; edited_at: number | null } | undefined;
+    if (!target) return false;
+    const insert = prepareCached(
+      "INSERT OR IGNORE INTO message_revisions (message_id, body, edited_at) VALUES (?, ?, ?)"
+    );
+    if (target.edited_at == null) insert.run(messageId, target.body, target.timestamp);
+    insert.run(messageId, body, editedAt);
+    const newest = prepareCached(
+      "SELECT body, edited_at FROM message_revisions WHERE message_id = ? ORDER BY edited_at DESC, id DESC LIMIT 1"
+    ).get(messageId) as { body: string | null; edited_at: number };
+    prepareCached("UPDATE messages SET body = ?, edited_at = ? WHERE id = ?").run(
+      newest.body,
+      newest.edited_at,
+      messageId
+    );
+    return true;
+  });
+  return withFtsRecovery(() => tx());
+}
+
+/** Oldest first; empty for messages that were never edited. */
+export function getMessageRevisions(messageId: string): MessageRevisionRow[] {
+  return prepareCached(
+    "SELECT message_id, body, edited_at FROM message_revisions WHERE message_id = ? ORDER BY edited_at ASC, id ASC"
+  ).all(messageId) as MessageRevisionRow[];
+}
+
+export function getRevisionsByMessageIds(ids: string[]): Map<string, MessageRevisionRow[]> {
+  const out = new Map<string, MessageRevisionRow[]>();
+  const unique = [...new Set(ids.filter((id): id is string => !!id))];
+  if (unique.length === 0) return out;
+  const db = getDb();
+  const CHUNK = 500;
+  for (let i = 0; i < unique.length; i += CHUNK) {
+    const chunk = unique.slice(i, i + CHUNK);
+    const placeholders = chunk.map(() => "?").join(", ");
+    const rows = db
+      .prepare(
+        `SELECT message_id, body, edited_at FROM message_revisions WHERE message_id IN (${placeholders}) ORDER BY edited_at ASC, id ASC`
+      )
+      .all(...chunk) as MessageRevisionRow[];
+    for (const r of rows) {
+      const list = out.get(r.message_id);
+      if (list) list.push(r);
+      else out.set(r.message_id, [r]);
+    }
+  }
+  return out;
+}
+
+// --- Reactions ---
+//
+// One row per (message, reactor) holding their current emoji. Reactions can
+// replay out of order (history sync, the same reaction via both
+// messages.upsert and messages.reaction), so an older event never overwrites
+// or removes a newer one.
+
+// Own reactions and poll votes arrive with or without our participant jid
+// depending on the path; keying them all as "me" keeps them on a single row.
+export const SELF_KEY = "me";
+
+/** An empty emoji removes the reactor's reaction. */
+export function applyReaction(r: Omit<ReactionRow, "emoji"> & { emoji: string | null }): void {
+  if (!r.emoji) {
+    prepareCached(
+      "DELETE FROM reactions WHERE message_id = ? AND reactor_jid = ? AND timestamp <= ?"
+    ).run(r.message_id, r.reactor_jid, r.timestamp);
+    return;
+  }
+  prepareCached(`
+    INSERT INTO reactions (message_id, chat_jid, reactor_jid, emoji, is_from_me, timestamp)
+    VALUES (@message_id, @chat_jid, @reactor_jid, @emoji, @is_from_me, @timestamp)
+    ON CONFLICT(message_id, reactor_jid) DO UPDATE SET
+      emoji = excluded.emoji,
+      timestamp = excluded.timestamp
+    WHERE excluded.timestamp >= reactions.timestamp
+  `).run(r);
+}
+
+export function getReactionSummaries(ids: string[]): Map<string, ReactionSummary[]> {
+  const out = new Map<string, ReactionSummary[]>();
+  const unique = [...new Set(ids.filter((id): id is string => !!id))];
+  if (unique.length === 0) return out;
+  const db = getDb();
+  const CHUNK = 500;
+  for (let i = 0; i < unique.length; i += CHUNK) {
+    const chunk = unique.slice(i, i + CHUNK);
+    const placeholders = chunk.map(() => "?").join(", ");
+    const rows = db
+      .prepare(
+        `SELECT message_id, emoji, reactor_jid FROM reactions WHERE message_id IN (${placeholders}) ORDER BY timestamp ASC`
+      )
+      .all(...chunk) as Array<Pick<ReactionRow, "message_id" | "emoji" | "reactor_jid">>;
+    for (const r of rows) {
+      let list = out.get(r.message_id);
+      if (!list) out.set(r.message_id, (list = []));
+      const entry = list.find((e) => e.emoji === r.emoji);
+      if (entry) {
+        entry.count++;
+        entry.reactors.push(r.reactor_jid);
+      } else {
+        list.push({ emoji: r.emoji, count: 1, reactors: [r.reactor_jid] });
+      }
+    }
+  }
+  return out;
+}
+
+export function withReactions<T extends MessageRow>(rows: T[]): Array<T & { reactions: ReactionSummary[] }> {
+  const summaries = getReactionSummaries(rows.map((r) => r.id));
+  return rows.map((r) => ({ ...r, reactions: summaries.get(r.id) ?? [] }));
+}
+
+// --- Poll votes ---
+//
+// Latest decrypted selection per (poll, voter), same replay rules as
+// reactions: an older vote never overwrites a newer one, and an empty
+// selection (vote withdrawn) removes the row.
+
+export interface PollVoteRow {
+  poll_id: string;
+  chat_jid: string;
+  voter_jid: string;
+  /** JSON array of selected option names */
+  options: string;
+  timestamp: number;
+}
+
+export function applyPollVote(v: Omit<PollVoteRow, "options"> & { options: string[] }): void {
+  if (v.options.length === 0) {
+    prepareCached(
+      "DELETE FROM poll_votes WHERE poll_id = ? AND voter_jid = ? AND timestamp <= ?"
+    ).run(v.poll_id, v.voter_jid, v.timestamp);
+    return;
+  }
+  prepareCached(`
+    INSERT INTO poll_votes (poll_id, chat_jid, voter_jid, options, timestamp)
+    VALUES (@poll_id, @chat_jid, @voter_jid, @options, @timestamp)
+    ON CONFLICT(poll_id, voter_jid) DO UPDATE SET
+      options = excluded.options,
+      timestamp = excluded.timestamp
+    WHERE excluded.timestamp >= poll_votes.timestamp
+  `).run({ ...v, options: JSON.stringify(v.options) });
+}
+
+export function getPollVotes(pollId: string): PollVoteRow[] {
+  return prepareCached(
+    "SELECT * FROM poll_votes WHERE poll_id = ? ORDER BY timestamp ASC"
+  ).all(pollId) as PollVoteRow[];
+}
+
+// --- Receipts ---
+
+export interface ReceiptRow {
+  message_id: string;
+  chat_jid: string;
+  recipient_jid: string;
+  delivered_at: number | null;
+  read_at: number | null;
+  played_at: number | null;
+}
+
+// First sighting wins per column: WhatsApp re-sends receipts, and a later
+// duplicate must not push a read time forward.
+export function upsertReceipt(
+  row: Pick<ReceiptRow, "message_id" | "chat_jid" | "recipient_jid"> &
+    Partial<Pick<ReceiptRow, "delivered_at" | "read_at" | "played_at">>
+): void {
+  prepareCached(`
+    INSERT INTO message_receipts (message_id, chat_jid, recipient_jid, delivered_at, read_at, played_at)
+    VALUES (@message_id, @chat_jid, @recipient_jid, @delivered_at, @read_at, @played_at)
+    ON CONFLICT(message_id, recipient_jid) DO UPDATE SET
+      delivered_at = COALESCE(message_receipts.delivered_at, excluded.delivered_at),
+      read_at = COALESCE(message_receipts.read_at, excluded.read_at),
+      played_at = COALESCE(message_receipts.played_at, excluded.played_at)
+  `).run({ delivered_at: null, read_at: null, played_at: null, ...row });
+}
+
+export function getReceipts(messageId: string): ReceiptRow[] {
+  return prepareCached(
+    "SELECT * FROM message_receipts WHERE message_id = ? ORDER BY COALESCE(read_at, delivered_at, played_at) ASC"
+  ).all(messageId) as ReceiptRow[];
+}
+
+// --- Scheduled messages ---
+
+export type ScheduledKind = "text" | "media" | "poll";
+export type ScheduledStatus = "pending" | "sent" | "failed" | "cancelled";
+
+export interface ScheduledMessageRow {
+  id: number;
+  chat_jid: string;
+  kind: ScheduledKind;
+  body: string | null;
+  media_path: string | null;
+  /** JSON array of option names, poll rows only */
+  poll_options: string | null;
+  send_at: number;
+  recurrence: string | null;
+  status: ScheduledStatus;
+  run_count: number;
+  last_run_at: number | null;
+  last_error: string | null;
+  last_message_id: string | null;
+  /** Failed deliveries of the current run, reset once it is done */
+  attempts: number;
+  created_at: number;
+}
+
+export type ScheduledMessageInsert = Pick<
+  ScheduledMessageRow,
+  "chat_jid" | "kind" | "body" | "media_path" | "poll_options" | "send_at" | "recurrence"
+>;
+
+export function insertScheduledMessage(row: ScheduledMessageInsert): number {
+  const result = prepareCached(`
+    INSERT INTO scheduled_messages (chat_jid, kind, body, media_path, poll_options, send_at, recurrence)
+    VALUES (@chat_jid, @kind, @body, @media_path, @poll_options, @send_at, @recurrence)
+  `).run(row);
+  return Number(result.lastInsertRowid);
+}
+
+export function getScheduledMessage(id: number): ScheduledMessageRow | undefined {
+  return prepareCached("SELECT * FROM scheduled_messages WHERE id = ?").get(id) as
+    | ScheduledMessageRow
+    | undefined;
+}
+
+export function listScheduledMessages(opts?: { all?: boolean }): ScheduledMessageRow[] {
+  const where = opts?.all ? "" : "WHERE status = 'pending'";
+  return getDb()
+    .prepare(`SELECT * FROM scheduled_messages ${where} ORDER BY send_at ASC, id ASC`)
+    .all() as ScheduledMessageRow[];
+}
+
+export function listDueScheduledMessages(now: number): ScheduledMessageRow[] {
+  return prepareCached(
+    "SELECT * FROM scheduled_messages WHERE status = 'pending' AND send_at <= ? ORDER BY send_at ASC, id ASC"
+  ).all(now) as ScheduledMessageRow[];
+}
+
+/** Only pending rows can be cancelled; returns false otherwise. */
+export function cancelScheduledMessage(id: number): boolean {
+  const result = prepareCached(
+    "UPDATE scheduled_messages SET status = 'cancelled' WHERE id = ? AND status = 'pending'"
+  ).run(id);
+  return result.changes > 0;
+}
+
+/**
+ * Record one delivery attempt. `nextSendAt` keeps a recurring row pending for
+ * its next occurrence; without it the row settles as sent or failed.
+ */
+export function recordScheduledRun(
+  id: number,
+  run: { at: number; messageId?: string | null; error?: string | null; nextSendAt?: number | null }
+): void {
+  const status: ScheduledStatus = run.nextSendAt ? "pending" : run.error ? "failed" : "sent";
+  prepareCached(`
+    UPDATE scheduled_messages SET
+      status = @status,
+      send_at = COALESCE(@next_send_at, send_at),
+      run_count = run_count + 1,
+      last_run_at = @at,
+      last_error = @error,
+      last_message_id = COALESCE(@message_id, last_message_id),
+      attempts = 0
+    WHERE id = @id
+  `).run({
+    id,
+    status,
+    next_send_at: run.nextSendAt ?? null,
+    at: run.at,
+    error: run.error ?? null,
+    message_id: run.messageId ?? null,
+  });
+}
+
+/**
+ * Keep a pending row for another try at `retryAt`. `countAttempt` is false
+ * when a full quota held it back rather than the delivery failing.
+ */
+export function retryScheduledMessage(
+  id: number,
+  retry: { at: number; error: string; retryAt: number; countAttempt: boolean }
+): void {
+  prepareCached(`
+    UPDATE scheduled_messages SET
+      send_at = @retry_at,
+      last_run_at = @at,
+      last_error = @error,
+      attempts = attempts + @inc
+    WHERE id = @id
+  `).run({ id, retry_at: retry.retryAt, at: retry.at, error: retry.error, inc: retry.countAttempt ? 1 : 0 });
+}
+
+// --- Outbox ---
+
+export type OutboxStatus = "queued" | "sent" | "failed";
+
+export interface OutboxRow {
+  id: number;
+  chat_jid: string;
+  kind: ScheduledKind;
+  body: string | null;
+  media_path: string | null;
+  /** JSON array of option names, poll rows only */
+  poll_options: string | null;
+  reply_to: string | null;
+  status: OutboxStatus;
+  attempts: number;
+  next_attempt_at: number;
+  last_error: string | null;
+  message_id: string | null;
+  sent_at: number | null;
+  created_at: number;
+}
+
+export type OutboxInsert = Pick<
+  OutboxRow,
+  "chat_jid" | "kind" | "body" | "media_path" | "poll_options" | "reply_to" | "next_attempt_at"
+>;
+
+export function insertOutboxMessage(row: OutboxInsert): number {
+  const result = prepareCached(`
+    INSERT INTO outbox (chat_jid, kind, body, media_path, poll_options, reply_to, next_attempt_at)
+    VALUES (@chat_jid, @kind, @body, @media_path, @poll_options, @reply_to, @next_attempt_at)
+  `).run(row);
+  return Number(result.lastInsertRowid);
+}
+
+export function getOutboxMessage(id: number): OutboxRow | undefined {
+  return prepareCached("SELECT * FROM outbox WHERE id = ?").get(id) as OutboxRow | undefined;
+}
+
+export function listOutboxMessages(opts?: { status?: OutboxStatus; limit?: number }): OutboxRow[] {
+  const where = opts?.status ? "WHERE status = ?" : "";
+  const params: unknown[] = opts?.status ? [opts.status] : [];
+  params.push(opts?.limit ?? 50);
+  return getDb()
+    .prepare(`SELECT * FROM outbox ${where} ORDER BY id DESC LIMIT ?`)
+    .all(...params) as OutboxRow[];
+}
+
+export function listQueuedOutboxMessages(): OutboxRow[] {
+  return prepareCached("SELECT * FROM outbox WHERE status = 'queued' ORDER BY id ASC").all() as OutboxRow[];
+}
+
+export function markOutboxSent(id: number, messageId: string | null, sentAt: number): void {
+  prepareCached(`
+    UPDATE outbox SET status = 'sent', attempts = attempts + 1, message_id = ?, sent_at = ?, last_error = NULL
+    WHERE id = ?
+  `).run(messageId, sentAt, id);
+}
+
+/**
+ * Record a failed attempt. With `retryAt` the row stays queued until then;
+ * without it the row settles as failed.
+ */
+export function markOutboxFailed(id: number, error: string, retryAt?: number): void {
+  prepareCached(`
+    UPDATE outbox SET
+      status = @status,
+      attempts = attempts + 1,
+      last_error = @error,
+      next_attempt_at = COALESCE(@retry_at, next_attempt_at)
+    WHERE id = @id
+  `).run({ id, error, status: retryAt !== undefined ? "queued" : "failed", retry_at: retryAt ?? null });
+}
+
+/** Hold a queued row until `retryAt` without counting an attempt (a quota is full). */
+export function deferOutboxMessage(id: number, error: string, retryAt: number): void {
+  prepareCached(`
+    UPDATE outbox SET last_error = ?, next_attempt_at = ? WHERE id = ? AND status = 'queued'
+  `).run(error, retryAt, id);
+}
+
+/** Put a failed or queued row back at the front of the line; false if sent or missing. */
+export function requeueOutboxMessage(id: number, now: number): boolean {
+  const result = prepareCached(`
+    UPDATE outbox SET status = 'queued', attempts = 0, next_attempt_at = ?, last_error = NULL
+    WHERE id = ? AND status != 'sent'
+  `).run(now, id);
+  return result.changes > 0;
+}
+
+export function requeueFailedOutboxMessages(now: number): number {
+  return prepareCached(`
+    UPDATE outbox SET status = 'queued', attempts = 0, next_attempt_at = ?, last_error = NULL
+    WHERE status = 'failed'
+  `).run(now).changes;
+}
+
+/** Drop a row that hasn't been sent; false if sent or missing. */
+export function deleteOutboxMessage(id: number): boolean {
+  return prepareCached("DELETE FROM outbox WHERE id = ? AND status != 'sent'").run(id).changes > 0;
+}
+
+/**
+ * Claim the next send slot in the shared throttle and return when (epoch ms)
+ * the caller may send. Slots are `delayMs` apart across every process using
+ * this database, so concurrent CLI, MCP and daemon sends queue up behind each
+ * other instead of each keeping its own pace.
+ */
+export function reserveSendSlot(delayMs: number, nowMs: number): number {
+  const db = getDb();
+  const claim = db.transaction(() => {
+    const row = prepareCached("SELECT next_slot_ms FROM send_throttle WHERE id = 1").get() as
+      | { next_slot_ms: number }
+      | undefined;
+    const slot = Math.max(nowMs, row?.next_slot_ms ?? 0);
+    prepareCached(`
+      INSERT INTO send_throttle (id, next_slot_ms) VALUES (1, ?)
+      ON CONFLICT(id) DO UPDATE SET next_slot_ms = excluded.next_slot_ms
+    `).run(slot + delayMs);
+    return slot;
+  });
+  return claim.immediate();
+}
+
+// --- Webhook dead letters ---
+
+export interface WebhookDeadLetterRow {
+  id: number;
+  hook: string;
+  url: string;
+  message_id: string | null;
+  /** The JSON body exactly as it was POSTed */
+  payload: string;
+  attempts: number;
+  last_status: number | null;
+  last_error: string | null;
+  failed_at: number;
+}
+
+export function insertWebhookDeadLetter(row: Omit<WebhookDeadLetterRow, "id" | "failed_at">): number {
+  const result = prepareCached(`
+    INSERT INTO webhook_dead_letters (hook, url, message_id, payload, attempts, last_status, last_error)
+    VALUES (@hook, @url, @message_id, @payload, @attempts, @last_status, @last_error)
+  `).run(row);
+  return Number(result.lastInsertRowid);
+}
+
+export function getWebhookDeadLetter(id: number): WebhookDeadLetterRow | undefined {
+  return prepareCached("SELECT * FROM webhook_dead_letters WHERE id = ?").get(id) as
+    | WebhookDeadLetterRow
+    | undefined;
+}
+
+export function listWebhookDeadLetters(opts?: { hook?: string; limit?: number }): WebhookDeadLetterRow[] {
+  const where = opts?.hook ? "WHERE hook = ?" : "";
+  const params: unknown[] = opts?.hook ? [opts.hook] : [];
+  params.push(opts?.limit ?? 50);
+  return getDb()
+    .prepare(`SELECT * FROM webhook_dead_letters ${where} ORDER BY id DESC LIMIT ?`)
+    .all(...params) as WebhookDeadLetterRow[];
+}
+
+export function deleteWebhookDeadLetter(id: number): boolean {
+  return prepareCached("DELETE FROM webhook_dead_letters WHERE id = ?").run(id).changes > 0;
+}
+
+// --- Audit log ---
+
+export type AuditResult = "ok" | "denied" | "error";
+
+export interface AuditRow {
+  id: number;
+  at: number;
+  actor: string;
+  /** For actor "ipc": the kind of client that made the request (cli, mcp) */
+  client: string | null;
+  action: string;
+  target_jid: string | null;
+  payload_hash: string | null;
+  result: AuditResult;
+  error: string | null;
+}
+
+export function insertAuditEntry(row: Omit<AuditRow, "id">): number {
+  const result = prepareCached(`
+    INSERT INTO audit_log (at, actor, client, action, target_jid, payload_hash, result, error)
+    VALUES (@at, @actor, @client, @action, @target_jid, @payload_hash, @result, @error)
+  `).run(row);
+  return Number(result.lastInsertRowid);
+}
+
+// `actor` matches the actor or, for daemon-handled requests, the client that
+// sent them: "mcp" finds an agent's sends whichever process carried them out.
+// `visiblePredicate` limits entries to the chats it lets through; entries
+// without a target (constraint and config changes) are always kept.
+export function listAuditEntries(opts?: {
+  since?: number;
+  chatJid?: string;
+  actor?: string;
+  limit?: number;
+  cursor?: string;
+  visiblePredicate?: SqlPredicate;
+}): Paged<AuditRow> {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (opts?.since !== undefined) {
+    conditions.push("at >= ?");
+    params.push(opts.since);
+  }
+  if (opts?.chatJid) {
+    conditions.push("target_jid = ?");
+    params.push(opts.chatJid);
+  }
+  if (opts?.actor) {
+    conditions.push("(actor = ? OR client = ?)");
+    params.push(opts.actor, opts.actor);
+  }
+  if (opts?.visiblePredicate) {
+    conditions.push(`(target_jid IS NULL OR (${opts.visiblePredicate.sql}))`);
+    params.push(...opts.visiblePredicate.params);
+  }
+  if (opts?.cursor) {
+    const after = afterCursor(NEWEST_AUDIT, decodeCursor(NEWEST_AUDIT, opts.cursor));
+    conditions.push(after.sql);
+    params.push(...after.params);
+  }
+  const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+  const limit = opts?.limit ?? 100;
+  params.push(limit + 1);
+  const rows = getDb()
+    .prepare(`SELECT * FROM audit_log ${where} ORDER BY id DESC LIMIT ?`)
+    .all(...params) as AuditRow[];
+  return toPage(rows, limit, NEWEST_AUDIT, (r) => [r.id]);
+}
+
+// --- Approvals ---
+
+export type ApprovalStatus = "pending" | "sending" | "sent" | "rejected";
+
+export interface ApprovalRow {
+  id: number;
+  chat_jid: string;
+  kind: ScheduledKind;
+  body: string | null;
+  media_path: string | null;
+  /** JSON array of option names, poll rows only */
+  poll_options: string | null;
+  reply_to: string | null;
+  /** Audit actor that drafted it (mcp, ipc) */
+  requested_by: string;
+  status: ApprovalStatus;
+  /** Why the last approved send failed, or the rejection reason */
+  last_error: string | null;
+  message_id: string | null;
+  decided_at: number | null;
+  created_at: number;
+}
+
+export type ApprovalInsert = Pick<
+  ApprovalRow,
+  "chat_jid" | "kind" | "body" | "media_path" | "poll_options" | "reply_to" | "requested_by"
+>;
+
+export function insertApproval(row: ApprovalInsert): number {
+  const result = prepareCached(`
+    INSERT INTO approvals (chat_jid, kind, body, media_path, poll_options, reply_to, requested_by)
+    VALUES (@chat_jid, @kind, @body, @media_path, @poll_options, @reply_to, @requested_by)
+  `).run(row);
+  return Number(result.lastInsertRowid);
+}
+
+export function getApproval(id: number): ApprovalRow | undefined {
+  return prepareCached("SELECT * FROM approvals WHERE id = ?").get(id) as ApprovalRow | undefined;
+}
+
+export function listApprovals(opts?: { status?: ApprovalStatus; limit?: number; cursor?: string }): Paged<ApprovalRow> {
+  const where = withCursor(
+    opts?.status ? { sql: "status = ?", params: [opts.status] } : { sql: "1", params: [] },
+    NEWEST_APPROVALS,
+    opts?.cursor
+  );
+  const limit = opts?.limit ?? 50;
+  const rows = getDb()
+    .prepare(`SELECT * FROM approvals WHERE ${where.sql} ORDER BY id DESC LIMIT ?`)
+    .all(...where.params, limit + 1) as ApprovalRow[];
+  return toPage(rows, limit, NEWEST_APPROVALS, (r) => [r.id]);
+}
+
+/**
+ * Move a pending row to `sending`; false if it is no longer pending. The
+ * conditional UPDATE is what keeps two approvers from sending it twice.
+ */
+export function claimApproval(id: number, now: number): boolean {
+  return prepareCached(`
+    UPDATE approvals SET status = 'sending', decided_at = ? WHERE id = ? AND status = 'pending'
+  `).run(now, id).changes > 0;
+}
+
+export function markApprovalSent(id: number, messageId: string | null): void {
+  prepareCached(`
+    UPDATE approvals SET status = 'sent', message_id = ?, last_error = NULL WHERE id = ?
+  `).run(messageId, id);
+}
+
+/** A claimed send failed: back to pending, so it can be approved again or rejected. */
+export function releaseApproval(id: number, error: string): void {
+  prepareCached(`
+    UPDATE approvals SET status = 'pending', decided_at = NULL, last_error = ? WHERE id = ?
+  `).run(error, id);
+}
+
+/** Reject a pending row; false if it is no longer pending. */
+export function rejectApproval(id: number, now: number, reason?: string): boolean {
+  return prepareCached(`
+    UPDATE approvals SET status = 'rejected', decided_at = ?, last_error = ? WHERE id = ? AND status = 'pending'
+  `).run(now, reason ?? null, id).changes > 0;
+}
+
+// --- Send log (quotas) ---
+
+export function insertSendLog(chatJid: string, sentAt: number, newChat: boolean): number {
+  const result = prepareCached("INSERT INTO send_log (chat_jid, sent_at, new_chat) VALUES (?, ?, ?)").run(
+    chatJid,
+    sentAt,
+    newChat ? 1 : 0
+  );
+  return Number(result.lastInsertRowid);
+}
+
+export function deleteSendLog(id: number): void {
+  prepareCached("DELETE FROM send_log WHERE id = ?").run(id);
+}
+
+/**
+ * Send times since `since`, oldest first: to one chat, to new chats only, or
+ * all of them.
+ */
+export function listSendTimes(opts: { since: number; chatJid?: string; newChats?: boolean }): number[] {
+  const conditions = ["sent_at > ?"];
+  const params: unknown[] = [opts.since];
+  if (opts.chatJid) {
+    conditions.push("chat_jid = ?");
+    params.push(opts.chatJid);
+  }
+  if (opts.newChats) conditions.push("new_chat = 1");
+  const rows = getDb()
+    .prepare(`SELECT sent_at FROM send_log WHERE ${conditions.join(" AND ")} ORDER BY sent_at ASC`)
+    .all(...params) as Array<{ sent_at: number }>;
+  return rows.map((r) => r.sent_at);
+}
+
+/** Whether we have ever written to `chatJid`: a sent message on record, or a logged send. */
+export function hasSentTo(chatJid: string): boolean {
+  return !!prepareCached(`
+    SELECT 1 WHERE EXISTS (SELECT 1 FROM messages WHERE chat_jid = ? AND is_from_me = 1)
+      OR EXISTS (SELECT 1 FROM send_log WHERE chat_jid = ?)
+  `).get(chatJid, chatJid);
+}
+
 // --- Bulk upserts (transaction-wrapped) ---
 
-export function bulkUpsertMessages(rows: Omit<MessageRow, "created_at">[]): void {
+export function bulkUpsertMessages(rows: MessageUpsert[]): void {
   if (rows.length === 0) return;
   const db = getDb();
   const stmt = prepareCached(MESSAGE_UPSERT_SQL);
@@ -278,7 +1157,7 @@ export function bulkUpsertChats(rows: ChatUpsert[]): void {
   })();
 }
 
-export function bulkUpsertContacts(rows: Omit<ContactRow, "updated_at">[]): void {
+export function bulkUpsertContacts(rows: ContactUpsert[]): void {
   if (rows.length === 0) return;
   const db = getDb();
   const stmt = prepareCached(CONTACT_UPSERT_SQL);
@@ -296,9 +1175,55 @@ export interface ListMessagesOpts {
   limit?: number;
   before?: number;
   after?: number;
+  /** `next_cursor` of the previous page */
+  cursor?: string;
+  /** Constraint predicate over unqualified `messages` columns, as in SearchMessagesOpts */
+  visiblePredicate?: SqlPredicate;
 }
 
-export function listMessages(opts: ListMessagesOpts): MessageRow[] {
+// Keyset orderings for the paged reads below (see core/cursor.ts). Each ends
+// in a unique column so ties on the leading key page cleanly.
+const NEWEST_MESSAGES: Ordering = {
+  name: "messages",
+  keys: [{ sql: "timestamp", desc: true }, { sql: "rowid", desc: true }],
+};
+const RANKED_RESULTS: Ordering = {
+  name: "search",
+  keys: [{ sql: "rank", desc: false }, { sql: "m.rowid", desc: false }],
+};
+const NEWEST_RESULTS: Ordering = { name: "search-newest", keys: NEWEST_MESSAGES.keys };
+const RECENT_CHATS: Ordering = {
+  name: "chats",
+  keys: [{ sql: "COALESCE(last_message_at, -1)", desc: true }, { sql: "jid", desc: true }],
+};
+const GROUPS_BY_NAME: Ordering = {
+  name: "groups",
+  keys: [
+    { sql: "is_community", desc: true },
+    { sql: "COALESCE(name, jid)", desc: false },
+    { sql: "jid", desc: false },
+  ],
+};
+const CONTACTS_BY_NAME: Ordering = {
+  name: "contacts",
+  keys: [
+    { sql: "(push_name IS NULL)", desc: false },
+    { sql: "IFNULL(push_name, '')", desc: false },
+    { sql: "jid", desc: false },
+  ],
+};
+const NEWEST_AUDIT: Ordering = { name: "audit", keys: [{ sql: "id", desc: true }] };
+const NEWEST_APPROVALS: Ordering = { name: "approvals", keys: [{ sql: "id", desc: true }] };
+
+// Rows are returned without their rowid; a page looks up its last one.
+function messageRowid(id: string): number {
+  return (prepareCached("SELECT rowid FROM messages WHERE id = ?").get(id) as { rowid: number }).rowid;
+}
+
+const messageKey = (m: MessageRow) => [m.timestamp, messageRowid(m.id)];
+const chatKey = (c: ChatRow) => [c.last_message_at ?? -1, c.jid];
+
+export function listMessages(opts: ListMessagesOpts): Paged<MessageWithReactions> {
   const db = getDb();
   const conditions = ["chat_jid = ?"];
   const params: unknown[] = [opts.chatJid];
@@ -310,16 +1235,24 @@ export function listMessages(opts: ListMessagesOpts): MessageRow[] {
     conditions.push("timestamp > ?");
     params.push(opts.after);
   }
-  params.push(opts.limit || 50);
-  return db
+  if (opts.cursor) {
+    const after = afterCursor(NEWEST_MESSAGES, decodeCursor(NEWEST_MESSAGES, opts.cursor));
+    conditions.push(after.sql);
+    params.push(...after.params);
+  }
+  if (opts.visiblePredicate) {
+    conditions.push(`(${opts.visiblePredicate.sql})`);
+    params.push(...opts.visiblePredicate.params);
+  }
+  const limit = opts.limit || 50;
+  params.push(limit + 1);
+  const rows = db
     .prepare(
-      `SELECT * FROM messages WHERE ${conditions.join(" AND ")} ORDER BY timestamp DESC LIMIT ?`
+      `SELECT * FROM messages WHERE ${conditions.join(" AND ")} ORDER BY ${orderBySql(NEWEST_MESSAGES)} LIMIT ?`
     )
     .all(...params) as MessageRow[];
-}
-
-function toFtsQuery(query: string): string {
-  return `"${query.replace(/"/g, '""')}"`;
+  const page = toPage(rows, limit, NEWEST_MESSAGES, messageKey);
+  return Object.assign(withReactions(page), { next_cursor: page.next_cursor });
 }
 
 let _ftsAvailable: boolean | undefined;
@@ -335,63 +1268,81 @@ function canUseFts(db: Database.Database): boolean {
   return _ftsAvailable;
 }
 
-export function searchMessages(
-  query: string,
-  opts?: {
-    chatJid?: string;
-    senderJid?: string;
-    limit?: number;
-    after?: number;
-    before?: number;
-    // Constraint predicate over `chat_jid` (see
-    // core/constraints.ts:constraintSqlPredicate). Pushing this into the
-    // query means the LIMIT above is applied to already-visible rows, so
-    // callers stop needing to over-fetch and filter/slice in JS.
-    visiblePredicate?: SqlPredicate;
+export interface SearchMessagesOpts {
+  chatJid?: string;
+  senderJid?: string;
+  limit?: number;
+  after?: number;
+  before?: number;
+  /** `next_cursor` of the previous page */
+  cursor?: string;
+  // Constraint predicate over `chat_jid` (see
+  // core/constraints.ts:constraintSqlPredicate). Pushing this into the
+  // query means the LIMIT above is applied to already-visible rows, so
+  // callers stop needing to over-fetch and filter/slice in JS.
+  visiblePredicate?: SqlPredicate;
+}
+
+/** The query's filters plus the option ones, over unqualified `messages` columns. */
+export function searchFilters(parsed: SearchQuery, opts?: SearchMessagesOpts): SqlPredicate[] {
+  const filters: SqlPredicate[] = [...parsed.filters];
+  if (opts?.chatJid) filters.push({ sql: "chat_jid = ?", params: [opts.chatJid] });
+  if (opts?.senderJid) filters.push({ sql: "sender_jid = ?", params: [opts.senderJid] });
+  if (opts?.after) filters.push({ sql: "timestamp > ?", params: [opts.after] });
+  if (opts?.before) filters.push({ sql: "timestamp < ?", params: [opts.before] });
+  if (opts?.visiblePredicate) {
+    filters.push({ sql: `(${opts.visiblePredicate.sql})`, params: opts.visiblePredicate.params });
   }
-): SearchResult[] {
+  return filters;
+}
+
+export function searchMessages(query: string, opts?: SearchMessagesOpts): Paged<SearchResult> {
   const db = getDb();
   const limit = opts?.limit || 50;
+  // Throws SearchQueryError on a malformed query, before touching the DB.
+  const parsed = parseSearchQuery(query);
+  const filters = searchFilters(parsed, opts);
+  // Ranked results page by rank; everything else comes newest first.
+  const pageAfter = (ordering: Ordering): SqlPredicate[] =>
+    opts?.cursor ? [afterCursor(ordering, decodeCursor(ordering, opts.cursor))] : [];
+  const unranked = (rows: MessageRow[]) =>
+    toPage(rows.map((r) => ({ ...r, snippet: null, rank: 0 })), limit, NEWEST_RESULTS, messageKey);
 
   if (canUseFts(db)) {
-    const ftsQuery = toFtsQuery(query);
-    const conditions = ["messages_fts MATCH ?"];
-    const params: unknown[] = [ftsQuery];
-
-    let chatFilter = "";
-    if (opts?.chatJid) {
-      chatFilter += " AND m.chat_jid = ?";
-      params.push(opts.chatJid);
-    }
-    if (opts?.senderJid) {
-      chatFilter += " AND m.sender_jid = ?";
-      params.push(opts.senderJid);
+    const ranked = parsed.terms.length > 0;
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (parsed.excluded.length > 0) {
+      conditions.push("m.rowid NOT IN (SELECT rowid FROM messages_fts WHERE messages_fts MATCH ?)");
+      params.push(toFtsMatch([parsed.excluded]));
     }
-    if (opts?.after) {
-      chatFilter += " AND m.timestamp > ?";
-      params.push(opts.after);
+    for (const f of [...filters, ...pageAfter(ranked ? RANKED_RESULTS : NEWEST_RESULTS)]) {
+      conditions.push(f.sql);
+      params.push(...f.params);
     }
-    if (opts?.before) {
-      chatFilter += " AND m.timestamp < ?";
-      params.push(opts.before);
-    }
-    if (opts?.visiblePredicate) {
-      chatFilter += ` AND (${opts.visiblePredicate.sql})`;
-      params.push(...opts.visiblePredicate.params);
-    }
-    params.push(limit);
+    params.push(limit + 1);
 
     try {
-      return db
+      if (!ranked) {
+        // Only exclusions and filters: nothing to rank by, so newest first.
+        const rows = db
+          .prepare(
+            `SELECT m.* FROM messages m WHERE ${conditions.join(" AND ")} ORDER BY ${orderBySql(NEWEST_RESULTS)} LIMIT ?`
+          )
+          .all(...params) as MessageRow[];
+        return unranked(rows);
+      }
+      const rows = db
         .prepare(
           `SELECT m.*, snippet(messages_fts, -1, '>>>', '<<<', '...', 40) AS snippet, rank
            FROM messages_fts
            JOIN messages m ON m.rowid = messages_fts.rowid
-           WHERE ${conditions.join(" AND ")}${chatFilter}
-           ORDER BY rank
+           WHERE ${["messages_fts MATCH ?", ...conditions].join(" AND ")}
+           ORDER BY ${orderBySql(RANKED_RESULTS)}
            LIMIT ?`
         )
-        .all(...params) as SearchResult[];
+        .all(toFtsMatch(parsed.terms), ...params) as SearchResult[];
+      return toPage(rows, limit, RANKED_RESULTS, (r) => [r.rank, messageRowid(r.id)]);
     } catch {
       // A corrupt FTS index throws "database disk image is malformed" on the
       // ranked read; fall back to a LIKE scan so search still returns results.
@@ -400,36 +1351,78 @@ export function searchMessages(
   }
 
   // Fallback: LIKE search (pre-FTS DBs, or a corrupt FTS index)
-  const conditions = ["body LIKE ?"];
-  const params: unknown[] = [`%${query}%`];
-  if (opts?.chatJid) {
-    conditions.push("chat_jid = ?");
-    params.push(opts.chatJid);
-  }
-  if (opts?.senderJid) {
-    conditions.push("sender_jid = ?");
-    params.push(opts.senderJid);
-  }
-  if (opts?.after) {
-    conditions.push("timestamp > ?");
-    params.push(opts.after);
-  }
-  if (opts?.before) {
-    conditions.push("timestamp < ?");
-    params.push(opts.before);
-  }
-  if (opts?.visiblePredicate) {
-    conditions.push(`(${opts.visiblePredicate.sql})`);
-    params.push(...opts.visiblePredicate.params);
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  for (const c of [...toLikeConditions(parsed), ...filters, ...pageAfter(NEWEST_RESULTS)]) {
+    conditions.push(c.sql);
+    params.push(...c.params);
   }
-  params.push(limit);
+  params.push(limit + 1);
   const rows = db
     .prepare(
-      `SELECT * FROM messages WHERE ${conditions.join(" AND ")} ORDER BY timestamp DESC LIMIT ?`
+      `SELECT * FROM messages WHERE ${conditions.join(" AND ")} ORDER BY ${orderBySql(NEWEST_RESULTS)} LIMIT ?`
     )
     .all(...params) as MessageRow[];
+  return unranked(rows);
+}
+
+// --- Message embeddings ---
+
+/** A message's searchable text, as the FTS index sees it. */
+export interface EmbedTarget {
+  id: string;
+  body: string | null;
+  transcript: string | null;
+  ocr_text: string | null;
+}
+
+const HAS_TEXT = "(TRIM(IFNULL(body, '')) != '' OR TRIM(IFNULL(transcript, '')) != '' OR TRIM(IFNULL(ocr_text, '')) != '')";
+
+/** Messages with text but no embedding from `model`, newest first. */
+export function listMessagesToEmbed(model: string, predicate: SqlPredicate, limit: number): EmbedTarget[] {
+  return getDb()
+    .prepare(
+      `SELECT m.id, m.body, m.transcript, m.ocr_text FROM messages m
+       LEFT JOIN message_embeddings e ON e.message_id = m.id
+       WHERE (e.message_id IS NULL OR e.model != ?) AND ${HAS_TEXT} AND ${predicate.sql}
+       ORDER BY m.timestamp DESC LIMIT ?`
+    )
+    .all(model, ...predicate.params, limit) as EmbedTarget[];
+}
 
-  return rows.map((r) => ({ ...r, snippet: null, rank: 0 }));
+export function countMessagesToEmbed(model: string, predicate: SqlPredicate): number {
+  const row = getDb()
+    .prepare(
+      `SELECT COUNT(*) AS n FROM messages m
+       LEFT JOIN message_embeddings e ON e.message_id = m.id
+       WHERE (e.message_id IS NULL OR e.model != ?) AND ${HAS_TEXT} AND ${predicate.sql}`
+    )
+    .get(model, ...predicate.params) as { n: number };
+  return row.n;
+}
+
+export function saveEmbedding(messageId: string, model: string, vector: number[]): void {
+  prepareCached(
+    "INSERT OR REPLACE INTO message_embeddings (message_id, model, dims, vector, embedded_at) VALUES (?, ?, ?, ?, unixepoch())"
+  ).run(messageId, model, vector.length, Buffer.from(new Float32Array(vector).buffer));
+}
+
+/** Stored vectors from `model` for the messages matching every filter. */
+export function listEmbeddings(model: string, filters: SqlPredicate[]): Array<{ id: string; vector: Float32Array }> {
+  const where = ["e.model = ?", ...filters.map((f) => f.sql)];
+  const rows = getDb()
+    .prepare(
+      `SELECT m.id, e.vector FROM message_embeddings e
+       JOIN messages m ON m.id = e.message_id
+       WHERE ${where.join(" AND ")}`
+    )
+    .all(model, ...filters.flatMap((f) => f.params)) as Array<{ id: string; vector: Buffer }>;
+  // Copy out of the row buffer: it may not sit on a 4-byte boundary.
+  return rows.map((r) => ({ id: r.id, vector: new Float32Array(new Uint8Array(r.vector).buffer) }));
+}
+
+export function countEmbeddings(model: string): number {
+  return (prepareCached("SELECT COUNT(*) AS n FROM message_embeddings WHERE model = ?").get(model) as { n: number }).n;
 }
 
 export function getMessage(id: string): MessageRow | undefined {
@@ -517,57 +1510,74 @@ export interface SqlPredicate {
   params: unknown[];
 }
 
+// Rows after `cursor` in `ordering`, ANDed onto a predicate.
+function withCursor(predicate: SqlPredicate, ordering: Ordering, cursor: string | undefined): SqlPredicate {
+  if (!cursor) return predicate;
+  const after = afterCursor(ordering, decodeCursor(ordering, cursor));
+  return { sql: `(${predicate.sql}) AND ${after.sql}`, params: [...predicate.params, ...after.params] };
+}
+
 export function listChatsWhere(
   predicate: SqlPredicate,
-  opts?: { limit?: number }
-): ChatRow[] {
+  opts?: { limit?: number; cursor?: string }
+): Paged<ChatRow> {
   const db = getDb();
-  return db
+  const where = withCursor(predicate, RECENT_CHATS, opts?.cursor);
+  const limit = opts?.limit || 100;
+  const rows = db
     .prepare(
-      `SELECT * FROM chats WHERE ${predicate.sql} ORDER BY last_message_at DESC NULLS LAST LIMIT ?`
+      `SELECT * FROM chats WHERE ${where.sql} ORDER BY ${orderBySql(RECENT_CHATS)} LIMIT ?`
     )
-    .all(...predicate.params, opts?.limit || 100) as ChatRow[];
+    .all(...where.params, limit + 1) as ChatRow[];
+  return toPage(rows, limit, RECENT_CHATS, chatKey);
 }
 
 export function listDmsWhere(
   predicate: SqlPredicate,
-  opts?: { limit?: number }
-): ChatRow[] {
+  opts?: { limit?: number; cursor?: string }
+): Paged<ChatRow> {
   const db = getDb();
-  return db
+  const where = withCursor(predicate, RECENT_CHATS, opts?.cursor);
+  const limit = opts?.limit || 100;
+  const rows = db
     .prepare(
-      `SELECT * FROM chats WHERE type = 'dm' AND ${predicate.sql} ORDER BY last_message_at DESC NULLS LAST LIMIT ?`
+      `SELECT * FROM chats WHERE type = 'dm' AND ${where.sql} ORDER BY ${orderBySql(RECENT_CHATS)} LIMIT ?`
     )
-    .all(...predicate.params, opts?.limit || 100) as ChatRow[];
+    .all(...where.params, limit + 1) as ChatRow[];
+  return toPage(rows, limit, RECENT_CHATS, chatKey);
 }
 
 export function listGroupsWhere(
   predicate: SqlPredicate,
-  opts?: { limit?: number; order?: "recency" | "name" }
-): ChatRow[] {
+  opts?: { limit?: number; order?: "recency" | "name"; cursor?: string }
+): Paged<ChatRow> {
   const db = getDb();
-  const orderBy =
-    opts?.order === "recency"
-      ? "last_message_at DESC NULLS LAST"
-      : "is_community DESC, COALESCE(name, jid) ASC";
-  return db
+  const byRecency = opts?.order === "recency";
+  const ordering = byRecency ? RECENT_CHATS : GROUPS_BY_NAME;
+  const where = withCursor(predicate, ordering, opts?.cursor);
+  const limit = opts?.limit || 1000;
+  const rows = db
     .prepare(
-      `SELECT * FROM chats WHERE type = 'group' AND ${predicate.sql} ORDER BY ${orderBy} LIMIT ?`
+      `SELECT * FROM chats WHERE type = 'group' AND ${where.sql} ORDER BY ${orderBySql(ordering)} LIMIT ?`
     )
-    .all(...predicate.params, opts?.limit || 1000) as ChatRow[];
+    .all(...where.params, limit + 1) as ChatRow[];
+  return toPage(rows, limit, ordering, byRecency ? chatKey : (c) => [c.is_community, c.name ?? c.jid, c.jid]);
 }
 
 export function searchChatsWhere(
   query: string,
   predicate: SqlPredicate,
-  opts?: { limit?: number }
-): ChatRow[] {
+  opts?: { limit?: number; cursor?: string }
+): Paged<ChatRow> {
   const db = getDb();
-  return db
+  const where = withCursor(predicate, RECENT_CHATS, opts?.cursor);
+  const limit = opts?.limit || 100;
+  const rows = db
     .prepare(
-      `SELECT * FROM chats WHERE name LIKE ? AND ${predicate.sql} ORDER BY last_message_at DESC NULLS LAST LIMIT ?`
+      `SELECT * FROM chats WHERE name LIKE ? AND ${where.sql} ORDER BY ${orderBySql(RECENT_CHATS)} LIMIT ?`
     )
-    .all(`%${query}%`, ...predicate.params, opts?.limit || 100) as ChatRow[];
+    .all(`%${query}%`, ...where.params, limit + 1) as ChatRow[];
+  return toPage(rows, limit, RECENT_CHATS, chatKey);
 }
 
 export function getChatByJid(jid: string): ChatRow | undefined {
@@ -596,23 +1606,45 @@ export function listGroupsByLinkedParent(
     .all(...parentJids) as ChatRow[];
 }
 
-export function listContacts(opts?: { limit?: number }): ContactRow[] {
+const contactKey = (c: ContactRow) => [c.push_name === null ? 1 : 0, c.push_name ?? "", c.jid];
+
+export function listContacts(opts?: { limit?: number; cursor?: string }): Paged<ContactRow> {
   const db = getDb();
-  return db
-    .prepare("SELECT * FROM contacts ORDER BY push_name ASC NULLS LAST LIMIT ?")
-    .all(opts?.limit || 100) as ContactRow[];
+  const where = withCursor({ sql: "1", params: [] }, CONTACTS_BY_NAME, opts?.cursor);
+  const limit = opts?.limit || 100;
+  const rows = db
+    .prepare(`SELECT * FROM contacts WHERE ${where.sql} ORDER BY ${orderBySql(CONTACTS_BY_NAME)} LIMIT ?`)
+    .all(...where.params, limit + 1) as ContactRow[];
+  return toPage(rows, limit, CONTACTS_BY_NAME, contactKey);
+}
+
+export function getContact(jid: string): ContactRow | undefined {
+  return prepareCached("SELECT * FROM contacts WHERE jid = ?").get(jid) as ContactRow | undefined;
+}
+
+/** Contacts whose profile was never fetched, or not since `before`; oldest first. */
+export function listContactsToRefresh(before: number, limit: number): ContactRow[] {
+  return prepareCached(
+    "SELECT * FROM contacts WHERE profile_fetched_at IS NULL OR profile_fetched_at < ? ORDER BY profile_fetched_at ASC NULLS FIRST, jid LIMIT ?"
+  ).all(before, limit) as ContactRow[];
 }
 
 export function searchContacts(
   query: string,
-  opts?: { limit?: number }
-): ContactRow[] {
+  opts?: { limit?: number; cursor?: string }
+): Paged<ContactRow> {
   const db = getDb();
-  return db
-    .prepare(
-      "SELECT * FROM contacts WHERE push_name LIKE ? OR saved_name LIKE ? OR phone LIKE ? ORDER BY push_name ASC NULLS LAST LIMIT ?"
-    )
-    .all(`%${query}%`, `%${query}%`, `%${query}%`, opts?.limit || 100) as ContactRow[];
+  const like = `%${query}%`;
+  const where = withCursor(
+    { sql: "push_name LIKE ? OR saved_name LIKE ? OR phone LIKE ?", params: [like, like, like] },
+    CONTACTS_BY_NAME,
+    opts?.cursor
+  );
+  const limit = opts?.limit || 100;
+  const rows = db
+    .prepare(`SELECT * FROM contacts WHERE ${where.sql} ORDER BY ${orderBySql(CONTACTS_BY_NAME)} LIMIT ?`)
+    .all(...where.params, limit + 1) as ContactRow[];
+  return toPage(rows, limit, CONTACTS_BY_NAME, contactKey);
 }
 
 export function getGroupParticipants(
@@ -687,14 +1719,24 @@ export function getFilteredMessageCount(opts?: {
 
 // --- Context window ---
 
+/**
+ * A message and the messages around it in its chat. With `visiblePredicate`
+ * (over unqualified `messages` columns) the message must match it, or null
+ * is returned, and neighbours that don't are skipped.
+ */
 export function getMessageContext(
   id: string,
-  opts?: { beforeCount?: number; afterCount?: number }
-): { target: MessageRow; before: MessageRow[]; after: MessageRow[] } | null {
+  opts?: { beforeCount?: number; afterCount?: number; visiblePredicate?: SqlPredicate }
+): {
+  target: MessageWithReactions;
+  before: MessageWithReactions[];
+  after: MessageWithReactions[];
+} | null {
   const db = getDb();
+  const visible = opts?.visiblePredicate ?? { sql: "1", params: [] };
   const target = db
-    .prepare("SELECT *, rowid FROM messages WHERE id = ?")
-    .get(id) as (MessageRow & { rowid: number }) | undefined;
+    .prepare(`SELECT *, rowid FROM messages WHERE id = ? AND (${visible.sql})`)
+    .get(id, ...visible.params) as (MessageRow & { rowid: number }) | undefined;
 
   if (!target) return null;
 
@@ -704,37 +1746,142 @@ export function getMessageContext(
   const before = db
     .prepare(
       `SELECT * FROM messages
-       WHERE chat_jid = ? AND (timestamp < ? OR (timestamp = ? AND rowid < ?))
+       WHERE chat_jid = ? AND (timestamp < ? OR (timestamp = ? AND rowid < ?)) AND (${visible.sql})
        ORDER BY timestamp DESC, rowid DESC
        LIMIT ?`
     )
-    .all(target.chat_jid, target.timestamp, target.timestamp, target.rowid, beforeCount) as MessageRow[];
+    .all(target.chat_jid, target.timestamp, target.timestamp, target.rowid, ...visible.params, beforeCount) as MessageRow[];
   before.reverse();
 
   const after = db
     .prepare(
       `SELECT * FROM messages
-       WHERE chat_jid = ? AND (timestamp > ? OR (timestamp = ? AND rowid > ?))
+       WHERE chat_jid = ? AND (timestamp > ? OR (timestamp = ? AND rowid > ?)) AND (${visible.sql})
        ORDER BY timestamp ASC, rowid ASC
        LIMIT ?`
     )
-    .all(target.chat_jid, target.timestamp, target.timestamp, target.rowid, afterCount) as MessageRow[];
+    .all(target.chat_jid, target.timestamp, target.timestamp, target.rowid, ...visible.params, afterCount) as MessageRow[];
+
+  const [withTarget, ...rest] = withReactions([target, ...before, ...after]);
+  return {
+    target: withTarget,
+    before: rest.slice(0, before.length),
+    after: rest.slice(before.length),
+  };
+}
+
+// --- Reply threads ---
+
+/**
+ * Replies (messages quoting one of `ids`) that match `where`, oldest first.
+ * `where` is over unqualified `messages` columns and should at least pin the
+ * chat: a reply in another chat quoting one of these isn't part of its thread.
+ */
+export function listReplies(ids: string[], where: SqlPredicate): MessageRow[] {
+  const unique = [...new Set(ids)];
+  const out: MessageRow[] = [];
+  const db = getDb();
+  const CHUNK = 500;
+  for (let i = 0; i < unique.length; i += CHUNK) {
+    const chunk = unique.slice(i, i + CHUNK);
+    const placeholders = chunk.map(() => "?").join(", ");
+    out.push(
+      ...(db
+        .prepare(
+          `SELECT * FROM messages WHERE quoted_id IN (${placeholders}) AND ${where.sql} ORDER BY timestamp ASC, rowid ASC`
+        )
+        .all(...chunk, ...where.params) as MessageRow[])
+    );
+  }
+  // Chunks are each in order; put the whole list back in order.
+  return unique.length > CHUNK ? out.sort((a, b) => a.timestamp - b.timestamp) : out;
+}
+
+// --- Read markers (inbox) ---
+
+/** The read_markers row that covers every chat */
+export const ALL_CHATS_MARKER = "*";
+
+export function getReadMarker(reader: string, jid: string): number | null {
+  const row = prepareCached("SELECT read_at FROM read_markers WHERE reader = ? AND jid = ?").get(reader, jid) as
+    | { read_at: number }
+    | undefined;
+  return row?.read_at ?? null;
+}
 
-  return { target, before, after };
+/** Move `reader`'s marker forward to `readAt`; a marker never moves back. */
+export function advanceReadMarker(reader: string, jid: string, readAt: number): number {
+  prepareCached(`
+    INSERT INTO read_markers (reader, jid, read_at) VALUES (?, ?, ?)
+    ON CONFLICT(reader, jid) DO UPDATE SET read_at = MAX(read_at, excluded.read_at), updated_at = unixepoch()
+  `).run(reader, jid, readAt);
+  return getReadMarker(reader, jid)!;
+}
+
+export interface InboxChatRow {
+  chat_jid: string;
+  name: string | null;
+  /** Messages after this are unread */
+  read_at: number;
+  unread: number;
+  last_at: number;
+}
+
+/**
+ * Chats with unread messages from others, most recent first. A message is
+ * unread when it's after both `after` and, given a `reader`, that reader's
+ * marker for the chat. `where` is over unqualified `messages` columns.
+ */
+export function listInboxChats(where: SqlPredicate, opts: { after: number; reader?: string }): InboxChatRow[] {
+  const readAt = opts.reader
+    ? "MAX(?, COALESCE((SELECT read_at FROM read_markers WHERE reader = ? AND read_markers.jid = chats.jid), 0))"
+    : "?";
+  return getDb()
+    .prepare(`
+      WITH marks AS (SELECT jid, name, ${readAt} AS read_at FROM chats)
+      SELECT marks.jid AS chat_jid, marks.name, marks.read_at, COUNT(*) AS unread, MAX(messages.timestamp) AS last_at
+      FROM marks JOIN messages ON messages.chat_jid = marks.jid AND messages.timestamp > marks.read_at
+      WHERE messages.is_from_me = 0 AND ${where.sql}
+      GROUP BY marks.jid
+      ORDER BY last_at DESC, marks.jid ASC
+    `)
+    .all(opts.after, ...(opts.reader ? [opts.reader] : []), ...where.params) as InboxChatRow[];
+}
+
+/** The first `limit` unread messages in a chat, oldest first. */
+export function listUnreadMessages(chatJid: string, after: number, where: SqlPredicate, limit: number): MessageRow[] {
+  return getDb()
+    .prepare(`
+      SELECT * FROM messages
+      WHERE chat_jid = ? AND timestamp > ? AND is_from_me = 0 AND ${where.sql}
+      ORDER BY timestamp ASC, rowid ASC LIMIT ?
+    `)
+    .all(chatJid, after, ...where.params, limit) as MessageRow[];
 }
 
 // --- Delete operations ---
 
+// Revisions go with the message: a revoke that left the edit history behind
+// would keep exactly the text the sender asked to remove.
+
 export function deleteMessage(id: string): void {
   const db = getDb();
-  withFtsRecovery(() => db.prepare("DELETE FROM messages WHERE id = ?").run(id));
+  withFtsRecovery(() =>
+    db.transaction(() => {
+      db.prepare("DELETE FROM message_revisions WHERE message_id = ?").run(id);
+      db.prepare("DELETE FROM messages WHERE id = ?").run(id);
+    })()
+  );
 }
 
 export function markMessageDeleted(id: string): void {
   const db = getDb();
   withFtsRecovery(() =>
-    db.prepare(
-      "UPDATE messages SET body = NULL, type = 'deleted', raw = NULL WHERE id = ?"
-    ).run(id)
+    db.transaction(() => {
+      db.prepare("DELETE FROM message_revisions WHERE message_id = ?").run(id);
+      db.prepare(
+        "UPDATE messages SET body = NULL, type = 'deleted', raw = NULL, edited_at = NULL WHERE id = ?"
+      ).run(id);
+    })()
   );
 }
@@ -2,7 +2,7 @@ import { execFileSync, execSync } from "child_process";
 import { mkdirSync, writeFileSync, realpathSync } from "fs";
 import { homedir } from "os";
 import { join, resolve } from "path";
-import { WU_HOME } from "../config/paths.js";
+import { WU_HOME, PROFILE, DEFAULT_PROFILE } from "../config/paths.js";
 
 // --- Resolve wu binary path ---
 
@@ -35,6 +35,19 @@ function resolveHome(): string {
   return resolve(WU_HOME);
 }
 
+// --- Unit names ---
+
+// The default profile keeps the plain names; every other profile gets its own
+// instance (wu@work.service, wu-sync@work.timer) so several accounts can run
+// side by side.
+export function unitName(base: string, profile: string = PROFILE): string {
+  return profile === DEFAULT_PROFILE ? base : `${base}@${profile}`;
+}
+
+function profileEnvironment(profile: string): string {
+  return profile === DEFAULT_PROFILE ? "" : `\nEnvironment=WU_PROFILE=${profile}`;
+}
+
 // --- Systemd directory ---
 
 function systemdUserDir(): string {
@@ -45,13 +58,14 @@ function systemdUserDir(): string {
 
 // --- Daemon service ---
 
-export async function generateDaemonService(): Promise<void> {
+export async function generateDaemonService(profile: string = PROFILE): Promise<string> {
   const wuBin = resolveWuBin();
   const wuHome = resolveHome();
   const dir = systemdUserDir();
+  const unit = unitName("wu", profile);
 
   const service = `[Unit]
-Description=wu WhatsApp daemon
+Description=wu WhatsApp daemon${profile === DEFAULT_PROFILE ? "" : ` (${profile})`}
 After=network-online.target
 Wants=network-online.target
 
@@ -60,21 +74,22 @@ Type=simple
 ExecStart=${wuBin} daemon
 Restart=on-failure
 RestartSec=10
-Environment=WU_HOME=${wuHome}
+Environment=WU_HOME=${wuHome}${profileEnvironment(profile)}
 
 [Install]
 WantedBy=default.target
 `;
 
-  writeFileSync(join(dir, "wu.service"), service, "utf-8");
+  writeFileSync(join(dir, `${unit}.service`), service, "utf-8");
 
   execFileSync("systemctl", ["--user", "daemon-reload"], { stdio: "pipe" });
-  execFileSync("systemctl", ["--user", "enable", "--now", "wu"], { stdio: "pipe" });
+  execFileSync("systemctl", ["--user", "enable", "--now", unit], { stdio: "pipe" });
+  return unit;
 }
 
 // --- Sync service + timer ---
 
-export async function generateSyncService(): Promise<void> {
+export async function generateSyncService(profile: string = PROFILE): Promise<void> {
   const wuBin = resolveWuBin();
   const wuHome = resolveHome();
   const dir = systemdUserDir();
@@ -85,14 +100,15 @@ Description=wu database sync
 [Service]
 Type=oneshot
 ExecStart=${wuBin} sync pull
-Environment=WU_HOME=${wuHome}
+Environment=WU_HOME=${wuHome}${profileEnvironment(profile)}
 `;
 
-  writeFileSync(join(dir, "wu-sync.service"), service, "utf-8");
+  writeFileSync(join(dir, `${unitName("wu-sync", profile)}.service`), service, "utf-8");
 }
 
-export async function generateSyncTimer(intervalSec: number): Promise<void> {
+export async function generateSyncTimer(intervalSec: number, profile: string = PROFILE): Promise<void> {
   const dir = systemdUserDir();
+  const unit = unitName("wu-sync", profile);
 
   const timer = `[Unit]
 Description=wu database sync timer
@@ -105,10 +121,10 @@ AccuracySec=5s
 WantedBy=timers.target
 `;
 
-  writeFileSync(join(dir, "wu-sync.timer"), timer, "utf-8");
+  writeFileSync(join(dir, `${unit}.timer`), timer, "utf-8");
 
   execFileSync("systemctl", ["--user", "daemon-reload"], { stdio: "pipe" });
-  execFileSync("systemctl", ["--user", "enable", "--now", "wu-sync.timer"], { stdio: "pipe" });
+  execFileSync("systemctl", ["--user", "enable", "--now", `${unit}.timer`], { stdio: "pipe" });
 }
 
 // --- Linger check ---
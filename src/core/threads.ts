@@ -0,0 +1,111 @@
+import type { WuConfig } from "../config/schema.js";
+import { constraintSqlPredicate, MESSAGE_COLUMNS, shouldCollect, type ConstraintMessage } from "./constraints.js";
+import {
+  getMessage,
+  getReactionSummaries,
+  listReplies,
+  type MessageRow,
+  type MessageWithReactions,
+} from "./store.js";
+
+// Reply threads, rebuilt from `quoted_id`: a reply quotes the message it
+// answers, so following quoted_id up leads to the message that started the
+// thread, and looking up what quotes each message leads back down. Only the
+// message's own chat counts; a private reply quoting a group message starts
+// a thread of its own. Messages the chat's sender and type filters hide are
+// left out as everywhere else, along with the replies under them.
+
+export interface ThreadNode extends MessageWithReactions {
+  /** Replies to this message, oldest first */
+  replies: ThreadNode[];
+}
+
+export interface Thread {
+  chat_jid: string;
+  /** The message the thread was asked for */
+  message_id: string;
+  /** Where the thread starts. A non-null quoted_id here points at a message that isn't stored, or that the constraints hide. */
+  root: ThreadNode;
+  size: number;
+  /** More replies exist than MAX_THREAD_MESSAGES */
+  truncated: boolean;
+}
+
+const MAX_THREAD_MESSAGES = 1000;
+
+const constraintMessage = (m: MessageRow): ConstraintMessage => ({
+  senderJid: m.sender_jid,
+  type: m.type,
+  isFromMe: m.is_from_me === 1,
+});
+
+export function messageThread(messageId: string, config: WuConfig): Thread {
+  const asked = getMessage(messageId);
+  if (!asked) throw new Error(`Message not found: ${messageId}`);
+  if (!shouldCollect(asked.chat_jid, config)) {
+    throw new Error(`Chat ${asked.chat_jid} is blocked by constraints`);
+  }
+  if (!shouldCollect(asked.chat_jid, config, constraintMessage(asked))) {
+    throw new Error(`Message not found: ${messageId}`);
+  }
+
+  let root = asked;
+  const seen = new Set([root.id]);
+  while (root.quoted_id && !seen.has(root.quoted_id)) {
+    const parent = getMessage(root.quoted_id);
+    if (!parent || parent.chat_jid !== root.chat_jid) break;
+    if (!shouldCollect(parent.chat_jid, config, constraintMessage(parent))) break;
+    seen.add(parent.id);
+    root = parent;
+  }
+
+  const nodes = new Map<string, ThreadNode>();
+  const rootNode: ThreadNode = { ...root, reactions: [], replies: [] };
+  nodes.set(root.id, rootNode);
+  const visible = constraintSqlPredicate("chat_jid", config, { message: MESSAGE_COLUMNS });
+  const inChat = { sql: `chat_jid = ? AND (${visible.sql})`, params: [root.chat_jid, ...visible.params] };
+  let truncated = false;
+  let level = [root.id];
+  while (level.length > 0 && !truncated) {
+    const next: string[] = [];
+    for (const reply of listReplies(level, inChat)) {
+      if (nodes.has(reply.id)) continue;
+      if (nodes.size >= MAX_THREAD_MESSAGES) {
+        truncated = true;
+        break;
+      }
+      const node: ThreadNode = { ...reply, reactions: [], replies: [] };
+      nodes.get(reply.quoted_id!)!.replies.push(node);
+      nodes.set(reply.id, node);
+      next.push(reply.id);
+    }
+    level = next;
+  }
+
+  const reactions = getReactionSummaries([...nodes.keys()]);
+  for (const [id, node] of nodes) node.reactions = reactions.get(id) ?? [];
+  return { chat_jid: root.chat_jid, message_id: asked.id, root: rootNode, size: nodes.size, truncated };
+}
+
+/** The thread as nested JSON, shared by `wu messages thread --json` and wu_messages_thread. */
+export function threadJson(thread: Thread): Record<string, unknown> {
+  const node = (n: ThreadNode): Record<string, unknown> => ({
+    id: n.id,
+    sender_jid: n.sender_jid,
+    sender_name: n.sender_name,
+    body: n.body,
+    type: n.type,
+    timestamp: n.timestamp,
+    quoted_id: n.quoted_id,
+    edited_at: n.edited_at,
+    reactions: n.reactions.map((r) => ({ emoji: r.emoji, count: r.count })),
+    replies: n.replies.map(node),
+  });
+  return {
+    chat_jid: thread.chat_jid,
+    message_id: thread.message_id,
+    size: thread.size,
+    truncated: thread.truncated,
+    thread: node(thread.root),
+  };
+}
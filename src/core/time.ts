@@ -0,0 +1,22 @@
+// Time expressions shared by the `--since` filters (audit, group history,
+// inbox, the search query language) and the scheduler's send times.
+
+export const UNIT_SECONDS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+
+/**
+ * Parse a point in the past into unix seconds, for `--since` filters: a unix
+ * timestamp, a duration back from now ("24h", "7d", "30m ago"), or a date.
+ */
+export function parseSince(input: string, now: Date = new Date()): number {
+  const text = input.trim().toLowerCase();
+
+  if (/^\d{10}$/.test(text)) return parseInt(text, 10);
+
+  const rel = /^(\d+)\s*([smhdw])(?:\s+ago)?$/.exec(text);
+  if (rel) return Math.floor(now.getTime() / 1000) - parseInt(rel[1], 10) * UNIT_SECONDS[rel[2]];
+
+  const parsed = Date.parse(input.trim());
+  if (!Number.isNaN(parsed)) return Math.floor(parsed / 1000);
+
+  throw new Error(`Invalid time "${input}": use a unix timestamp, a duration like 24h/7d, or a date like 2026-03-01`);
+}
@@ -0,0 +1,172 @@
+import { createHmac, randomUUID } from "crypto";
+import type { WuConfig, WebhookConfig } from "../config/schema.js";
+import { jidMatchesAny } from "./constraints.js";
+import { exportRow } from "./export.js";
+import type { ParsedMessage } from "./listener.js";
+import {
+  getMessage,
+  insertWebhookDeadLetter,
+  getWebhookDeadLetter,
+  deleteWebhookDeadLetter,
+} from "./store.js";
+import { createChildLogger } from "../config/logger.js";
+
+const logger = createChildLogger("webhooks");
+
+// Each delivery is a POST of one message as JSON, with:
+//   X-Wu-Event: message
+//   X-Wu-Delivery: <uuid, stable across retries>
+//   X-Wu-Timestamp: <unix seconds of this attempt>
+//   X-Wu-Signature: sha256=<hex HMAC of "<timestamp>.<body>">  (when signed)
+// Signing the timestamp with the body lets receivers reject replays.
+
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  return "sha256=" + createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+export function hookMatches(hook: WebhookConfig, msg: ParsedMessage): boolean {
+  if (msg.isFromMe && !hook.include_from_me) return false;
+  if (hook.chats && !jidMatchesAny(msg.chatJid, hook.chats)) return false;
+  if (hook.types && !hook.types.includes(msg.type)) return false;
+  return true;
+}
+
+export interface DeliveryOptions {
+  /** First retry delay; doubles per attempt. */
+  baseDelayMs?: number;
+}
+
+const DEFAULT_BASE_DELAY_MS = 1000;
+
+type AttemptResult = { ok: true } | { ok: false; status: number | null; error: string };
+
+async function postOnce(
+  hook: WebhookConfig,
+  body: string,
+  deliveryId: string
+): Promise<AttemptResult> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const headers: Record<string, string> = {
+    "content-type": "application/json",
+    "user-agent": "wu-webhooks",
+    "x-wu-event": "message",
+    "x-wu-delivery": deliveryId,
+    "x-wu-timestamp": String(timestamp),
+  };
+  const secret = hook.secret_env ? process.env[hook.secret_env] : undefined;
+  if (hook.secret_env && !secret) {
+    return { ok: false, status: null, error: `${hook.secret_env} not set` };
+  }
+  if (secret) headers["x-wu-signature"] = signWebhook(secret, timestamp, body);
+
+  try {
+    const res = await fetch(hook.url, {
+      method: "POST",
+      headers,
+      body,
+      signal: AbortSignal.timeout(hook.timeout_ms),
+    });
+    if (res.ok) return { ok: true };
+    return { ok: false, status: res.status, error: `HTTP ${res.status}` };
+  } catch (err) {
+    return { ok: false, status: null, error: (err as Error).message };
+  }
+}
+
+async function postWithRetries(
+  name: string,
+  hook: WebhookConfig,
+  body: string,
+  opts: DeliveryOptions
+): Promise<AttemptResult> {
+  const baseDelay = opts.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const deliveryId = randomUUID();
+  let result: AttemptResult = { ok: false, status: null, error: "not attempted" };
+  for (let attempt = 1; attempt <= hook.max_attempts; attempt++) {
+    result = await postOnce(hook, body, deliveryId);
+    if (result.ok) return result;
+    logger.debug({ hook: name, attempt, err: result.error }, "Webhook delivery failed");
+    if (attempt < hook.max_attempts) {
+      await new Promise((resolve) => setTimeout(resolve, baseDelay * 2 ** (attempt - 1)));
+    }
+  }
+  return result;
+}
+
+/**
+ * POST `body` to one hook, retrying with exponential backoff. After
+ * `max_attempts` failures the delivery is written to the dead-letter table.
+ * Never throws; resolves true when the hook accepted it. Retries are held in
+ * memory, so a daemon stopped mid-backoff drops them.
+ */
+export async function deliverWebhook(
+  name: string,
+  hook: WebhookConfig,
+  body: string,
+  messageId: string | null,
+  opts: DeliveryOptions = {}
+): Promise<boolean> {
+  const result = await postWithRetries(name, hook, body, opts);
+  if (result.ok) return true;
+  logger.warn({ hook: name, err: result.error }, "Webhook delivery dead-lettered");
+  try {
+    insertWebhookDeadLetter({
+      hook: name,
+      url: hook.url,
+      message_id: messageId,
+      payload: body,
+      attempts: hook.max_attempts,
+      last_status: result.status,
+      last_error: result.error,
+    });
+  } catch (err) {
+    logger.error({ err, hook: name }, "Failed to record webhook dead letter");
+  }
+  return false;
+}
+
+/**
+ * Fan one live message out to every matching hook. The payload is the stored
+ * row in export jsonl shape, so consumers see the same fields as an export.
+ * Resolves once every hook has delivered or dead-lettered; never rejects.
+ */
+export async function dispatchWebhooks(
+  msg: ParsedMessage,
+  config: WuConfig,
+  opts: DeliveryOptions = {}
+): Promise<void> {
+  const hooks = Object.entries(config.webhooks).filter(([, hook]) => hookMatches(hook, msg));
+  if (hooks.length === 0) return;
+
+  const row = getMessage(msg.id);
+  if (!row) return; // the listener stores it before onMessage fires
+  const body = JSON.stringify(exportRow(row));
+  await Promise.all(hooks.map(([name, hook]) => deliverWebhook(name, hook, body, msg.id, opts)));
+}
+
+export class WebhookError extends Error {
+  constructor(message: string, public reason: "not_found" | "unknown_hook") {
+    super(message);
+    this.name = "WebhookError";
+  }
+}
+
+/**
+ * Retry one dead letter against its hook's current config (URL, secret). It
+ * is removed on success and otherwise left for another try; retries inside
+ * this call don't add a second dead letter.
+ */
+export async function redeliverDeadLetter(
+  id: number,
+  config: WuConfig,
+  opts: DeliveryOptions = {}
+): Promise<boolean> {
+  const row = getWebhookDeadLetter(id);
+  if (!row) throw new WebhookError(`Dead letter not found: ${id}`, "not_found");
+  const hook = config.webhooks[row.hook];
+  if (!hook) throw new WebhookError(`Webhook "${row.hook}" is no longer configured`, "unknown_hook");
+
+  const result = await postWithRetries(row.hook, hook, row.payload, opts);
+  if (result.ok) deleteWebhookDeadLetter(id);
+  return result.ok;
+}
@@ -1,21 +1,28 @@
 import Database from "better-sqlite3";
-import { DB_PATH } from "../config/paths.js";
-import { loadConfig } from "../config/schema.js";
+import { DEFAULT_PROFILE, activeProfile, activePaths } from "../config/paths.js";
+import { loadConfig, type WuConfig } from "../config/schema.js";
 import { migrate } from "./migrations.js";
 
-let _db: Database.Database | undefined;
+// One handle per profile; outside the MCP server that is only ever one.
+const _dbs = new Map<string, Database.Database>();
+
+/** Where the active profile's DB lives. `db.path` only moves the default profile's. */
+export function resolveDbPath(config: WuConfig): string {
+  return (activeProfile() === DEFAULT_PROFILE && config.db.path) || activePaths().dbPath;
+}
 
 export function getDb(): Database.Database {
-  if (!_db) {
-    const config = loadConfig();
-    const dbPath = config.db.path || DB_PATH;
-    _db = new Database(dbPath);
-    _db.pragma("journal_mode = WAL");
-    _db.pragma("foreign_keys = ON");
-    _db.pragma("busy_timeout = 5000");
-    migrate(_db);
+  const profile = activeProfile();
+  let db = _dbs.get(profile);
+  if (!db) {
+    db = new Database(resolveDbPath(loadConfig()));
+    db.pragma("journal_mode = WAL");
+    db.pragma("foreign_keys = ON");
+    db.pragma("busy_timeout = 5000");
+    migrate(db);
+    _dbs.set(profile, db);
   }
-  return _db;
+  return db;
 }
 
 // Prepared statements are bound to the handle that created them, so caching
@@ -45,10 +52,8 @@ export function prepareCached(sql: string): Database.Statement {
 }
 
 export function closeDb(): void {
-  if (_db) {
-    _db.close();
-    _db = undefined;
-  }
+  for (const db of _dbs.values()) db.close();
+  _dbs.clear();
   _stmtCache = new WeakMap();
 }
 
@@ -1,11 +1,13 @@
 import type Database from "better-sqlite3";
 import type { WAMessage } from "@whiskeysockets/baileys";
-import { CREATE_TABLES_SQL, FTS_SQL, SCHEMA_VERSION } from "./schema.js";
+import { CREATE_TABLES_SQL, EMBEDDINGS_SQL, FTS_SQL, SCHEMA_VERSION } from "./schema.js";
 import {
   getMessageContent,
   extractMessageType,
   extractText,
   extractSystemEvent,
+  extractEdit,
+  extractMembershipChange,
 } from "../core/extract.js";
 
 const MIGRATIONS_TABLE = `
@@ -41,6 +43,57 @@ export function migrate(db: Database.Database): void {
       if (currentVersion < 5) {
         applyV5(db);
       }
+      if (currentVersion < 6) {
+        applyV6(db);
+      }
+      if (currentVersion < 7) {
+        applyV7(db);
+      }
+      if (currentVersion < 8) {
+        applyV8(db);
+      }
+      if (currentVersion < 9) {
+        applyV9(db);
+      }
+      if (currentVersion < 10) {
+        applyV10(db);
+      }
+      if (currentVersion < 11) {
+        applyV11(db);
+      }
+      if (currentVersion < 12) {
+        applyV12(db);
+      }
+      if (currentVersion < 13) {
+        applyV13(db);
+      }
+      if (currentVersion < 14) {
+        applyV14(db);
+      }
+      if (currentVersion < 15) {
+        applyV15(db);
+      }
+      if (currentVersion < 16) {
+        applyV16(db);
+      }
+      if (currentVersion < 17) {
+        applyV17(db);
+      }
+      if (currentVersion < 18) {
+        applyV18(db);
+      }
+      if (currentVersion < 19) {
+        applyV19(db);
+      }
+      if (currentVersion < 20) {
+        applyV20(db);
+      }
+      if (currentVersion < 21) {
+        applyV21(db);
+      }
+      if (currentVersion < 22) {
+        applyV22(db);
+      }
       db.prepare("INSERT INTO _migrations (version) VALUES (?)").run(
         SCHEMA_VERSION
       );
@@ -48,17 +101,17 @@ export function migrate(db: Database.Database): void {
   }
 }
 
+const deserializeRaw = (raw: string): WAMessage =>
+  JSON.parse(raw, (_k, v) =>
+    v && typeof v === "object" && v.__type === "Uint8Array" && typeof v.data === "string"
+      ? new Uint8Array(Buffer.from(v.data, "base64"))
+      : v
+  ) as WAMessage;
+
 // Reclassify already-collected type='unknown' rows by re-deriving the type
 // from stored raw: system events (joins/leaves/renames), albums and edits that
 // earlier ingestion bucketed as unknown become labelled.
 function applyV3(db: Database.Database): void {
-  const deserialize = (raw: string): WAMessage =>
-    JSON.parse(raw, (_k, v) =>
-      v && typeof v === "object" && v.__type === "Uint8Array" && typeof v.data === "string"
-        ? new Uint8Array(Buffer.from(v.data, "base64"))
-        : v
-    ) as WAMessage;
-
   const rows = db
     .prepare("SELECT id, body, raw FROM messages WHERE type = 'unknown' AND raw IS NOT NULL")
     .all() as Array<{ id: string; body: string | null; raw: string }>;
@@ -67,7 +120,7 @@ function applyV3(db: Database.Database): void {
 
   for (const row of rows) {
     try {
-      const msg = deserialize(row.raw);
+      const msg = deserializeRaw(row.raw);
       const content = getMessageContent(msg);
       let type = extractMessageType(content);
       let body = extractText(content);
@@ -109,6 +162,397 @@ function applyV4(db: Database.Database): void {
   if (!has("ocr_text")) db.exec("ALTER TABLE messages ADD COLUMN ocr_text TEXT");
 }
 
+// Edit history: an edited_at marker on messages plus a message_revisions
+// table. Edits used to land as standalone type='edited' rows keyed by the
+// edit's own id; fold each one whose target is stored into that target's
+// revision chain (original body first) and drop the pseudo-row. Edits of a
+// message we never collected stay as they are - there is nothing to attach to.
+function applyV6(db: Database.Database): void {
+  const cols = db.prepare("PRAGMA table_info(messages)").all() as Array<{ name: string }>;
+  if (!cols.some((c) => c.name === "edited_at")) {
+    db.exec("ALTER TABLE messages ADD COLUMN edited_at INTEGER");
+  }
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS message_revisions (
+        message_id TEXT NOT NULL,
+        body TEXT,
+        edited_at INTEGER NOT NULL,
+        PRIMARY KEY (message_id, edited_at)
+    );
+  `);
+
+  const rows = db
+    .prepare("SELECT id, timestamp, raw FROM messages WHERE type = 'edited' AND raw IS NOT NULL")
+    .all() as Array<{ id: string; timestamp: number; raw: string }>;
+  if (rows.length === 0) return;
+
+  const getTarget = db.prepare("SELECT body, timestamp FROM messages WHERE id = ?");
+  const hasRevisions = db.prepare("SELECT 1 FROM message_revisions WHERE message_id = ? LIMIT 1");
+  const insertRevision = db.prepare(
+    "INSERT OR IGNORE INTO message_revisions (message_id, body, edited_at) VALUES (?, ?, ?)"
+  );
+  const latest = db.prepare(
+    // The table has no id column until v21; rowid is the same order.
+    "SELECT body, edited_at FROM message_revisions WHERE message_id = ? ORDER BY edited_at DESC, rowid DESC LIMIT 1"
+  );
+  const setBody = db.prepare("UPDATE messages SET body = ?, edited_at = ? WHERE id = ?");
+  const dropPseudo = db.prepare("DELETE FROM messages WHERE id = ?");
+
+  for (const row of rows) {
+    try {
+      const edit = extractEdit(getMessageContent(deserializeRaw(row.raw)));
+      if (!edit) continue;
+      const target = getTarget.get(edit.targetId) as { body: string | null; timestamp: number } | undefined;
+      if (!target) continue;
+      if (!hasRevisions.get(edit.targetId)) {
+        insertRevision.run(edit.targetId, target.body, target.timestamp);
+      }
+      insertRevision.run(edit.targetId, edit.text, edit.editedAt ?? row.timestamp);
+      const newest = latest.get(edit.targetId) as { body: string | null; edited_at: number };
+      setBody.run(newest.body, newest.edited_at, edit.targetId);
+      dropPseudo.run(row.id);
+    } catch {
+      // Leave undecodable edit rows in place.
+    }
+  }
+}
+
+// Reactions used to be stored as type='reaction' message rows - a pseudo-row
+// per (target, emoji) from messages.reaction plus the reaction message itself
+// from messages.upsert - so changing or removing one left stale rows behind.
+// Replay them oldest first into the reactions table, which keeps only the
+// current emoji per reactor, then drop every row that resolved to a target.
+function applyV7(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS reactions (
+        message_id TEXT NOT NULL,
+        chat_jid TEXT NOT NULL,
+        reactor_jid TEXT NOT NULL,
+        emoji TEXT NOT NULL,
+        is_from_me INTEGER DEFAULT 0,
+        timestamp INTEGER NOT NULL,
+        PRIMARY KEY (message_id, reactor_jid)
+    );
+  `);
+
+  const rows = db
+    .prepare(
+      "SELECT id, chat_jid, sender_jid, body, quoted_id, is_from_me, timestamp, raw FROM messages WHERE type = 'reaction' ORDER BY timestamp ASC, rowid ASC"
+    )
+    .all() as Array<{
+      id: string;
+      chat_jid: string;
+      sender_jid: string | null;
+      body: string | null;
+      quoted_id: string | null;
+      is_from_me: number;
+      timestamp: number;
+      raw: string | null;
+    }>;
+  if (rows.length === 0) return;
+
+  const upsert = db.prepare(`
+    INSERT INTO reactions (message_id, chat_jid, reactor_jid, emoji, is_from_me, timestamp)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(message_id, reactor_jid) DO UPDATE SET
+      emoji = excluded.emoji, timestamp = excluded.timestamp
+  `);
+  const remove = db.prepare("DELETE FROM reactions WHERE message_id = ? AND reactor_jid = ?");
+  const dropRow = db.prepare("DELETE FROM messages WHERE id = ?");
+
+  for (const row of rows) {
+    // Pseudo-rows carry the target in quoted_id; reaction messages only in raw.
+    let target = row.quoted_id;
+    if (!target && row.raw) {
+      try {
+        target = getMessageContent(deserializeRaw(row.raw))?.reactionMessage?.key?.id ?? null;
+      } catch {
+        target = null;
+      }
+    }
+    const reactor = row.is_from_me ? "me" : row.sender_jid;
+    if (!target || !reactor) continue;
+    if (row.body) {
+      upsert.run(target, row.chat_jid, reactor, row.body, row.is_from_me, row.timestamp);
+    } else {
+      remove.run(target, reactor);
+    }
+    dropRow.run(row.id);
+  }
+}
+
+// Decrypted poll votes. Nothing to backfill: votes were never decrypted
+// before, and doing so needs the account's own jids from a live socket.
+function applyV8(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS poll_votes (
+        poll_id TEXT NOT NULL,
+        chat_jid TEXT NOT NULL,
+        voter_jid TEXT NOT NULL,
+        options TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        PRIMARY KEY (poll_id, voter_jid)
+    );
+  `);
+}
+
+// Delivery/read receipts for our own messages. Receipts were only used as a
+// liveness heartbeat before, so there is nothing to backfill.
+function applyV9(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS message_receipts (
+        message_id TEXT NOT NULL,
+        chat_jid TEXT NOT NULL,
+        recipient_jid TEXT NOT NULL,
+        delivered_at INTEGER,
+        read_at INTEGER,
+        played_at INTEGER,
+        PRIMARY KEY (message_id, recipient_jid)
+    );
+  `);
+}
+
+// Scheduled messages, delivered by the daemon.
+function applyV10(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS scheduled_messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        chat_jid TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        body TEXT,
+        media_path TEXT,
+        poll_options TEXT,
+        send_at INTEGER NOT NULL,
+        recurrence TEXT,
+        status TEXT NOT NULL DEFAULT 'pending',
+        run_count INTEGER NOT NULL DEFAULT 0,
+        last_run_at INTEGER,
+        last_error TEXT,
+        last_message_id TEXT,
+        created_at INTEGER DEFAULT (unixepoch())
+    );
+    CREATE INDEX IF NOT EXISTS idx_sched_due ON scheduled_messages(status, send_at);
+  `);
+}
+
+// Durable send outbox and the cross-process send throttle.
+function applyV11(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS outbox (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        chat_jid TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        body TEXT,
+        media_path TEXT,
+        poll_options TEXT,
+        reply_to TEXT,
+        status TEXT NOT NULL DEFAULT 'queued',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        last_error TEXT,
+        message_id TEXT,
+        sent_at INTEGER,
+        created_at INTEGER DEFAULT (unixepoch())
+    );
+    CREATE INDEX IF NOT EXISTS idx_outbox_due ON outbox(status, next_attempt_at);
+    CREATE TABLE IF NOT EXISTS send_throttle (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        next_slot_ms INTEGER NOT NULL
+    );
+  `);
+}
+
+// Dead-letter table for webhook deliveries.
+function applyV12(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS webhook_dead_letters (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        hook TEXT NOT NULL,
+        url TEXT NOT NULL,
+        message_id TEXT,
+        payload TEXT NOT NULL,
+        attempts INTEGER NOT NULL,
+        last_status INTEGER,
+        last_error TEXT,
+        failed_at INTEGER DEFAULT (unixepoch())
+    );
+  `);
+}
+
+function applyV13(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        at INTEGER NOT NULL,
+        actor TEXT NOT NULL,
+        client TEXT,
+        action TEXT NOT NULL,
+        target_jid TEXT,
+        payload_hash TEXT,
+        result TEXT NOT NULL CHECK (result IN ('ok', 'denied', 'error')),
+        error TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_audit_log_at ON audit_log(at);
+    CREATE INDEX IF NOT EXISTS idx_audit_log_target ON audit_log(target_jid, at);
+    CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+    END;
+    CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+    END;
+  `);
+}
+
+// Pending-approval store for sends into \`approve\` chats.
+function applyV14(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS approvals (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        chat_jid TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        body TEXT,
+        media_path TEXT,
+        poll_options TEXT,
+        reply_to TEXT,
+        requested_by TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        last_error TEXT,
+        message_id TEXT,
+        decided_at INTEGER,
+        created_at INTEGER DEFAULT (unixepoch())
+    );
+    CREATE INDEX IF NOT EXISTS idx_approvals_status ON approvals(status, id);
+  `);
+}
+
+// Ledger for the send quotas.
+function applyV15(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS send_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        chat_jid TEXT NOT NULL,
+        sent_at INTEGER NOT NULL,
+        new_chat INTEGER NOT NULL DEFAULT 0
+    );
+    CREATE INDEX IF NOT EXISTS idx_send_log_chat ON send_log(chat_jid, sent_at);
+    CREATE INDEX IF NOT EXISTS idx_send_log_at ON send_log(sent_at);
+  `);
+}
+
+// v16: profile details fetched by `wu contacts refresh`.
+const CONTACT_PROFILE_COLUMNS = [
+  "about TEXT",
+  "about_set_at INTEGER",
+  "picture_url TEXT",
+  "picture_path TEXT",
+  "business_category TEXT",
+  "business_description TEXT",
+  "business_website TEXT",
+  "business_email TEXT",
+  "business_address TEXT",
+  "profile_fetched_at INTEGER",
+];
+
+function applyV16(db: Database.Database): void {
+  const cols = db.prepare("PRAGMA table_info(contacts)").all() as Array<{ name: string }>;
+  for (const def of CONTACT_PROFILE_COLUMNS) {
+    const name = def.split(" ")[0]!;
+    if (!cols.some((c) => c.name === name)) db.exec(`ALTER TABLE contacts ADD COLUMN ${def}`);
+  }
+}
+
+// v17: group membership history, seeded from the join/leave/remove/promote/
+// demote system messages already collected.
+function applyV17(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS group_membership_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        group_jid TEXT NOT NULL,
+        participant_jid TEXT NOT NULL,
+        action TEXT NOT NULL,
+        actor_jid TEXT,
+        at INTEGER NOT NULL,
+        message_id TEXT,
+        recorded_at INTEGER DEFAULT (unixepoch())
+    );
+    CREATE INDEX IF NOT EXISTS idx_membership_group ON group_membership_events(group_jid, at);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_membership_message
+        ON group_membership_events(message_id, participant_jid) WHERE message_id IS NOT NULL;
+  `);
+
+  const rows = db
+    .prepare("SELECT id, chat_jid, timestamp, raw FROM messages WHERE type = 'system' AND chat_jid LIKE '%@g.us' AND raw IS NOT NULL")
+    .all() as Array<{ id: string; chat_jid: string; timestamp: number; raw: string }>;
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO group_membership_events (group_jid, participant_jid, action, actor_jid, at, message_id)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  for (const row of rows) {
+    try {
+      const change = extractMembershipChange(deserializeRaw(row.raw));
+      if (!change) continue;
+      for (const participant of change.participants) {
+        insert.run(row.chat_jid, participant, change.action, change.actor, row.timestamp, row.id);
+      }
+    } catch {
+      // Undecodable rows just add no history.
+    }
+  }
+}
+
+// v18: the vector index behind `wu messages search --semantic`, filled by
+// `wu messages embed`.
+function applyV18(db: Database.Database): void {
+  db.exec(EMBEDDINGS_SQL);
+}
+
+// v19: replies looked up by what they quote, for `wu messages thread`.
+function applyV19(db: Database.Database): void {
+  db.exec("CREATE INDEX IF NOT EXISTS idx_msg_quoted ON messages(quoted_id) WHERE quoted_id IS NOT NULL");
+}
+
+// v20: read markers behind \`wu inbox\`.
+function applyV20(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS read_markers (
+        reader TEXT NOT NULL,
+        jid TEXT NOT NULL,
+        read_at INTEGER NOT NULL,
+        updated_at INTEGER DEFAULT (unixepoch()),
+        PRIMARY KEY (reader, jid)
+    );
+  `);
+}
+
+// v21: message_revisions was keyed by (message_id, edited_at), so a second
+// edit within the same second was dropped. Rebuild it with its own id.
+function applyV21(db: Database.Database): void {
+  const cols = db.prepare("PRAGMA table_info(message_revisions)").all() as Array<{ name: string }>;
+  if (cols.some((c) => c.name === "id")) return;
+  db.exec(`
+    ALTER TABLE message_revisions RENAME TO message_revisions_v20;
+    CREATE TABLE message_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        message_id TEXT NOT NULL,
+        body TEXT,
+        edited_at INTEGER NOT NULL
+    );
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_revisions_edit ON message_revisions(message_id, edited_at, body);
+    INSERT INTO message_revisions (message_id, body, edited_at)
+      SELECT message_id, body, edited_at FROM message_revisions_v20 ORDER BY message_id, edited_at;
+    DROP TABLE message_revisions_v20;
+  `);
+}
+
+// v22: failed deliveries of a scheduled message's current run, so a transient
+// failure is retried like an outbox row instead of failing it for good.
+function applyV22(db: Database.Database): void {
+  const cols = db.prepare("PRAGMA table_info(scheduled_messages)").all() as Array<{ name: string }>;
+  if (!cols.some((c) => c.name === "attempts")) {
+    db.exec("ALTER TABLE scheduled_messages ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0");
+  }
+}
+
 function applyV2(db: Database.Database): void {
   const cols = db.prepare("PRAGMA table_info(chats)").all() as Array<{ name: string }>;
   const has = (n: string) => cols.some((c) => c.name === n);
@@ -1,4 +1,4 @@
-export const SCHEMA_VERSION = 5;
+export const SCHEMA_VERSION = 22;
 
 // FTS5 over the searchable text columns (external content table). Deletes use
 // the 'delete' command with the OLD values — a plain DELETE can't locate the
@@ -30,6 +30,26 @@ CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF body, transcrip
 END;
 `;
 
+export const EMBEDDINGS_SQL = `
+CREATE TABLE IF NOT EXISTS message_embeddings (
+    message_id TEXT PRIMARY KEY,
+    model TEXT NOT NULL,
+    dims INTEGER NOT NULL,
+    vector BLOB NOT NULL,
+    embedded_at INTEGER DEFAULT (unixepoch())
+);
+
+CREATE TRIGGER IF NOT EXISTS message_embeddings_stale AFTER UPDATE OF body, transcript, ocr_text ON messages
+WHEN old.body IS NOT new.body OR old.transcript IS NOT new.transcript OR old.ocr_text IS NOT new.ocr_text
+BEGIN
+    DELETE FROM message_embeddings WHERE message_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS message_embeddings_delete AFTER DELETE ON messages BEGIN
+    DELETE FROM message_embeddings WHERE message_id = old.id;
+END;
+`;
+
 export const CREATE_TABLES_SQL = `
 CREATE TABLE IF NOT EXISTS messages (
     id TEXT PRIMARY KEY,
@@ -55,6 +75,7 @@ CREATE TABLE IF NOT EXISTS messages (
     raw TEXT,
     transcript TEXT,
     ocr_text TEXT,
+    edited_at INTEGER,
     created_at INTEGER DEFAULT (unixepoch())
 );
 
@@ -62,6 +83,7 @@ CREATE INDEX IF NOT EXISTS idx_msg_chat_ts ON messages(chat_jid, timestamp);
 CREATE INDEX IF NOT EXISTS idx_msg_body ON messages(body) WHERE body IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_msg_sender ON messages(sender_jid, timestamp);
 CREATE INDEX IF NOT EXISTS idx_msg_type ON messages(type);
+CREATE INDEX IF NOT EXISTS idx_msg_quoted ON messages(quoted_id) WHERE quoted_id IS NOT NULL;
 
 -- FTS5 full-text search (external content, synced via triggers) — see FTS_SQL
 ${FTS_SQL}
@@ -89,8 +111,220 @@ CREATE TABLE IF NOT EXISTS contacts (
     push_name TEXT,
     saved_name TEXT,
     is_business INTEGER DEFAULT 0,
-    updated_at INTEGER DEFAULT (unixepoch())
+    updated_at INTEGER DEFAULT (unixepoch()),
+    -- Fetched on demand by \`wu contacts refresh\`; NULL until then
+    about TEXT,
+    about_set_at INTEGER,
+    picture_url TEXT,
+    picture_path TEXT,
+    business_category TEXT,
+    business_description TEXT,
+    business_website TEXT,
+    business_email TEXT,
+    business_address TEXT,
+    profile_fetched_at INTEGER
+);
+
+-- Every known text of an edited message, oldest first. The first row is the
+-- original body; messages.body always mirrors the newest row. edited_at is in
+-- seconds, so id orders edits made within the same one; a re-delivered edit
+-- (same message, time and text) is ignored.
+CREATE TABLE IF NOT EXISTS message_revisions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    message_id TEXT NOT NULL,
+    body TEXT,
+    edited_at INTEGER NOT NULL
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_revisions_edit ON message_revisions(message_id, edited_at, body);
+
+-- Current reaction per (message, reactor): a changed emoji replaces the row,
+-- a removal deletes it. Own reactions use reactor_jid 'me'.
+CREATE TABLE IF NOT EXISTS reactions (
+    message_id TEXT NOT NULL,
+    chat_jid TEXT NOT NULL,
+    reactor_jid TEXT NOT NULL,
+    emoji TEXT NOT NULL,
+    is_from_me INTEGER DEFAULT 0,
+    timestamp INTEGER NOT NULL,
+    PRIMARY KEY (message_id, reactor_jid)
+);
+
+-- Latest decrypted selection per (poll, voter); options is a JSON array of
+-- option names. A withdrawn vote deletes the row.
+CREATE TABLE IF NOT EXISTS poll_votes (
+    poll_id TEXT NOT NULL,
+    chat_jid TEXT NOT NULL,
+    voter_jid TEXT NOT NULL,
+    options TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    PRIMARY KEY (poll_id, voter_jid)
+);
+
+-- Per-recipient delivery/read/played times for messages we sent. Each
+-- timestamp keeps its first sighting; receipts are often re-sent.
+CREATE TABLE IF NOT EXISTS message_receipts (
+    message_id TEXT NOT NULL,
+    chat_jid TEXT NOT NULL,
+    recipient_jid TEXT NOT NULL,
+    delivered_at INTEGER,
+    read_at INTEGER,
+    played_at INTEGER,
+    PRIMARY KEY (message_id, recipient_jid)
+);
+
+-- Messages queued for later delivery by the daemon. body is the text, the
+-- media caption or the poll question; recurrence is a 5-field cron
+-- expression, and a recurring row stays pending with send_at moved forward.
+CREATE TABLE IF NOT EXISTS scheduled_messages (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    chat_jid TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    body TEXT,
+    media_path TEXT,
+    poll_options TEXT,
+    send_at INTEGER NOT NULL,
+    recurrence TEXT,
+    status TEXT NOT NULL DEFAULT 'pending',
+    run_count INTEGER NOT NULL DEFAULT 0,
+    last_run_at INTEGER,
+    last_error TEXT,
+    last_message_id TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    created_at INTEGER DEFAULT (unixepoch())
+);
+
+CREATE INDEX IF NOT EXISTS idx_sched_due ON scheduled_messages(status, send_at);
+
+-- Durable outbox for sends routed through the daemon. Rows drain oldest
+-- first; a transient failure bumps attempts and pushes next_attempt_at back.
+CREATE TABLE IF NOT EXISTS outbox (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    chat_jid TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    body TEXT,
+    media_path TEXT,
+    poll_options TEXT,
+    reply_to TEXT,
+    status TEXT NOT NULL DEFAULT 'queued',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at INTEGER NOT NULL DEFAULT (unixepoch()),
+    last_error TEXT,
+    message_id TEXT,
+    sent_at INTEGER,
+    created_at INTEGER DEFAULT (unixepoch())
+);
+
+CREATE INDEX IF NOT EXISTS idx_outbox_due ON outbox(status, next_attempt_at);
+
+-- Single-row send throttle shared by every process (CLI, MCP, daemon):
+-- next_slot_ms is the earliest time the next send may go out.
+CREATE TABLE IF NOT EXISTS send_throttle (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    next_slot_ms INTEGER NOT NULL
+);
+
+-- Webhook deliveries that exhausted their retries, kept with the exact
+-- payload so they can be inspected and redelivered.
+CREATE TABLE IF NOT EXISTS webhook_dead_letters (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    hook TEXT NOT NULL,
+    url TEXT NOT NULL,
+    message_id TEXT,
+    payload TEXT NOT NULL,
+    attempts INTEGER NOT NULL,
+    last_status INTEGER,
+    last_error TEXT,
+    failed_at INTEGER DEFAULT (unixepoch())
+);
+
+-- Every privileged action (sends, reactions, deletes, group management,
+-- constraint changes): who asked, on what, and how it ended. The payload is
+-- kept only as a hash. Append-only: the triggers refuse UPDATE and DELETE.
+CREATE TABLE IF NOT EXISTS audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    at INTEGER NOT NULL,
+    actor TEXT NOT NULL,
+    client TEXT,
+    action TEXT NOT NULL,
+    target_jid TEXT,
+    payload_hash TEXT,
+    result TEXT NOT NULL CHECK (result IN ('ok', 'denied', 'error')),
+    error TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_audit_log_at ON audit_log(at);
+CREATE INDEX IF NOT EXISTS idx_audit_log_target ON audit_log(target_jid, at);
+CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log BEGIN
+    SELECT RAISE(ABORT, 'audit_log is append-only');
+END;
+CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log BEGIN
+    SELECT RAISE(ABORT, 'audit_log is append-only');
+END;
+
+-- Sends an agent drafted into a chat in \`approve\` mode, held until a human
+-- approves (then sent like any other message) or rejects them.
+CREATE TABLE IF NOT EXISTS approvals (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    chat_jid TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    body TEXT,
+    media_path TEXT,
+    poll_options TEXT,
+    reply_to TEXT,
+    requested_by TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    last_error TEXT,
+    message_id TEXT,
+    decided_at INTEGER,
+    created_at INTEGER DEFAULT (unixepoch())
 );
+CREATE INDEX IF NOT EXISTS idx_approvals_status ON approvals(status, id);
+
+-- One row per outgoing message (reactions and deletes aside), the ledger the
+-- send quotas count against. new_chat marks a first message to a DM.
+CREATE TABLE IF NOT EXISTS send_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    chat_jid TEXT NOT NULL,
+    sent_at INTEGER NOT NULL,
+    new_chat INTEGER NOT NULL DEFAULT 0
+);
+CREATE INDEX IF NOT EXISTS idx_send_log_chat ON send_log(chat_jid, sent_at);
+CREATE INDEX IF NOT EXISTS idx_send_log_at ON send_log(sent_at);
+
+-- Who joined, left, was removed, promoted or demoted in a group, and when.
+-- Filled from participant updates and from the system messages recording
+-- them; message_id is set when the row came from (or was matched to) one.
+CREATE TABLE IF NOT EXISTS group_membership_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    group_jid TEXT NOT NULL,
+    participant_jid TEXT NOT NULL,
+    action TEXT NOT NULL,
+    actor_jid TEXT,
+    at INTEGER NOT NULL,
+    message_id TEXT,
+    recorded_at INTEGER DEFAULT (unixepoch())
+);
+CREATE INDEX IF NOT EXISTS idx_membership_group ON group_membership_events(group_jid, at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_membership_message
+    ON group_membership_events(message_id, participant_jid) WHERE message_id IS NOT NULL;
+
+-- How far each reader has read the inbox, per chat: messages after read_at
+-- are unread. The reader is 'cli' for a person and 'mcp' for an agent, so an
+-- agent's triage leaves the person's inbox alone. The '*' row is the marker
+-- for every chat, set by \`wu inbox mark-read\` without a chat; whichever of
+-- the two is later counts.
+CREATE TABLE IF NOT EXISTS read_markers (
+    reader TEXT NOT NULL,
+    jid TEXT NOT NULL,
+    read_at INTEGER NOT NULL,
+    updated_at INTEGER DEFAULT (unixepoch()),
+    PRIMARY KEY (reader, jid)
+);
+
+-- One vector per message for semantic search, from the enrich.embed backend.
+-- \`model\` names the backend that produced it, so switching backends re-embeds
+-- instead of comparing vectors from different models. Dropped when the
+-- message's text changes or the message goes (see EMBEDDINGS_SQL).
+${EMBEDDINGS_SQL}
 
 CREATE TABLE IF NOT EXISTS group_participants (
     group_jid TEXT NOT NULL REFERENCES chats(jid),
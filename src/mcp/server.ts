@@ -14,11 +14,14 @@ import { loadConfig } from "../config/schema.js";
 import { DB_PATH } from "../config/paths.js";
 import { closeDb } from "../db/database.js";
 import { getDefaultRemote, checkRemoteHealth } from "../core/remote.js";
+import { setDefaultActor } from "../core/audit.js";
 import { registerTools } from "./tools.js";
 import { registerResources } from "./resources.js";
 
 export async function startMcpServer(): Promise<void> {
   const config = loadConfig();
+  // Everything this process does is on an agent's behalf.
+  setDefaultActor("mcp");
 
   const server = new McpServer({
     name: "wu-cli",
@@ -40,8 +43,9 @@ export async function startMcpServer(): Promise<void> {
   let remoteForTools: { name: string; remote: import("../config/schema.js").RemoteConfig } | undefined;
 
   if (locked) {
-    // Mode 1: daemon running locally — read-only from SQLite (existing behavior)
-    process.stderr.write("wu-mcp: Daemon is running, starting in read-only mode (queries only, no sending)\n");
+    // Mode 1: daemon running locally — reads from SQLite, writes go over the
+    // daemon's IPC socket (constraints are enforced on the daemon side).
+    process.stderr.write("wu-mcp: Daemon is running, routing sends through its IPC socket\n");
   } else if (defaultRemote && hasLocalDb) {
     // Mode 3: remote mode — reads local, writes via SSH
     remoteForTools = defaultRemote;
@@ -0,0 +1,149 @@
+import { describe, it, before, after, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, mkdirSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { makeFakeSocket } from "./helpers/fake-socket.js";
+import { makeFakeMcp } from "./helpers/fake-mcp.js";
+
+const home = mkdtempSync(join(tmpdir(), "wu-approvals-"));
+process.env.WU_HOME = home;
+mkdirSync(join(home, "auth"), { recursive: true });
+
+let database: typeof import("../src/db/database.js");
+let store: typeof import("../src/core/store.js");
+let audit: typeof import("../src/core/audit.js");
+let approvals: typeof import("../src/core/approvals.js");
+let constraints: typeof import("../src/core/constraints.js");
+let sender: typeof import("../src/core/sender.js");
+let ipc: typeof import("../src/core/ipc.js");
+let events: typeof import("../src/core/events.js");
+let toolsMod: typeof import("../src/mcp/tools.js");
+let schema: typeof import("../src/config/schema.js");
+
+before(async () => {
+  database = await import("../src/db/database.js");
+  store = await import("../src/core/store.js");
+  audit = await import("../src/core/audit.js");
+  approvals = await import("../src/core/approvals.js");
+  constraints = await import("../src/core/constraints.js");
+  sender = await import("../src/core/sender.js");
+  ipc = await import("../src/core/ipc.js");
+  events = await import("../src/core/events.js");
+  toolsMod = await import("../src/mcp/tools.js");
+  schema = await import("../src/config/schema.js");
+  database.getDb();
+});
+
+after(() => {
+  database.closeDb();
+  rmSync(home, { recursive: true, force: true });
+});
+
+afterEach(() => audit.setDefaultActor("cli"));
+
+function config(mode = "approve") {
+  return schema.WuConfigSchema.parse({
+    constraints: { default: "read", chats: { "team@g.us": { mode } } },
+    whatsapp: { send_delay_ms: 0 },
+  });
+}
+
+const draft = (text: string) => approvals.requestApproval({ chatJid: "team@g.us", text }, config());
+
+describe("approve mode", () => {
+  it("lets humans send but refuses an agent's direct send", async () => {
+    const fake = makeFakeSocket();
+    await sender.sendText(fake.sock, "team@g.us", "from the terminal", config());
+    assert.equal(fake.calls.length, 1);
+
+    audit.setDefaultActor("mcp");
+    await assert.rejects(() => sender.sendText(fake.sock, "team@g.us", "from an agent", config()), /approval-only/);
+    assert.equal(fake.calls.length, 1);
+    // A daemon request an MCP client sent counts as the agent's too.
+    audit.setDefaultActor("cli");
+    assert.throws(() => audit.runAs("ipc", () => constraints.assertCanSend("team@g.us", config()), "mcp"), /approval-only/);
+  });
+
+  it("wu_messages_send holds the message instead of sending it", async () => {
+    audit.setDefaultActor("mcp");
+    const fake = makeFakeSocket();
+    const { server, tools } = makeFakeMcp();
+    toolsMod.registerTools(server as any, () => fake.sock, config());
+    const result = await tools.get("wu_messages_send")!.handler({ to: "team@g.us", message: "draft reply" });
+    const parsed = JSON.parse(result.content[0].text);
+    assert.equal(parsed.pending_approval, true);
+    assert.equal(fake.calls.length, 0);
+
+    const row = store.getApproval(parsed.approval_id)!;
+    assert.deepEqual([row.status, row.kind, row.body, row.requested_by], ["pending", "text", "draft reply", "mcp"]);
+  });
+});
+
+describe("approvals", () => {
+  it("approve sends through sender.ts and records the message id", async () => {
+    const row = draft("ship it");
+    const fake = makeFakeSocket();
+    const sent = await approvals.approveRequest(fake.sock, row.id, config());
+    assert.deepEqual([sent.status, sent.message_id], ["sent", "fake-msg-id"]);
+    assert.deepEqual(fake.calls.find((c) => c.method === "sendMessage")!.args.slice(0, 2), ["team@g.us", { text: "ship it" }]);
+    await assert.rejects(() => approvals.approveRequest(fake.sock, row.id, config()), /is sent, not pending/);
+  });
+
+  it("refuses to let an agent approve its own draft", async () => {
+    const row = draft("let me through");
+    audit.setDefaultActor("mcp");
+    await assert.rejects(() => approvals.approveRequest(makeFakeSocket().sock, row.id, config()), /decided by a human/);
+    assert.equal(store.getApproval(row.id)!.status, "pending");
+  });
+
+  it("puts a failed send back to pending with the error", async () => {
+    const row = draft("too late");
+    const fake = makeFakeSocket();
+    await assert.rejects(() => approvals.approveRequest(fake.sock, row.id, config("read")), /read-only/);
+    const after = store.getApproval(row.id)!;
+    assert.equal(after.status, "pending");
+    assert.match(after.last_error!, /read-only/);
+    assert.equal(fake.calls.length, 0);
+  });
+
+  it("reject discards the draft with a reason", async () => {
+    const row = draft("no");
+    const rejected = approvals.rejectRequest(row.id, "wrong tone");
+    assert.deepEqual([rejected.status, rejected.last_error], ["rejected", "wrong tone"]);
+    await assert.rejects(() => approvals.approveRequest(makeFakeSocket().sock, row.id, config()), /is rejected/);
+    assert.ok(store.listApprovals({ status: "rejected" }).some((r) => r.id === row.id));
+  });
+
+  it("only accepts drafts for chats in approve mode", () => {
+    assert.throws(
+      () => approvals.requestApproval({ chatJid: "other@g.us", text: "hi" }, config()),
+      /not in approve mode/
+    );
+  });
+
+  it("the daemon announces new drafts to event subscribers", async () => {
+    const sockPath = join(tmpdir(), `wu-approvals-${process.pid}.sock`);
+    const bus = new events.EventBus();
+    const seen: import("../src/core/events.js").WuEvent[] = [];
+    bus.subscribe((e) => seen.push(e));
+    const stop = ipc.startDaemonIpc(() => undefined, config(), sockPath, bus);
+    try {
+      const row = draft("heads up");
+      await ipc.daemonRequest("approvals.notify", { id: row.id }, 5000, sockPath);
+      assert.deepEqual(seen, [
+        {
+          event: "approval",
+          chat: "team@g.us",
+          approval_id: row.id,
+          kind: "text",
+          body: "heads up",
+          requested_by: "cli",
+          status: "pending",
+        },
+      ]);
+    } finally {
+      stop();
+    }
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "crypto";
+import { mkdtempSync, rmSync, mkdirSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { connect } from "net";
+import { makeFakeSocket } from "./helpers/fake-socket.js";
+import { makeFakeMcp } from "./helpers/fake-mcp.js";
+
+const home = mkdtempSync(join(tmpdir(), "wu-audit-"));
+process.env.WU_HOME = home;
+mkdirSync(join(home, "auth"), { recursive: true });
+
+let database: typeof import("../src/db/database.js");
+let store: typeof import("../src/core/store.js");
+let audit: typeof import("../src/core/audit.js");
+let sender: typeof import("../src/core/sender.js");
+let groups: typeof import("../src/core/groups.js");
+let ipc: typeof import("../src/core/ipc.js");
+let schema: typeof import("../src/config/schema.js");
+let time: typeof import("../src/core/time.js");
+let toolsMod: typeof import("../src/mcp/tools.js");
+
+before(async () => {
+  database = await import("../src/db/database.js");
+  store = await import("../src/core/store.js");
+  audit = await import("../src/core/audit.js");
+  sender = await import("../src/core/sender.js");
+  groups = await import("../src/core/groups.js");
+  ipc = await import("../src/core/ipc.js");
+  schema = await import("../src/config/schema.js");
+  time = await import("../src/core/time.js");
+  toolsMod = await import("../src/mcp/tools.js");
+  database.getDb();
+});
+
+after(() => {
+  database.closeDb();
+  rmSync(home, { recursive: true, force: true });
+});
+
+function config() {
+  return schema.WuConfigSchema.parse({
+    constraints: { default: "read", chats: { "ok@g.us": { mode: "full" } } },
+    whatsapp: { send_delay_ms: 0 },
+  });
+}
+
+const latest = () => store.listAuditEntries({ limit: 1 })[0]!;
+
+describe("audit log", () => {
+  it("records a send with the actor, target and a hash of the payload", async () => {
+    const { sock } = makeFakeSocket();
+    await sender.sendText(sock, "ok@g.us", "hello", config());
+    const entry = latest();
+    assert.equal(entry.actor, "cli");
+    assert.equal(entry.client, null);
+    assert.equal(entry.action, "send_text");
+    assert.equal(entry.target_jid, "ok@g.us");
+    assert.equal(entry.result, "ok");
+    const expected = createHash("sha256").update(JSON.stringify({ text: "hello" })).digest("hex");
+    assert.equal(entry.payload_hash, expected);
+  });
+
+  it("records refusals as denied and other failures as error", async () => {
+    const fake = makeFakeSocket();
+    await assert.rejects(() => sender.sendReaction(fake.sock, "ro@g.us", "m1", "👍", config()), /Constraint violation/);
+    assert.equal(latest().result, "denied");
+    assert.match(latest().error!, /read-only/);
+    assert.equal(fake.calls.length, 0);
+
+    const broken = makeFakeSocket();
+    (broken.sock as unknown as { groupLeave: () => Promise<void> }).groupLeave = async () => {
+      throw new Error("not a participant");
+    };
+    await assert.rejects(() => groups.leaveGroup(broken.sock, "ok@g.us", config()));
+    assert.deepEqual([latest().action, latest().result, latest().error], ["group_leave", "error", "not a participant"]);
+  });
+
+  it("attributes work to the actor it runs as", async () => {
+    const { sock } = makeFakeSocket();
+    await audit.runAs("rule", () => sender.sendText(sock, "ok@g.us", "auto", config()));
+    assert.equal(latest().actor, "rule");
+    assert.equal(audit.currentActor(), "cli", "runAs does not leak past its callback");
+  });
+
+  it("records requests the daemon handles as ipc, with the client's actor", async () => {
+    const sockPath = join(tmpdir(), `wu-audit-${process.pid}.sock`);
+    const fake = makeFakeSocket();
+    const stop = ipc.startDaemonIpc(() => fake.sock, config(), sockPath);
+    audit.setDefaultActor("mcp");
+    try {
+      await ipc.daemonRequest("messages.react", { jid: "ok@g.us", msgId: "m2", emoji: "🔥" }, 5000, sockPath);
+    } finally {
+      audit.setDefaultActor("cli");
+      stop();
+    }
+    const entry = latest();
+    assert.deepEqual([entry.actor, entry.client, entry.action], ["ipc", "mcp", "react"]);
+    assert.ok(store.listAuditEntries({ actor: "mcp" }).some((e) => e.id === entry.id), "--actor mcp finds it");
+  });
+
+  it("drops an actor the daemon doesn't know", async () => {
+    const sockPath = join(tmpdir(), `wu-audit-raw-${process.pid}.sock`);
+    const fake = makeFakeSocket();
+    const stop = ipc.startDaemonIpc(() => fake.sock, config(), sockPath);
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const conn = connect(sockPath);
+        conn.once("connect", () => {
+          const params = { jid: "ok@g.us", msgId: "m3", emoji: "👀" };
+          conn.write(JSON.stringify({ id: 1, method: "messages.react", params, actor: "root" }) + "\n");
+        });
+        conn.once("data", () => {
+          conn.destroy();
+          resolve();
+        });
+        conn.once("error", reject);
+      });
+    } finally {
+      stop();
+    }
+    assert.deepEqual([latest().actor, latest().client, latest().action], ["ipc", null, "react"]);
+    assert.ok(!audit.isAuditActor("root") && audit.isAuditActor("mcp"));
+  });
+
+  it("filters by since, chat and actor", () => {
+    const all = store.listAuditEntries();
+    assert.ok(all.length >= 5);
+    assert.ok(store.listAuditEntries({ chatJid: "ro@g.us" }).every((e) => e.target_jid === "ro@g.us"));
+    assert.ok(store.listAuditEntries({ actor: "rule" }).every((e) => e.actor === "rule"));
+    assert.equal(store.listAuditEntries({ since: Math.floor(Date.now() / 1000) + 60 }).length, 0);
+    const now = new Date(2026, 2, 2, 12, 0);
+    assert.equal(time.parseSince("24h", now), Math.floor(now.getTime() / 1000) - 86400);
+    assert.throws(() => time.parseSince("yesterday-ish"), /Invalid time/);
+  });
+
+  it("leaves chats the constraints block out of wu_audit_list", async () => {
+    const strict = schema.WuConfigSchema.parse({ constraints: { default: "none", chats: { "ok@g.us": { mode: "full" } } } });
+    schema.saveConfig(strict);
+    const at = Math.floor(Date.now() / 1000);
+    const entry = { at, actor: "cli", client: null, payload_hash: null, result: "ok", error: null } as const;
+    store.insertAuditEntry({ ...entry, action: "send_text", target_jid: "secret@g.us" });
+    store.insertAuditEntry({ ...entry, action: "constraint_set", target_jid: null });
+
+    const { server, tools } = makeFakeMcp();
+    toolsMod.registerTools(server as never, () => undefined, strict);
+    const res = JSON.parse((await tools.get("wu_audit_list")!.handler({ limit: 100 })).content[0].text);
+    const targets = new Set(res.map((e: { target_jid: string | null }) => e.target_jid));
+    assert.deepEqual(targets, new Set(["ok@g.us", null]));
+    assert.ok(store.listAuditEntries().some((e) => e.target_jid === "secret@g.us"), "the CLI still sees everything");
+  });
+
+  it("is append-only", () => {
+    const db = database.getDb();
+    assert.throws(() => db.prepare("UPDATE audit_log SET result = 'ok'").run(), /append-only/);
+    assert.throws(() => db.prepare("DELETE FROM audit_log").run(), /append-only/);
+  });
+});
@@ -11,6 +11,7 @@ import {
   EXIT_NOT_AUTHENTICATED,
   EXIT_CONNECTION_FAILED,
   EXIT_NOT_FOUND,
+  EXIT_QUOTA_EXCEEDED,
 } from "../src/cli/exit-codes.js";
 
 // src/cli/index.ts calls ensureWuHome() and program.parseAsync(process.argv)
@@ -44,6 +45,13 @@ before(async () => {
   const { registerHistoryCommand } = await import("../src/cli/history.js");
   const { registerRemoteCommand } = await import("../src/cli/remote.js");
   const { registerSyncCommand } = await import("../src/cli/sync.js");
+  const { registerScheduleCommand } = await import("../src/cli/schedule.js");
+  const { registerOutboxCommand } = await import("../src/cli/outbox.js");
+  const { registerWebhooksCommand } = await import("../src/cli/webhooks.js");
+  const { registerRulesCommand } = await import("../src/cli/rules.js");
+  const { registerAuditCommand } = await import("../src/cli/audit.js");
+  const { registerApprovalsCommand } = await import("../src/cli/approvals.js");
+  const { registerInboxCommand } = await import("../src/cli/inbox.js");
 
   program = new Command();
   registerConfigCommand(program);
@@ -64,6 +72,13 @@ before(async () => {
   registerMcpCommand(program);
   registerRemoteCommand(program);
   registerSyncCommand(program);
+  registerScheduleCommand(program);
+  registerOutboxCommand(program);
+  registerWebhooksCommand(program);
+  registerRulesCommand(program);
+  registerAuditCommand(program);
+  registerApprovalsCommand(program);
+  registerInboxCommand(program);
 });
 
 after(() => {
@@ -98,6 +113,8 @@ describe("CLI command tree - top level", () => {
   it("registers every top-level command index.ts wires up", () => {
     const names = program.commands.map((c) => c.name()).sort();
     assert.deepEqual(names, [
+      "approvals",
+      "audit",
       "chats",
       "communities",
       "config",
@@ -108,19 +125,103 @@ describe("CLI command tree - top level", () => {
       "enrich",
       "groups",
       "history",
+      "inbox",
       "listen",
       "login",
       "logout",
       "media",
       "mcp",
       "messages",
+      "outbox",
       "remote",
+      "rules",
+      "schedule",
       "status",
       "sync",
+      "webhooks",
     ].sort());
   });
 });
 
+describe("CLI command tree - schedule", () => {
+  it("add takes a required <jid>, optional [text], and time/recurrence flags", () => {
+    const add = child(sub("schedule"), "add");
+    assert.equal(argRequired(add, "jid"), true);
+    assert.equal(argRequired(add, "text"), false);
+    for (const flag of ["--at", "--cron", "--media", "--poll", "--options"]) {
+      assert.ok(add.options.some((o) => o.long === flag), `expected ${flag}`);
+    }
+  });
+
+  it("offers list and cancel", () => {
+    child(sub("schedule"), "list");
+    assert.equal(argRequired(child(sub("schedule"), "cancel"), "id"), true);
+  });
+});
+
+describe("CLI command tree - outbox", () => {
+  it("offers list, retry and drop", () => {
+    const list = child(sub("outbox"), "list");
+    assert.ok(list.options.some((o) => o.long === "--status"));
+    const retry = child(sub("outbox"), "retry");
+    assert.equal(argRequired(retry, "id"), false);
+    assert.ok(retry.options.some((o) => o.long === "--all"));
+    assert.equal(argRequired(child(sub("outbox"), "drop"), "id"), true);
+  });
+});
+
+describe("CLI command tree - webhooks", () => {
+  it("offers list, dead-letters, redeliver and drop", () => {
+    child(sub("webhooks"), "list");
+    assert.ok(child(sub("webhooks"), "dead-letters").options.some((o) => o.long === "--hook"));
+    assert.equal(argRequired(child(sub("webhooks"), "redeliver"), "id"), true);
+    assert.equal(argRequired(child(sub("webhooks"), "drop"), "id"), true);
+  });
+});
+
+describe("CLI command tree - rules", () => {
+  it("offers list and a dry-run test <msg-id>", () => {
+    child(sub("rules"), "list");
+    assert.equal(argRequired(child(sub("rules"), "test"), "msg-id"), true);
+  });
+});
+
+describe("CLI command tree - audit", () => {
+  it("list filters by --since, --chat and --actor", () => {
+    const list = child(sub("audit"), "list");
+    for (const flag of ["--since", "--chat", "--actor", "--json"]) {
+      assert.ok(list.options.some((o) => o.long === flag), `expected ${flag}`);
+    }
+  });
+});
+
+describe("CLI command tree - approvals", () => {
+  it("offers list (pending by default), approve <id> and reject <id>", () => {
+    assert.equal(optionDefault(child(sub("approvals"), "list"), "--status"), "pending");
+    assert.equal(argRequired(child(sub("approvals"), "approve"), "id"), true);
+    const reject = child(sub("approvals"), "reject");
+    assert.equal(argRequired(reject, "id"), true);
+    assert.ok(reject.options.some((o) => o.long === "--reason"));
+  });
+});
+
+describe("CLI command tree - inbox", () => {
+  it("lists by read markers or --since, with per-chat and chat limits", () => {
+    const inbox = sub("inbox");
+    assert.equal(optionDefault(inbox, "--limit"), "50");
+    assert.equal(optionDefault(inbox, "--per-chat"), "5");
+    for (const flag of ["--since", "--json"]) {
+      assert.ok(inbox.options.some((o) => o.long === flag), `expected ${flag}`);
+    }
+  });
+
+  it("mark-read takes an optional [jid] and --up-to", () => {
+    const markRead = child(sub("inbox"), "mark-read");
+    assert.equal(argRequired(markRead, "jid"), false);
+    assert.ok(markRead.options.some((o) => o.long === "--up-to"));
+  });
+});
+
 describe("CLI command tree - chats", () => {
   it("list defaults --limit to 100 and offers --json", () => {
     const list = child(sub("chats"), "list");
@@ -134,6 +235,25 @@ describe("CLI command tree - chats", () => {
   });
 });
 
+describe("CLI command tree - contacts", () => {
+  it("check takes optional [phones...] plus --csv, --column, --country-code, --save and --business", () => {
+    const check = child(sub("contacts"), "check");
+    assert.equal(argRequired(check, "phones"), false);
+    for (const flag of ["--csv", "--column", "--country-code", "--save", "--business", "--json"]) {
+      assert.ok(check.options.some((o) => o.long === flag), `expected contacts check to have ${flag}`);
+    }
+  });
+
+  it("refresh takes an optional [jid], --stale defaulting to 7d, and --pictures", () => {
+    const refresh = child(sub("contacts"), "refresh");
+    assert.equal(argRequired(refresh, "jid"), false);
+    assert.equal(optionDefault(refresh, "--stale"), "7d");
+    for (const flag of ["--limit", "--pictures", "--json"]) {
+      assert.ok(refresh.options.some((o) => o.long === flag), `expected contacts refresh to have ${flag}`);
+    }
+  });
+});
+
 describe("CLI command tree - messages", () => {
   it("list takes a required <jid> and defaults --limit to 50", () => {
     const list = child(sub("messages"), "list");
@@ -141,11 +261,25 @@ describe("CLI command tree - messages", () => {
     assert.equal(optionDefault(list, "--limit"), "50");
   });
 
+  it("thread takes a required <id>, and export offers --threads", () => {
+    assert.equal(argRequired(child(sub("messages"), "thread"), "id"), true);
+    assert.ok(child(sub("messages"), "export").options.some((o) => o.long === "--threads"));
+  });
+
+  it("search offers --semantic, and embed fills the index with --chat and --limit defaulting to 500", () => {
+    assert.ok(child(sub("messages"), "search").options.some((o) => o.long === "--semantic"));
+    const embed = child(sub("messages"), "embed");
+    assert.equal(optionDefault(embed, "--limit"), "500");
+    for (const flag of ["--chat", "--json"]) {
+      assert.ok(embed.options.some((o) => o.long === flag), `expected messages embed to have ${flag}`);
+    }
+  });
+
   it("send takes a required <jid> and an optional [text], plus media/poll flags", () => {
     const send = child(sub("messages"), "send");
     assert.equal(argRequired(send, "jid"), true);
     assert.equal(argRequired(send, "text"), false);
-    for (const flag of ["--media", "--caption", "--reply-to", "--poll", "--options"]) {
+    for (const flag of ["--media", "--caption", "--reply-to", "--poll", "--options", "--queue"]) {
       assert.ok(send.options.some((o) => o.long === flag), `expected messages send to have ${flag}`);
     }
   });
@@ -191,6 +325,58 @@ describe("CLI command tree - groups", () => {
     assert.equal(argRequired(create, "participants"), false);
     assert.ok(create.options.some((o) => o.long === "--json"));
   });
+
+  it("add/remove/promote/demote take a <jid> and required <participants...>", () => {
+    for (const name of ["add", "remove", "promote", "demote"]) {
+      const cmd = child(sub("groups"), name);
+      assert.equal(argRequired(cmd, "jid"), true);
+      assert.equal(argRequired(cmd, "participants"), true);
+      assert.ok(cmd.registeredArguments[1]!.variadic);
+    }
+  });
+
+  it("description takes optional [text] so it can be cleared", () => {
+    assert.equal(argRequired(child(sub("groups"), "description"), "text"), false);
+  });
+
+  it("has announce, lock, ephemeral, join-approval and revoke-invite", () => {
+    for (const name of ["announce", "lock", "ephemeral", "join-approval", "revoke-invite"]) {
+      assert.equal(argRequired(child(sub("groups"), name), "jid"), true);
+    }
+  });
+
+  it("history takes a <jid> and offers --since, --weekly and --limit defaulting to 100", () => {
+    const history = child(sub("groups"), "history");
+    assert.equal(argRequired(history, "jid"), true);
+    assert.equal(optionDefault(history, "--limit"), "100");
+    for (const flag of ["--since", "--weekly", "--json"]) {
+      assert.ok(history.options.some((o) => o.long === flag));
+    }
+  });
+
+  it("requests offers --approve and --reject", () => {
+    const requests = child(sub("groups"), "requests");
+    for (const flag of ["--approve", "--reject", "--json"]) {
+      assert.ok(requests.options.some((o) => o.long === flag));
+    }
+  });
+});
+
+describe("CLI command tree - communities", () => {
+  it("link and unlink take a required <community> and <group>", () => {
+    for (const name of ["link", "unlink"]) {
+      const cmd = child(sub("communities"), name);
+      assert.equal(argRequired(cmd, "community"), true);
+      assert.equal(argRequired(cmd, "group"), true);
+    }
+  });
+
+  it("has create, announce and members", () => {
+    const communities = sub("communities");
+    assert.ok(child(communities, "create").options.some((o) => o.long === "--description"));
+    assert.equal(argRequired(child(communities, "announce"), "text"), true);
+    assert.equal(argRequired(child(communities, "members"), "community"), true);
+  });
 });
 
 describe("CLI command tree - db", () => {
@@ -240,6 +426,20 @@ describe("CLI command tree - config constraint commands", () => {
   });
 });
 
+describe("CLI command tree - pagination", () => {
+  it("every list and search read offers --cursor and --paged", () => {
+    const reads: Array<[string, string]> = [
+      ["chats", "list"], ["chats", "search"], ["dms", "list"], ["dms", "search"],
+      ["contacts", "list"], ["contacts", "search"], ["groups", "list"], ["communities", "list"],
+      ["messages", "list"], ["messages", "search"], ["audit", "list"], ["approvals", "list"],
+    ];
+    for (const [group, name] of reads) {
+      assert.ok(child(sub(group), name).options.some((o) => o.long === "--cursor"), `expected ${group} ${name} to have --cursor`);
+      assert.ok(child(sub(group), name).options.some((o) => o.long === "--paged"), `expected ${group} ${name} to have --paged`);
+    }
+  });
+});
+
 describe("CLI exit codes", () => {
   it("are distinct, stable integers", () => {
     const codes = {
@@ -249,6 +449,7 @@ describe("CLI exit codes", () => {
       EXIT_NOT_AUTHENTICATED,
       EXIT_CONNECTION_FAILED,
       EXIT_NOT_FOUND,
+      EXIT_QUOTA_EXCEEDED,
     };
     assert.deepEqual(codes, {
       EXIT_SUCCESS: 0,
@@ -257,6 +458,7 @@ describe("CLI exit codes", () => {
       EXIT_NOT_AUTHENTICATED: 3,
       EXIT_CONNECTION_FAILED: 4,
       EXIT_NOT_FOUND: 5,
+      EXIT_QUOTA_EXCEEDED: 6,
     });
   });
 });
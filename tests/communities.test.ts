@@ -0,0 +1,143 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, mkdirSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import type { WASocket } from "@whiskeysockets/baileys";
+import { makeFakeSocket, type RecordedCall } from "./helpers/fake-socket.js";
+import { makeFakeMcp } from "./helpers/fake-mcp.js";
+
+const home = mkdtempSync(join(tmpdir(), "wu-communities-"));
+process.env.WU_HOME = home;
+mkdirSync(join(home, "auth"), { recursive: true });
+
+let database: typeof import("../src/db/database.js");
+let store: typeof import("../src/core/store.js");
+let communities: typeof import("../src/core/communities.js");
+let toolsMod: typeof import("../src/mcp/tools.js");
+let schema: typeof import("../src/config/schema.js");
+
+const COMMUNITY = "parent@g.us";
+const ANNOUNCE = "announce@g.us";
+const TEAM = "team@g.us";
+const SECRET = "secret@g.us";
+const ALICE = "15550001111@s.whatsapp.net";
+const BOB = "15550002222@s.whatsapp.net";
+
+function config() {
+  return schema.WuConfigSchema.parse({
+    constraints: {
+      default: "none",
+      chats: {
+        [COMMUNITY]: { mode: "full" },
+        [ANNOUNCE]: { mode: "full" },
+        [TEAM]: { mode: "full" },
+        "other@g.us": { mode: "read" },
+      },
+    },
+    whatsapp: { send_delay_ms: 0 },
+  });
+}
+
+before(async () => {
+  database = await import("../src/db/database.js");
+  store = await import("../src/core/store.js");
+  communities = await import("../src/core/communities.js");
+  toolsMod = await import("../src/mcp/tools.js");
+  schema = await import("../src/config/schema.js");
+  schema.saveConfig(config());
+  database.getDb();
+});
+
+after(() => {
+  database.closeDb();
+  rmSync(home, { recursive: true, force: true });
+});
+
+function group(jid: string, extra: Partial<import("../src/core/store.js").ChatUpsert> = {}) {
+  store.upsertChat({ jid, name: jid, type: "group", participant_count: null, description: null, last_message_at: null, ...extra });
+}
+
+function communitySocket(): { sock: WASocket; calls: RecordedCall[] } {
+  const fake = makeFakeSocket();
+  const record = (method: string) => async (...args: unknown[]) => void fake.calls.push({ method, args });
+  const sock = Object.assign(fake.sock, {
+    communityCreate: async (subject: string) => ({ id: COMMUNITY, subject, participants: [{ id: ALICE }] }),
+    communityLinkGroup: record("communityLinkGroup"),
+    communityUnlinkGroup: record("communityUnlinkGroup"),
+    groupFetchAllParticipating: async () => ({
+      [ANNOUNCE]: { id: ANNOUNCE, subject: "Announcements", participants: [], isCommunityAnnounce: true, linkedParent: COMMUNITY },
+    }),
+  }) as WASocket;
+  return { sock, calls: fake.calls };
+}
+
+describe("community management", () => {
+  it("creates a community and caches it as one", async () => {
+    const { sock } = communitySocket();
+    const created = await communities.createCommunity(sock, "Neighbours", "Street news");
+    assert.equal(created.id, COMMUNITY);
+    const row = store.getChatByJid(COMMUNITY)!;
+    assert.deepEqual([row.name, row.is_community, row.description], ["Neighbours", 1, "Street news"]);
+  });
+
+  it("links and unlinks a group, keeping linked_parent in step", async () => {
+    const { sock, calls } = communitySocket();
+    group(TEAM);
+    await communities.linkGroup(sock, COMMUNITY, TEAM, config());
+    assert.equal(store.getChatByJid(TEAM)?.linked_parent, COMMUNITY);
+    assert.deepEqual(calls[0]!.args, [TEAM, COMMUNITY]);
+
+    await communities.unlinkGroup(sock, COMMUNITY, TEAM, config());
+    assert.equal(store.getChatByJid(TEAM)?.linked_parent, null);
+  });
+
+  it("checks the constraints of both the community and the group", async () => {
+    const { sock, calls } = communitySocket();
+    await assert.rejects(() => communities.linkGroup(sock, COMMUNITY, "other@g.us", config()), /other@g\.us is read-only/);
+    await assert.rejects(() => communities.linkGroup(sock, "other@g.us", TEAM, config()), /other@g\.us is read-only/);
+    assert.equal(calls.length, 0);
+  });
+
+  it("finds the announcement group live, then from the cache, and posts there", async () => {
+    const { sock, calls } = communitySocket();
+    assert.equal(await communities.announcementGroup(sock, COMMUNITY, config()), ANNOUNCE);
+    assert.equal(store.getChatByJid(ANNOUNCE)?.is_community_announce, 1);
+    assert.equal(await communities.announcementGroup(undefined, COMMUNITY, config()), ANNOUNCE);
+
+    const { server, tools } = makeFakeMcp();
+    toolsMod.registerTools(server as never, () => sock, config());
+    const sent = JSON.parse(
+      (await tools.get("wu_communities_announce")!.handler({ community: COMMUNITY, message: "Bin day moved" })).content[0].text
+    );
+    assert.equal(sent.jid, ANNOUNCE);
+    const send = calls.find((c) => c.method === "sendMessage")!;
+    assert.deepEqual(send.args.slice(0, 2), [ANNOUNCE, { text: "Bin day moved" }]);
+  });
+});
+
+describe("community members", () => {
+  it("unions the participants of the community and its readable subgroups", () => {
+    group(TEAM, { linked_parent: COMMUNITY });
+    group(SECRET, { linked_parent: COMMUNITY });
+    store.upsertGroupParticipants(COMMUNITY, [{ jid: ALICE, isAdmin: true, isSuperAdmin: true }]);
+    store.upsertGroupParticipants(TEAM, [
+      { jid: ALICE, isAdmin: false, isSuperAdmin: false },
+      { jid: BOB, isAdmin: false, isSuperAdmin: false },
+    ]);
+    store.upsertGroupParticipants(SECRET, [{ jid: "15550009999@s.whatsapp.net", isAdmin: false, isSuperAdmin: false }]);
+
+    const result = communities.communityMembers(COMMUNITY, config());
+    assert.deepEqual(result.skipped, [SECRET]);
+    assert.deepEqual(result.members, [
+      { jid: ALICE, groups: [COMMUNITY, TEAM], is_admin: true },
+      { jid: BOB, groups: [TEAM], is_admin: false },
+    ]);
+  });
+
+  it("refuses a community that isn't readable or isn't a community", () => {
+    assert.throws(() => communities.communityMembers(TEAM, config()), /Not a known community/);
+    group("blocked@g.us", { is_community: 1 });
+    assert.throws(() => communities.communityMembers("blocked@g.us", config()), /blocked by constraints/);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, mkdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { makeFakeMcp } from "./helpers/fake-mcp.js";
+
+const home = mkdtempSync(join(tmpdir(), "wu-constraint-reads-"));
+process.env.WU_HOME = home;
+mkdirSync(join(home, "auth"), { recursive: true });
+
+let database: typeof import("../src/db/database.js");
+let store: typeof import("../src/core/store.js");
+let service: typeof import("../src/core/service.js");
+let exporter: typeof import("../src/core/export.js");
+let constraints: typeof import("../src/core/constraints.js");
+let toolsMod: typeof import("../src/mcp/tools.js");
+let schema: typeof import("../src/config/schema.js");
+
+const TEAM = "team@g.us";
+const ALICE = "15550001111@s.whatsapp.net";
+const MALLORY = "15550009999@s.whatsapp.net";
+
+// Only Alice is collected in the team chat. "spam" was stored before the
+// filter was added, so it's in the database anyway.
+function config() {
+  return schema.WuConfigSchema.parse({
+    constraints: { default: "none", chats: { [TEAM]: { mode: "full", senders: [ALICE] } } },
+  });
+}
+
+function message(id: string, timestamp: number, extra: Partial<import("../src/core/store.js").MessageUpsert> = {}) {
+  store.upsertMessage({
+    id,
+    chat_jid: TEAM,
+    sender_jid: ALICE,
+    sender_name: "Alice",
+    body: id,
+    type: "text",
+    media_mime: null,
+    media_path: null,
+    media_size: null,
+    media_direct_path: null,
+    media_key: null,
+    media_file_sha256: null,
+    media_file_enc_sha256: null,
+    media_file_length: null,
+    quoted_id: null,
+    location_lat: null,
+    location_lon: null,
+    location_name: null,
+    is_from_me: 0,
+    timestamp,
+    raw: null,
+    ...extra,
+  });
+}
+
+before(async () => {
+  database = await import("../src/db/database.js");
+  store = await import("../src/core/store.js");
+  service = await import("../src/core/service.js");
+  exporter = await import("../src/core/export.js");
+  constraints = await import("../src/core/constraints.js");
+  toolsMod = await import("../src/mcp/tools.js");
+  schema = await import("../src/config/schema.js");
+  schema.saveConfig(config());
+  database.getDb();
+
+  message("first", 1767261600);
+  message("spam", 1767261660, { sender_jid: MALLORY, sender_name: "Mallory" });
+  message("second", 1767261720, { quoted_id: "spam" });
+});
+
+after(() => {
+  database.closeDb();
+  rmSync(home, { recursive: true, force: true });
+});
+
+describe("reads apply the chat's sender and type filters to stored rows", () => {
+  it("lists only the allowed senders", async () => {
+    const listed = service.listMessagesForConfig(config(), { chatJid: TEAM, limit: 50 })!;
+    assert.deepEqual(listed.map((m) => m.id), ["second", "first"]);
+
+    const { server, tools } = makeFakeMcp();
+    toolsMod.registerTools(server as never, () => undefined, config());
+    const res = JSON.parse((await tools.get("wu_messages_list")!.handler({ chat: TEAM, limit: 50 })).content[0].text);
+    assert.deepEqual(res.map((m: { id: string }) => m.id), ["second", "first"]);
+  });
+
+  it("leaves filtered rows out of a message's context", async () => {
+    const { server, tools } = makeFakeMcp();
+    toolsMod.registerTools(server as never, () => undefined, config());
+    const context = async (id: string) =>
+      (await tools.get("wu_messages_context")!.handler({ message_id: id, before: 10, after: 10 })).content[0].text;
+
+    const res = JSON.parse(await context("first"));
+    assert.deepEqual(res.after.map((m: { id: string }) => m.id), ["second"]);
+    assert.equal(res.after[0].quoted_snippet, null);
+    assert.match(await context("spam"), /Message not found: spam/);
+  });
+
+  it("leaves filtered rows and quotes of them out of an export", () => {
+    const output = join(home, "export.md");
+    const result = exporter.exportMessages({
+      chatJid: TEAM,
+      format: "markdown",
+      output,
+      visiblePredicate: constraints.constraintSqlPredicate("chat_jid", config(), { message: constraints.MESSAGE_COLUMNS }),
+    });
+    assert.equal(result.messages_exported, 2);
+    const text = readFileSync(output, "utf-8");
+    assert.ok(!text.includes("spam") && !text.includes("Mallory"), text);
+  });
+});
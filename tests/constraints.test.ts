@@ -1,10 +1,13 @@
 import { describe, it } from "node:test";
 import assert from "node:assert/strict";
+import Database from "better-sqlite3";
 import { WuConfigSchema } from "../src/config/schema.js";
 import {
   resolveConstraint,
   assertCanSend,
   shouldCollect,
+  constraintSqlPredicate,
+  MESSAGE_COLUMNS,
 } from "../src/core/constraints.js";
 
 describe("resolveConstraint", () => {
@@ -134,3 +137,130 @@ describe("shouldCollect", () => {
     assert.equal(shouldCollect("blocked@g.us", config), false);
   });
 });
+
+// Local times on Monday 2026-03-02.
+const at = (h: number, m = 0) => Math.floor(new Date(2026, 2, 2, h, m).getTime() / 1000);
+
+describe("time-bounded constraints", () => {
+  const config = WuConfigSchema.parse({
+    constraints: {
+      default: "none",
+      chats: {
+        "temp@g.us": { mode: "full", expires_at: new Date(at(12) * 1000).toISOString() },
+        "office@g.us": { mode: "full", hours: "09:00-18:00" },
+        "night@g.us": { mode: "read", hours: "22:00-06:00" },
+        "*@g.us": { mode: "read" },
+      },
+    },
+  });
+
+  it("falls through to the wildcard once an entry has expired", () => {
+    assert.equal(resolveConstraint("temp@g.us", config, at(11)), "full");
+    assert.equal(resolveConstraint("temp@g.us", config, at(12)), "read");
+  });
+
+  it("applies an hours window, including one that wraps midnight", () => {
+    assert.equal(resolveConstraint("office@g.us", config, at(9)), "full");
+    assert.equal(resolveConstraint("office@g.us", config, at(18)), "read");
+    assert.equal(resolveConstraint("night@g.us", config, at(23)), "read");
+    assert.equal(resolveConstraint("night@g.us", config, at(5, 59)), "read");
+  });
+
+  it("refuses sends outside the window and says why", () => {
+    assert.doesNotThrow(() => assertCanSend("office@g.us", config, at(10)));
+    assert.throws(() => assertCanSend("office@g.us", config, at(20)), /read-only \(full access only 09:00-18:00\)/);
+    assert.throws(() => assertCanSend("temp@g.us", config, at(13)), /full access expired/);
+  });
+
+  it("rejects a malformed expires_at or hours", () => {
+    assert.throws(() => WuConfigSchema.parse({ constraints: { chats: { "a@g.us": { mode: "read", expires_at: "soon" } } } }));
+    assert.throws(() => WuConfigSchema.parse({ constraints: { chats: { "a@g.us": { mode: "read", hours: "9-5" } } } }));
+    for (const hours of ["25:99-99:00", "24:00-06:00", "09:60-18:00"]) {
+      assert.throws(() => WuConfigSchema.parse({ constraints: { chats: { "a@g.us": { mode: "read", hours } } } }), /hours must look like/, hours);
+    }
+    assert.doesNotThrow(() => WuConfigSchema.parse({ constraints: { chats: { "a@g.us": { mode: "read", hours: "9:05-23:59" } } } }));
+  });
+});
+
+describe("per-message constraint filters", () => {
+  const config = WuConfigSchema.parse({
+    constraints: {
+      default: "read",
+      chats: {
+        "team@g.us": { mode: "read", senders: ["111@s.whatsapp.net", "*@lid"], skip_types: ["sticker"] },
+        "*@s.whatsapp.net": { mode: "read", types: ["text", "image"] },
+      },
+    },
+  });
+  const msg = (senderJid: string | null, type = "text", isFromMe = false) => ({ senderJid, type, isFromMe });
+
+  it("collects only allowed senders in a group, and always our own messages", () => {
+    assert.equal(shouldCollect("team@g.us", config, msg("111@s.whatsapp.net")), true);
+    assert.equal(shouldCollect("team@g.us", config, msg("999@lid")), true);
+    assert.equal(shouldCollect("team@g.us", config, msg("222@s.whatsapp.net")), false);
+    assert.equal(shouldCollect("team@g.us", config, msg(null, "text", true)), true);
+    // The chat itself is still collected.
+    assert.equal(shouldCollect("team@g.us", config), true);
+  });
+
+  it("applies type allow and skip lists", () => {
+    assert.equal(shouldCollect("team@g.us", config, msg("111@s.whatsapp.net", "sticker")), false);
+    assert.equal(shouldCollect("1@s.whatsapp.net", config, msg("1@s.whatsapp.net", "image")), true);
+    assert.equal(shouldCollect("1@s.whatsapp.net", config, msg("1@s.whatsapp.net", "audio")), false);
+  });
+});
+
+// The SQL predicate must agree with shouldCollect row for row, including the
+// time bounds and the per-message filters.
+describe("constraintSqlPredicate parity", () => {
+  it("selects exactly the rows shouldCollect accepts", () => {
+    const config = WuConfigSchema.parse({
+      constraints: {
+        default: "none",
+        chats: {
+          "team@g.us": { mode: "read", senders: ["111@s.whatsapp.net", "*@lid"], skip_types: ["sticker"] },
+          "expired@g.us": { mode: "full", expires_at: new Date(at(8) * 1000).toISOString() },
+          "office@g.us": { mode: "read", hours: "09:00-17:00", types: ["text"] },
+          "closed@g.us": { mode: "read", hours: "20:00-21:00" },
+          "gone@g.us": { mode: "none" },
+          "*@g.us": { mode: "read", skip_types: ["reaction"] },
+          "*@s.whatsapp.net": { mode: "full" },
+        },
+      },
+    });
+    const now = at(10);
+
+    const db = new Database(":memory:");
+    db.exec("CREATE TABLE m (id INTEGER PRIMARY KEY, chat_jid TEXT, sender_jid TEXT, type TEXT, is_from_me INTEGER)");
+    const insert = db.prepare("INSERT INTO m (chat_jid, sender_jid, type, is_from_me) VALUES (?, ?, ?, ?)");
+    const chats = ["team@g.us", "expired@g.us", "office@g.us", "closed@g.us", "gone@g.us", "other@g.us", "1@s.whatsapp.net", "x@lid"];
+    const senders = ["111@s.whatsapp.net", "222@s.whatsapp.net", "5@lid", null];
+    const types = ["text", "sticker", "image", "reaction"];
+    const rows: Array<{ id: number; chat: string; sender: string | null; type: string; fromMe: boolean }> = [];
+    for (const chat of chats)
+      for (const sender of senders)
+        for (const type of types)
+          for (const fromMe of [false, true]) {
+            const id = Number(insert.run(chat, sender, type, fromMe ? 1 : 0).lastInsertRowid);
+            rows.push({ id, chat, sender, type, fromMe });
+          }
+
+    const pred = constraintSqlPredicate("chat_jid", config, { message: MESSAGE_COLUMNS, now });
+    const viaSql = (db.prepare(`SELECT id FROM m WHERE ${pred.sql} ORDER BY id`).all(...pred.params) as Array<{ id: number }>).map(
+      (r) => r.id
+    );
+    const viaJs = rows
+      .filter((r) => shouldCollect(r.chat, config, { senderJid: r.sender, type: r.type, isFromMe: r.fromMe }, now))
+      .map((r) => r.id);
+    assert.deepEqual(viaSql, viaJs);
+    assert.ok(viaJs.length > 0 && viaJs.length < rows.length);
+
+    // Without message columns it is the chat-level check.
+    const chatPred = constraintSqlPredicate("chat_jid", config, { now });
+    const visibleChats = (
+      db.prepare(`SELECT DISTINCT chat_jid FROM m WHERE ${chatPred.sql} ORDER BY chat_jid`).all(...chatPred.params) as Array<{ chat_jid: string }>
+    ).map((r) => r.chat_jid);
+    assert.deepEqual(visibleChats, chats.filter((c) => shouldCollect(c, config, undefined, now)).sort());
+    db.close();
+  });
+});
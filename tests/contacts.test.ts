@@ -0,0 +1,203 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, mkdirSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import type { WASocket } from "@whiskeysockets/baileys";
+import { makeFakeSocket } from "./helpers/fake-socket.js";
+import { makeFakeMcp } from "./helpers/fake-mcp.js";
+
+const home = mkdtempSync(join(tmpdir(), "wu-contacts-"));
+process.env.WU_HOME = home;
+mkdirSync(join(home, "auth"), { recursive: true });
+
+let database: typeof import("../src/db/database.js");
+let store: typeof import("../src/core/store.js");
+let contacts: typeof import("../src/core/contacts.js");
+let toolsMod: typeof import("../src/mcp/tools.js");
+let schema: typeof import("../src/config/schema.js");
+
+before(async () => {
+  database = await import("../src/db/database.js");
+  store = await import("../src/core/store.js");
+  contacts = await import("../src/core/contacts.js");
+  toolsMod = await import("../src/mcp/tools.js");
+  schema = await import("../src/config/schema.js");
+  database.getDb();
+});
+
+after(() => {
+  database.closeDb();
+  rmSync(home, { recursive: true, force: true });
+});
+
+const ALICE = "15550001111@s.whatsapp.net";
+const SHOP = "15550002222@s.whatsapp.net";
+
+function config() {
+  return schema.WuConfigSchema.parse({ constraints: { default: "full" } });
+}
+
+// WhatsApp's "you may not see this" answer, shaped like Baileys' Boom errors.
+function hidden(): Error {
+  return Object.assign(new Error("not-authorized"), { output: { statusCode: 401 } });
+}
+
+interface Profiles {
+  picture?: string | Error;
+  about?: { status: string | null; setAt?: Date } | Error;
+  business?: Record<string, unknown> | Error;
+}
+
+function profileSocket(byJid: Record<string, Profiles>): WASocket {
+  const answer = async <T>(value: T | Error | undefined) => {
+    if (value instanceof Error) throw value;
+    return value;
+  };
+  return Object.assign(makeFakeSocket().sock, {
+    profilePictureUrl: (jid: string) => answer(byJid[jid]?.picture),
+    fetchStatus: async (jid: string) => {
+      const about = await answer(byJid[jid]?.about);
+      return about ? [{ id: jid, status: about }] : [];
+    },
+    getBusinessProfile: (jid: string) => answer(byJid[jid]?.business),
+  }) as WASocket;
+}
+
+describe("contact refresh", () => {
+  it("stores about text, picture URL and business profile with the fetch time", async () => {
+    const sock = profileSocket({
+      [SHOP]: {
+        picture: "https://pps.whatsapp.net/shop.jpg",
+        about: { status: "Open 9-5", setAt: new Date(1700000000 * 1000) },
+        business: {
+          category: "Bakery",
+          description: "Fresh bread",
+          website: ["https://shop.example", ""],
+          email: "hi@shop.example",
+          address: "1 Main St",
+        },
+      },
+    });
+    const row = await contacts.refreshContact(sock, SHOP, config());
+
+    assert.equal(row.phone, "15550002222");
+    assert.equal(row.about, "Open 9-5");
+    assert.equal(row.about_set_at, 1700000000);
+    assert.equal(row.picture_url, "https://pps.whatsapp.net/shop.jpg");
+    assert.equal(row.is_business, 1);
+    assert.equal(row.business_category, "Bakery");
+    assert.equal(row.business_website, "https://shop.example");
+    assert.equal(row.business_email, "hi@shop.example");
+    assert.equal(row.business_address, "1 Main St");
+    assert.ok(row.profile_fetched_at);
+  });
+
+  it("treats hidden fields as empty and clears what was there before", async () => {
+    store.upsertContact({ jid: ALICE, phone: "15550001111", push_name: "Alice", saved_name: null, is_business: 0 });
+    await contacts.refreshContact(profileSocket({ [ALICE]: { picture: "https://pps.whatsapp.net/a.jpg", about: { status: "hi" } } }), ALICE, config());
+
+    const row = await contacts.refreshContact(profileSocket({ [ALICE]: { picture: hidden(), about: hidden() } }), ALICE, config());
+    assert.equal(row.push_name, "Alice");
+    assert.equal(row.picture_url, null);
+    assert.equal(row.about, null);
+    assert.equal(row.is_business, 0);
+  });
+
+  it("reports real failures per contact without stopping the batch", async () => {
+    const sock = profileSocket({ [ALICE]: { about: new Error("timed out") }, [SHOP]: { about: { status: "still open" } } });
+    const { results, errors } = await contacts.refreshContacts(sock, [ALICE, SHOP], config());
+    assert.deepEqual(results.map((r) => r.about), ["still open"]);
+    assert.deepEqual(errors, [{ jid: ALICE, error: "timed out" }]);
+  });
+
+  it("picks never-fetched and stale contacts, oldest first", () => {
+    store.upsertContact({ jid: "15550003333@s.whatsapp.net", phone: "15550003333", push_name: "Bob", saved_name: null, is_business: 0 });
+    const now = Math.floor(Date.now() / 1000);
+    assert.deepEqual(store.listContactsToRefresh(now - 3600, 10).map((c) => c.jid), ["15550003333@s.whatsapp.net"]);
+    assert.equal(store.listContactsToRefresh(now + 3600, 10)[0]!.jid, "15550003333@s.whatsapp.net");
+    assert.equal(store.listContactsToRefresh(now + 3600, 10).length, 3);
+  });
+});
+
+describe("wu_contacts_info", () => {
+  it("returns the stored profile and can refresh it over the live socket first", async () => {
+    const { server, tools } = makeFakeMcp();
+    const sock = profileSocket({ [SHOP]: { about: { status: "Closed today" }, business: { category: "Bakery", website: [] } } });
+    toolsMod.registerTools(server as never, () => sock, config());
+    const info = tools.get("wu_contacts_info")!;
+
+    const cached = JSON.parse((await info.handler({ jid: SHOP, refresh: false })).content[0].text);
+    assert.equal(cached.about, "still open");
+
+    const fresh = JSON.parse((await info.handler({ jid: SHOP, refresh: true })).content[0].text);
+    assert.equal(fresh.about, "Closed today");
+    assert.equal(fresh.business_category, "Bakery");
+
+    const missing = await info.handler({ jid: "nobody@s.whatsapp.net", refresh: false });
+    assert.equal(missing.isError, true);
+  });
+});
+
+describe("number check", () => {
+  it("normalizes numbers to E.164", () => {
+    assert.equal(contacts.normalizePhone("+1 (555) 000-1111"), "+15550001111");
+    assert.equal(contacts.normalizePhone("0044 20 7946 0000"), "+442079460000");
+    assert.equal(contacts.normalizePhone("020 7946 0000", "44"), "+442079460000");
+    assert.equal(contacts.normalizePhone("15550001111"), "+15550001111");
+    assert.equal(contacts.normalizePhone("12345"), null);
+    assert.equal(contacts.normalizePhone("call me"), null);
+  });
+
+  it("reads one column of a CSV, skipping its header", () => {
+    const csv = 'name,phone\n"Doe, Jane",+15550004444\nBob,\n';
+    assert.deepEqual(contacts.readCsvPhones(csv, "phone"), ["+15550004444"]);
+    assert.deepEqual(contacts.readCsvPhones("phone\n+15550004444\n+15550005555"), ["+15550004444", "+15550005555"]);
+    assert.throws(() => contacts.readCsvPhones(csv, "mobile"), /No "mobile" column/);
+  });
+
+  it("returns exists/jid/is_business per number and saves the ones found", async () => {
+    const asked: string[][] = [];
+    const sock = Object.assign(makeFakeSocket().sock, {
+      onWhatsApp: async (...phones: string[]) => {
+        asked.push(phones);
+        return [{ jid: "15550004444@s.whatsapp.net", exists: true }];
+      },
+      getBusinessProfile: async (jid: string) => (jid.startsWith("1555000") ? { category: "Shop" } : undefined),
+    }) as WASocket;
+
+    const checks = await contacts.checkNumbers(sock, ["+1 555 000 4444", "+15550005555", "nope"], { save: true, business: true });
+    assert.deepEqual(asked, [["+15550004444", "+15550005555"]]);
+    assert.deepEqual(
+      checks.map((c) => [c.phone, c.exists, c.jid, c.is_business]),
+      [
+        ["+15550004444", true, "15550004444@s.whatsapp.net", true],
+        ["+15550005555", false, null, null],
+        [null, false, null, null],
+      ]
+    );
+    assert.equal(checks[2]!.error, "not a valid phone number");
+    assert.equal(store.getContact("15550004444@s.whatsapp.net")?.is_business, 1);
+    assert.equal(store.getContact("15550005555@s.whatsapp.net"), undefined);
+  });
+
+  it("only looks up business profiles when asked, and saves new contacts as not a business", async () => {
+    let lookups = 0;
+    const sock = Object.assign(makeFakeSocket().sock, {
+      onWhatsApp: async () => [{ jid: "15550006666@s.whatsapp.net", exists: true }],
+      getBusinessProfile: async () => {
+        lookups++;
+        return { category: "Shop" };
+      },
+    }) as WASocket;
+
+    const [check] = await contacts.checkNumbers(sock, ["+15550006666"], { save: true });
+    assert.deepEqual([check!.exists, check!.is_business, lookups], [true, null, 0]);
+    assert.equal(store.getContact("15550006666@s.whatsapp.net")?.is_business, 0);
+
+    // A later check without the lookup keeps what an earlier one found.
+    await contacts.checkNumbers(sock, ["+15550006666"], { save: true, business: true });
+    await contacts.checkNumbers(sock, ["+15550006666"], { save: true });
+    assert.equal(store.getContact("15550006666@s.whatsapp.net")?.is_business, 1);
+  });
+});
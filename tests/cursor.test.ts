@@ -0,0 +1,126 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, mkdirSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { makeFakeMcp } from "./helpers/fake-mcp.js";
+
+const home = mkdtempSync(join(tmpdir(), "wu-cursor-"));
+process.env.WU_HOME = home;
+mkdirSync(join(home, "auth"), { recursive: true });
+
+let database: typeof import("../src/db/database.js");
+let store: typeof import("../src/core/store.js");
+let toolsMod: typeof import("../src/mcp/tools.js");
+let schema: typeof import("../src/config/schema.js");
+
+const TEAM = "team@g.us";
+
+function config() {
+  return schema.WuConfigSchema.parse({ constraints: { default: "full" } });
+}
+
+function message(id: string, body: string, timestamp: number) {
+  store.upsertMessage({
+    id,
+    chat_jid: TEAM,
+    sender_jid: "15550001111@s.whatsapp.net",
+    sender_name: "Alice",
+    body,
+    type: "text",
+    media_mime: null,
+    media_path: null,
+    media_size: null,
+    media_direct_path: null,
+    media_key: null,
+    media_file_sha256: null,
+    media_file_enc_sha256: null,
+    media_file_length: null,
+    quoted_id: null,
+    location_lat: null,
+    location_lon: null,
+    location_name: null,
+    is_from_me: 0,
+    timestamp,
+    raw: null,
+  });
+}
+
+// Follow next_cursor until it runs out, collecting every page.
+function pages<T>(read: (cursor: string | undefined) => T[] & { next_cursor: string | null }): T[][] {
+  const all: T[][] = [];
+  let cursor: string | undefined;
+  do {
+    const page = read(cursor);
+    all.push([...page]);
+    cursor = page.next_cursor ?? undefined;
+  } while (cursor);
+  return all;
+}
+
+before(async () => {
+  database = await import("../src/db/database.js");
+  store = await import("../src/core/store.js");
+  toolsMod = await import("../src/mcp/tools.js");
+  schema = await import("../src/config/schema.js");
+  schema.saveConfig(config());
+  database.getDb();
+
+  store.upsertChat({ jid: TEAM, name: "Team", type: "group", participant_count: null, description: null, last_message_at: null });
+  // Three messages share a timestamp, so a page boundary falls inside the tie.
+  message("m1", "budget draft", 1767000000);
+  message("m2", "budget final", 1767000100);
+  message("m3", "budget notes", 1767000100);
+  message("m4", "budget budget", 1767000100);
+  message("m5", "lunch", 1767000200);
+});
+
+after(() => {
+  database.closeDb();
+  rmSync(home, { recursive: true, force: true });
+});
+
+describe("cursor pagination", () => {
+  it("pages messages newest first without skipping or repeating ties", () => {
+    const all = pages((cursor) => store.listMessages({ chatJid: TEAM, limit: 2, cursor }));
+    assert.deepEqual(all.map((p) => p.map((m) => m.id)), [["m5", "m4"], ["m3", "m2"], ["m1"]]);
+  });
+
+  it("pages ranked search results in rank order", () => {
+    const whole = store.searchMessages("budget", { limit: 10 }).map((r) => r.id);
+    const paged = pages((cursor) => store.searchMessages("budget", { limit: 3, cursor })).flat().map((r) => r.id);
+    assert.equal(whole.length, 4);
+    assert.deepEqual(paged, whole);
+  });
+
+  it("pages filter-only searches newest first", () => {
+    const all = pages((cursor) => store.searchMessages("after:1767000050", { limit: 2, cursor }));
+    assert.deepEqual(all.map((p) => p.map((r) => r.id)), [["m5", "m4"], ["m3", "m2"]]);
+  });
+
+  it("rejects a cursor from another listing or a made-up one", () => {
+    const cursor = store.listMessages({ chatJid: TEAM, limit: 1 }).next_cursor!;
+    assert.throws(() => store.searchMessages("budget", { cursor }), /Invalid cursor: it belongs to a different listing/);
+    assert.throws(() => store.listMessages({ chatJid: TEAM, cursor: "nonsense" }), /Invalid cursor/);
+  });
+
+  it("returns next_cursor from the MCP read tools when asked to page", async () => {
+    const { server, tools } = makeFakeMcp();
+    toolsMod.registerTools(server as never, () => undefined, config());
+    const list = tools.get("wu_messages_list")!;
+
+    // Without paged or a cursor the answer stays the bare array.
+    const plain = JSON.parse((await list.handler({ chat: TEAM, limit: 4 })).content[0].text);
+    assert.ok(Array.isArray(plain) && plain.length === 4);
+
+    const first = JSON.parse((await list.handler({ chat: TEAM, limit: 4, paged: true })).content[0].text);
+    assert.equal(first.messages.length, 4);
+    const second = JSON.parse((await list.handler({ chat: TEAM, limit: 4, cursor: first.next_cursor })).content[0].text);
+    assert.deepEqual(second.messages.map((m: { id: string }) => m.id), ["m1"]);
+    assert.equal(second.next_cursor, null);
+
+    const bad = await list.handler({ chat: TEAM, limit: 4, cursor: "nonsense" });
+    assert.equal(bad.isError, true);
+    assert.match(bad.content[0].text, /Invalid cursor/);
+  });
+});
@@ -7,6 +7,7 @@ function cfg(over: Partial<EnrichConfig> = {}): EnrichConfig {
   return {
     transcribe: { backend: "local", local: { cmd: "whisper {input}" }, api: { base_url: "https://x/v1", key_env: "NOPE_KEY", model: "m" } },
     ocr: { backend: "local", local: { cmd: "tesseract {input} stdout" }, api: { base_url: "https://x/v1", key_env: "NOPE_KEY", model: "m" } },
+    embed: { backend: "off", local: { cmd: "llm embed -c {text}" } },
     ...over,
   } as EnrichConfig;
 }
@@ -42,9 +43,9 @@ describe("resolveBackend", () => {
 });
 
 describe("enrichStatus", () => {
-  it("covers both capabilities", () => {
+  it("covers every capability", () => {
     const rows = enrichStatus(cfg());
-    assert.deepEqual(rows.map((r) => r.capability).sort(), ["ocr", "transcribe"]);
+    assert.deepEqual(rows.map((r) => r.capability).sort(), ["embed", "ocr", "transcribe"]);
   });
 });
 
@@ -176,7 +176,7 @@ describe("withFtsRecovery on update/delete writes", () => {
     const db = database.getDb();
     const restore = throwOnceOnRun(
       db,
-      "UPDATE messages SET body = NULL, type = 'deleted', raw = NULL WHERE id = ?"
+      "UPDATE messages SET body = NULL, type = 'deleted', raw = NULL, edited_at = NULL WHERE id = ?"
     );
     try {
       store.markMessageDeleted("m-mark-deleted");
@@ -0,0 +1,190 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, mkdirSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import type { WASocket } from "@whiskeysockets/baileys";
+import { makeFakeSocket, type RecordedCall } from "./helpers/fake-socket.js";
+import { makeFakeMcp } from "./helpers/fake-mcp.js";
+
+const home = mkdtempSync(join(tmpdir(), "wu-groups-admin-"));
+process.env.WU_HOME = home;
+mkdirSync(join(home, "auth"), { recursive: true });
+
+let database: typeof import("../src/db/database.js");
+let store: typeof import("../src/core/store.js");
+let groups: typeof import("../src/core/groups.js");
+let toolsMod: typeof import("../src/mcp/tools.js");
+let schema: typeof import("../src/config/schema.js");
+
+before(async () => {
+  database = await import("../src/db/database.js");
+  store = await import("../src/core/store.js");
+  groups = await import("../src/core/groups.js");
+  toolsMod = await import("../src/mcp/tools.js");
+  schema = await import("../src/config/schema.js");
+  database.getDb();
+});
+
+after(() => {
+  database.closeDb();
+  rmSync(home, { recursive: true, force: true });
+});
+
+const GROUP = "team@g.us";
+const ME = "15550000000@s.whatsapp.net";
+const ALICE = "15550001111@s.whatsapp.net";
+const BOB = "15550002222@s.whatsapp.net";
+
+function config() {
+  return schema.WuConfigSchema.parse({
+    constraints: { default: "read", chats: { [GROUP]: { mode: "full" } } },
+  });
+}
+
+// A group admin's socket: membership changes apply to `members`, which the
+// follow-up groupMetadata call reports back.
+function adminSocket(pending: string[] = []): { sock: WASocket; calls: RecordedCall[]; members: Map<string, string | null> } {
+  const fake = makeFakeSocket();
+  const members = new Map<string, string | null>([[ME, "superadmin"], [ALICE, null]]);
+  const record = (method: string, args: unknown[]) => fake.calls.push({ method, args });
+  const sock = Object.assign(fake.sock, {
+    groupParticipantsUpdate: async (jid: string, participants: string[], action: string) => {
+      record("groupParticipantsUpdate", [jid, participants, action]);
+      for (const p of participants) {
+        if (action === "add") members.set(p, null);
+        if (action === "remove") members.delete(p);
+        if (action === "promote") members.set(p, "admin");
+        if (action === "demote") members.set(p, null);
+      }
+      return participants.map((p) => ({ jid: p, status: "200" }));
+    },
+    groupMetadata: async (jid: string) => ({
+      id: jid,
+      subject: "Team",
+      desc: "",
+      participants: [...members].map(([id, admin]) => ({ id, admin })),
+    }),
+    groupUpdateDescription: async (...args: unknown[]) => void record("groupUpdateDescription", args),
+    groupSettingUpdate: async (...args: unknown[]) => void record("groupSettingUpdate", args),
+    groupToggleEphemeral: async (...args: unknown[]) => void record("groupToggleEphemeral", args),
+    groupJoinApprovalMode: async (...args: unknown[]) => void record("groupJoinApprovalMode", args),
+    groupRequestParticipantsList: async () => pending.map((jid) => ({ jid, request_time: "1700000000" })),
+    groupRequestParticipantsUpdate: async (jid: string, participants: string[], action: string) => {
+      record("groupRequestParticipantsUpdate", [jid, participants, action]);
+      if (action === "approve") for (const p of participants) members.set(p, null);
+      return participants.map((p) => ({ jid: p, status: "200" }));
+    },
+    groupRevokeInvite: async (jid: string) => {
+      record("groupRevokeInvite", [jid]);
+      return "NEWCODE";
+    },
+  }) as WASocket;
+  return { sock, calls: fake.calls, members };
+}
+
+const cached = () => store.getGroupParticipants(GROUP).map((p) => [p.participant_jid, p.is_admin]);
+
+describe("group participants", () => {
+  it("adds and promotes participants and keeps group_participants in sync", async () => {
+    const { sock } = adminSocket();
+    const added = await groups.updateParticipants(sock, GROUP, [BOB], "add", config());
+    assert.deepEqual(added, [{ jid: BOB, status: "200" }]);
+    await groups.updateParticipants(sock, GROUP, [ALICE], "promote", config());
+
+    assert.deepEqual(cached().sort(), [[ME, 1], [ALICE, 1], [BOB, 0]].sort());
+    assert.equal(store.getChatByJid(GROUP)?.participant_count, 3);
+  });
+
+  it("refuses groups without a full constraint and records the denial", async () => {
+    const { sock, calls } = adminSocket();
+    await assert.rejects(
+      () => groups.updateParticipants(sock, "other@g.us", [BOB], "remove", config()),
+      /Constraint violation/
+    );
+    assert.equal(calls.length, 0);
+    const entry = store.listAuditEntries({ limit: 1 })[0]!;
+    assert.deepEqual([entry.action, entry.result], ["group_participants", "denied"]);
+  });
+});
+
+describe("group settings", () => {
+  it("applies only the settings given and stores the new description", async () => {
+    const { sock, calls } = adminSocket();
+    await groups.updateGroupSettings(sock, GROUP, { description: "Weekly sync", announce: true, ephemeral: 604800 }, config());
+    assert.deepEqual(
+      calls.map((c) => [c.method, ...c.args]),
+      [
+        ["groupUpdateDescription", GROUP, "Weekly sync"],
+        ["groupSettingUpdate", GROUP, "announcement"],
+        ["groupToggleEphemeral", GROUP, 604800],
+      ]
+    );
+    assert.equal(store.getChatByJid(GROUP)?.description, "Weekly sync");
+
+    await groups.updateGroupSettings(sock, GROUP, { description: null, locked: false, join_approval: true }, config());
+    assert.equal(store.getChatByJid(GROUP)?.description, null);
+    assert.deepEqual(calls.slice(3).map((c) => c.args[1]), [undefined, "unlocked", "on"]);
+  });
+
+  it("only accepts the disappearing-message timers WhatsApp offers", async () => {
+    assert.equal(groups.parseEphemeral("90d"), 7776000);
+    assert.equal(groups.parseEphemeral("off"), 0);
+    assert.throws(() => groups.parseEphemeral("1h"), /use off, 24h, 7d or 90d/);
+    await assert.rejects(() => groups.updateGroupSettings(adminSocket().sock, GROUP, { ephemeral: 3600 }, config()), /only be off/);
+  });
+});
+
+describe("join requests and invites", () => {
+  it("approves every pending request with \"all\" and syncs the new members", async () => {
+    const { sock, calls } = adminSocket([BOB]);
+    assert.deepEqual(await groups.listJoinRequests(sock, GROUP, config()), [{ jid: BOB, requested_at: 1700000000 }]);
+
+    const results = await groups.decideJoinRequests(sock, GROUP, "all", "approve", config());
+    assert.deepEqual(results, [{ jid: BOB, status: "200" }]);
+    assert.deepEqual(calls.at(-1)!.args, [GROUP, [BOB], "approve"]);
+    assert.ok(cached().some(([jid]) => jid === BOB));
+  });
+
+  it("revokes the invite link", async () => {
+    const { sock } = adminSocket();
+    assert.equal(await groups.revokeInvite(sock, GROUP, config()), "NEWCODE");
+    await assert.rejects(() => groups.revokeInvite(sock, "other@g.us", config()), /Constraint violation/);
+  });
+});
+
+describe("group admin MCP tools", () => {
+  function register(sock: WASocket) {
+    const { server, tools } = makeFakeMcp();
+    toolsMod.registerTools(server as never, () => sock, config());
+    return tools;
+  }
+
+  it("takes phone numbers for participants", async () => {
+    const { sock, calls } = adminSocket();
+    const res = await register(sock).get("wu_groups_participants")!.handler({
+      jid: GROUP,
+      action: "remove",
+      participants: ["+1 555 000 2222"],
+    });
+    assert.deepEqual(JSON.parse(res.content[0].text), [{ jid: BOB, status: "200" }]);
+    assert.deepEqual(calls[0]!.args, [GROUP, [BOB], "remove"]);
+  });
+
+  it("changes several settings in one call", async () => {
+    const { sock, calls } = adminSocket();
+    const settings = register(sock).get("wu_groups_settings")!;
+    const res = await settings.handler({ jid: GROUP, locked: true, ephemeral: "24h" });
+    assert.deepEqual(JSON.parse(res.content[0].text), { success: true, jid: GROUP, locked: true, ephemeral: 86400 });
+    assert.deepEqual(calls.map((c) => c.args[1]), ["locked", 86400]);
+
+    assert.equal((await settings.handler({ jid: GROUP })).isError, true);
+  });
+
+  it("needs participants to decide on join requests", async () => {
+    const requests = register(adminSocket([BOB]).sock).get("wu_groups_requests")!;
+    assert.equal((await requests.handler({ jid: GROUP, action: "reject" })).isError, true);
+    const listed = JSON.parse((await requests.handler({ jid: GROUP, action: "list" })).content[0].text);
+    assert.deepEqual(listed.map((r: { jid: string }) => r.jid), [BOB]);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, mkdirSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { makeFakeMcp } from "./helpers/fake-mcp.js";
+
+const home = mkdtempSync(join(tmpdir(), "wu-inbox-"));
+process.env.WU_HOME = home;
+mkdirSync(join(home, "auth"), { recursive: true });
+
+let database: typeof import("../src/db/database.js");
+let store: typeof import("../src/core/store.js");
+let inboxMod: typeof import("../src/core/inbox.js");
+let toolsMod: typeof import("../src/mcp/tools.js");
+let audit: typeof import("../src/core/audit.js");
+let schema: typeof import("../src/config/schema.js");
+
+const TEAM = "team@g.us";
+const SECRET = "secret@g.us";
+const ALICE = "15550001111@s.whatsapp.net";
+const BOB = "15550002222@s.whatsapp.net";
+// 2026-01-01 10:00 UTC
+const T = 1767261600;
+const NOW = T + 100;
+
+function config() {
+  return schema.WuConfigSchema.parse({ constraints: { default: "none", chats: { [TEAM]: { mode: "full" }, [ALICE]: { mode: "full" } } } });
+}
+
+function message(id: string, chat: string, timestamp: number, extra: Partial<import("../src/core/store.js").MessageUpsert> = {}) {
+  store.upsertMessage({
+    id,
+    chat_jid: chat,
+    sender_jid: ALICE,
+    sender_name: "Alice",
+    body: id,
+    type: "text",
+    media_mime: null,
+    media_path: null,
+    media_size: null,
+    media_direct_path: null,
+    media_key: null,
+    media_file_sha256: null,
+    media_file_enc_sha256: null,
+    media_file_length: null,
+    quoted_id: null,
+    location_lat: null,
+    location_lon: null,
+    location_name: null,
+    is_from_me: 0,
+    timestamp,
+    raw: null,
+    ...extra,
+  });
+}
+
+const read = (opts: Partial<import("../src/core/inbox.js").InboxOptions> = {}) =>
+  inboxMod.inbox(config(), { limit: 50, perChat: 5, now: NOW, ...opts });
+
+before(async () => {
+  database = await import("../src/db/database.js");
+  store = await import("../src/core/store.js");
+  inboxMod = await import("../src/core/inbox.js");
+  toolsMod = await import("../src/mcp/tools.js");
+  audit = await import("../src/core/audit.js");
+  schema = await import("../src/config/schema.js");
+  schema.saveConfig(config());
+  database.getDb();
+
+  for (const [jid, name] of [[TEAM, "Team"], [ALICE, "Alice"], [SECRET, "Secret"]]) {
+    store.upsertChat({ jid: jid!, name: name!, type: jid === ALICE ? "dm" : "group", participant_count: null, description: null, last_message_at: null });
+  }
+  message("t1", TEAM, T + 10);
+  message("t2", TEAM, T + 20, { sender_jid: BOB, sender_name: "Bob" });
+  message("mine", TEAM, T + 30, { is_from_me: 1 });
+  message("t3", TEAM, T + 40);
+  message("d1", ALICE, T + 50);
+  message("s1", SECRET, T + 60);
+});
+
+after(() => {
+  database.closeDb();
+  rmSync(home, { recursive: true, force: true });
+});
+
+describe("inbox", () => {
+  it("starts with the last day when nothing is marked read", () => {
+    const box = read();
+    assert.equal(box.marked, false);
+    assert.deepEqual(box.chats.map((c) => [c.chat_jid, c.unread]), [[ALICE, 1], [TEAM, 3]]);
+    assert.equal(box.total_unread, 4);
+  });
+
+  it("shows the oldest unread messages per chat, counts the rest, and says how far they go", () => {
+    const box = read({ perChat: 2, limit: 1 });
+    assert.deepEqual([box.chats.length, box.total_chats], [1, 2]);
+    const team = read({ perChat: 2 }).chats.find((c) => c.chat_jid === TEAM)!;
+    assert.deepEqual([team.unread, team.messages.map((m) => m.id), team.up_to], [3, ["t1", "t2"], T + 20]);
+  });
+
+  it("stops up_to short of a left-out message in the same second", () => {
+    message("t2b", TEAM, T + 20);
+    try {
+      const team = read({ perChat: 2 }).chats.find((c) => c.chat_jid === TEAM)!;
+      assert.deepEqual([team.messages.map((m) => m.id), team.up_to], [["t1", "t2"], T + 19]);
+    } finally {
+      store.deleteMessage("t2b");
+    }
+  });
+
+  it("counts from each chat's marker or the all-chats one, whichever is later", () => {
+    inboxMod.markRead(config(), { chatJid: TEAM, upTo: T + 20, now: NOW });
+    assert.deepEqual(read().chats.map((c) => [c.chat_jid, c.unread]), [[ALICE, 1], [TEAM, 1]]);
+
+    const all = inboxMod.markRead(config(), { upTo: T + 45, now: NOW });
+    assert.deepEqual(all, { reader: "cli", chat_jid: null, read_at: T + 45 });
+    const box = read();
+    assert.equal(box.marked, true);
+    assert.deepEqual(box.chats.map((c) => c.chat_jid), [ALICE]);
+  });
+
+  it("never moves a marker back", () => {
+    assert.equal(inboxMod.markRead(config(), { upTo: T, now: NOW }).read_at, T + 45);
+  });
+
+  it("ignores the markers with since", () => {
+    assert.equal(read({ since: T }).total_unread, 4);
+  });
+
+  it("keeps blocked chats out", () => {
+    assert.ok(read({ since: T }).chats.every((c) => c.chat_jid !== SECRET));
+    assert.throws(() => inboxMod.markRead(config(), { chatJid: SECRET }), /secret@g\.us is blocked by constraints/);
+  });
+
+  it("triages through wu_inbox and wu_inbox_mark_read, with the agent's own markers", async () => {
+    const { server, tools } = makeFakeMcp();
+    toolsMod.registerTools(server as never, () => undefined, config());
+    const call = (name: string, params: Record<string, unknown>) =>
+      audit.runAs("mcp", async () => JSON.parse((await tools.get(name)!.handler(params)).content[0].text));
+
+    message("d2", ALICE, T + 55);
+    // The agent starts from its own markers, not the ones marked above.
+    assert.equal((await call("wu_inbox", { limit: 50, per_chat: 1 })).marked, false);
+    await call("wu_inbox_mark_read", { up_to: T + 45 });
+    const box = await call("wu_inbox", { limit: 50, per_chat: 1 });
+    assert.deepEqual(box.chats.map((c: { chat_jid: string; unread: number }) => [c.chat_jid, c.unread]), [[ALICE, 2]]);
+    assert.equal(box.chats[0].messages[0].body, "d1");
+
+    // Marking what was shown leaves d2 for the next look.
+    const chats = box.chats.map((c: { chat_jid: string; up_to: number }) => ({ chat: c.chat_jid, up_to: c.up_to }));
+    assert.deepEqual((await call("wu_inbox_mark_read", { chats })).marked, [{ reader: "mcp", chat_jid: ALICE, read_at: T + 50 }]);
+    const next = await call("wu_inbox", { limit: 50, per_chat: 1 });
+    assert.deepEqual(next.chats[0].messages.map((m: { id: string }) => m.id), ["d2"]);
+
+    // The person's inbox still has both.
+    const mine = read();
+    assert.equal(mine.reader, "cli");
+    assert.deepEqual(mine.chats.map((c) => [c.chat_jid, c.unread]), [[ALICE, 2]]);
+  });
+});
@@ -7,6 +7,7 @@ import { tmpdir } from "os";
 import { EventEmitter } from "node:events";
 import type { WASocket } from "@whiskeysockets/baileys";
 import type { WuConfig } from "../src/config/schema.js";
+import { makeFakeSocket } from "./helpers/fake-socket.js";
 
 // Redirect WU_HOME to a throwaway dir before importing anything that reads it -
 // src/config/paths.ts freezes DB_PATH from WU_HOME at module load, so a later
@@ -162,6 +163,59 @@ describe("daemon IPC history.backfill routing", () => {
   });
 });
 
+// MCP write tools hand sends to the daemon when it holds the session. The
+// constraint gate has to run daemon-side, against the daemon's live config.
+describe("daemon IPC send routing", () => {
+  const SEND_SOCK = join(tmpdir(), `wu-ipc-send-${process.pid}.sock`);
+  let stopSend: () => void;
+  const fake = makeFakeSocket();
+  let live = {
+    constraints: { default: "read", chats: { "ok@g.us": { mode: "full" } } },
+    whatsapp: { send_delay_ms: 0 },
+  } as unknown as WuConfig;
+
+  before(() => {
+    database.getDb();
+    stopSend = ipc.startDaemonIpc(() => fake.sock, () => live, SEND_SOCK);
+  });
+
+  after(() => {
+    if (stopSend) stopSend();
+  });
+
+  it("sends text on the daemon's socket and returns the id/timestamp summary", async () => {
+    const res = await ipc.daemonRequest<{ id: string; timestamp: number }>(
+      "messages.sendText",
+      { jid: "ok@g.us", text: "via daemon" },
+      5000,
+      SEND_SOCK
+    );
+    assert.deepEqual(res, { id: "fake-msg-id", timestamp: 1700000000 });
+    const last = fake.calls[fake.calls.length - 1]!;
+    assert.equal(last.method, "sendMessage");
+    assert.deepEqual(last.args.slice(0, 2), ["ok@g.us", { text: "via daemon" }]);
+  });
+
+  it("enforces constraints inside the daemon", async () => {
+    const before = fake.calls.length;
+    await assert.rejects(
+      () => ipc.daemonRequest("messages.sendText", { jid: "readonly@g.us", text: "nope" }, 5000, SEND_SOCK),
+      /Constraint violation/
+    );
+    assert.equal(fake.calls.length, before, "a rejected send must not reach the socket");
+  });
+
+  it("checks against the daemon's current config, not the one it started with", async () => {
+    live = {
+      constraints: { default: "full", chats: {} },
+      whatsapp: { send_delay_ms: 0 },
+    } as unknown as WuConfig;
+    await ipc.daemonRequest("messages.react", { jid: "readonly@g.us", msgId: "m1", emoji: "👍" }, 5000, SEND_SOCK);
+    const last = fake.calls[fake.calls.length - 1]!;
+    assert.deepEqual(last.args[1], { react: { text: "👍", key: { remoteJid: "readonly@g.us", id: "m1", fromMe: false } } });
+  });
+});
+
 describe("daemon IPC availability", () => {
   it("is false when nothing is listening", async () => {
     const missing = join(tmpdir(), `wu-ipc-missing-${process.pid}.sock`);
@@ -202,3 +256,68 @@ describe("daemon IPC client close handling", () => {
     assert.ok(elapsed < 5000, `expected fast rejection, took ${elapsed}ms`);
   });
 });
+
+// `wu listen` attaches here while the daemon runs instead of logging in again.
+describe("daemon IPC subscribe", () => {
+  const SUB_SOCK = join(tmpdir(), `wu-ipc-sub-${process.pid}.sock`);
+  let events: typeof import("../src/core/events.js");
+  let bus: import("../src/core/events.js").EventBus;
+  let stopSub: () => void;
+
+  before(async () => {
+    events = await import("../src/core/events.js");
+    bus = new events.EventBus();
+    stopSub = ipc.startDaemonIpc(() => undefined, {} as WuConfig, SUB_SOCK, bus);
+  });
+
+  after(() => {
+    if (stopSub) stopSub();
+  });
+
+  const waitFor = async (cond: () => boolean) => {
+    for (let i = 0; i < 100 && !cond(); i++) await new Promise((r) => setTimeout(r, 10));
+  };
+
+  it("streams matching events until the client closes", async () => {
+    bus.emit({ event: "connection", state: "open" });
+    const got: import("../src/core/events.js").WuEvent[] = [];
+    const sub = await ipc.daemonSubscribe(
+      { events: ["message", "delete", "connection"], chats: ["*@g.us"] },
+      (e) => got.push(e),
+      SUB_SOCK
+    );
+    assert.equal(sub.connection, "open");
+    await waitFor(() => bus.size === 1);
+
+    bus.emit({ event: "delete", chat: "dm@s.whatsapp.net", id: "x" }); // chat filtered
+    bus.emit({ event: "edit", chat: "team@g.us", id: "e", body: "b", timestamp: 1 }); // kind filtered
+    bus.emit({ event: "delete", chat: "team@g.us", id: "d1" });
+    bus.emit({ event: "connection", state: "closed", reason: 428 });
+    await waitFor(() => got.length === 2);
+    assert.deepEqual(got, [
+      { event: "delete", chat: "team@g.us", id: "d1" },
+      { event: "connection", state: "closed", reason: 428 },
+    ]);
+
+    sub.close();
+    await sub.closed;
+    await waitFor(() => bus.size === 0);
+    assert.equal(bus.size, 0, "the daemon drops a closed subscriber");
+  });
+
+  it("ends the stream when the daemon shuts down", async () => {
+    const sub = await ipc.daemonSubscribe({}, () => {}, SUB_SOCK);
+    stopSub();
+    await sub.closed;
+  });
+
+  it("refuses to subscribe when the daemon has no event bus", async () => {
+    const sock = join(tmpdir(), `wu-ipc-nosub-${process.pid}.sock`);
+    const stop = ipc.startDaemonIpc(() => undefined, {} as WuConfig, sock);
+    try {
+      await assert.rejects(() => ipc.daemonSubscribe({}, () => {}, sock), /does not publish events/);
+    } finally {
+      stop();
+    }
+  });
+});
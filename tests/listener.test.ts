@@ -204,6 +204,199 @@ describe("startListener - messages.update", () => {
   });
 });
 
+describe("startListener - message edits", () => {
+  it("applies an edit update to the original and keeps the revision chain", () => {
+    const { sock, emitUpsert, emitUpdate } = makeFakeSocket();
+    const config = schema.WuConfigSchema.parse({
+      constraints: { default: "read" },
+    });
+    listener.startListener(sock, { config, quiet: true });
+
+    emitUpsert([
+      textMessage({ chatJid: "edit@g.us", id: "edit-1", body: "see you at 5", timestamp: 1700000000 }),
+    ]);
+    emitUpdate([
+      {
+        key: { remoteJid: "edit@g.us", id: "edit-1" },
+        update: {
+          message: { editedMessage: { message: { conversation: "see you at 6" } } },
+          messageTimestamp: 1700000100,
+        },
+      },
+    ]);
+
+    const row = store.getMessage("edit-1");
+    assert.equal(row!.body, "see you at 6");
+    assert.equal(row!.edited_at, 1700000100);
+    assert.deepEqual(
+      store.getMessageRevisions("edit-1").map((r) => [r.body, r.edited_at]),
+      [
+        ["see you at 5", 1700000000],
+        ["see you at 6", 1700000100],
+      ]
+    );
+    // FTS follows the latest text.
+    assert.ok(store.searchMessages("6").some((m) => m.id === "edit-1"));
+    assert.ok(!store.searchMessages("5").some((m) => m.id === "edit-1"));
+  });
+
+  it("folds an edit protocol message into its target instead of storing a row", () => {
+    const { sock, emitUpsert } = makeFakeSocket();
+    const config = schema.WuConfigSchema.parse({
+      constraints: { default: "read" },
+    });
+    listener.startListener(sock, { config, quiet: true });
+
+    emitUpsert([textMessage({ chatJid: "edit@g.us", id: "edit-2", body: "draft" })]);
+    const edit = {
+      key: { remoteJid: "edit@g.us", id: "edit-2-proto", fromMe: false },
+      message: {
+        protocolMessage: {
+          type: 14,
+          key: { remoteJid: "edit@g.us", id: "edit-2" },
+          editedMessage: { conversation: "final" },
+          timestampMs: 1700000200000,
+        },
+      },
+      messageTimestamp: 1700000200,
+    };
+    emitUpsert([edit]);
+    // A re-delivered original (e.g. after a restart, so past the in-memory
+    // dedup) must not overwrite the edited body.
+    const fresh = makeFakeSocket();
+    listener.startListener(fresh.sock, { config, quiet: true });
+    fresh.emitUpsert([textMessage({ chatJid: "edit@g.us", id: "edit-2", body: "draft" })], "append");
+
+    assert.equal(store.getMessage("edit-2-proto"), undefined);
+    assert.equal(store.getMessage("edit-2")!.body, "final");
+    assert.equal(store.getMessageRevisions("edit-2").length, 2);
+  });
+
+  it("drops revisions when the edited message is revoked", () => {
+    const { sock, emitUpsert, emitUpdate } = makeFakeSocket();
+    const config = schema.WuConfigSchema.parse({
+      constraints: { default: "read" },
+    });
+    listener.startListener(sock, { config, quiet: true });
+
+    emitUpsert([textMessage({ chatJid: "edit@g.us", id: "edit-3", body: "oops" })]);
+    emitUpdate([
+      {
+        key: { remoteJid: "edit@g.us", id: "edit-3" },
+        update: {
+          message: { editedMessage: { message: { conversation: "oops, fixed" } } },
+          messageTimestamp: 1700000300,
+        },
+      },
+    ]);
+    emitUpdate([{ key: { remoteJid: "edit@g.us", id: "edit-3" }, update: { message: null } }]);
+
+    assert.equal(store.getMessage("edit-3")!.type, "deleted");
+    assert.equal(store.getMessage("edit-3")!.edited_at, null);
+    assert.deepEqual(store.getMessageRevisions("edit-3"), []);
+  });
+
+  it("keeps two edits made within the same second, once each", () => {
+    const { sock, emitUpsert, emitUpdate } = makeFakeSocket();
+    const config = schema.WuConfigSchema.parse({
+      constraints: { default: "read" },
+    });
+    listener.startListener(sock, { config, quiet: true });
+
+    emitUpsert([textMessage({ chatJid: "edit@g.us", id: "edit-4", body: "at 5", timestamp: 1700000000 })]);
+    const edit = (text: string) => ({
+      key: { remoteJid: "edit@g.us", id: "edit-4" },
+      update: { message: { editedMessage: { message: { conversation: text } } }, messageTimestamp: 1700000400 },
+    });
+    emitUpdate([edit("at 6")]);
+    emitUpdate([edit("at 7")]);
+    emitUpdate([edit("at 7")]);
+
+    assert.equal(store.getMessage("edit-4")!.body, "at 7");
+    assert.deepEqual(
+      store.getMessageRevisions("edit-4").map((r) => r.body),
+      ["at 5", "at 6", "at 7"]
+    );
+  });
+});
+
+describe("startListener - reactions", () => {
+  const react = (target: string, reactor: string, text: string, ms: number) => ({
+    key: { remoteJid: "react@g.us", id: target },
+    reaction: {
+      key: { remoteJid: "react@g.us", id: `r-${ms}`, participant: reactor, fromMe: false },
+      text,
+      senderTimestampMs: ms,
+    },
+  });
+
+  it("keeps one current reaction per reactor and attaches a summary", () => {
+    const { sock, emitUpsert, emitReaction } = makeFakeSocket();
+    const config = schema.WuConfigSchema.parse({
+      constraints: { default: "read" },
+    });
+    listener.startListener(sock, { config, quiet: true });
+
+    emitUpsert([textMessage({ chatJid: "react@g.us", id: "react-1", body: "lunch?" })]);
+    emitReaction([
+      react("react-1", "111@s.whatsapp.net", "👍", 1700000010000),
+      react("react-1", "222@s.whatsapp.net", "👍", 1700000020000),
+      // 111 changes their mind: replaces, not adds.
+      react("react-1", "111@s.whatsapp.net", "❤️", 1700000030000),
+    ]);
+
+    const [row] = store.listMessages({ chatJid: "react@g.us" });
+    assert.deepEqual(row.reactions, [
+      { emoji: "👍", count: 1, reactors: ["222@s.whatsapp.net"] },
+      { emoji: "❤️", count: 1, reactors: ["111@s.whatsapp.net"] },
+    ]);
+    assert.equal(
+      store.listMessages({ chatJid: "react@g.us" }).length,
+      1,
+      "reactions must not be stored as message rows"
+    );
+  });
+
+  it("removes a reaction on empty text but ignores a stale replay", () => {
+    const { sock, emitUpsert, emitReaction } = makeFakeSocket();
+    const config = schema.WuConfigSchema.parse({
+      constraints: { default: "read" },
+    });
+    listener.startListener(sock, { config, quiet: true });
+
+    emitUpsert([textMessage({ chatJid: "react@g.us", id: "react-2", body: "hi" })]);
+    emitReaction([react("react-2", "333@s.whatsapp.net", "😂", 1700000050000)]);
+    // Older event replayed after the newer one: no effect.
+    emitReaction([react("react-2", "333@s.whatsapp.net", "", 1700000040000)]);
+    assert.equal(store.getReactionSummaries(["react-2"]).get("react-2")?.length, 1);
+
+    emitReaction([react("react-2", "333@s.whatsapp.net", "", 1700000060000)]);
+    assert.equal(store.getReactionSummaries(["react-2"]).get("react-2"), undefined);
+  });
+
+  it("folds a reaction message from messages.upsert into the same row", () => {
+    const { sock, emitUpsert } = makeFakeSocket();
+    const config = schema.WuConfigSchema.parse({
+      constraints: { default: "read" },
+    });
+    listener.startListener(sock, { config, quiet: true });
+
+    emitUpsert([textMessage({ chatJid: "react@g.us", id: "react-3", body: "news" })]);
+    emitUpsert([
+      {
+        key: { remoteJid: "react@g.us", id: "react-3-msg", participant: "444@s.whatsapp.net", fromMe: false },
+        message: { reactionMessage: { key: { remoteJid: "react@g.us", id: "react-3" }, text: "🔥", senderTimestampMs: 1700000070000 } },
+        messageTimestamp: 1700000070,
+      },
+    ]);
+
+    assert.equal(store.getMessage("react-3-msg"), undefined);
+    assert.deepEqual(store.getReactionSummaries(["react-3"]).get("react-3"), [
+      { emoji: "🔥", count: 1, reactors: ["444@s.whatsapp.net"] },
+    ]);
+  });
+});
+
 describe("startListener - live config (setConfig)", () => {
   it("starts collecting a group allowed after the listener is running, no restart", () => {
     const { sock, emitUpsert } = makeFakeSocket();
@@ -262,3 +455,87 @@ describe("startListener - prime on first message", () => {
     assert.deepEqual(primed, ["prime-me@g.us"], "no prime for a non-pending group");
   });
 });
+
+describe("startListener - live events (onEvent)", () => {
+  it("reports messages, edits, deletes, reactions and receipts once each", () => {
+    const { sock, ev, emitUpsert, emitUpdate, emitReaction } = makeFakeSocket();
+    const config = schema.WuConfigSchema.parse({
+      constraints: { default: "read" },
+    });
+    const events: import("../src/core/events.js").WuEvent[] = [];
+    listener.startListener(sock, { config, quiet: true, onEvent: (e) => events.push(e) });
+
+    // History sync is stored but never reported.
+    emitUpsert([textMessage({ chatJid: "ev@g.us", id: "ev-0", body: "old" })], "append");
+    emitUpsert([textMessage({ chatJid: "ev@g.us", id: "ev-1", body: "hi", participant: "111@s.whatsapp.net" })]);
+    emitUpdate([
+      {
+        key: { remoteJid: "ev@g.us", id: "ev-1" },
+        update: { message: { editedMessage: { message: { conversation: "hi!" } } }, messageTimestamp: 1700000100 },
+      },
+    ]);
+    emitReaction([
+      {
+        key: { remoteJid: "ev@g.us", id: "ev-1" },
+        reaction: { key: { remoteJid: "ev@g.us", id: "r", participant: "222@s.whatsapp.net" }, text: "👍", senderTimestampMs: 1700000200000 },
+      },
+    ]);
+    ev.emit("message-receipt.update", [
+      {
+        key: { remoteJid: "ev@g.us", id: "ev-1", fromMe: true },
+        receipt: { userJid: "222@s.whatsapp.net", readTimestamp: 1700000300 },
+      },
+    ]);
+    emitUpdate([{ key: { remoteJid: "ev@g.us", id: "ev-1" }, update: { message: null } }]);
+
+    assert.deepEqual(events.map((e) => e.event), ["message", "edit", "reaction", "receipt", "delete"]);
+    assert.deepEqual(events[0], {
+      event: "message",
+      chat: "ev@g.us",
+      id: "ev-1",
+      sender: "111@s.whatsapp.net",
+      sender_name: null,
+      body: "hi",
+      type: "text",
+      from_me: false,
+      timestamp: 1700000000,
+      quoted_id: null,
+    });
+    assert.deepEqual(events[1], { event: "edit", chat: "ev@g.us", id: "ev-1", body: "hi!", timestamp: 1700000100 });
+    assert.deepEqual(events[3], {
+      event: "receipt",
+      chat: "ev@g.us",
+      id: "ev-1",
+      recipient: "222@s.whatsapp.net",
+      status: "read",
+      timestamp: 1700000300,
+    });
+  });
+});
+
+describe("startListener - per-message constraint filters", () => {
+  it("stores only allowed senders and types of a collected group", () => {
+    const { sock, emitUpsert } = makeFakeSocket();
+    const config = schema.WuConfigSchema.parse({
+      constraints: {
+        default: "none",
+        chats: { "filtered@g.us": { mode: "read", senders: ["111@s.whatsapp.net"], skip_types: ["sticker"] } },
+      },
+    });
+    listener.startListener(sock, { config, quiet: true });
+
+    emitUpsert([
+      textMessage({ chatJid: "filtered@g.us", id: "pf-1", body: "kept", participant: "111@s.whatsapp.net" }),
+      textMessage({ chatJid: "filtered@g.us", id: "pf-2", body: "dropped", participant: "222@s.whatsapp.net" }),
+      {
+        key: { remoteJid: "filtered@g.us", id: "pf-3", participant: "111@s.whatsapp.net", fromMe: false },
+        message: { stickerMessage: { mimetype: "image/webp" } },
+        messageTimestamp: 1700000000,
+      } as unknown as WAMessage,
+    ]);
+
+    assert.ok(store.getMessage("pf-1"));
+    assert.equal(store.getMessage("pf-2"), undefined);
+    assert.equal(store.getMessage("pf-3"), undefined);
+  });
+});
@@ -36,7 +36,7 @@ function config() {
 }
 
 // The write/media tools all route through the same dispatch() helper in
-// tools.ts: local socket -> (ipc rung, media tools only) -> remote SSH ->
+// tools.ts: local socket -> (ipc rung, sends and media tools) -> remote SSH ->
 // error. sshWuExec is a hard import in tools.ts (no injection seam - it's a
 // transport primitive out of scope for this plan to modify), so the remote
 // branch itself isn't exercised here; it's covered by manual verification
@@ -0,0 +1,112 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, mkdirSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import type { WAMessage } from "@whiskeysockets/baileys";
+import { makeFakeSocket } from "./helpers/fake-socket.js";
+import { makeFakeMcp } from "./helpers/fake-mcp.js";
+
+const home = mkdtempSync(join(tmpdir(), "wu-membership-"));
+process.env.WU_HOME = home;
+mkdirSync(join(home, "auth"), { recursive: true });
+
+let database: typeof import("../src/db/database.js");
+let store: typeof import("../src/core/store.js");
+let listener: typeof import("../src/core/listener.js");
+let toolsMod: typeof import("../src/mcp/tools.js");
+let schema: typeof import("../src/config/schema.js");
+
+before(async () => {
+  database = await import("../src/db/database.js");
+  store = await import("../src/core/store.js");
+  listener = await import("../src/core/listener.js");
+  toolsMod = await import("../src/mcp/tools.js");
+  schema = await import("../src/config/schema.js");
+  schema.saveConfig(config());
+  database.getDb();
+});
+
+after(() => {
+  database.closeDb();
+  rmSync(home, { recursive: true, force: true });
+});
+
+const GROUP = "team@g.us";
+const ADMIN = "15550000000@s.whatsapp.net";
+const ALICE = "15550001111@s.whatsapp.net";
+const BOB = "15550002222@s.whatsapp.net";
+
+function config() {
+  return schema.WuConfigSchema.parse({ constraints: { default: "none", chats: { [GROUP]: { mode: "read" } } } });
+}
+
+function listen() {
+  const fake = makeFakeSocket();
+  listener.startListener(fake.sock, { config: config(), quiet: true });
+  return fake;
+}
+
+// A join/leave system message as WhatsApp delivers it: no content, a stub
+// type and the participants as JSON-encoded stub parameters.
+function stub(id: string, type: number, participant: string, actor: string, timestamp: number): WAMessage {
+  return {
+    key: { remoteJid: GROUP, id, participant: actor, fromMe: false },
+    messageStubType: type,
+    messageStubParameters: [JSON.stringify({ id: participant })],
+    messageTimestamp: timestamp,
+  } as unknown as WAMessage;
+}
+
+const events = () =>
+  store.listMembershipEvents(GROUP).map((e) => [e.action, e.participant_jid, e.actor_jid, e.at, e.message_id]);
+
+describe("membership history from the listener", () => {
+  it("merges a participant update with the system message recording it", () => {
+    const { ev, emitUpsert } = listen();
+    ev.emit("group-participants.update", { id: GROUP, author: ADMIN, participants: [{ id: ALICE }], action: "add" });
+    emitUpsert([stub("s1", 27, ALICE, ADMIN, 1700000000)]);
+    // The same message again (e.g. from history sync) adds nothing.
+    emitUpsert([stub("s1", 27, ALICE, ADMIN, 1700000000)], "append");
+
+    assert.deepEqual(events(), [["join", ALICE, ADMIN, 1700000000, "s1"]]);
+  });
+
+  it("tells members who left from members who were removed", () => {
+    const { ev, emitUpsert } = listen();
+    emitUpsert([stub("s2", 28, BOB, ADMIN, 1700100000)]);
+    ev.emit("group-participants.update", { id: GROUP, author: ADMIN, participants: [{ id: BOB }], action: "remove" });
+    ev.emit("group-participants.update", { id: GROUP, author: ALICE, participants: [{ id: ALICE }], action: "remove" });
+
+    const [left, removed] = store.listMembershipEvents(GROUP, { limit: 2 });
+    assert.deepEqual([left!.action, left!.participant_jid], ["leave", ALICE]);
+    assert.deepEqual([removed!.action, removed!.participant_jid, removed!.message_id], ["remove", BOB, "s2"]);
+  });
+
+  it("ignores groups that aren't collected", () => {
+    const { ev } = listen();
+    ev.emit("group-participants.update", { id: "other@g.us", author: ADMIN, participants: [{ id: ALICE }], action: "add" });
+    assert.deepEqual(store.listMembershipEvents("other@g.us"), []);
+  });
+});
+
+describe("weekly membership report", () => {
+  it("counts joins and leaves per week starting Monday", () => {
+    const weeks = store.membershipByWeek(GROUP, { since: 1699000000 });
+    // 2023-11-14 (a Tuesday) and 2023-11-16 both fall in the week of Monday 2023-11-13.
+    assert.deepEqual(weeks[0], { week: "2023-11-13", joins: 1, leaves: 1, net: 0 });
+  });
+
+  it("is served by wu_groups_history, which refuses blocked groups", async () => {
+    const { server, tools } = makeFakeMcp();
+    toolsMod.registerTools(server as never, () => undefined, config());
+    const history = tools.get("wu_groups_history")!;
+
+    const weekly = JSON.parse((await history.handler({ jid: GROUP, weekly: true, limit: 100 })).content[0].text);
+    assert.equal(weekly[0].week, "2023-11-13");
+    const list = JSON.parse((await history.handler({ jid: GROUP, weekly: false, limit: 1 })).content[0].text);
+    assert.equal(list.length, 1);
+
+    assert.equal((await history.handler({ jid: "other@g.us", weekly: false, limit: 10 })).isError, true);
+  });
+});
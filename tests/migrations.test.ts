@@ -0,0 +1,211 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import Database from "better-sqlite3";
+import { migrate } from "../src/db/migrations.js";
+import { FTS_SQL, SCHEMA_VERSION } from "../src/db/schema.js";
+import { serializeWAMessage } from "../src/core/store.js";
+
+// Build a current-schema DB, seed rows in the legacy shape, then rewind the
+// recorded version so migrate() replays the later steps over them.
+function legacyDb(fromVersion: number, seed: (db: Database.Database) => void): Database.Database {
+  const db = new Database(":memory:");
+  migrate(db);
+  seed(db);
+  db.exec("DELETE FROM _migrations");
+  db.prepare("INSERT INTO _migrations (version) VALUES (?)").run(fromVersion);
+  migrate(db);
+  return db;
+}
+
+// The tables as schema version 5 created them, before edit history, for steps
+// that must run against the shape a real upgrade starts from.
+const V5_TABLES_SQL = `
+CREATE TABLE _migrations (version INTEGER PRIMARY KEY, applied_at INTEGER DEFAULT (unixepoch()));
+INSERT INTO _migrations (version) VALUES (5);
+CREATE TABLE messages (
+    id TEXT PRIMARY KEY,
+    chat_jid TEXT NOT NULL,
+    sender_jid TEXT,
+    sender_name TEXT,
+    body TEXT,
+    type TEXT NOT NULL,
+    media_mime TEXT,
+    media_path TEXT,
+    media_size INTEGER,
+    media_direct_path TEXT,
+    media_key TEXT,
+    media_file_sha256 TEXT,
+    media_file_enc_sha256 TEXT,
+    media_file_length INTEGER,
+    quoted_id TEXT,
+    location_lat REAL,
+    location_lon REAL,
+    location_name TEXT,
+    is_from_me INTEGER DEFAULT 0,
+    timestamp INTEGER NOT NULL,
+    raw TEXT,
+    transcript TEXT,
+    ocr_text TEXT,
+    created_at INTEGER DEFAULT (unixepoch())
+);
+CREATE INDEX idx_msg_chat_ts ON messages(chat_jid, timestamp);
+CREATE INDEX idx_msg_body ON messages(body) WHERE body IS NOT NULL;
+CREATE INDEX idx_msg_sender ON messages(sender_jid, timestamp);
+CREATE INDEX idx_msg_type ON messages(type);
+${FTS_SQL}
+CREATE TABLE chats (
+    jid TEXT PRIMARY KEY,
+    name TEXT,
+    type TEXT NOT NULL,
+    participant_count INTEGER,
+    description TEXT,
+    last_message_at INTEGER,
+    last_seen_at INTEGER,
+    is_community INTEGER DEFAULT 0,
+    is_community_announce INTEGER DEFAULT 0,
+    linked_parent TEXT,
+    updated_at INTEGER DEFAULT (unixepoch())
+);
+CREATE INDEX idx_chats_linked_parent ON chats(linked_parent) WHERE linked_parent IS NOT NULL;
+CREATE INDEX idx_chats_type ON chats(type);
+CREATE TABLE contacts (
+    jid TEXT PRIMARY KEY,
+    phone TEXT,
+    push_name TEXT,
+    saved_name TEXT,
+    is_business INTEGER DEFAULT 0,
+    updated_at INTEGER DEFAULT (unixepoch())
+);
+CREATE TABLE group_participants (
+    group_jid TEXT NOT NULL REFERENCES chats(jid),
+    participant_jid TEXT NOT NULL,
+    is_admin INTEGER DEFAULT 0,
+    is_super_admin INTEGER DEFAULT 0,
+    PRIMARY KEY (group_jid, participant_jid)
+);
+`;
+
+function v5Db(seed: (db: Database.Database) => void): Database.Database {
+  const db = new Database(":memory:");
+  db.exec(V5_TABLES_SQL);
+  seed(db);
+  migrate(db);
+  return db;
+}
+
+function insertMessage(
+  db: Database.Database,
+  row: { id: string; body: string | null; type: string; timestamp: number; sender_jid?: string; quoted_id?: string; is_from_me?: number; raw?: string }
+): void {
+  db.prepare(
+    `INSERT INTO messages (id, chat_jid, sender_jid, body, type, quoted_id, is_from_me, timestamp, raw)
+     VALUES (@id, 'chat@g.us', @sender_jid, @body, @type, @quoted_id, @is_from_me, @timestamp, @raw)`
+  ).run({ sender_jid: null, quoted_id: null, is_from_me: 0, raw: null, ...row });
+}
+
+describe("migrate v6 - edit history", () => {
+  it("folds a legacy 'edited' row into its target's revision chain", () => {
+    const db = v5Db((db) => {
+      insertMessage(db, { id: "orig", body: "before", type: "text", timestamp: 100 });
+      insertMessage(db, {
+        id: "edit-row",
+        body: "after",
+        type: "edited",
+        timestamp: 200,
+        raw: serializeWAMessage({
+          key: { remoteJid: "chat@g.us", id: "edit-row" },
+          message: { protocolMessage: { type: 14, key: { id: "orig" }, editedMessage: { conversation: "after" } } },
+        }),
+      });
+    });
+
+    const orig = db.prepare("SELECT body, edited_at FROM messages WHERE id = 'orig'").get() as {
+      body: string;
+      edited_at: number;
+    };
+    assert.deepEqual(orig, { body: "after", edited_at: 200 });
+    assert.equal(db.prepare("SELECT 1 FROM messages WHERE id = 'edit-row'").get(), undefined);
+    const revisions = db
+      .prepare("SELECT body, edited_at FROM message_revisions WHERE message_id = 'orig' ORDER BY edited_at")
+      .all();
+    assert.deepEqual(revisions, [
+      { body: "before", edited_at: 100 },
+      { body: "after", edited_at: 200 },
+    ]);
+    const version = db.prepare("SELECT MAX(version) AS v FROM _migrations").get() as { v: number };
+    assert.equal(version.v, SCHEMA_VERSION);
+  });
+});
+
+describe("migrate v21 - revision ids", () => {
+  it("rebuilds message_revisions so edits in the same second both fit", () => {
+    const db = legacyDb(20, (db) => {
+      db.exec(`
+        DROP TABLE message_revisions;
+        CREATE TABLE message_revisions (
+            message_id TEXT NOT NULL,
+            body TEXT,
+            edited_at INTEGER NOT NULL,
+            PRIMARY KEY (message_id, edited_at)
+        );
+        INSERT INTO message_revisions (message_id, body, edited_at) VALUES ('m', 'after', 200), ('m', 'before', 100);
+      `);
+    });
+
+    db.prepare("INSERT INTO message_revisions (message_id, body, edited_at) VALUES ('m', 'again', 200)").run();
+    const revisions = db.prepare("SELECT id, body FROM message_revisions WHERE message_id = 'm' ORDER BY edited_at, id").all();
+    assert.deepEqual(revisions, [
+      { id: 1, body: "before" },
+      { id: 2, body: "after" },
+      { id: 3, body: "again" },
+    ]);
+  });
+});
+
+describe("migrate v7 - reactions", () => {
+  it("replays legacy reaction rows into the current reaction per reactor", () => {
+    const db = legacyDb(6, (db) => {
+      insertMessage(db, { id: "target", body: "lunch?", type: "text", timestamp: 100 });
+      insertMessage(db, { id: "reaction:target:👍", body: "👍", type: "reaction", timestamp: 110, sender_jid: "a@s.whatsapp.net", quoted_id: "target" });
+      insertMessage(db, { id: "reaction:target:❤️", body: "❤️", type: "reaction", timestamp: 120, sender_jid: "a@s.whatsapp.net", quoted_id: "target" });
+      insertMessage(db, { id: "reaction:target:😂", body: "😂", type: "reaction", timestamp: 130, sender_jid: "b@s.whatsapp.net", quoted_id: "target" });
+      // b removed theirs afterwards.
+      insertMessage(db, { id: "reaction:target:", body: null, type: "reaction", timestamp: 140, sender_jid: "b@s.whatsapp.net", quoted_id: "target" });
+    });
+
+    const reactions = db.prepare("SELECT message_id, reactor_jid, emoji FROM reactions").all();
+    assert.deepEqual(reactions, [{ message_id: "target", reactor_jid: "a@s.whatsapp.net", emoji: "❤️" }]);
+    const left = db.prepare("SELECT COUNT(*) AS n FROM messages WHERE type = 'reaction'").get() as { n: number };
+    assert.equal(left.n, 0);
+  });
+});
+
+describe("migrate v17 - membership history", () => {
+  it("seeds group_membership_events from collected join/leave system messages", () => {
+    const db = legacyDb(16, (db) => {
+      insertMessage(db, {
+        id: "stub-add",
+        body: "participant added",
+        type: "system",
+        timestamp: 300,
+        raw: serializeWAMessage({
+          key: { remoteJid: "chat@g.us", id: "stub-add", participant: "admin@s.whatsapp.net" },
+          messageStubType: 27,
+          messageStubParameters: ['{"id":"new@lid","phoneNumber":"new@s.whatsapp.net"}'],
+        }),
+      });
+      insertMessage(db, {
+        id: "stub-rename",
+        body: "group renamed",
+        type: "system",
+        timestamp: 310,
+        raw: serializeWAMessage({ key: { remoteJid: "chat@g.us", id: "stub-rename" }, messageStubType: 21, messageStubParameters: ["New"] }),
+      });
+    });
+
+    const events = db.prepare("SELECT group_jid, participant_jid, action, actor_jid, at, message_id FROM group_membership_events").all();
+    assert.deepEqual(events, [
+      { group_jid: "chat@g.us", participant_jid: "new@lid", action: "join", actor_jid: "admin@s.whatsapp.net", at: 300, message_id: "stub-add" },
+    ]);
+  });
+});
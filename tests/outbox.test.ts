@@ -0,0 +1,172 @@
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, mkdirSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { makeFakeSocket } from "./helpers/fake-socket.js";
+
+const home = mkdtempSync(join(tmpdir(), "wu-outbox-"));
+process.env.WU_HOME = home;
+mkdirSync(join(home, "auth"), { recursive: true });
+
+let database: typeof import("../src/db/database.js");
+let store: typeof import("../src/core/store.js");
+let outbox: typeof import("../src/core/outbox.js");
+let ipc: typeof import("../src/core/ipc.js");
+let schema: typeof import("../src/config/schema.js");
+
+before(async () => {
+  database = await import("../src/db/database.js");
+  store = await import("../src/core/store.js");
+  outbox = await import("../src/core/outbox.js");
+  ipc = await import("../src/core/ipc.js");
+  schema = await import("../src/config/schema.js");
+  database.getDb();
+});
+
+after(() => {
+  database.closeDb();
+  rmSync(home, { recursive: true, force: true });
+});
+
+const NOW = 1700000000;
+const config = () =>
+  schema.WuConfigSchema.parse({
+    constraints: { default: "read", chats: { "ok@g.us": { mode: "full" } } },
+    whatsapp: { send_delay_ms: 0 },
+  });
+
+// A socket whose sends fail the way Baileys does mid-reconnect.
+function closedSocket() {
+  const fake = makeFakeSocket();
+  (fake.sock as unknown as { sendMessage: () => Promise<never> }).sendMessage = async () => {
+    fake.calls.push({ method: "sendMessage", args: [] });
+    throw new Error("Connection Closed");
+  };
+  return fake;
+}
+
+describe("outbox", () => {
+  beforeEach(() => {
+    database.getDb().exec("DELETE FROM outbox");
+  });
+
+  it("sends queued messages oldest first and records the result", async () => {
+    const { sock, calls } = makeFakeSocket();
+    const first = outbox.enqueueMessage({ chatJid: "ok@g.us", text: "one" }, config(), NOW);
+    const second = outbox.enqueueMessage({ chatJid: "ok@g.us", text: "two", replyTo: "m1" }, config(), NOW);
+
+    const results = await outbox.drainOutbox(sock, config(), () => NOW);
+    assert.deepEqual(results, [{ id: first.id, ok: true }, { id: second.id, ok: true }]);
+    assert.deepEqual(calls.map((c) => (c.args[1] as { text: string }).text), ["one", "two"]);
+
+    const row = store.getOutboxMessage(first.id)!;
+    assert.equal(row.status, "sent");
+    assert.equal(row.message_id, "fake-msg-id");
+    assert.equal(row.sent_at, 1700000000);
+    assert.deepEqual(await outbox.drainOutbox(sock, config(), () => NOW), []);
+  });
+
+  it("backs off on transient failures and stops the pass", async () => {
+    const closed = closedSocket();
+    const first = outbox.enqueueMessage({ chatJid: "ok@g.us", text: "one" }, config(), NOW);
+    const second = outbox.enqueueMessage({ chatJid: "ok@g.us", text: "two" }, config(), NOW);
+
+    const [result, ...rest] = await outbox.drainOutbox(closed.sock, config(), () => NOW);
+    assert.deepEqual(result, { id: first.id, ok: false, error: "Connection Closed", retry_at: NOW + 5 });
+    assert.equal(rest.length, 0);
+    assert.equal(closed.calls.length, 1, "the row behind it was not tried");
+    assert.equal(store.getOutboxMessage(second.id)!.attempts, 0);
+
+    // Not due again until the backoff has passed.
+    assert.deepEqual(await outbox.drainOutbox(closed.sock, config(), () => NOW + 1), []);
+    await outbox.drainOutbox(closed.sock, config(), () => NOW + 5);
+    const row = store.getOutboxMessage(first.id)!;
+    assert.equal(row.status, "queued");
+    assert.equal(row.attempts, 2);
+    assert.equal(row.next_attempt_at, NOW + 5 + 10);
+
+    // Back online: both go out.
+    const { sock } = makeFakeSocket();
+    const results = await outbox.drainOutbox(sock, config(), () => NOW + 15);
+    assert.deepEqual(results.map((r) => r.ok), [true, true]);
+  });
+
+  it("fails at once on constraint violations and after the last attempt", async () => {
+    const closed = closedSocket();
+    const blocked = outbox.enqueueMessage({ chatJid: "ok@g.us", text: "one" }, config(), NOW);
+    const readOnly = schema.WuConfigSchema.parse({ constraints: { default: "read" }, whatsapp: { send_delay_ms: 0 } });
+    const [result] = await outbox.drainOutbox(closed.sock, readOnly, () => NOW);
+    assert.equal(result.ok, false);
+    assert.equal(result.retry_at, undefined);
+    assert.equal(store.getOutboxMessage(blocked.id)!.status, "failed");
+    assert.equal(closed.calls.length, 0);
+
+    const doomed = outbox.enqueueMessage({ chatJid: "ok@g.us", text: "two" }, config(), NOW);
+    let at = NOW;
+    for (let i = 0; i < outbox.MAX_ATTEMPTS; i++) {
+      await outbox.drainOutbox(closed.sock, config(), () => at);
+      at = store.getOutboxMessage(doomed.id)!.next_attempt_at;
+    }
+    const row = store.getOutboxMessage(doomed.id)!;
+    assert.equal(row.status, "failed");
+    assert.equal(row.attempts, outbox.MAX_ATTEMPTS);
+
+    assert.ok(store.requeueOutboxMessage(doomed.id, NOW));
+    assert.equal(store.getOutboxMessage(doomed.id)!.attempts, 0);
+    assert.ok(store.deleteOutboxMessage(doomed.id));
+    assert.equal(store.getOutboxMessage(doomed.id), undefined);
+  });
+
+  it("rejects sends the constraints don't allow before queueing", () => {
+    assert.throws(() => outbox.enqueueMessage({ chatJid: "readonly@g.us", text: "x" }, config(), NOW), /Constraint violation/);
+    assert.equal(store.listOutboxMessages().length, 0);
+  });
+});
+
+describe("send throttle", () => {
+  it("hands out slots send_delay_ms apart", () => {
+    // Past any slot the sends above reserved.
+    const base = Date.now() + 60_000;
+    const a = store.reserveSendSlot(1000, base);
+    const b = store.reserveSendSlot(1000, base);
+    const c = store.reserveSendSlot(1000, base + 5000);
+    assert.equal(a, base);
+    assert.equal(b - a, 1000);
+    assert.equal(c, base + 5000, "an idle gap doesn't carry over");
+    // Don't make the sends below wait for those future slots.
+    database.getDb().exec("DELETE FROM send_throttle");
+  });
+});
+
+describe("IPC sends through the outbox", () => {
+  const SOCK = join(tmpdir(), `wu-outbox-ipc-${process.pid}.sock`);
+  let stop: () => void;
+  let live: ReturnType<typeof makeFakeSocket>["sock"] | undefined;
+
+  before(() => {
+    database.getDb().exec("DELETE FROM outbox");
+    stop = ipc.startDaemonIpc(() => live, config, SOCK);
+  });
+
+  after(() => stop());
+
+  it("queues while disconnected and reports it", async () => {
+    live = undefined;
+    const res = await ipc.daemonRequest<{ id: null; queued: boolean; outbox_id: number }>(
+      "messages.sendText",
+      { jid: "ok@g.us", text: "while offline" },
+      5000,
+      SOCK
+    );
+    assert.equal(res.queued, true);
+    assert.equal(store.getOutboxMessage(res.outbox_id)!.status, "queued");
+
+    // Reconnected: the next send drains the backlog ahead of itself.
+    const fake = makeFakeSocket();
+    live = fake.sock;
+    const sent = await ipc.daemonRequest<{ id: string }>("messages.sendText", { jid: "ok@g.us", text: "online" }, 5000, SOCK);
+    assert.equal(sent.id, "fake-msg-id");
+    assert.deepEqual(fake.calls.map((c) => (c.args[1] as { text: string }).text), ["while offline", "online"]);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, mkdirSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { createHash, randomBytes } from "crypto";
+import { aesEncryptGCM, hmacSign, proto } from "@whiskeysockets/baileys";
+import { makeFakeSocket } from "./helpers/fake-socket.js";
+
+const home = mkdtempSync(join(tmpdir(), "wu-polls-"));
+process.env.WU_HOME = home;
+mkdirSync(join(home, "auth"), { recursive: true });
+
+let database: typeof import("../src/db/database.js");
+let listener: typeof import("../src/core/listener.js");
+let polls: typeof import("../src/core/polls.js");
+let schema: typeof import("../src/config/schema.js");
+
+before(async () => {
+  database = await import("../src/db/database.js");
+  listener = await import("../src/core/listener.js");
+  polls = await import("../src/core/polls.js");
+  schema = await import("../src/config/schema.js");
+  database.getDb();
+});
+
+after(() => {
+  database.closeDb();
+  rmSync(home, { recursive: true, force: true });
+});
+
+const CHAT = "poll@g.us";
+const CREATOR = "111@s.whatsapp.net";
+const secret = new Uint8Array(randomBytes(32));
+
+function pollMessage(id: string) {
+  return {
+    key: { remoteJid: CHAT, id, participant: CREATOR, fromMe: false },
+    message: {
+      messageContextInfo: { messageSecret: secret },
+      pollCreationMessage: {
+        name: "Lunch?",
+        options: [{ optionName: "Pizza" }, { optionName: "Sushi" }],
+        selectableOptionsCount: 1,
+      },
+    },
+    messageTimestamp: 1700000000,
+  };
+}
+
+// Mirror of Baileys' decryptPollVote, run forwards.
+function voteMessage(pollId: string, voter: string, choices: string[], ms: number) {
+  const plain = proto.Message.PollVoteMessage.encode({
+    selectedOptions: choices.map((c) => createHash("sha256").update(c).digest()),
+  }).finish();
+  const sign = Buffer.concat([
+    Buffer.from(pollId),
+    Buffer.from(CREATOR),
+    Buffer.from(voter),
+    Buffer.from("Poll Vote"),
+    new Uint8Array([1]),
+  ]);
+  const key = hmacSign(sign, hmacSign(secret, new Uint8Array(32), "sha256"), "sha256");
+  const iv = new Uint8Array(randomBytes(12));
+  const encPayload = aesEncryptGCM(plain, key, iv, Buffer.from(`${pollId}\u0000${voter}`));
+  return {
+    key: { remoteJid: CHAT, id: `vote-${voter}-${ms}`, participant: voter, fromMe: false },
+    message: {
+      pollUpdateMessage: {
+        pollCreationMessageKey: { remoteJid: CHAT, id: pollId, participant: CREATOR },
+        vote: { encPayload, encIv: iv },
+        senderTimestampMs: ms,
+      },
+    },
+    messageTimestamp: Math.floor(ms / 1000),
+  };
+}
+
+describe("poll votes", () => {
+  it("decrypts votes into a per-option tally, latest vote per voter", () => {
+    const { sock, emitUpsert } = makeFakeSocket();
+    const config = schema.WuConfigSchema.parse({ constraints: { default: "read" } });
+    listener.startListener(sock, { config, quiet: true });
+
+    emitUpsert([pollMessage("poll-1")]);
+    emitUpsert([
+      voteMessage("poll-1", "222@s.whatsapp.net", ["Pizza"], 1700000010000),
+      voteMessage("poll-1", "333@s.whatsapp.net", ["Pizza"], 1700000020000),
+      // 222 switches to Sushi.
+      voteMessage("poll-1", "222@s.whatsapp.net", ["Sushi"], 1700000030000),
+    ]);
+
+    const results = polls.getPollResults("poll-1");
+    assert.ok(results);
+    assert.equal(results!.question, "Lunch?");
+    assert.equal(results!.total_voters, 2);
+    assert.deepEqual(results!.options, [
+      { name: "Pizza", count: 1, voters: ["333@s.whatsapp.net"] },
+      { name: "Sushi", count: 1, voters: ["222@s.whatsapp.net"] },
+    ]);
+  });
+
+  it("drops a withdrawn vote and never stores votes as messages", async () => {
+    const store = await import("../src/core/store.js");
+    const { sock, emitUpsert } = makeFakeSocket();
+    const config = schema.WuConfigSchema.parse({ constraints: { default: "read" } });
+    listener.startListener(sock, { config, quiet: true });
+
+    emitUpsert([pollMessage("poll-2")]);
+    const vote = voteMessage("poll-2", "444@s.whatsapp.net", ["Sushi"], 1700000040000);
+    emitUpsert([vote, voteMessage("poll-2", "444@s.whatsapp.net", [], 1700000050000)]);
+
+    assert.equal(polls.getPollResults("poll-2")!.total_voters, 0);
+    assert.equal(store.getMessage(vote.key.id), undefined);
+  });
+
+  it("returns null for a message that isn't a poll", () => {
+    assert.equal(polls.getPollResults("no-such-poll"), null);
+  });
+});
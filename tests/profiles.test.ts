@@ -0,0 +1,144 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, mkdirSync, existsSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { makeFakeSocket } from "./helpers/fake-socket.js";
+import { makeFakeMcp } from "./helpers/fake-mcp.js";
+
+// This process runs as profile "work", the way `wu --profile work` would;
+// the default profile is the other account, living directly in WU_HOME.
+const home = mkdtempSync(join(tmpdir(), "wu-profiles-"));
+process.env.WU_HOME = home;
+process.env.WU_PROFILE = "work";
+
+let paths: typeof import("../src/config/paths.js");
+let database: typeof import("../src/db/database.js");
+let store: typeof import("../src/core/store.js");
+let schema: typeof import("../src/config/schema.js");
+let systemd: typeof import("../src/core/systemd.js");
+let remote: typeof import("../src/core/remote.js");
+let toolsMod: typeof import("../src/mcp/tools.js");
+
+before(async () => {
+  paths = await import("../src/config/paths.js");
+  database = await import("../src/db/database.js");
+  store = await import("../src/core/store.js");
+  schema = await import("../src/config/schema.js");
+  systemd = await import("../src/core/systemd.js");
+  remote = await import("../src/core/remote.js");
+  toolsMod = await import("../src/mcp/tools.js");
+  paths.ensureWuHome();
+  mkdirSync(join(home, "auth"), { recursive: true });
+  schema.saveConfig(schema.WuConfigSchema.parse({ constraints: { default: "full" } }));
+});
+
+after(() => {
+  database.closeDb();
+  rmSync(home, { recursive: true, force: true });
+});
+
+function chat(jid: string, name: string) {
+  return { jid, name, type: "group" as const, participant_count: 2, description: null, last_message_at: 1700000000 };
+}
+
+describe("profile paths", () => {
+  it("puts a named profile's data under WU_HOME/profiles, sharing config.yaml", () => {
+    const work = join(home, "profiles", "work");
+    assert.equal(paths.PROFILE, "work");
+    assert.equal(paths.AUTH_DIR, join(work, "auth"));
+    assert.equal(paths.DB_PATH, join(work, "wu.db"));
+    assert.equal(paths.MEDIA_DIR, join(work, "media"));
+    assert.equal(paths.LOCK_PATH, join(work, "wu.lock"));
+    assert.equal(paths.DAEMON_SOCK_PATH, join(work, "daemon.sock"));
+    assert.equal(paths.DAEMON_STATE_PATH, join(work, "daemon-state.json"));
+    assert.equal(paths.CONFIG_PATH, join(home, "config.yaml"));
+    assert.ok(existsSync(paths.AUTH_DIR));
+  });
+
+  it("keeps the default profile where everything lived before profiles", () => {
+    assert.equal(paths.profilePaths("default").dbPath, join(home, "wu.db"));
+  });
+
+  it("lists profiles with the default first", () => {
+    assert.deepEqual(paths.listProfiles(), ["default", "work"]);
+  });
+
+  it("rejects bad names and profiles that don't exist", () => {
+    assert.throws(() => paths.validateProfileName("../x"), /Invalid profile name/);
+    assert.throws(() => paths.withProfile("personal", () => 1), /Unknown profile "personal"/);
+  });
+
+  it("switches the active paths inside withProfile", () => {
+    assert.equal(paths.activePaths().profile, "work");
+    assert.equal(paths.withProfile("default", () => paths.activePaths().daemonSockPath), join(home, "daemon.sock"));
+    assert.equal(paths.activeProfile(), "work");
+  });
+});
+
+describe("profile databases", () => {
+  it("keeps each profile's store separate", () => {
+    store.upsertChat(chat("work@g.us", "Work"));
+    paths.withProfile("default", () => store.upsertChat(chat("home@g.us", "Home")));
+
+    assert.ok(store.getChatByJid("work@g.us"));
+    assert.equal(store.getChatByJid("home@g.us"), undefined);
+    paths.withProfile("default", () => {
+      assert.ok(store.getChatByJid("home@g.us"));
+      assert.equal(store.getChatByJid("work@g.us"), undefined);
+    });
+  });
+});
+
+describe("profile systemd units and remotes", () => {
+  it("names one daemon unit per profile", () => {
+    assert.equal(systemd.unitName("wu"), "wu@work");
+    assert.equal(systemd.unitName("wu", "default"), "wu");
+    assert.equal(systemd.unitName("wu-sync", "personal"), "wu-sync@personal");
+  });
+
+  it("maps a profile to the same profile on the remote", () => {
+    const vps = { host: "example.com", wu_home: "~/.wu/" };
+    assert.equal(remote.remoteProfileHome(vps), "~/.wu/profiles/work");
+    assert.equal(remote.remoteProfileHome(vps, "default"), "~/.wu");
+  });
+});
+
+describe("MCP tools take a profile", () => {
+  function register() {
+    const fake = makeFakeSocket();
+    const { server, tools } = makeFakeMcp();
+    toolsMod.registerTools(server as never, () => fake.sock, schema.WuConfigSchema.parse({ constraints: { default: "full" } }));
+    return { tools, calls: fake.calls };
+  }
+
+  it("adds an optional profile parameter to every tool", () => {
+    const { tools } = register();
+    for (const [name, tool] of tools) {
+      assert.ok("profile" in (tool.schema as Record<string, unknown>), `${name} has no profile parameter`);
+    }
+  });
+
+  it("reads the requested profile's data", async () => {
+    const { tools } = register();
+    const list = tools.get("wu_chats_list")!;
+    const own = JSON.parse((await list.handler({ limit: 10 })).content[0].text);
+    const other = JSON.parse((await list.handler({ limit: 10, profile: "default" })).content[0].text);
+    assert.deepEqual(own.map((c: { jid: string }) => c.jid), ["work@g.us"]);
+    assert.deepEqual(other.map((c: { jid: string }) => c.jid), ["home@g.us"]);
+  });
+
+  it("reports an unknown profile as a tool error", async () => {
+    const { tools } = register();
+    const res = await tools.get("wu_chats_list")!.handler({ limit: 10, profile: "personal" });
+    assert.equal(res.isError, true);
+    assert.match(res.content[0].text, /Unknown profile/);
+  });
+
+  it("never sends another profile's message over this process's socket", async () => {
+    const { tools, calls } = register();
+    const res = await tools.get("wu_messages_send")!.handler({ to: "home@g.us", message: "hi", profile: "default" });
+    assert.equal(res.isError, true);
+    assert.equal(calls.length, 0);
+  });
+});
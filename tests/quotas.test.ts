@@ -0,0 +1,146 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, mkdirSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { makeFakeSocket } from "./helpers/fake-socket.js";
+import { makeFakeMcp } from "./helpers/fake-mcp.js";
+
+const home = mkdtempSync(join(tmpdir(), "wu-quotas-"));
+process.env.WU_HOME = home;
+mkdirSync(join(home, "auth"), { recursive: true });
+
+let database: typeof import("../src/db/database.js");
+let store: typeof import("../src/core/store.js");
+let quotas: typeof import("../src/core/quotas.js");
+let sender: typeof import("../src/core/sender.js");
+let outbox: typeof import("../src/core/outbox.js");
+let ipc: typeof import("../src/core/ipc.js");
+let toolsMod: typeof import("../src/mcp/tools.js");
+let schema: typeof import("../src/config/schema.js");
+
+before(async () => {
+  database = await import("../src/db/database.js");
+  store = await import("../src/core/store.js");
+  quotas = await import("../src/core/quotas.js");
+  sender = await import("../src/core/sender.js");
+  outbox = await import("../src/core/outbox.js");
+  ipc = await import("../src/core/ipc.js");
+  toolsMod = await import("../src/mcp/tools.js");
+  schema = await import("../src/config/schema.js");
+  database.getDb();
+});
+
+after(() => {
+  database.closeDb();
+  rmSync(home, { recursive: true, force: true });
+});
+
+function config(limits: Record<string, number>) {
+  return schema.WuConfigSchema.parse({
+    constraints: { default: "full" },
+    whatsapp: { send_delay_ms: 0 },
+    quotas: limits,
+  });
+}
+
+const T = 1_800_000_000;
+
+describe("send quotas", () => {
+  it("refuses the message past a per-chat limit with exit code 6, and it is audited as denied", async () => {
+    const cfg = config({ chat_per_hour: 2 });
+    const fake = makeFakeSocket();
+    await sender.sendText(fake.sock, "a@g.us", "one", cfg);
+    await sender.sendText(fake.sock, "a@g.us", "two", cfg);
+    await assert.rejects(
+      () => sender.sendText(fake.sock, "a@g.us", "three", cfg),
+      (err: unknown) => err instanceof quotas.QuotaExceededError && err.exitCode === 6 && /quotas\.chat_per_hour/.test(err.message)
+    );
+    assert.equal(fake.calls.length, 2);
+    assert.equal(store.listAuditEntries({ limit: 1 })[0]!.result, "denied");
+    // Reactions don't count, and other chats have their own allowance.
+    await sender.sendReaction(fake.sock, "a@g.us", "m1", "👍", cfg);
+    await sender.sendText(fake.sock, "b@g.us", "elsewhere", cfg);
+  });
+
+  it("uses rolling windows and reports when a slot frees up", () => {
+    const cfg = config({ chat_per_hour: 2, chat_per_day: 3 });
+    quotas.reserveQuota("c@g.us", cfg, T);
+    quotas.reserveQuota("c@g.us", cfg, T + 600);
+    assert.throws(
+      () => quotas.reserveQuota("c@g.us", cfg, T + 1200),
+      (err: unknown) => err instanceof quotas.QuotaExceededError && err.retryAt === T + 3600
+    );
+    quotas.reserveQuota("c@g.us", cfg, T + 3601);
+    assert.throws(
+      () => quotas.reserveQuota("c@g.us", cfg, T + 7300),
+      (err: unknown) => err instanceof quotas.QuotaExceededError && err.quota === "chat_per_day"
+    );
+    quotas.reserveQuota("c@g.us", cfg, T + 86401);
+  });
+
+  it("limits first messages to people never written to before", () => {
+    const cfg = config({ new_chats_per_day: 1 });
+    quotas.reserveQuota("111@s.whatsapp.net", cfg, T);
+    // Already written to, and groups, are never new.
+    quotas.reserveQuota("111@s.whatsapp.net", cfg, T + 1);
+    quotas.reserveQuota("d@g.us", cfg, T + 2);
+    store.upsertMessage({
+      id: "old-out", chat_jid: "222@s.whatsapp.net", sender_jid: null, sender_name: null, body: "hi",
+      type: "text", media_mime: null, media_path: null, media_size: null, media_direct_path: null,
+      media_key: null, media_file_sha256: null, media_file_enc_sha256: null, media_file_length: null,
+      quoted_id: null, location_lat: null, location_lon: null, location_name: null,
+      is_from_me: 1, timestamp: T - 100, raw: null,
+    });
+    quotas.reserveQuota("222@s.whatsapp.net", cfg, T + 3);
+    assert.throws(() => quotas.reserveQuota("333@s.whatsapp.net", cfg, T + 4), /new chats/);
+  });
+
+  it("gives the slot back when the send fails", async () => {
+    const cfg = config({ chat_per_hour: 1 });
+    const fake = makeFakeSocket();
+    (fake.sock as unknown as { sendMessage: () => never }).sendMessage = () => {
+      throw new Error("socket closed");
+    };
+    await assert.rejects(() => sender.sendText(fake.sock, "e@g.us", "lost", cfg), /socket closed/);
+    await sender.sendText(makeFakeSocket().sock, "e@g.us", "retried", cfg);
+  });
+
+  it("holds outbox rows until the quota has room, without spending attempts", async () => {
+    const cfg = config({ chat_per_hour: 1 });
+    const fake = makeFakeSocket();
+    const first = outbox.enqueueMessage({ chatJid: "f@g.us", text: "1" }, cfg);
+    const second = outbox.enqueueMessage({ chatJid: "f@g.us", text: "2" }, cfg);
+    const results = await outbox.drainOutbox(fake.sock, cfg);
+    assert.deepEqual(results.map((r) => r.ok), [true, false]);
+    const held = store.getOutboxMessage(second.id)!;
+    assert.deepEqual([held.status, held.attempts], ["queued", 0]);
+    assert.ok(held.next_attempt_at > Math.floor(Date.now() / 1000) + 3000);
+    assert.equal(store.getOutboxMessage(first.id)!.status, "sent");
+  });
+
+  it("carries the exit code over daemon IPC and tags the MCP error", async () => {
+    const cfg = config({ chat_per_hour: 1 });
+    await sender.sendText(makeFakeSocket().sock, "g@g.us", "used up", cfg);
+
+    const sockPath = join(tmpdir(), `wu-quotas-${process.pid}.sock`);
+    const stop = ipc.startDaemonIpc(() => makeFakeSocket().sock, cfg, sockPath);
+    try {
+      await assert.rejects(
+        () => ipc.daemonRequest("messages.sendText", { jid: "g@g.us", text: "more" }, 5000, sockPath),
+        (err: unknown) => (err as { exitCode?: number }).exitCode === 6
+      );
+      assert.equal(store.listOutboxMessages({ limit: 10 }).filter((r) => r.chat_jid === "g@g.us").length, 0, "not queued");
+    } finally {
+      stop();
+    }
+
+    const { server, tools } = makeFakeMcp();
+    toolsMod.registerTools(server as never, () => makeFakeSocket().sock, cfg);
+    const result = await tools.get("wu_messages_send")!.handler({ to: "g@g.us", message: "more" });
+    assert.equal(result.isError, true);
+    const parsed = JSON.parse(result.content[0].text);
+    assert.equal(parsed.code, "quota_exceeded");
+    assert.match(parsed.error, /Quota exceeded/);
+  });
+});
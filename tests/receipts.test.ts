@@ -0,0 +1,107 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, mkdirSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { makeFakeSocket } from "./helpers/fake-socket.js";
+
+const home = mkdtempSync(join(tmpdir(), "wu-receipts-"));
+process.env.WU_HOME = home;
+mkdirSync(join(home, "auth"), { recursive: true });
+
+let database: typeof import("../src/db/database.js");
+let store: typeof import("../src/core/store.js");
+let listener: typeof import("../src/core/listener.js");
+let receipts: typeof import("../src/core/receipts.js");
+let schema: typeof import("../src/config/schema.js");
+
+before(async () => {
+  database = await import("../src/db/database.js");
+  store = await import("../src/core/store.js");
+  listener = await import("../src/core/listener.js");
+  receipts = await import("../src/core/receipts.js");
+  schema = await import("../src/config/schema.js");
+  database.getDb();
+});
+
+after(() => {
+  database.closeDb();
+  rmSync(home, { recursive: true, force: true });
+});
+
+function ownMessage(chatJid: string, id: string) {
+  return {
+    key: { remoteJid: chatJid, id, fromMe: true },
+    message: { conversation: "Meeting moved to 3pm" },
+    messageTimestamp: 1700000000,
+  };
+}
+
+describe("receipts", () => {
+  it("tracks group receipts per participant and lists who hasn't read", () => {
+    const { sock, ev, emitUpsert } = makeFakeSocket();
+    const config = schema.WuConfigSchema.parse({ constraints: { default: "read" } });
+    listener.startListener(sock, { config, quiet: true });
+
+    emitUpsert([ownMessage("team@g.us", "announce-1")], "append");
+    store.upsertGroupParticipants("team@g.us", [
+      { jid: "111@s.whatsapp.net", isAdmin: false, isSuperAdmin: false },
+      { jid: "222@s.whatsapp.net", isAdmin: false, isSuperAdmin: false },
+      { jid: "333@s.whatsapp.net", isAdmin: false, isSuperAdmin: false },
+    ]);
+
+    const key = { remoteJid: "team@g.us", id: "announce-1", fromMe: true };
+    ev.emit("message-receipt.update", [
+      { key, receipt: { userJid: "111@s.whatsapp.net", receiptTimestamp: 1700000010 } },
+      { key, receipt: { userJid: "111@s.whatsapp.net", readTimestamp: 1700000020 } },
+      // Read without a separate delivery receipt still counts as delivered.
+      { key, receipt: { userJid: "222@s.whatsapp.net", readTimestamp: 1700000030 } },
+      { key, receipt: { userJid: "333@s.whatsapp.net", receiptTimestamp: 1700000040 } },
+      // A re-sent receipt doesn't move the first read time.
+      { key, receipt: { userJid: "111@s.whatsapp.net", readTimestamp: 1700000099 } },
+    ]);
+
+    const report = receipts.getReceiptReport("announce-1");
+    assert.equal(report.delivered_count, 3);
+    assert.equal(report.read_count, 2);
+    assert.deepEqual(report.not_yet_read_by, ["333@s.whatsapp.net"]);
+    const first = report.recipients.find((r) => r.recipient_jid === "111@s.whatsapp.net");
+    assert.deepEqual(first, {
+      recipient_jid: "111@s.whatsapp.net",
+      delivered_at: 1700000010,
+      read_at: 1700000020,
+      played_at: null,
+    });
+  });
+
+  it("tracks 1:1 receipts from status updates", () => {
+    const { sock, emitUpsert, emitUpdate } = makeFakeSocket();
+    const config = schema.WuConfigSchema.parse({ constraints: { default: "read" } });
+    listener.startListener(sock, { config, quiet: true });
+
+    emitUpsert([ownMessage("444@s.whatsapp.net", "dm-1")], "append");
+    const key = { remoteJid: "444@s.whatsapp.net", id: "dm-1", fromMe: true };
+    emitUpdate([{ key, update: { status: 3, messageTimestamp: 1700000050 } }]);
+
+    let report = receipts.getReceiptReport("dm-1");
+    assert.equal(report.delivered_count, 1);
+    assert.deepEqual(report.not_yet_read_by, ["444@s.whatsapp.net"]);
+
+    emitUpdate([{ key, update: { status: 4, messageTimestamp: 1700000060 } }]);
+    report = receipts.getReceiptReport("dm-1");
+    assert.equal(report.read_count, 1);
+    assert.deepEqual(report.not_yet_read_by, []);
+  });
+
+  it("refuses messages that aren't ours", () => {
+    store.upsertMessage({
+      id: "theirs-1", chat_jid: "444@s.whatsapp.net", sender_jid: "444@s.whatsapp.net", sender_name: null,
+      body: "hi", type: "text", media_mime: null, media_path: null, media_size: null,
+      media_direct_path: null, media_key: null, media_file_sha256: null, media_file_enc_sha256: null,
+      media_file_length: null, quoted_id: null, location_lat: null, location_lon: null, location_name: null,
+      is_from_me: 0, timestamp: 1700000000, raw: null,
+    });
+    assert.throws(() => receipts.getReceiptReport("theirs-1"), /only tracked for messages you sent/);
+    assert.throws(() => receipts.getReceiptReport("missing"), /not found/);
+  });
+});
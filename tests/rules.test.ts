@@ -0,0 +1,185 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, mkdirSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { makeFakeSocket } from "./helpers/fake-socket.js";
+
+const home = mkdtempSync(join(tmpdir(), "wu-rules-"));
+process.env.WU_HOME = home;
+mkdirSync(join(home, "auth"), { recursive: true });
+
+let database: typeof import("../src/db/database.js");
+let listener: typeof import("../src/core/listener.js");
+let rules: typeof import("../src/core/rules.js");
+let schema: typeof import("../src/config/schema.js");
+
+before(async () => {
+  database = await import("../src/db/database.js");
+  listener = await import("../src/core/listener.js");
+  rules = await import("../src/core/rules.js");
+  schema = await import("../src/config/schema.js");
+  database.getDb();
+});
+
+after(() => {
+  database.closeDb();
+  rmSync(home, { recursive: true, force: true });
+});
+
+// Local times: Monday 2026-03-02 at 20:00 and at 10:00.
+const EVENING = Math.floor(new Date(2026, 2, 2, 20, 0).getTime() / 1000);
+const MORNING = Math.floor(new Date(2026, 2, 2, 10, 0).getTime() / 1000);
+
+function configWith(ruleList: unknown[], chats: Record<string, { mode: string }> = {}) {
+  return schema.WuConfigSchema.parse({
+    constraints: { default: "full", chats },
+    whatsapp: { send_delay_ms: 0 },
+    rules: ruleList,
+  });
+}
+
+function input(overrides: Partial<import("../src/core/rules.js").RuleInput> = {}) {
+  return {
+    id: "m1",
+    chatJid: "111@s.whatsapp.net",
+    senderJid: "111@s.whatsapp.net",
+    senderName: "Alice",
+    body: "hello there",
+    type: "text",
+    isFromMe: false,
+    timestamp: EVENING,
+    ...overrides,
+  };
+}
+
+const officeClosed = {
+  name: "office-closed",
+  match: { chats: ["*@s.whatsapp.net"], hours: "18:00-09:00", days: ["mon", "tue", "wed", "thu", "fri"] },
+  actions: [{ reply: "Hi {sender_name}, the office is closed." }],
+};
+
+describe("matchRules", () => {
+  it("matches chat wildcard, hours window across midnight and weekdays", () => {
+    const config = configWith([officeClosed]);
+    assert.deepEqual(rules.matchRules(input(), config).map((m) => m.name), ["office-closed"]);
+    assert.equal(rules.matchRules(input({ timestamp: MORNING }), config).length, 0);
+    assert.equal(rules.matchRules(input({ chatJid: "team@g.us" }), config).length, 0);
+    // Sunday evening is outside `days`.
+    const sunday = Math.floor(new Date(2026, 2, 1, 20, 0).getTime() / 1000);
+    assert.equal(rules.matchRules(input({ timestamp: sunday }), config).length, 0);
+  });
+
+  it("matches body regex, sender and type, and honours stop", () => {
+    const config = configWith([
+      { name: "ping", match: { body: "^!ping\\b", senders: ["222@s.whatsapp.net"] }, actions: [{ reply: "pong" }], stop: true },
+      { name: "images", match: { types: ["image"] }, actions: [{ react: "👀" }] },
+      { name: "any", actions: [{ react: "👍" }] },
+    ]);
+    assert.deepEqual(
+      rules.matchRules(input({ body: "!PING now", senderJid: "222@s.whatsapp.net" }), config).map((m) => m.name),
+      ["ping"]
+    );
+    assert.deepEqual(
+      rules.matchRules(input({ body: "!ping", senderJid: "333@s.whatsapp.net", type: "image" }), config).map((m) => m.name),
+      ["images", "any"]
+    );
+  });
+
+  it("never matches our own messages", () => {
+    const config = configWith([{ actions: [{ reply: "echo" }] }]);
+    assert.equal(rules.matchRules(input({ isFromMe: true }), config).length, 0);
+  });
+
+  it("rejects an invalid body regex at config load", () => {
+    assert.throws(() => configWith([{ match: { body: "([" }, actions: [{ reply: "x" }] }]), /valid regular expression/);
+  });
+});
+
+describe("planActions", () => {
+  it("renders the reply and flags actions the constraints would block", () => {
+    const config = configWith(
+      [{ ...officeClosed, actions: [...officeClosed.actions, { forward: "archive@g.us" }] }],
+      { "archive@g.us": { mode: "read" } }
+    );
+    const planned = rules.planActions(input(), config);
+    assert.equal(planned.length, 2);
+    assert.deepEqual(planned[0], {
+      rule: "office-closed",
+      action: "reply",
+      target: "111@s.whatsapp.net",
+      detail: "Hi Alice, the office is closed.",
+    });
+    assert.equal(planned[1]!.action, "forward");
+    assert.match(planned[1]!.blocked!, /read-only/);
+  });
+});
+
+describe("RuleEngine", () => {
+  function liveMessage(config: ReturnType<typeof configWith>, sock: ReturnType<typeof makeFakeSocket>, body: string, id: string) {
+    const seen: import("../src/core/listener.js").ParsedMessage[] = [];
+    listener.startListener(sock.sock, { config, quiet: true, onMessage: (m) => seen.push(m) });
+    sock.emitUpsert([
+      {
+        key: { remoteJid: "111@s.whatsapp.net", id, fromMe: false },
+        pushName: "Alice",
+        message: { conversation: body },
+        messageTimestamp: EVENING,
+      },
+    ]);
+    return seen[0]!;
+  }
+
+  it("replies once per cooldown and quotes the trigger", async () => {
+    const config = configWith([{ ...officeClosed, cooldown_seconds: 3600 }]);
+    const fake = makeFakeSocket();
+    const msg = liveMessage(config, fake, "are you open?", "r1");
+    const engine = new rules.RuleEngine();
+
+    assert.deepEqual(await engine.handle(fake.sock, msg, config, EVENING), [
+      { rule: "office-closed", action: "reply", ok: true },
+    ]);
+    const sends = fake.calls.filter((c) => c.method === "sendMessage");
+    assert.equal(sends.length, 1);
+    assert.deepEqual(sends[0]!.args[1], { text: "Hi Alice, the office is closed." });
+
+    assert.deepEqual(await engine.handle(fake.sock, msg, config, EVENING + 60), [], "inside the cooldown");
+    assert.equal((await engine.handle(fake.sock, msg, config, EVENING + 3600)).length, 1);
+  });
+
+  it("refuses to send into a chat the constraints make read-only", async () => {
+    const config = configWith([officeClosed], { "*@s.whatsapp.net": { mode: "read" } });
+    const fake = makeFakeSocket();
+    const msg = liveMessage(config, fake, "hello?", "r2");
+    const [result] = await new rules.RuleEngine().handle(fake.sock, msg, config, EVENING);
+    assert.equal(result!.ok, false);
+    assert.match(result!.error!, /Constraint violation/);
+    assert.equal(fake.calls.filter((c) => c.method === "sendMessage").length, 0);
+  });
+
+  it("runs a command with the message in its environment and replies with its output", async () => {
+    const config = configWith([
+      { match: { body: "^!shout " }, actions: [{ run: 'printf "%s" "$WU_BODY" | tr a-z A-Z', reply_output: true }] },
+    ]);
+    const fake = makeFakeSocket();
+    const msg = liveMessage(config, fake, "!shout hi", "r3");
+    const [result] = await new rules.RuleEngine().handle(fake.sock, msg, config, EVENING);
+    assert.equal(result!.ok, true);
+    const sent = fake.calls.find((c) => c.method === "sendMessage")!;
+    assert.deepEqual(sent.args[1], { text: "!SHOUT HI" });
+  });
+
+  it("is wired into the listener for live messages", async () => {
+    const config = configWith([{ match: { body: "ping" }, actions: [{ react: "🏓" }] }]);
+    const fake = makeFakeSocket();
+    listener.startListener(fake.sock, { config, quiet: true, rules: new rules.RuleEngine() });
+    fake.emitUpsert([
+      { key: { remoteJid: "111@s.whatsapp.net", id: "r4", fromMe: false }, message: { conversation: "ping" }, messageTimestamp: EVENING },
+      { key: { remoteJid: "111@s.whatsapp.net", id: "r5", fromMe: true }, message: { conversation: "ping" }, messageTimestamp: EVENING },
+    ]);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const reacts = fake.calls.filter((c) => c.method === "sendMessage");
+    assert.equal(reacts.length, 1, "our own message is not answered");
+    assert.deepEqual((reacts[0]!.args[1] as { react: { key: { id: string } } }).react.key.id, "r4");
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, mkdirSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { makeFakeSocket } from "./helpers/fake-socket.js";
+
+const home = mkdtempSync(join(tmpdir(), "wu-schedule-"));
+process.env.WU_HOME = home;
+mkdirSync(join(home, "auth"), { recursive: true });
+
+let database: typeof import("../src/db/database.js");
+let store: typeof import("../src/core/store.js");
+let schedule: typeof import("../src/core/schedule.js");
+let schema: typeof import("../src/config/schema.js");
+let sender: typeof import("../src/core/sender.js");
+
+before(async () => {
+  database = await import("../src/db/database.js");
+  store = await import("../src/core/store.js");
+  schedule = await import("../src/core/schedule.js");
+  schema = await import("../src/config/schema.js");
+  sender = await import("../src/core/sender.js");
+  database.getDb();
+});
+
+after(() => {
+  database.closeDb();
+  rmSync(home, { recursive: true, force: true });
+});
+
+// Local-time anchor: 2026-03-02 (a Monday) 08:30.
+const NOW = new Date(2026, 2, 2, 8, 30, 0);
+const nowSec = Math.floor(NOW.getTime() / 1000);
+const local = (...args: [number, number, number, number, number]) =>
+  Math.floor(new Date(...args).getTime() / 1000);
+
+describe("parseWhen", () => {
+  it("accepts offsets, clock times, tomorrow, unix and dates", () => {
+    assert.equal(schedule.parseWhen("30m", NOW), nowSec + 1800);
+    assert.equal(schedule.parseWhen("+2h", NOW), nowSec + 7200);
+    assert.equal(schedule.parseWhen("in 1d", NOW), nowSec + 86400);
+    assert.equal(schedule.parseWhen("09:00", NOW), local(2026, 2, 2, 9, 0));
+    // Already past today: the next one is tomorrow.
+    assert.equal(schedule.parseWhen("08:00", NOW), local(2026, 2, 3, 8, 0));
+    assert.equal(schedule.parseWhen("tomorrow 09:00", NOW), local(2026, 2, 3, 9, 0));
+    assert.equal(schedule.parseWhen("1772600000", NOW), 1772600000);
+    assert.equal(schedule.parseWhen("2026-03-05T10:15", NOW), local(2026, 2, 5, 10, 15));
+  });
+
+  it("rejects gibberish", () => {
+    assert.throws(() => schedule.parseWhen("next blue moon", NOW), /Invalid time/);
+  });
+});
+
+describe("cron", () => {
+  it("finds the next matching minute", () => {
+    const weekdays9 = schedule.parseCron("0 9 * * 1-5");
+    assert.equal(schedule.nextCronTime(weekdays9, nowSec), local(2026, 2, 2, 9, 0));
+    // Friday 09:00 -> Monday 09:00.
+    assert.equal(schedule.nextCronTime(weekdays9, local(2026, 2, 6, 9, 0)), local(2026, 2, 9, 9, 0));
+    const every15 = schedule.parseCron("*/15 * * * *");
+    assert.equal(schedule.nextCronTime(every15, nowSec), local(2026, 2, 2, 8, 45));
+  });
+
+  it("ors the day fields only when neither starts with *", () => {
+    // Monday 2 March 09:00. */2 doesn't restrict the days, so every Monday fires.
+    const mondays = schedule.parseCron("0 9 */2 * 1");
+    assert.equal(schedule.nextCronTime(mondays, local(2026, 2, 2, 9, 0)), local(2026, 2, 9, 9, 0));
+    assert.equal(schedule.nextCronTime(mondays, local(2026, 2, 9, 9, 0)), local(2026, 2, 16, 9, 0));
+    const firstOrMonday = schedule.parseCron("0 9 1 * 1");
+    assert.equal(schedule.nextCronTime(firstOrMonday, local(2026, 1, 27, 9, 0)), local(2026, 2, 1, 9, 0));
+    assert.equal(schedule.nextCronTime(firstOrMonday, local(2026, 2, 1, 9, 0)), local(2026, 2, 2, 9, 0));
+    const everyOtherDay = schedule.parseCron("0 9 */2 * *");
+    assert.equal(schedule.nextCronTime(everyOtherDay, local(2026, 2, 1, 9, 0)), local(2026, 2, 3, 9, 0));
+  });
+
+  it("rejects malformed expressions", () => {
+    assert.throws(() => schedule.parseCron("0 9 * *"), /expected 5 fields/);
+    assert.throws(() => schedule.parseCron("61 * * * *"), /minute/);
+  });
+});
+
+describe("runDueSchedules", () => {
+  const config = () =>
+    schema.WuConfigSchema.parse({
+      constraints: { default: "none", chats: { "ok@g.us": { mode: "full" } } },
+      whatsapp: { send_delay_ms: 0 },
+    });
+
+  it("sends due messages once and records the result", async () => {
+    const { sock, calls } = makeFakeSocket();
+    const row = schedule.scheduleMessage({ chatJid: "ok@g.us", text: "standup in 5", sendAt: nowSec + 60 }, config(), nowSec);
+
+    assert.deepEqual(await schedule.runDueSchedules(sock, config(), nowSec), [], "not due yet");
+    const results = await schedule.runDueSchedules(sock, config(), nowSec + 60);
+    assert.deepEqual(results, [{ id: row.id, ok: true }]);
+    assert.equal(calls.filter((c) => c.method === "sendMessage").length, 1);
+
+    const stored = store.getScheduledMessage(row.id)!;
+    assert.equal(stored.status, "sent");
+    assert.equal(stored.last_message_id, "fake-msg-id");
+    assert.deepEqual(await schedule.runDueSchedules(sock, config(), nowSec + 120), []);
+  });
+
+  it("re-checks constraints at fire time and records the failure", async () => {
+    const { sock, calls } = makeFakeSocket();
+    const row = schedule.scheduleMessage({ chatJid: "ok@g.us", text: "later", sendAt: nowSec + 60 }, config(), nowSec);
+    // The chat was locked down after scheduling.
+    const locked = schema.WuConfigSchema.parse({ constraints: { default: "none" } });
+
+    const [result] = await schedule.runDueSchedules(sock, locked, nowSec + 60);
+    assert.equal(result.ok, false);
+    assert.equal(calls.length, 0);
+    const stored = store.getScheduledMessage(row.id)!;
+    assert.equal(stored.status, "failed");
+    assert.match(stored.last_error!, /constraint|not allowed|blocked/i);
+  });
+
+  it("keeps a recurring message pending at its next occurrence", async () => {
+    const { sock } = makeFakeSocket();
+    const row = schedule.scheduleMessage({ chatJid: "ok@g.us", text: "daily", cron: "0 9 * * *" }, config(), nowSec);
+    assert.equal(row.send_at, local(2026, 2, 2, 9, 0));
+
+    await schedule.runDueSchedules(sock, config(), row.send_at);
+    const stored = store.getScheduledMessage(row.id)!;
+    assert.equal(stored.status, "pending");
+    assert.equal(stored.run_count, 1);
+    assert.equal(stored.send_at, local(2026, 2, 3, 9, 0));
+    assert.ok(store.cancelScheduledMessage(row.id));
+    assert.equal(store.getScheduledMessage(row.id)!.status, "cancelled");
+  });
+
+  it("retries a delivery that fails mid-reconnect instead of failing it", async () => {
+    const row = schedule.scheduleMessage({ chatJid: "ok@g.us", text: "standup", sendAt: nowSec + 60 }, config(), nowSec);
+    const closed = makeFakeSocket();
+    (closed.sock as unknown as { sendMessage: () => Promise<never> }).sendMessage = async () => {
+      throw new Error("Connection Closed");
+    };
+
+    const [failed] = await schedule.runDueSchedules(closed.sock, config(), nowSec + 60);
+    assert.deepEqual(failed, { id: row.id, ok: false, error: "Connection Closed", retry_at: nowSec + 65 });
+    const waiting = store.getScheduledMessage(row.id)!;
+    assert.deepEqual([waiting.status, waiting.attempts, waiting.send_at], ["pending", 1, nowSec + 65]);
+
+    const { sock, calls } = makeFakeSocket();
+    assert.deepEqual(await schedule.runDueSchedules(sock, config(), nowSec + 65), [{ id: row.id, ok: true }]);
+    assert.equal(calls.filter((c) => c.method === "sendMessage").length, 1);
+    const sent = store.getScheduledMessage(row.id)!;
+    assert.deepEqual([sent.status, sent.attempts, sent.last_error], ["sent", 0, null]);
+  });
+
+  it("holds a due message while the quota is full, without spending attempts", async () => {
+    const cfg = schema.WuConfigSchema.parse({
+      constraints: { default: "none", chats: { "quota@g.us": { mode: "full" } } },
+      whatsapp: { send_delay_ms: 0 },
+      quotas: { chat_per_hour: 1 },
+    });
+    await sender.sendText(makeFakeSocket().sock, "quota@g.us", "used up", cfg);
+    const row = schedule.scheduleMessage({ chatJid: "quota@g.us", text: "later", sendAt: nowSec + 60 }, cfg, nowSec);
+
+    const [result] = await schedule.runDueSchedules(makeFakeSocket().sock, cfg, nowSec + 60);
+    assert.equal(result.ok, false);
+    const held = store.getScheduledMessage(row.id)!;
+    assert.deepEqual([held.status, held.attempts, held.send_at], ["pending", 0, result.retry_at]);
+    assert.ok(store.cancelScheduledMessage(row.id));
+  });
+
+  it("refuses to schedule into a blocked chat or the past", () => {
+    assert.throws(() => schedule.scheduleMessage({ chatJid: "nope@g.us", text: "x", sendAt: nowSec + 60 }, config(), nowSec));
+    assert.throws(
+      () => schedule.scheduleMessage({ chatJid: "ok@g.us", text: "x", sendAt: nowSec - 60 }, config(), nowSec),
+      /past/
+    );
+  });
+});
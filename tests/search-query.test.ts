@@ -0,0 +1,169 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, mkdirSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { makeFakeMcp } from "./helpers/fake-mcp.js";
+
+const home = mkdtempSync(join(tmpdir(), "wu-search-query-"));
+process.env.WU_HOME = home;
+mkdirSync(join(home, "auth"), { recursive: true });
+
+let database: typeof import("../src/db/database.js");
+let store: typeof import("../src/core/store.js");
+let search: typeof import("../src/core/search-query.js");
+let toolsMod: typeof import("../src/mcp/tools.js");
+let schema: typeof import("../src/config/schema.js");
+
+const TEAM = "team@g.us";
+const FAMILY = "family@g.us";
+const ALICE = "15550001111@s.whatsapp.net";
+const BOB = "15550002222@s.whatsapp.net";
+
+function config() {
+  return schema.WuConfigSchema.parse({ constraints: { default: "full" } });
+}
+
+function message(id: string, body: string | null, extra: Partial<import("../src/core/store.js").MessageUpsert> = {}) {
+  store.upsertMessage({
+    id,
+    chat_jid: TEAM,
+    sender_jid: ALICE,
+    sender_name: "Alice",
+    body,
+    type: "text",
+    media_mime: null,
+    media_path: null,
+    media_size: null,
+    media_direct_path: null,
+    media_key: null,
+    media_file_sha256: null,
+    media_file_enc_sha256: null,
+    media_file_length: null,
+    quoted_id: null,
+    location_lat: null,
+    location_lon: null,
+    location_name: null,
+    is_from_me: 0,
+    timestamp: 1767000000,
+    raw: null,
+    ...extra,
+  });
+}
+
+before(async () => {
+  database = await import("../src/db/database.js");
+  store = await import("../src/core/store.js");
+  search = await import("../src/core/search-query.js");
+  toolsMod = await import("../src/mcp/tools.js");
+  schema = await import("../src/config/schema.js");
+  schema.saveConfig(config());
+  database.getDb();
+
+  store.upsertChat({ jid: TEAM, name: "Team Chat", type: "group", participant_count: null, description: null, last_message_at: null });
+  store.upsertChat({ jid: FAMILY, name: "Family", type: "group", participant_count: null, description: null, last_message_at: null });
+  store.upsertContact({ jid: BOB, phone: "15550002222", push_name: "Bobby", saved_name: null, is_business: 0 });
+
+  message("budget", "Q3 budget is attached");
+  message("invoice", "Invoice for March", { chat_jid: FAMILY, sender_jid: BOB, sender_name: null });
+  message("draft", "Draft budget, do not share", { is_from_me: 1, sender_jid: null, sender_name: null });
+  message("photo", "budget slide", { type: "image", media_mime: "image/jpeg", timestamp: 1768000000 });
+  message("meeting", "Meetings moved to Tuesday", { timestamp: 1768000000 });
+});
+
+after(() => {
+  database.closeDb();
+  rmSync(home, { recursive: true, force: true });
+});
+
+const ids = (query: string) => store.searchMessages(query).map((r) => r.id).sort();
+
+describe("search query parsing", () => {
+  it("groups OR'd terms and keeps phrases, prefixes and exclusions apart", () => {
+    const parsed = search.parseSearchQuery('budget OR invoice "do not" meet* -draft');
+    assert.deepEqual(parsed.terms, [
+      [{ text: "budget", prefix: false }, { text: "invoice", prefix: false }],
+      [{ text: "do not", prefix: false }],
+      [{ text: "meet", prefix: true }],
+    ]);
+    assert.deepEqual(parsed.excluded, [{ text: "draft", prefix: false }]);
+    assert.equal(search.toFtsMatch(parsed.terms), '("budget" OR "invoice") AND "do not" AND "meet"*');
+  });
+
+  it("turns filters into SQL, quoted values included", () => {
+    const parsed = search.parseSearchQuery('in:"Team Chat" from:+15550002222 type:image has:media is:from-me -after:2026-01-01');
+    assert.deepEqual(parsed.terms, []);
+    assert.deepEqual(
+      parsed.filters.map((f) => f.params),
+      [["%Team Chat%"], ["15550002222@%"], ["image"], [], [], [Math.floor(Date.parse("2026-01-01") / 1000)]]
+    );
+    assert.match(parsed.filters.at(-1)!.sql, /^NOT COALESCE/);
+  });
+
+  it("explains what is wrong with a malformed query", () => {
+    const bad: Array<[string, RegExp]> = [
+      ["", /the query is empty/],
+      ['"unfinished', /unterminated quote at position 1/],
+      ["budget OR", /OR must sit between two search terms/],
+      ["from:alice OR budget", /OR must sit between/],
+      ["budget -", /nothing to exclude/],
+      ["lang:en", /unknown filter "lang:".*quote "lang:en"/],
+      ["type:gif", /unknown type "gif"/],
+      ["has:link", /unknown has:link/],
+      ["before:someday", /before:someday is not a time/],
+      ["from:", /from: needs a value/],
+    ];
+    for (const [query, message] of bad) {
+      assert.throws(() => search.parseSearchQuery(query), message, query);
+    }
+    // Not filters: a URL and a clock time are plain text.
+    assert.equal(search.parseSearchQuery("https://example.com 10:30").terms.length, 2);
+  });
+});
+
+describe("searchMessages with a structured query", () => {
+  it("matches terms through the FTS index", () => {
+    assert.deepEqual(ids("budget OR invoice"), ["budget", "draft", "invoice", "photo"]);
+    assert.deepEqual(ids("budget -draft"), ["budget", "photo"]);
+    assert.deepEqual(ids("meet*"), ["meeting"]);
+    assert.deepEqual(ids('"do not share"'), ["draft"]);
+  });
+
+  it("applies filters, with or without text terms", () => {
+    assert.deepEqual(ids('budget in:"Team Chat" has:media'), ["photo"]);
+    assert.deepEqual(ids("from:bobby"), ["invoice"]);
+    assert.deepEqual(ids("from:alice -type:image"), ["budget", "meeting"]);
+    assert.deepEqual(ids("is:from-me"), ["draft"]);
+    assert.deepEqual(ids("-budget after:1767500000"), ["meeting"]);
+  });
+
+  it("gives the same answers on the LIKE fallback", () => {
+    // Make every FTS read fail as a corrupt index would.
+    const db = database.getDb();
+    const prepare = db.prepare.bind(db);
+    db.prepare = ((sql: string) => {
+      if (sql.includes("messages_fts MATCH")) throw new Error("database disk image is malformed");
+      return prepare(sql);
+    }) as typeof db.prepare;
+    try {
+      assert.deepEqual(ids("budget OR invoice"), ["budget", "draft", "invoice", "photo"]);
+      assert.deepEqual(ids("budget -draft in:team"), ["budget", "photo"]);
+      assert.deepEqual(ids("-budget after:1767500000"), ["meeting"]);
+    } finally {
+      db.prepare = prepare;
+    }
+  });
+
+  it("reports a malformed query as an error from wu_messages_search", async () => {
+    const { server, tools } = makeFakeMcp();
+    toolsMod.registerTools(server as never, () => undefined, config());
+    const tool = tools.get("wu_messages_search")!;
+
+    const res = await tool.handler({ query: "budget OR", limit: 50 });
+    assert.equal(res.isError, true);
+    assert.match(res.content[0].text, /Invalid search query: OR must sit between/);
+
+    const hits = JSON.parse((await tool.handler({ query: "budget type:image", limit: 50 })).content[0].text);
+    assert.deepEqual(hits.map((h: { id: string }) => h.id), ["photo"]);
+  });
+});
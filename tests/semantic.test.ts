@@ -0,0 +1,146 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { makeFakeMcp } from "./helpers/fake-mcp.js";
+
+const home = mkdtempSync(join(tmpdir(), "wu-semantic-"));
+process.env.WU_HOME = home;
+mkdirSync(join(home, "auth"), { recursive: true });
+
+let database: typeof import("../src/db/database.js");
+let store: typeof import("../src/core/store.js");
+let semantic: typeof import("../src/core/semantic.js");
+let service: typeof import("../src/core/service.js");
+let toolsMod: typeof import("../src/mcp/tools.js");
+let schema: typeof import("../src/config/schema.js");
+
+const TEAM = "team@g.us";
+const SECRET = "secret@g.us";
+
+// A deterministic stand-in for an embedding model: one dimension per concept,
+// counting the words of it in the text read from stdin, plus a constant so no
+// vector is all zeros.
+const EMBEDDER = `
+const concepts = [["meetup", "gathering", "meeting"], ["friday", "weekend"], ["invoice", "bill", "pay"], ["pizza", "lunch"]];
+let text = "";
+process.stdin.on("data", (d) => (text += d)).on("end", () => {
+  const words = text.toLowerCase().match(/[a-z]+/g) || [];
+  console.log(JSON.stringify([...concepts.map((c) => words.filter((w) => c.includes(w)).length), 0.1]));
+});
+`;
+
+function config(embed: "local" | "off" = "local") {
+  return schema.WuConfigSchema.parse({
+    constraints: { default: "none", chats: { [TEAM]: { mode: "full" } } },
+    enrich: { embed: { backend: embed, local: { cmd: `node ${join(home, "embed.js")}` } } },
+  });
+}
+
+function message(id: string, body: string, extra: Partial<import("../src/core/store.js").MessageUpsert> = {}) {
+  store.upsertMessage({
+    id,
+    chat_jid: TEAM,
+    sender_jid: "15550001111@s.whatsapp.net",
+    sender_name: "Alice",
+    body,
+    type: "text",
+    media_mime: null,
+    media_path: null,
+    media_size: null,
+    media_direct_path: null,
+    media_key: null,
+    media_file_sha256: null,
+    media_file_enc_sha256: null,
+    media_file_length: null,
+    quoted_id: null,
+    location_lat: null,
+    location_lon: null,
+    location_name: null,
+    is_from_me: 0,
+    timestamp: 1767000000,
+    raw: null,
+    ...extra,
+  });
+}
+
+before(async () => {
+  database = await import("../src/db/database.js");
+  store = await import("../src/core/store.js");
+  semantic = await import("../src/core/semantic.js");
+  service = await import("../src/core/service.js");
+  toolsMod = await import("../src/mcp/tools.js");
+  schema = await import("../src/config/schema.js");
+  writeFileSync(join(home, "embed.js"), EMBEDDER);
+  schema.saveConfig(config());
+  database.getDb();
+
+  message("notes", "meetup notes are attached");
+  message("gathering", "Gathering on Friday at the park", { is_from_me: 1, timestamp: 1767000100 });
+  message("invoice", "Please pay the invoice");
+  message("pizza", "Pizza for lunch?");
+  message("hidden", "secret meetup", { chat_jid: SECRET });
+});
+
+after(() => {
+  database.closeDb();
+  rmSync(home, { recursive: true, force: true });
+});
+
+describe("embedding messages", () => {
+  it("embeds the readable chats' messages once, and again after an edit", async () => {
+    const first = await semantic.embedMessages(config(), { limit: 100 });
+    assert.deepEqual([first.embedded, first.failed, first.remaining], [4, 0, 0]);
+    assert.equal((await semantic.embedMessages(config(), { limit: 100 })).embedded, 0);
+
+    store.applyMessageEdit("pizza", "Pizza for lunch on Friday?", 1767000200);
+    const again = await semantic.embedMessages(config(), { limit: 100 });
+    assert.equal(again.embedded, 1);
+  });
+
+  it("explains how to turn the backend on", async () => {
+    await assert.rejects(() => semantic.embedMessages(config("off"), { limit: 10 }), /embed is not available \(disabled\)/);
+  });
+});
+
+describe("semantic search", () => {
+  const search = (query: string, opts: { limit?: number; cursor?: string } = {}) =>
+    service.semanticSearchForConfig(config(), query, { limit: 50, ...opts });
+
+  it("finds a paraphrase the full-text search misses", async () => {
+    assert.equal(store.searchMessages("when is the meetup").length, 0);
+    const hits = await search("when is the meetup");
+    assert.deepEqual(new Set(hits.slice(0, 2).map((h) => h.id)), new Set(["notes", "gathering"]));
+    assert.ok(hits[0]!.similarity! > hits.at(-1)!.similarity!);
+  });
+
+  it("ranks a message found both ways above one found only by meaning", async () => {
+    const hits = await search("meetup");
+    assert.deepEqual(hits.slice(0, 2).map((h) => h.id), ["notes", "gathering"]);
+    assert.ok(hits[0]!.snippet?.includes(">>>meetup<<<"));
+    assert.equal(hits[1]!.snippet, null);
+  });
+
+  it("applies the query's filters and the constraints", async () => {
+    assert.deepEqual((await search("meetup is:from-me")).map((h) => h.id), ["gathering"]);
+    assert.ok((await search("meetup")).every((h) => h.chat_jid === TEAM));
+  });
+
+  it("pages through the fused ranking", async () => {
+    const whole = (await search("meetup", { limit: 10 })).map((h) => h.id);
+    const first = await search("meetup", { limit: 2 });
+    const rest = await search("meetup", { limit: 10, cursor: first.next_cursor! });
+    assert.deepEqual([...first, ...rest].map((h) => h.id), whole);
+    assert.equal(rest.next_cursor, null);
+  });
+
+  it("is offered by wu_messages_search", async () => {
+    const { server, tools } = makeFakeMcp();
+    toolsMod.registerTools(server as never, () => undefined, config());
+    const res = JSON.parse((await tools.get("wu_messages_search")!.handler({ query: "meetup", limit: 1, semantic: true, paged: true })).content[0].text);
+    assert.equal(res.results[0].id, "notes");
+    assert.equal(typeof res.results[0].similarity, "number");
+    assert.ok(res.next_cursor);
+  });
+});
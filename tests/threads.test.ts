@@ -0,0 +1,174 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, mkdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { makeFakeMcp } from "./helpers/fake-mcp.js";
+
+const home = mkdtempSync(join(tmpdir(), "wu-threads-"));
+process.env.WU_HOME = home;
+mkdirSync(join(home, "auth"), { recursive: true });
+
+let database: typeof import("../src/db/database.js");
+let store: typeof import("../src/core/store.js");
+let threads: typeof import("../src/core/threads.js");
+let exporter: typeof import("../src/core/export.js");
+let constraints: typeof import("../src/core/constraints.js");
+let toolsMod: typeof import("../src/mcp/tools.js");
+let schema: typeof import("../src/config/schema.js");
+
+const TEAM = "team@g.us";
+const ALICE = "15550001111@s.whatsapp.net";
+const BOB = "15550002222@s.whatsapp.net";
+
+function config() {
+  return schema.WuConfigSchema.parse({ constraints: { default: "none", chats: { [TEAM]: { mode: "full" }, [ALICE]: { mode: "full" } } } });
+}
+
+function message(id: string, body: string, timestamp: number, quoted: string | null, extra: Partial<import("../src/core/store.js").MessageUpsert> = {}) {
+  store.upsertMessage({
+    id,
+    chat_jid: TEAM,
+    sender_jid: ALICE,
+    sender_name: "Alice",
+    body,
+    type: "text",
+    media_mime: null,
+    media_path: null,
+    media_size: null,
+    media_direct_path: null,
+    media_key: null,
+    media_file_sha256: null,
+    media_file_enc_sha256: null,
+    media_file_length: null,
+    quoted_id: quoted,
+    location_lat: null,
+    location_lon: null,
+    location_name: null,
+    is_from_me: 0,
+    timestamp,
+    raw: null,
+    ...extra,
+  });
+}
+
+const ids = (node: import("../src/core/threads.js").ThreadNode): unknown => [node.id, node.replies.map(ids)];
+
+before(async () => {
+  database = await import("../src/db/database.js");
+  store = await import("../src/core/store.js");
+  threads = await import("../src/core/threads.js");
+  exporter = await import("../src/core/export.js");
+  constraints = await import("../src/core/constraints.js");
+  toolsMod = await import("../src/mcp/tools.js");
+  schema = await import("../src/config/schema.js");
+  schema.saveConfig(config());
+  database.getDb();
+
+  // 2026-01-01 10:00 UTC onwards
+  message("q", "Lunch on Friday?", 1767261600, null);
+  message("a1", "Yes", 1767261660, "q", { sender_jid: BOB, sender_name: "Bob" });
+  message("other", "Unrelated", 1767261700, null);
+  message("a2", "Pizza?", 1767261720, "q");
+  message("a1-1", "Great", 1767261780, "a1");
+  message("private", "Can I bring someone?", 1767261800, "q", { chat_jid: ALICE });
+  message("orphan", "Agreed", 1767261900, "gone");
+});
+
+after(() => {
+  database.closeDb();
+  rmSync(home, { recursive: true, force: true });
+});
+
+describe("message threads", () => {
+  it("rebuilds the whole tree from any message in it", () => {
+    const thread = threads.messageThread("a1-1", config());
+    assert.equal(thread.message_id, "a1-1");
+    assert.equal(thread.size, 4);
+    // The private reply quotes q from another chat, so it isn't part of it.
+    assert.deepEqual(ids(thread.root), ["q", [["a1", [["a1-1", []]]], ["a2", []]]]);
+  });
+
+  it("starts at a reply whose quoted message isn't stored", () => {
+    const thread = threads.messageThread("orphan", config());
+    assert.deepEqual([thread.root.id, thread.root.quoted_id, thread.size], ["orphan", "gone", 1]);
+  });
+
+  it("refuses unknown messages and blocked chats", () => {
+    assert.throws(() => threads.messageThread("nope", config()), /Message not found: nope/);
+    const blocked = schema.WuConfigSchema.parse({ constraints: { default: "none" } });
+    assert.throws(() => threads.messageThread("q", blocked), /team@g\.us is blocked by constraints/);
+  });
+
+  it("leaves out messages the sender filter hides, and the replies under them", () => {
+    const aliceOnly = schema.WuConfigSchema.parse({
+      constraints: { default: "none", chats: { [TEAM]: { mode: "full", senders: [ALICE] } } },
+    });
+    assert.deepEqual(ids(threads.messageThread("q", aliceOnly).root), ["q", [["a2", []]]]);
+    // Walking up from Bob's reply's reply stops where Bob's message would be.
+    const thread = threads.messageThread("a1-1", aliceOnly);
+    assert.deepEqual([thread.root.id, thread.root.quoted_id, thread.size], ["a1-1", "a1", 1]);
+    assert.throws(() => threads.messageThread("a1", aliceOnly), /Message not found: a1/);
+  });
+
+  it("returns nested JSON from wu_messages_thread", async () => {
+    const { server, tools } = makeFakeMcp();
+    toolsMod.registerTools(server as never, () => undefined, config());
+    const res = JSON.parse((await tools.get("wu_messages_thread")!.handler({ message_id: "a2" })).content[0].text);
+    assert.equal(res.thread.id, "q");
+    assert.deepEqual(res.thread.replies.map((r: { id: string }) => r.id), ["a1", "a2"]);
+    assert.equal(res.thread.replies[0].replies[0].body, "Great");
+  });
+});
+
+describe("markdown export with threads", () => {
+  const exportMarkdown = (threadsOpt: boolean) => {
+    const output = join(home, `export-${threadsOpt}.md`);
+    const result = exporter.exportMessages({ chatJid: TEAM, format: "markdown", output, threads: threadsOpt });
+    return { result, text: readFileSync(output, "utf-8") };
+  };
+
+  it("nests replies under what they quote as blockquotes", () => {
+    const { result, text } = exportMarkdown(true);
+    assert.equal(result.messages_exported, 6);
+    const time = (ts: number) => new Date(ts * 1000).toTimeString().slice(0, 5);
+    assert.ok(
+      text.includes(
+        `### ${time(1767261600)} - Alice\nLunch on Friday?\n\n` +
+          `> **${time(1767261660)} - Bob**\n> Yes\n>\n` +
+          `> > **${time(1767261780)} - Alice**\n> > Great\n> >\n` +
+          `> **${time(1767261720)} - Alice**\n> Pizza?\n>\n\n` +
+          `### ${time(1767261700)} - Alice\nUnrelated\n\n`
+      ),
+      text
+    );
+    // Nested replies aren't repeated in the timeline; a reply to a message
+    // that isn't stored stays in it.
+    assert.equal(text.match(/Pizza\?/g)?.length, 1);
+    assert.match(text, /### \d\d:\d\d - Alice\nAgreed/);
+  });
+
+  it("doesn't nest replies the constraints hide", () => {
+    const aliceOnly = schema.WuConfigSchema.parse({
+      constraints: { default: "none", chats: { [TEAM]: { mode: "full", senders: [ALICE] } } },
+    });
+    const output = join(home, "export-filtered.md");
+    const result = exporter.exportMessages({
+      chatJid: TEAM,
+      format: "markdown",
+      output,
+      threads: true,
+      visiblePredicate: constraints.constraintSqlPredicate("chat_jid", aliceOnly, { message: constraints.MESSAGE_COLUMNS }),
+    });
+    const text = readFileSync(output, "utf-8");
+    assert.equal(result.messages_exported, 5);
+    assert.ok(!text.includes("Bob"), text);
+    // Its parent is hidden, so Alice's "Great" is back in the timeline.
+    assert.match(text, /### \d\d:\d\d - Alice\nGreat/);
+  });
+
+  it("keeps the flat timeline without it", () => {
+    const { text } = exportMarkdown(false);
+    assert.match(text, /### \d\d:\d\d - Bob\n↩ to Alice: Lunch on Friday\?\nYes/);
+  });
+});
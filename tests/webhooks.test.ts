@@ -0,0 +1,177 @@
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server, type IncomingHttpHeaders } from "http";
+import { createHmac } from "crypto";
+import { mkdtempSync, rmSync, mkdirSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import type { AddressInfo } from "net";
+import { makeFakeSocket } from "./helpers/fake-socket.js";
+
+const home = mkdtempSync(join(tmpdir(), "wu-webhooks-"));
+process.env.WU_HOME = home;
+mkdirSync(join(home, "auth"), { recursive: true });
+
+let database: typeof import("../src/db/database.js");
+let store: typeof import("../src/core/store.js");
+let listener: typeof import("../src/core/listener.js");
+let webhooks: typeof import("../src/core/webhooks.js");
+let schema: typeof import("../src/config/schema.js");
+
+// Local stand-in for a webhook receiver. `statuses` scripts the response codes
+// of the next requests (200 once it runs out).
+interface Received {
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+let server: Server;
+let baseUrl: string;
+let received: Received[] = [];
+let statuses: number[] = [];
+
+before(async () => {
+  database = await import("../src/db/database.js");
+  store = await import("../src/core/store.js");
+  listener = await import("../src/core/listener.js");
+  webhooks = await import("../src/core/webhooks.js");
+  schema = await import("../src/config/schema.js");
+  database.getDb();
+
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ path: req.url ?? "", headers: req.headers, body });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  database.closeDb();
+  rmSync(home, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  received = [];
+  statuses = [];
+});
+
+function configWith(hooks: Record<string, unknown>) {
+  return schema.WuConfigSchema.parse({
+    constraints: { default: "read" },
+    webhooks: hooks,
+  });
+}
+
+// Run a message through the listener (so it is stored as the daemon would)
+// and hand back what onMessage saw.
+function receive(config: ReturnType<typeof configWith>, chatJid: string, id: string, message: unknown) {
+  const { sock, emitUpsert } = makeFakeSocket();
+  const seen: import("../src/core/listener.js").ParsedMessage[] = [];
+  listener.startListener(sock, { config, quiet: true, onMessage: (m) => seen.push(m) });
+  emitUpsert([
+    {
+      key: { remoteJid: chatJid, id, fromMe: false, participant: "111@s.whatsapp.net" },
+      pushName: "Alice",
+      message,
+      messageTimestamp: 1700000000,
+    },
+  ]);
+  assert.equal(seen.length, 1);
+  return seen[0]!;
+}
+
+describe("webhooks", () => {
+  it("POSTs the export row with a verifiable signature", async () => {
+    process.env.WU_TEST_HOOK_SECRET = "s3cret";
+    const config = configWith({
+      crm: { url: `${baseUrl}/in`, secret_env: "WU_TEST_HOOK_SECRET" },
+    });
+    const msg = receive(config, "team@g.us", "wh-1", { conversation: "new lead" });
+
+    await webhooks.dispatchWebhooks(msg, config, { baseDelayMs: 5 });
+
+    assert.equal(received.length, 1);
+    const [hit] = received;
+    assert.equal(hit!.path, "/in");
+    assert.equal(hit!.headers["x-wu-event"], "message");
+    const expected = createHmac("sha256", "s3cret")
+      .update(`${hit!.headers["x-wu-timestamp"]}.${hit!.body}`)
+      .digest("hex");
+    assert.equal(hit!.headers["x-wu-signature"], `sha256=${expected}`);
+    assert.deepEqual(JSON.parse(hit!.body), {
+      id: "wh-1",
+      chat_jid: "team@g.us",
+      sender_jid: "111@s.whatsapp.net",
+      sender_name: "Alice",
+      body: "new lead",
+      type: "text",
+      timestamp: 1700000000,
+      media_mime: null,
+      media_path: null,
+      quoted_id: null,
+      is_from_me: 0,
+      edited_at: null,
+      reactions: [],
+    });
+  });
+
+  it("filters by chat pattern and message type", async () => {
+    const config = configWith({
+      groups: { url: `${baseUrl}/groups`, chats: ["*@g.us"] },
+      one: { url: `${baseUrl}/one`, chats: ["other@g.us"] },
+      images: { url: `${baseUrl}/images`, types: ["image"] },
+    });
+    const msg = receive(config, "team@g.us", "wh-2", { conversation: "hello" });
+
+    await webhooks.dispatchWebhooks(msg, config, { baseDelayMs: 5 });
+    assert.deepEqual(received.map((r) => r.path), ["/groups"]);
+    assert.equal(received[0]!.headers["x-wu-signature"], undefined, "unsigned without secret_env");
+  });
+
+  it("retries with backoff and dead-letters after the last attempt", async () => {
+    const config = configWith({
+      flaky: { url: `${baseUrl}/flaky`, max_attempts: 3 },
+      down: { url: `${baseUrl}/down`, chats: ["team@g.us"], max_attempts: 2 },
+    });
+    const msg = receive(config, "team@g.us", "wh-3", { conversation: "retry me" });
+
+    // Responses are handed out in arrival order across both hooks; every one
+    // fails, so each hook uses all its attempts.
+    statuses = [500, 500, 500, 500, 500];
+    await webhooks.dispatchWebhooks(msg, config, { baseDelayMs: 5 });
+
+    assert.equal(received.filter((r) => r.path === "/flaky").length, 3);
+    assert.equal(received.filter((r) => r.path === "/down").length, 2);
+    const deliveries = new Set(received.filter((r) => r.path === "/flaky").map((r) => r.headers["x-wu-delivery"]));
+    assert.equal(deliveries.size, 1, "retries keep the delivery id");
+
+    const dead = store.listWebhookDeadLetters();
+    assert.deepEqual(dead.map((d) => d.hook).sort(), ["down", "flaky"]);
+    const flaky = dead.find((d) => d.hook === "flaky")!;
+    assert.equal(flaky.message_id, "wh-3");
+    assert.equal(flaky.attempts, 3);
+    assert.equal(flaky.last_status, 500);
+    assert.equal(JSON.parse(flaky.payload).body, "retry me");
+
+    // Redelivery succeeds now and clears the dead letter.
+    received = [];
+    assert.equal(await webhooks.redeliverDeadLetter(flaky.id, config, { baseDelayMs: 5 }), true);
+    assert.equal(received.length, 1);
+    assert.equal(received[0]!.body, flaky.payload);
+    assert.equal(store.getWebhookDeadLetter(flaky.id), undefined);
+  });
+
+  it("skips our own messages unless include_from_me is set", () => {
+    const hook = schema.WuConfigSchema.parse({ webhooks: { h: { url: baseUrl } } }).webhooks.h!;
+    const own = { chatJid: "team@g.us", type: "text", isFromMe: true } as import("../src/core/listener.js").ParsedMessage;
+    assert.equal(webhooks.hookMatches(hook, own), false);
+    assert.equal(webhooks.hookMatches({ ...hook, include_from_me: true }, own), true);
+  });
+});